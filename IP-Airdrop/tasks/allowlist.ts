@@ -0,0 +1,29 @@
+import { task, types } from "hardhat/config";
+import { buildAllowlist, readRecipients, writeAllowlist } from "../utils/allowlist";
+
+// npx hardhat airdrop:allowlist --input recipients.csv --out allowlist [--contract 0x… --network …]
+task("airdrop:allowlist", "Construit la racine Merkle + preuves par adresse pour NFTAirdrop")
+  .addParam("input", "Fichier CSV (address,amount) ou JSON des destinataires")
+  .addOptionalParam("out", "Dossier de sortie", "allowlist", types.string)
+  .addOptionalParam("contract", "Adresse NFTAirdrop déployée: appelle setMerkleRoot", undefined, types.string)
+  .setAction(async ({ input, out, contract }, hre) => {
+    const recipients = await readRecipients(input);
+    const allowlist = buildAllowlist(recipients);
+    await writeAllowlist(out, allowlist);
+
+    console.log(`root: ${allowlist.root}`);
+    console.log(`${recipients.length} destinataires, ${allowlist.total} tokens → ${out}`);
+
+    if (contract !== undefined) {
+      const airdrop = await hre.ethers.getContractAt("NFTAirdrop", contract);
+      if ((await airdrop.merkleRoot()) === allowlist.root) {
+        console.log("setMerkleRoot: racine déjà à jour");
+      } else {
+        const tx = await airdrop.setMerkleRoot(allowlist.root);
+        await tx.wait();
+        console.log(`setMerkleRoot: ${tx.hash}`);
+      }
+    }
+
+    return allowlist;
+  });
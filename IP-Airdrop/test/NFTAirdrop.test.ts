@@ -1,20 +1,14 @@
 import { expect } from "chai";
-import { ethers } from "hardhat";
-import { MerkleTree } from "merkletreejs";
-import keccak256 from "keccak256";
-
-function leafFor(addr: string, amount: number): string {
-  return ethers.keccak256(
-    ethers.solidityPacked(["address", "uint256"], [addr, amount])
-  );
-}
+import hre, { ethers } from "hardhat";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { buildAllowlist, parseCsv, validateRecipients, Allowlist } from "../utils/allowlist";
 
 function buildTree(entries: Array<[string, number]>) {
-  const leaves = entries.map(([a, n]) => Buffer.from(leafFor(a, n).slice(2), "hex"));
-  const tree = new MerkleTree(leaves, keccak256, { sortPairs: true });
-  const root = "0x" + tree.getRoot().toString("hex");
-  const getProofHex = (idx: number) => tree.getHexProof(leaves[idx]);
-  return { tree, root, getProofHex };
+  const allowlist = buildAllowlist(validateRecipients(entries.map(([address, amount]) => ({ address, amount }))));
+  const getProofHex = (idx: number) => allowlist.entries[entries[idx][0]].proof;
+  return { root: allowlist.root, getProofHex };
 }
 
 describe("NFTAirdrop (full features)", () => {
@@ -97,4 +91,61 @@ describe("NFTAirdrop (full features)", () => {
     await expect(c.connect(alice).claim(getProofHex(0), 1))
       .to.be.revertedWith("CLAIMS_LOCKED");
   });
+
+  it("allowlist: rejette doublons, checksum invalide et montants nuls", async () => {
+    const [, alice, bob] = await ethers.getSigners();
+
+    expect(() =>
+      validateRecipients([
+        { address: alice.address, amount: 1 },
+        { address: bob.address, amount: 2 },
+        { address: alice.address.toLowerCase(), amount: 3 },
+      ])
+    ).to.throw(/Adresses en double: .*lignes 1 et 3/);
+
+    // exemple EIP-55 (0x5aAeb605…) avec une casse inversée => checksum faux
+    expect(() =>
+      validateRecipients([{ address: "0x5aaeb6053F3E94C9b9A09f33669435E7Ef1BeAed", amount: 1 }])
+    ).to.throw(/checksum invalide/);
+
+    expect(() => validateRecipients([{ address: "0x1234", amount: 1 }])).to.throw(/adresse invalide/);
+    expect(() => validateRecipients([{ address: bob.address, amount: 0 }])).to.throw(/montant doit être > 0/);
+    expect(() => validateRecipients([{ address: bob.address, amount: "1.5" }])).to.throw(/montant invalide/);
+
+    // adresses en minuscules acceptées puis normalisées
+    const [r] = validateRecipients(parseCsv(`address,amount\n${bob.address.toLowerCase()},2\n`));
+    expect(r.address).to.eq(bob.address);
+    expect(r.amount).to.eq(2n);
+  });
+
+  it("airdrop:allowlist écrit racine + preuves et met à jour setMerkleRoot", async () => {
+    const [owner, alice, bob, charlie] = await ethers.getSigners();
+
+    const Factory = await ethers.getContractFactory("NFTAirdrop");
+    const c = await Factory.deploy("MyNFT", "MNFT", "", ethers.ZeroHash, owner.address);
+    await c.waitForDeployment();
+
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "airdrop-"));
+    const input = path.join(dir, "recipients.json");
+    await fs.writeFile(input, JSON.stringify({ [alice.address]: 1, [bob.address]: "2", [charlie.address]: 3 }));
+    const out = path.join(dir, "out");
+
+    const allowlist: Allowlist = await hre.run("airdrop:allowlist", {
+      input,
+      out,
+      contract: await c.getAddress(),
+    });
+    expect(await c.merkleRoot()).to.eq(allowlist.root);
+    expect(allowlist.total).to.eq("6");
+
+    const written = JSON.parse(await fs.readFile(path.join(out, "allowlist.json"), "utf8"));
+    expect(written.root).to.eq(allowlist.root);
+
+    const bobProof = JSON.parse(await fs.readFile(path.join(out, "proofs", `${bob.address}.json`), "utf8"));
+    expect(bobProof.amount).to.eq("2");
+    await expect(c.connect(bob).claim(bobProof.proof, bobProof.amount)).to.emit(c, "Transfer");
+    expect(await c.balanceOf(bob.address)).to.eq(2);
+
+    await fs.rm(dir, { recursive: true, force: true });
+  });
 });
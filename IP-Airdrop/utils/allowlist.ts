@@ -0,0 +1,136 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import { MerkleTree } from "merkletreejs";
+import keccak256 from "keccak256";
+
+export interface Recipient {
+  address: string; // checksummed
+  amount: bigint;
+}
+
+export interface AllowlistEntry {
+  amount: string; // décimal (JSON ne sait pas sérialiser bigint)
+  proof: string[];
+}
+
+export interface Allowlist {
+  root: string;
+  total: string;
+  entries: Record<string, AllowlistEntry>;
+}
+
+// leaf = keccak256(abi.encodePacked(account, amount)) — identique à NFTAirdrop.claim
+export function leafFor(address: string, amount: bigint | number): string {
+  return ethers.keccak256(ethers.solidityPacked(["address", "uint256"], [address, amount]));
+}
+
+function normalizeAddress(raw: string, where: string): string {
+  const value = raw.trim();
+  if (!ethers.isHexString(value, 20)) {
+    throw new Error(`${where}: adresse invalide "${raw}"`);
+  }
+  try {
+    // tout en minuscules => accepté ; casse mixte => checksum EIP-55 vérifié
+    return ethers.getAddress(value);
+  } catch {
+    throw new Error(`${where}: checksum invalide pour "${raw}"`);
+  }
+}
+
+function parseAmount(raw: unknown, where: string): bigint {
+  const value = typeof raw === "string" ? raw.trim() : raw;
+  if (
+    !(typeof value === "number" && Number.isSafeInteger(value)) &&
+    !(typeof value === "string" && /^\d+$/.test(value)) &&
+    typeof value !== "bigint"
+  ) {
+    throw new Error(`${where}: montant invalide "${String(raw)}"`);
+  }
+  const amount = BigInt(value as string | number | bigint);
+  if (amount <= 0n) throw new Error(`${where}: montant doit être > 0`);
+  return amount;
+}
+
+// Valide adresses (checksum) et montants, rejette les doublons (insensible à la casse).
+export function validateRecipients(rows: Array<{ address: string; amount: unknown }>): Recipient[] {
+  if (rows.length === 0) throw new Error("Liste de destinataires vide");
+
+  const seen = new Map<string, number>();
+  const duplicates: string[] = [];
+  const recipients = rows.map((row, i) => {
+    const where = `ligne ${i + 1}`;
+    const address = normalizeAddress(String(row.address ?? ""), where);
+    const amount = parseAmount(row.amount, where);
+    if (seen.has(address)) {
+      duplicates.push(`${address} (lignes ${seen.get(address)! + 1} et ${i + 1})`);
+    } else {
+      seen.set(address, i);
+    }
+    return { address, amount };
+  });
+
+  if (duplicates.length > 0) {
+    throw new Error(`Adresses en double: ${duplicates.join(", ")}`);
+  }
+  return recipients;
+}
+
+// CSV `address,amount` (en-tête optionnel, lignes vides et `#` ignorées).
+export function parseCsv(content: string): Array<{ address: string; amount: string }> {
+  const rows: Array<{ address: string; amount: string }> = [];
+  const lines = content.split(/\r?\n/);
+  lines.forEach((line, i) => {
+    const trimmed = line.trim();
+    if (trimmed === "" || trimmed.startsWith("#")) return;
+    const cols = trimmed.split(",").map((c) => c.trim());
+    if (cols.length !== 2) throw new Error(`ligne ${i + 1}: attendu "address,amount"`);
+    if (rows.length === 0 && cols[0].toLowerCase() === "address") return; // en-tête
+    rows.push({ address: cols[0], amount: cols[1] });
+  });
+  return rows;
+}
+
+// JSON: `[{ "address": "0x…", "amount": 2 }, …]` ou `{ "0x…": 2, … }`.
+export function parseJson(content: string): Array<{ address: string; amount: unknown }> {
+  const data = JSON.parse(content);
+  if (Array.isArray(data)) {
+    return data.map((row) => ({ address: row?.address, amount: row?.amount }));
+  }
+  if (data !== null && typeof data === "object") {
+    return Object.entries(data).map(([address, amount]) => ({ address, amount }));
+  }
+  throw new Error("JSON attendu: tableau ou objet address → amount");
+}
+
+export async function readRecipients(file: string): Promise<Recipient[]> {
+  const content = await fs.readFile(file, "utf8");
+  const rows = path.extname(file).toLowerCase() === ".json" ? parseJson(content) : parseCsv(content);
+  return validateRecipients(rows);
+}
+
+// Arbre compatible OpenZeppelin MerkleProof (paires triées, pas de double hash).
+export function buildAllowlist(recipients: Recipient[]): Allowlist {
+  const leaves = recipients.map((r) => Buffer.from(leafFor(r.address, r.amount).slice(2), "hex"));
+  const tree = new MerkleTree(leaves, keccak256, { sortPairs: true });
+
+  const entries: Record<string, AllowlistEntry> = {};
+  let total = 0n;
+  recipients.forEach((r, i) => {
+    entries[r.address] = { amount: r.amount.toString(), proof: tree.getHexProof(leaves[i]) };
+    total += r.amount;
+  });
+
+  return { root: tree.getHexRoot(), total: total.toString(), entries };
+}
+
+// Écrit `<outDir>/allowlist.json` (racine + tout) et `<outDir>/proofs/<address>.json`.
+export async function writeAllowlist(outDir: string, allowlist: Allowlist): Promise<void> {
+  const proofsDir = path.join(outDir, "proofs");
+  await fs.mkdir(proofsDir, { recursive: true });
+  await fs.writeFile(path.join(outDir, "allowlist.json"), JSON.stringify(allowlist, null, 2) + "\n");
+  for (const [address, entry] of Object.entries(allowlist.entries)) {
+    const file = path.join(proofsDir, `${address}.json`);
+    await fs.writeFile(file, JSON.stringify({ address, ...entry }, null, 2) + "\n");
+  }
+}
@@ -2,6 +2,7 @@
 pragma solidity ^0.8.20;
 
 import "./LicenseManager.sol";
+import "./IVotingStrategy.sol";
 
 abstract contract Governance is LicenseManager {
     // Governance proposal structs
@@ -68,6 +69,8 @@ abstract contract Governance is LicenseManager {
     event RevenuePolicyUpdated(uint256 indexed proposalId, uint256 indexed assetId, address tokenAddress, uint256 newMinimumDistribution, address executedBy, uint64 timestamp);
     event EmergencyActionExecuted(uint256 indexed proposalId, bytes32 actionType, uint256 targetId, address executedBy, uint64 timestamp);
     event GovernanceSettingsUpdated(uint256 indexed assetId, address updatedBy, uint64 timestamp);
+    event VotingStrategyUpdated(uint256 indexed assetId, address strategy, address updatedBy, uint64 timestamp);
+    event VotingStrategyApprovalUpdated(address indexed strategy, bool approved, uint64 timestamp);
 
     // Governance storage
     mapping(uint256 => GovernanceProposal) public governanceProposals;
@@ -79,6 +82,10 @@ abstract contract Governance is LicenseManager {
     mapping(uint256 => mapping(address => bool)) public governanceVotes;  // records last vote per voter (optional/unused in logic)
     uint256 public nextGovernanceProposalId = 1;
     mapping(uint256 => uint256[]) public activeProposalsForAsset;
+    mapping(uint256 => IVotingStrategy) public votingStrategy;                   // assetId -> strategy (address(0) = token-weighted)
+    mapping(address => bool) public approvedVotingStrategy;                      // strategies asset owners may select
+    mapping(uint256 => address) public proposalVotingStrategy;                   // proposalId -> strategy used for its snapshot
+    mapping(uint256 => mapping(address => uint256)) public proposalVotingWeight; // proposalId -> (voter -> weight snapshotted at creation)
 
     // Set governance parameters for an asset
     function setGovernanceSettings(uint256 assetId, GovernanceSettings calldata settings) external onlyAssetOwner(assetId) returns (bool) {
@@ -90,6 +97,23 @@ abstract contract Governance is LicenseManager {
         return true;
     }
 
+    // Allowlist of voting strategies, kept by the contract owner: a strategy decides every vote weight,
+    // so an asset owner may only pick a reviewed one
+    function setVotingStrategyApproval(address strategy, bool approved) external onlyOwner returns (bool) {
+        require(strategy.code.length > 0, "Strategy not a contract");
+        approvedVotingStrategy[strategy] = approved;
+        emit VotingStrategyApprovalUpdated(strategy, approved, _now());
+        return true;
+    }
+
+    // Select an approved voting strategy for an asset (address(0) = token-weighted); applies to proposals created afterwards
+    function setVotingStrategy(uint256 assetId, IVotingStrategy strategy) external onlyAssetOwner(assetId) returns (bool) {
+        require(address(strategy) == address(0) || approvedVotingStrategy[address(strategy)], "Strategy not approved");
+        votingStrategy[assetId] = strategy;
+        emit VotingStrategyUpdated(assetId, address(strategy), _msgSender(), _now());
+        return true;
+    }
+
     function getGovernanceSettings(uint256 assetId) public view returns (GovernanceSettings memory) {
         GovernanceSettings memory s = governanceSettings[assetId];
         if (s.defaultQuorumPercentage == 0) {
@@ -153,11 +177,12 @@ abstract contract Governance is LicenseManager {
         require(p.proposalId != 0, "No proposal");
         require(!p.isExecuted && !p.isCancelled, "Proposal closed");
         require(_now() < p.votingDeadline, "Voting ended");
-        require(isOwner(p.assetId, _msgSender()), "Only asset owners can vote");
         require(!governanceHasVoted[proposalId][_msgSender()], "Already voted");
+        // weights are snapshotted at creation: shares transferred mid-vote can't be counted twice
+        uint256 weight = proposalVotingWeight[proposalId][_msgSender()];
+        require(weight > 0, "No voting weight");
 
         governanceHasVoted[proposalId][_msgSender()] = true;
-        uint256 weight = getGovernanceWeight(p.assetId, _msgSender());
         if (voteFor) {
             p.votesFor += weight;
         } else {
@@ -355,7 +380,7 @@ abstract contract Governance is LicenseManager {
         uint256 proposalId = nextGovernanceProposalId++;
         GovernanceSettings memory s = getGovernanceSettings(assetId);
         uint64 nowTs = _now();
-        uint256 totalWeight = _calculateTotalVotingWeight(assetId);
+        uint256 totalWeight = _snapshotVotingWeights(proposalId, assetId);
         uint256 quorum = _calculateQuorumRequired(proposalType, totalWeight, s);
 
         GovernanceProposal storage p = governanceProposals[proposalId];
@@ -392,12 +417,31 @@ abstract contract Governance is LicenseManager {
         emit GovernanceProposalCreated(proposalId, assetId, proposalType, proposer, quorum, votingDeadline, description, timestamp);
     }
 
-    function _calculateTotalVotingWeight(uint256 assetId) internal view returns (uint256) {
-        address[] memory owners = _assetOwners[assetId];
+    // Record each voter's weight for the proposal under the asset's strategy; returns the total
+    function _snapshotVotingWeights(uint256 proposalId, uint256 assetId) internal returns (uint256) {
+        IVotingStrategy strategy = votingStrategy[assetId];
+        // a strategy withdrawn from the allowlist no longer applies: back to token-weighted
+        if (!approvedVotingStrategy[address(strategy)]) strategy = IVotingStrategy(address(0));
+        address[] memory voters;
+        uint256[] memory weights;
+        if (address(strategy) == address(0)) {
+            voters = _assetOwners[assetId];
+            weights = new uint256[](voters.length);
+            for (uint256 i = 0; i < voters.length; i++) {
+                weights[i] = governanceWeight[assetId][voters[i]];
+            }
+        } else {
+            (voters, weights) = strategy.snapshotWeights(address(this), assetId);
+            require(voters.length == weights.length, "Length mismatch");
+        }
+
         uint256 total = 0;
-        for (uint256 i = 0; i < owners.length; i++) {
-            total += governanceWeight[assetId][owners[i]];
+        for (uint256 i = 0; i < voters.length; i++) {
+            if (weights[i] == 0) continue;
+            proposalVotingWeight[proposalId][voters[i]] += weights[i];
+            total += weights[i];
         }
+        proposalVotingStrategy[proposalId] = address(strategy);
         return total;
     }
 
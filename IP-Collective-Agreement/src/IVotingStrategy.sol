@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// Ownership views of the collective core that voting strategies read from
+interface IOwnershipRegistryView {
+    function getAssetOwners(uint256 assetId) external view returns (address[] memory);
+    function isOwner(uint256 assetId, address addr) external view returns (bool);
+    function getGovernanceWeight(uint256 assetId, address owner_) external view returns (uint256);
+    function governanceDelegate(uint256 assetId, address owner_) external view returns (address);
+}
+
+// Pluggable vote weighting for Governance proposals.
+// Governance calls snapshotWeights once, at proposal creation, and votes on that proposal
+// use the snapshot; an address may appear several times (its weights add up).
+interface IVotingStrategy {
+    function snapshotWeights(address registry, uint256 assetId)
+        external
+        view
+        returns (address[] memory voters, uint256[] memory weights);
+}
@@ -14,12 +14,15 @@ abstract contract OwnershipRegistry is BaseCore {
     // Events for ownership changes
     event CollectiveOwnershipRegistered(uint256 indexed assetId, uint32 totalOwners, uint64 timestamp);
     event IPOwnershipTransferred(uint256 indexed assetId, address indexed from, address indexed to, uint256 percentage, uint64 timestamp);
+    event GovernanceDelegated(uint256 indexed assetId, address indexed owner, address indexed delegatee, uint64 timestamp);
 
     // Ownership mappings
     mapping(uint256 => OwnershipInfo) public ownershipInfo;
     mapping(uint256 => mapping(address => uint256)) public ownerPercentage;   // assetId -> (owner -> ownership percentage)
     mapping(uint256 => mapping(address => uint256)) public governanceWeight;  // assetId -> (owner -> governance weight)
-    mapping(uint256 => address[]) internal _assetOwners;                     // assetId -> list of current owners
+    mapping(uint256 => address[]) internal _assetOwners;                     // assetId -> list of current and former owners, each once
+    mapping(uint256 => mapping(address => bool)) internal _listedOwner;      // assetId -> (address -> in _assetOwners)
+    mapping(uint256 => mapping(address => address)) public governanceDelegate; // assetId -> (owner -> delegatee), address(0) = votes directly
 
     // Modifier to restrict actions to asset owners
     modifier onlyAssetOwner(uint256 assetId) {
@@ -51,12 +54,17 @@ abstract contract OwnershipRegistry is BaseCore {
         });
 
         // Reset and set up owners list with percentages and weights
+        address[] storage listed = _assetOwners[assetId];
+        for (uint256 i = 0; i < listed.length; i++) {
+            _listedOwner[assetId][listed[i]] = false;
+        }
         delete _assetOwners[assetId];
         for (uint256 i = 0; i < owners.length; i++) {
             address o = owners[i];
             ownerPercentage[assetId][o]  = ownershipPercentages[i];
             governanceWeight[assetId][o] = governanceWeights[i];
             _assetOwners[assetId].push(o);
+            _listedOwner[assetId][o] = true;
         }
 
         emit CollectiveOwnershipRegistered(assetId, uint32(owners.length), _now());
@@ -88,9 +96,11 @@ abstract contract OwnershipRegistry is BaseCore {
         uint256 toCurrent = ownerPercentage[assetId][to];
         ownerPercentage[assetId][to] = toCurrent + percentage;
 
-        // If the recipient was not an owner before, add to owner list
-        if (toCurrent == 0) {
+        // Add the recipient to the owner list unless already there (a former owner keeps its entry
+        // with a zero share); a second entry would count its governance weight twice
+        if (toCurrent == 0 && !_listedOwner[assetId][to]) {
             _assetOwners[assetId].push(to);
+            _listedOwner[assetId][to] = true;
             ownershipInfo[assetId].totalOwners += 1;
         }
 
@@ -104,6 +114,15 @@ abstract contract OwnershipRegistry is BaseCore {
         return true;
     }
 
+    // Delegate governance weight to another address (used by the delegated voting strategy).
+    // Delegation is not transitive; delegating to address(0) or to oneself revokes it.
+    function delegateGovernanceWeight(uint256 assetId, address delegatee) external whenNotPaused onlyAssetOwner(assetId) returns (bool) {
+        address d = delegatee == _msgSender() ? address(0) : delegatee;
+        governanceDelegate[assetId][_msgSender()] = d;
+        emit GovernanceDelegated(assetId, _msgSender(), d, _now());
+        return true;
+    }
+
     // Check ownership and governance rights
     function isOwner(uint256 assetId, address addr) public view returns (bool) {
         return ownerPercentage[assetId][addr] > 0;
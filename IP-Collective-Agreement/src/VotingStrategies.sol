@@ -0,0 +1,69 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./IVotingStrategy.sol";
+
+// Base: one entry per current owner, weight derived from the owner's governance weight
+abstract contract OwnerWeightStrategy is IVotingStrategy {
+    function snapshotWeights(address registry, uint256 assetId)
+        external
+        view
+        virtual
+        returns (address[] memory voters, uint256[] memory weights)
+    {
+        IOwnershipRegistryView r = IOwnershipRegistryView(registry);
+        voters = r.getAssetOwners(assetId);
+        weights = new uint256[](voters.length);
+        for (uint256 i = 0; i < voters.length; i++) {
+            // former owners stay in the owners list with a zero share
+            if (r.isOwner(assetId, voters[i])) {
+                weights[i] = _weight(r.getGovernanceWeight(assetId, voters[i]));
+            }
+        }
+    }
+
+    function _weight(uint256 governanceWeight) internal pure virtual returns (uint256);
+}
+
+// Token-weighted: governance weight as registered (default Governance behaviour)
+contract TokenWeightedStrategy is OwnerWeightStrategy {
+    function _weight(uint256 governanceWeight) internal pure override returns (uint256) {
+        return governanceWeight;
+    }
+}
+
+// Quadratic: square root of the governance weight, dampens large holders
+contract QuadraticStrategy is OwnerWeightStrategy {
+    function _weight(uint256 governanceWeight) internal pure override returns (uint256) {
+        return Math.sqrt(governanceWeight);
+    }
+}
+
+// One owner, one vote, whatever the share held
+contract OneOwnerOneVoteStrategy is OwnerWeightStrategy {
+    function _weight(uint256) internal pure override returns (uint256) {
+        return 1;
+    }
+}
+
+// Token-weighted, with each owner's weight credited to its delegatee (see OwnershipRegistry.delegateGovernanceWeight).
+// Delegatees need not be owners themselves.
+contract DelegatedStrategy is IVotingStrategy {
+    function snapshotWeights(address registry, uint256 assetId)
+        external
+        view
+        returns (address[] memory voters, uint256[] memory weights)
+    {
+        IOwnershipRegistryView r = IOwnershipRegistryView(registry);
+        voters = r.getAssetOwners(assetId);
+        weights = new uint256[](voters.length);
+        for (uint256 i = 0; i < voters.length; i++) {
+            address owner_ = voters[i];
+            if (!r.isOwner(assetId, owner_)) continue;
+            weights[i] = r.getGovernanceWeight(assetId, owner_);
+            address delegatee = r.governanceDelegate(assetId, owner_);
+            if (delegatee != address(0)) voters[i] = delegatee;
+        }
+    }
+}
@@ -0,0 +1,169 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { CollectiveIPCore, IVotingStrategy } from "../typechain-types";
+
+const b32 = (s: string) => ethers.encodeBytes32String(s);
+
+describe("Governance voting strategies", function () {
+  const PCT = [60, 30, 10];
+  const GOV = [600, 300, 100];
+  const assetId = 1n;
+
+  let owner: HardhatEthersSigner, a1: HardhatEthersSigner, a2: HardhatEthersSigner, a3: HardhatEthersSigner;
+  let outsider: HardhatEthersSigner;
+
+  before(async () => {
+    [owner, a1, a2, a3, outsider] = await ethers.getSigners();
+  });
+
+  // Fresh core with one asset owned 60/30/10 (governance weights 600/300/100)
+  async function deployStrategy(name: string): Promise<IVotingStrategy> {
+    const strategy = await (await ethers.getContractFactory(name)).deploy();
+    await strategy.waitForDeployment();
+    return strategy as unknown as IVotingStrategy;
+  }
+
+  async function deployCore(strategyName?: string) {
+    const Core = await ethers.getContractFactory("CollectiveIPCore");
+    const core = (await Core.deploy(owner.address)) as unknown as CollectiveIPCore;
+    await core.waitForDeployment();
+    await core
+      .connect(owner)
+      .registerIpAsset(b32("ART"), "ipfs://asset/1.json", [a1.address, a2.address, a3.address], PCT, GOV);
+
+    let strategy: IVotingStrategy | undefined;
+    if (strategyName) {
+      strategy = await deployStrategy(strategyName);
+      await core.connect(owner).setVotingStrategyApproval(await strategy.getAddress(), true);
+      await expect(core.connect(a1).setVotingStrategy(assetId, await strategy.getAddress()))
+        .to.emit(core, "VotingStrategyUpdated");
+    }
+    return { core, strategy };
+  }
+
+  async function propose(core: CollectiveIPCore, proposer: HardhatEthersSigner): Promise<bigint> {
+    const tx = await core.connect(proposer).proposeAssetManagement(
+      assetId,
+      { newMetadataUri: "ipfs://asset/1-v2.json", newComplianceStatus: b32("PENDING"), updateMetadata: true, updateCompliance: false },
+      3600,
+      "Update metadata"
+    );
+    const rec = await tx.wait();
+    const created = rec!.logs
+      .map((l) => core.interface.parseLog(l))
+      .find((e) => e?.name === "GovernanceProposalCreated");
+    return created!.args.proposalId;
+  }
+
+  it("token-weighted by default; weights snapshotted so a share transfer mid-vote can't double count", async () => {
+    const { core } = await deployCore();
+    const pid = await propose(core, a1);
+    expect(await core.proposalVotingStrategy(pid)).to.equal(ethers.ZeroAddress);
+    expect(await core.proposalVotingWeight(pid, a1.address)).to.equal(600n);
+
+    await core.connect(a1).voteOnGovernanceProposal(pid, false);
+    // a1 hands its whole share to a2, who then votes: only its own snapshot weight counts
+    await core.connect(a1).transferOwnershipShare(assetId, a1.address, a2.address, 60);
+    await core.connect(a2).voteOnGovernanceProposal(pid, true);
+
+    const [votesFor, votesAgainst, totalWeight] = await core.getGovernanceProposalB(pid);
+    expect(votesFor).to.equal(300n); // a2's snapshot weight, not 900
+    expect(votesAgainst).to.equal(600n);
+    expect(totalWeight).to.equal(1000n);
+    expect(await core.getGovernanceWeight(assetId, a2.address)).to.equal(900n);
+
+    // new proposals see the new distribution
+    const next = await propose(core, a2);
+    expect(await core.proposalVotingWeight(next, a2.address)).to.equal(900n);
+    expect(await core.proposalVotingWeight(next, a1.address)).to.equal(0n);
+    await expect(core.connect(a1).voteOnGovernanceProposal(next, true)).to.be.revertedWith("No voting weight");
+  });
+
+  it("quadratic and one-owner-one-vote strategies", async () => {
+    const { core: quadratic } = await deployCore("QuadraticStrategy");
+    const qp = await propose(quadratic, a1);
+    expect(await quadratic.proposalVotingWeight(qp, a1.address)).to.equal(24n); // floor(sqrt(600))
+    expect(await quadratic.proposalVotingWeight(qp, a2.address)).to.equal(17n);
+    expect(await quadratic.proposalVotingWeight(qp, a3.address)).to.equal(10n);
+    expect((await quadratic.getGovernanceProposalB(qp))[2]).to.equal(51n);
+
+    const { core, strategy } = await deployCore("OneOwnerOneVoteStrategy");
+    const pid = await propose(core, a1);
+    expect(await core.proposalVotingStrategy(pid)).to.equal(await strategy!.getAddress());
+    // quorum (60% by default for asset management) on 3 votes
+    const [, , totalWeight, quorum] = await core.getGovernanceProposalB(pid);
+    expect(totalWeight).to.equal(3n);
+    expect(quorum).to.equal(1n);
+
+    // the two minority owners outvote the majority holder
+    await core.connect(a1).voteOnGovernanceProposal(pid, false);
+    await core.connect(a2).voteOnGovernanceProposal(pid, true);
+    await core.connect(a3).voteOnGovernanceProposal(pid, true);
+    await time.increase(3600 + 5);
+    await core.executeAssetManagementProposal(pid);
+    expect(await core.getAssetURI(assetId)).to.equal("ipfs://asset/1-v2.json");
+  });
+
+  it("delegated strategy credits owners' weight to their delegatee", async () => {
+    const { core } = await deployCore("DelegatedStrategy");
+    await expect(core.connect(outsider).delegateGovernanceWeight(assetId, outsider.address)).to.be.revertedWith("Not asset owner");
+    await expect(core.connect(a2).delegateGovernanceWeight(assetId, outsider.address))
+      .to.emit(core, "GovernanceDelegated")
+      .withArgs(assetId, a2.address, outsider.address, (ts: bigint) => ts > 0n);
+    await core.connect(a3).delegateGovernanceWeight(assetId, outsider.address);
+
+    const pid = await propose(core, a1);
+    expect(await core.proposalVotingWeight(pid, outsider.address)).to.equal(400n);
+    expect(await core.proposalVotingWeight(pid, a2.address)).to.equal(0n);
+    await expect(core.connect(a2).voteOnGovernanceProposal(pid, true)).to.be.revertedWith("No voting weight");
+
+    // delegation changes after creation don't affect the open proposal
+    await core.connect(a3).delegateGovernanceWeight(assetId, a3.address);
+    expect(await core.governanceDelegate(assetId, a3.address)).to.equal(ethers.ZeroAddress);
+    await core.connect(outsider).voteOnGovernanceProposal(pid, true);
+    expect((await core.getGovernanceProposalB(pid))[0]).to.equal(400n);
+
+    const next = await propose(core, a1);
+    expect(await core.proposalVotingWeight(next, outsider.address)).to.equal(300n);
+    expect(await core.proposalVotingWeight(next, a3.address)).to.equal(100n);
+  });
+
+  it("a returning owner is listed once: no double-counted weight in snapshots", async () => {
+    const { core } = await deployCore();
+    await core.connect(a1).transferOwnershipShare(assetId, a1.address, a2.address, 60);
+    await core.connect(a2).transferOwnershipShare(assetId, a2.address, a1.address, 30);
+    expect(await core.getAssetOwners(assetId)).to.deep.equal([a1.address, a2.address, a3.address]);
+    expect((await core.getOwnershipInfo(assetId)).totalOwners).to.equal(3n);
+
+    const pid = await propose(core, a1);
+    expect(await core.proposalVotingWeight(pid, a1.address)).to.equal(300n);
+    expect(await core.proposalVotingWeight(pid, a2.address)).to.equal(600n);
+    expect((await core.getGovernanceProposalB(pid))[2]).to.equal(1000n);
+  });
+
+  it("asset owners only pick strategies approved by the contract owner", async () => {
+    const { core } = await deployCore();
+    const strategy = await deployStrategy("OneOwnerOneVoteStrategy");
+    const strategyAddr = await strategy.getAddress();
+
+    // a co-owner cannot install an arbitrary strategy
+    await expect(core.connect(a1).setVotingStrategy(assetId, strategyAddr)).to.be.revertedWith("Strategy not approved");
+    await expect(core.connect(a1).setVotingStrategyApproval(strategyAddr, true)).to.be.reverted;
+    await expect(core.connect(owner).setVotingStrategyApproval(outsider.address, true)).to.be.revertedWith("Strategy not a contract");
+    await expect(core.connect(owner).setVotingStrategyApproval(strategyAddr, true))
+      .to.emit(core, "VotingStrategyApprovalUpdated")
+      .withArgs(strategyAddr, true, (ts: bigint) => ts > 0n);
+
+    await expect(core.connect(outsider).setVotingStrategy(assetId, ethers.ZeroAddress)).to.be.revertedWith("Not asset owner");
+    await core.connect(a1).setVotingStrategy(assetId, strategyAddr);
+    expect((await core.getGovernanceProposalB(await propose(core, a1)))[2]).to.equal(3n);
+
+    // withdrawing the approval falls back to token-weighted for new proposals
+    await core.connect(owner).setVotingStrategyApproval(strategyAddr, false);
+    const pid = await propose(core, a1);
+    expect(await core.proposalVotingStrategy(pid)).to.equal(ethers.ZeroAddress);
+    expect((await core.getGovernanceProposalB(pid))[2]).to.equal(1000n);
+  });
+});
@@ -48,6 +48,50 @@ contract IPCommissionEscrow {
     /// @dev Jeton ERC20 utilisé pour l’escrow.
     IERC20 public immutable token;
 
+    /// @dev Litige sur une commande payée: fonds gelés jusqu’à la décision ou au délai.
+    struct Dispute {
+        address opened_by;
+        uint64 opened_at;
+        uint64 response_deadline; // au-delà, un créateur resté muet perd le litige
+        bool creator_responded;
+        uint16 supplier_bps;      // part du fournisseur décidée par l’arbitre
+    }
+
+    /// @dev Administrateur (déployeur): nomme l’arbitre et règle les délais.
+    address public owner;
+
+    /// @dev Arbitre des litiges: EOA ou multisig (seule l’adresse appelante compte).
+    address public arbitrator;
+
+    /// @dev Délai laissé au créateur pour valider une livraison avant libération automatique.
+    uint64 public review_period;
+
+    /// @dev Délai laissé au créateur pour répondre à un litige ouvert par le fournisseur.
+    uint64 public response_period;
+
+    /// @dev order_id => date de livraison déclarée par le fournisseur (0 = non livrée)
+    mapping(uint256 => uint64) public delivered_at;
+
+    /// @dev Étape d’une commande échelonnée (esquisse, brouillon, version finale…).
+    struct Milestone {
+        uint256 amount;
+        bytes32 deliverable_hash; // hash du livrable soumis (0 = pas encore soumis)
+        uint64 submitted_at;      // départ de la fenêtre de revue
+        bool released;
+    }
+
+    /// @dev order_id => étapes (vide pour une commande forfaitaire)
+    mapping(uint256 => Milestone[]) private milestones;
+
+    /// @dev order_id => montant déjà versé au fournisseur
+    mapping(uint256 => uint256) public orders_released;
+
+    /// @dev order_id => litige
+    mapping(uint256 => Dispute) private disputes;
+
+    /// @dev order_id => partie => URIs de preuves (IPFS…)
+    mapping(uint256 => mapping(address => string[])) private evidence;
+
     /*//////////////////////////////////////////////////////////////
                                CONSTANTES
     //////////////////////////////////////////////////////////////*/
@@ -56,6 +100,11 @@ contract IPCommissionEscrow {
     bytes32 internal constant STATE_PAID      = bytes32("Paid");
     bytes32 internal constant STATE_COMPLETED = bytes32("Completed");
     bytes32 internal constant STATE_CANCELLED = bytes32("Cancelled");
+    bytes32 internal constant STATE_DISPUTED  = bytes32("Disputed");
+    bytes32 internal constant STATE_RESOLVED  = bytes32("Resolved");
+
+    uint16 internal constant BPS = 10_000;
+    uint256 internal constant MAX_MILESTONES = 20;
 
     /*//////////////////////////////////////////////////////////////
                                 EVENTS
@@ -84,6 +133,20 @@ contract IPCommissionEscrow {
 
     event OrderCancelled(uint256 indexed order_id);
 
+    event MilestonesCreated(uint256 indexed order_id, uint256[] amounts);
+    event MilestoneSubmitted(uint256 indexed order_id, uint256 indexed index, bytes32 deliverable_hash);
+    event MilestoneReleased(uint256 indexed order_id, uint256 indexed index, uint256 amount, bool auto_accepted);
+    event OrderRefunded(uint256 indexed order_id, address indexed creator, uint256 amount);
+
+    event OrderDelivered(uint256 indexed order_id, uint64 delivered_at);
+    event DisputeOpened(uint256 indexed order_id, address indexed opened_by, uint64 response_deadline);
+    event EvidenceSubmitted(uint256 indexed order_id, address indexed party, string uri);
+    event DisputeResolved(uint256 indexed order_id, uint16 supplier_bps, uint256 supplier_amount, uint256 creator_amount);
+    event FundsReleasedOnTimeout(uint256 indexed order_id, address indexed supplier, uint256 amount);
+
+    event ArbitratorUpdated(address indexed previous, address indexed arbitrator);
+    event TimeoutsUpdated(uint64 review_period, uint64 response_period);
+
     /*//////////////////////////////////////////////////////////////
                              CONSTRUCTOR
     //////////////////////////////////////////////////////////////*/
@@ -93,6 +156,11 @@ contract IPCommissionEscrow {
         require(token_address != address(0), "TOKEN_ADDR_ZERO");
         token = IERC20(token_address);
         order_count = 0;
+
+        owner = msg.sender;
+        arbitrator = msg.sender;
+        review_period = 7 days;
+        response_period = 3 days;
     }
 
     /*//////////////////////////////////////////////////////////////
@@ -114,20 +182,39 @@ contract IPCommissionEscrow {
         external
         returns (uint256 order_id)
     {
-        unchecked {
-            order_id = ++order_count; // commence à 1
-        }
+        order_id = _create_order(amount, supplier, artwork_conditions, ip_license);
+    }
 
-        address caller = msg.sender;
+    /// @notice Crée une commande échelonnée: le montant total est payé d’avance et
+    /// libéré étape par étape, dans l’ordre.
+    /// @param amounts Montant de chaque étape (le total est le montant de la commande).
+    /// @param supplier Adresse du fournisseur/prestataire.
+    /// @param artwork_conditions Conditions/brief de l'œuvre (ex: IPFS).
+    /// @param ip_license Détails de licence IP.
+    /// @return order_id Identifiant unique de la commande.
+    function create_milestone_order(
+        uint256[] calldata amounts,
+        address supplier,
+        string memory artwork_conditions,
+        string memory ip_license
+    )
+        external
+        returns (uint256 order_id)
+    {
+        require(amounts.length > 0 && amounts.length <= MAX_MILESTONES, "Invalid milestone count");
 
-        orders_creator[order_id] = caller;
-        orders_supplier[order_id] = supplier;
-        orders_amount[order_id] = amount;
-        orders_artwork_conditions[order_id] = artwork_conditions;
-        orders_ip_license[order_id] = ip_license;
-        order_states[order_id] = STATE_NOT_PAID;
+        uint256 total;
+        for (uint256 i = 0; i < amounts.length; i++) {
+            require(amounts[i] > 0, "Milestone amount is zero");
+            total += amounts[i];
+        }
 
-        emit OrderCreated(order_id, caller, supplier, amount, artwork_conditions, ip_license);
+        order_id = _create_order(total, supplier, artwork_conditions, ip_license);
+        for (uint256 i = 0; i < amounts.length; i++) {
+            milestones[order_id].push(Milestone({ amount: amounts[i], deliverable_hash: 0, submitted_at: 0, released: false }));
+        }
+
+        emit MilestonesCreated(order_id, amounts);
     }
 
     /// @notice Dépose les fonds pour une commande (transferFrom vers ce contrat).
@@ -159,31 +246,227 @@ contract IPCommissionEscrow {
         address creator = orders_creator[order_id];
         require(caller == creator, "Only order creator can complete");
 
-        uint256 amount = orders_amount[order_id];
-        address supplier = orders_supplier[order_id];
-
-        bool ok = token.transfer(supplier, amount);
-        require(ok, "ERC20_TRANSFER_FAILED");
-
-        order_states[order_id] = STATE_COMPLETED;
-
-        emit OrderCompleted(order_id, supplier, amount);
+        _complete(order_id);
     }
 
-    /// @notice Annule une commande (possible uniquement si NotPaid).
-    /// @dev Seul le créateur peut annuler.
+    /// @notice Annule une commande: NotPaid, ou Paid pour une commande échelonnée.
+    /// @dev Seul le créateur peut annuler. Une commande échelonnée payée rembourse les
+    /// étapes non libérées; impossible pendant la revue d’un livrable soumis.
     /// @param order_id Identifiant de la commande.
     function cancel_order(uint256 order_id) external {
-        require(order_states[order_id] == STATE_NOT_PAID, "Cant cancel paid/completed one");
+        bytes32 state = order_states[order_id];
+        bool refundable = state == STATE_PAID && milestones[order_id].length > 0;
+        require(state == STATE_NOT_PAID || refundable, "Cant cancel paid/completed one");
 
         address caller = msg.sender;
         address creator = orders_creator[order_id];
         require(caller == creator, "Only order creator can cancel");
 
         order_states[order_id] = STATE_CANCELLED;
+
+        if (refundable) {
+            uint256 index = _next_milestone(order_id);
+            require(milestones[order_id][index].submitted_at == 0, "Milestone under review");
+
+            uint256 refund = orders_amount[order_id] - orders_released[order_id];
+            bool ok = token.transfer(creator, refund);
+            require(ok, "ERC20_TRANSFER_FAILED");
+            emit OrderRefunded(order_id, creator, refund);
+        }
+
         emit OrderCancelled(order_id);
     }
 
+    /*//////////////////////////////////////////////////////////////
+                               ÉTAPES
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Le fournisseur soumet le livrable de l’étape en cours (resoumission possible
+    /// tant qu’elle n’est pas acceptée; la fenêtre de revue repart alors de zéro).
+    /// @param order_id Identifiant de la commande.
+    /// @param deliverable_hash Hash du livrable (ex: IPFS CID en bytes32).
+    function submit_milestone(uint256 order_id, bytes32 deliverable_hash) external {
+        require(order_states[order_id] == STATE_PAID, "Order is not paid");
+        require(msg.sender == orders_supplier[order_id], "Only supplier can deliver");
+        require(deliverable_hash != 0, "Empty deliverable");
+
+        uint256 index = _next_milestone(order_id);
+        Milestone storage m = milestones[order_id][index];
+        m.deliverable_hash = deliverable_hash;
+        m.submitted_at = uint64(block.timestamp);
+
+        emit MilestoneSubmitted(order_id, index, deliverable_hash);
+    }
+
+    /// @notice Le créateur accepte le livrable de l’étape en cours: son montant est versé.
+    /// @param order_id Identifiant de la commande.
+    function accept_milestone(uint256 order_id) external {
+        require(order_states[order_id] == STATE_PAID, "Order is not paid");
+        require(msg.sender == orders_creator[order_id], "Only order creator can accept");
+
+        uint256 index = _next_milestone(order_id);
+        require(milestones[order_id][index].submitted_at != 0, "Milestone not submitted");
+        _release_milestone(order_id, index, false);
+    }
+
+    /// @notice Acceptation automatique après `review_period` sans réponse du créateur.
+    /// Appelable par n’importe qui.
+    /// @param order_id Identifiant de la commande.
+    function release_milestone(uint256 order_id) external {
+        require(order_states[order_id] == STATE_PAID, "Order is not paid");
+
+        uint256 index = _next_milestone(order_id);
+        uint64 submitted = milestones[order_id][index].submitted_at;
+        require(submitted != 0, "Milestone not submitted");
+        require(block.timestamp >= submitted + review_period, "Review period not over");
+        _release_milestone(order_id, index, true);
+    }
+
+    /// @notice Étapes d’une commande (vide pour une commande forfaitaire).
+    function get_milestones(uint256 order_id) external view returns (Milestone[] memory) {
+        return milestones[order_id];
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                         LIVRAISON & LITIGES
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Le fournisseur déclare la livraison: le créateur a `review_period` pour
+    /// compléter ou contester, sinon les fonds peuvent être libérés au fournisseur.
+    /// @param order_id Identifiant de la commande.
+    function mark_delivered(uint256 order_id) external {
+        require(order_states[order_id] == STATE_PAID, "Order is not paid");
+        require(msg.sender == orders_supplier[order_id], "Only supplier can deliver");
+        require(milestones[order_id].length == 0, "Use submit_milestone");
+        require(delivered_at[order_id] == 0, "Already delivered");
+
+        delivered_at[order_id] = uint64(block.timestamp);
+        emit OrderDelivered(order_id, uint64(block.timestamp));
+    }
+
+    /// @notice Ouvre un litige sur une commande payée: les fonds sont gelés.
+    /// @dev Ouvert par le fournisseur, le litige est perdu d’office par un créateur qui ne
+    /// dépose aucune preuve avant `response_deadline` (voir `release_to_supplier`).
+    /// @param order_id Identifiant de la commande.
+    /// @param evidence_uri Première preuve de la partie qui conteste.
+    function open_dispute(uint256 order_id, string calldata evidence_uri) external {
+        require(order_states[order_id] == STATE_PAID, "Order is not paid");
+        bool isCreator = msg.sender == orders_creator[order_id];
+        require(isCreator || msg.sender == orders_supplier[order_id], "Only order parties");
+        require(bytes(evidence_uri).length > 0, "Evidence required");
+        uint64 delivered = delivered_at[order_id];
+        require(delivered == 0 || block.timestamp < delivered + review_period, "Review period over");
+
+        uint64 deadline = uint64(block.timestamp) + response_period;
+        disputes[order_id] = Dispute({
+            opened_by: msg.sender,
+            opened_at: uint64(block.timestamp),
+            response_deadline: deadline,
+            creator_responded: isCreator,
+            supplier_bps: 0
+        });
+        order_states[order_id] = STATE_DISPUTED;
+
+        emit DisputeOpened(order_id, msg.sender, deadline);
+        _addEvidence(order_id, evidence_uri);
+    }
+
+    /// @notice Ajoute une preuve (URI) au litige en cours.
+    /// @param order_id Identifiant de la commande.
+    /// @param evidence_uri URI de la preuve.
+    function submit_evidence(uint256 order_id, string calldata evidence_uri) external {
+        require(order_states[order_id] == STATE_DISPUTED, "Order is not disputed");
+        bool isCreator = msg.sender == orders_creator[order_id];
+        require(isCreator || msg.sender == orders_supplier[order_id], "Only order parties");
+        require(bytes(evidence_uri).length > 0, "Evidence required");
+
+        if (isCreator) disputes[order_id].creator_responded = true;
+        _addEvidence(order_id, evidence_uri);
+    }
+
+    /// @notice Décision de l’arbitre sur le montant encore en séquestre (étapes non libérées):
+    /// `supplier_bps` au fournisseur, le reste au créateur.
+    /// @param order_id Identifiant de la commande.
+    /// @param supplier_bps Part du fournisseur en points de base (0..10000).
+    function resolve_dispute(uint256 order_id, uint16 supplier_bps) external {
+        require(msg.sender == arbitrator, "Only arbitrator");
+        require(order_states[order_id] == STATE_DISPUTED, "Order is not disputed");
+        require(supplier_bps <= BPS, "Invalid split");
+
+        uint256 amount = orders_amount[order_id] - orders_released[order_id];
+        uint256 supplierAmount = (amount * supplier_bps) / BPS;
+        uint256 creatorAmount = amount - supplierAmount;
+
+        disputes[order_id].supplier_bps = supplier_bps;
+        order_states[order_id] = STATE_RESOLVED;
+        orders_released[order_id] += supplierAmount;
+
+        if (supplierAmount > 0) {
+            require(token.transfer(orders_supplier[order_id], supplierAmount), "ERC20_TRANSFER_FAILED");
+        }
+        if (creatorAmount > 0) {
+            require(token.transfer(orders_creator[order_id], creatorAmount), "ERC20_TRANSFER_FAILED");
+        }
+
+        emit DisputeResolved(order_id, supplier_bps, supplierAmount, creatorAmount);
+    }
+
+    /// @notice Libère les fonds au fournisseur quand le créateur est resté muet:
+    /// livraison non contestée après `review_period`, ou litige du fournisseur sans réponse
+    /// avant `response_deadline`. Appelable par n’importe qui.
+    /// @param order_id Identifiant de la commande.
+    function release_to_supplier(uint256 order_id) external {
+        bytes32 state = order_states[order_id];
+        if (state == STATE_PAID) {
+            uint64 delivered = delivered_at[order_id];
+            require(delivered != 0, "Order not delivered");
+            require(block.timestamp >= delivered + review_period, "Review period not over");
+        } else {
+            require(state == STATE_DISPUTED, "Order is not paid");
+            Dispute storage d = disputes[order_id];
+            require(!d.creator_responded, "Creator responded");
+            require(block.timestamp >= d.response_deadline, "Response period not over");
+        }
+
+        emit FundsReleasedOnTimeout(
+            order_id,
+            orders_supplier[order_id],
+            orders_amount[order_id] - orders_released[order_id]
+        );
+        _complete(order_id);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                             ADMINISTRATION
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Remplace l’arbitre (ex: par un multisig).
+    function set_arbitrator(address new_arbitrator) external {
+        require(msg.sender == owner, "Only owner");
+        require(new_arbitrator != address(0), "Arbitrator is zero");
+        emit ArbitratorUpdated(arbitrator, new_arbitrator);
+        arbitrator = new_arbitrator;
+    }
+
+    /// @notice Délais appliqués aux prochaines livraisons / prochains litiges.
+    function set_timeouts(uint64 new_review_period, uint64 new_response_period) external {
+        require(msg.sender == owner, "Only owner");
+        require(new_review_period > 0 && new_response_period > 0, "Invalid timeout");
+        review_period = new_review_period;
+        response_period = new_response_period;
+        emit TimeoutsUpdated(new_review_period, new_response_period);
+    }
+
+    /// @notice Détail du litige d’une commande.
+    function get_dispute(uint256 order_id) external view returns (Dispute memory) {
+        return disputes[order_id];
+    }
+
+    /// @notice Preuves déposées par `party` sur une commande.
+    function get_evidence(uint256 order_id, address party) external view returns (string[] memory) {
+        return evidence[order_id][party];
+    }
+
     /// @notice Détails d’une commande.
     /// @param order_id ID de la commande.
     /// @return creator Créateur de la commande.
@@ -216,6 +499,80 @@ contract IPCommissionEscrow {
                            FONCTIONS INTERNES
     //////////////////////////////////////////////////////////////*/
 
+    function _create_order(
+        uint256 amount,
+        address supplier,
+        string memory artwork_conditions,
+        string memory ip_license
+    )
+        internal
+        returns (uint256 order_id)
+    {
+        unchecked {
+            order_id = ++order_count; // commence à 1
+        }
+
+        address caller = msg.sender;
+
+        orders_creator[order_id] = caller;
+        orders_supplier[order_id] = supplier;
+        orders_amount[order_id] = amount;
+        orders_artwork_conditions[order_id] = artwork_conditions;
+        orders_ip_license[order_id] = ip_license;
+        order_states[order_id] = STATE_NOT_PAID;
+
+        emit OrderCreated(order_id, caller, supplier, amount, artwork_conditions, ip_license);
+    }
+
+    /// @dev Première étape non libérée (les étapes sont libérées dans l’ordre).
+    function _next_milestone(uint256 order_id) internal view returns (uint256 index) {
+        Milestone[] storage list = milestones[order_id];
+        require(list.length > 0, "Not a milestone order");
+        while (index < list.length && list[index].released) index++;
+        require(index < list.length, "All milestones released");
+    }
+
+    /// @dev Verse une étape; la dernière clôt la commande.
+    function _release_milestone(uint256 order_id, uint256 index, bool auto_accepted) internal {
+        Milestone storage m = milestones[order_id][index];
+        m.released = true;
+        orders_released[order_id] += m.amount;
+        if (index + 1 == milestones[order_id].length) {
+            order_states[order_id] = STATE_COMPLETED;
+        }
+
+        bool ok = token.transfer(orders_supplier[order_id], m.amount);
+        require(ok, "ERC20_TRANSFER_FAILED");
+
+        emit MilestoneReleased(order_id, index, m.amount, auto_accepted);
+        if (index + 1 == milestones[order_id].length) {
+            emit OrderCompleted(order_id, orders_supplier[order_id], orders_amount[order_id]);
+        }
+    }
+
+    /// @dev Paie au fournisseur le solde non encore versé et clôt la commande.
+    function _complete(uint256 order_id) internal {
+        uint256 amount = orders_amount[order_id] - orders_released[order_id];
+        address supplier = orders_supplier[order_id];
+
+        order_states[order_id] = STATE_COMPLETED;
+        orders_released[order_id] += amount;
+        Milestone[] storage list = milestones[order_id];
+        for (uint256 i = 0; i < list.length; i++) {
+            list[i].released = true;
+        }
+
+        bool ok = token.transfer(supplier, amount);
+        require(ok, "ERC20_TRANSFER_FAILED");
+
+        emit OrderCompleted(order_id, supplier, orders_amount[order_id]);
+    }
+
+    function _addEvidence(uint256 order_id, string calldata uri) internal {
+        evidence[order_id][msg.sender].push(uri);
+        emit EvidenceSubmitted(order_id, msg.sender, uri);
+    }
+
     /// @dev Vérifie que `buyer` a assez de balance (même logique que Cairo).
     /// @param buyer Adresse de l’acheteur.
     /// @param amount Montant requis.
@@ -0,0 +1,54 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+/// @notice Multisig M-of-N minimal pour les tests (arbitre collégial).
+/// @dev Une proposition est exécutée dès qu’elle atteint `threshold` confirmations.
+contract MultisigMock {
+    struct Proposal {
+        address target;
+        bytes data;
+        uint256 confirmations;
+        bool executed;
+    }
+
+    mapping(address => bool) public is_signer;
+    uint256 public immutable threshold;
+
+    Proposal[] private proposals;
+    mapping(uint256 => mapping(address => bool)) public confirmed;
+
+    constructor(address[] memory signers, uint256 _threshold) {
+        require(_threshold > 0 && _threshold <= signers.length, "Invalid threshold");
+        for (uint256 i = 0; i < signers.length; i++) {
+            is_signer[signers[i]] = true;
+        }
+        threshold = _threshold;
+    }
+
+    /// @notice Propose un appel (compte comme la première confirmation).
+    function propose(address target, bytes calldata data) external returns (uint256 id) {
+        id = proposals.length;
+        proposals.push(Proposal({ target: target, data: data, confirmations: 0, executed: false }));
+        confirm(id);
+    }
+
+    function confirm(uint256 id) public {
+        require(is_signer[msg.sender], "Not a signer");
+        require(!confirmed[id][msg.sender], "Already confirmed");
+        Proposal storage p = proposals[id];
+        require(!p.executed, "Already executed");
+
+        confirmed[id][msg.sender] = true;
+        p.confirmations += 1;
+
+        if (p.confirmations >= threshold) {
+            p.executed = true;
+            (bool ok, bytes memory ret) = p.target.call(p.data);
+            if (!ok) {
+                assembly {
+                    revert(add(ret, 32), mload(ret))
+                }
+            }
+        }
+    }
+}
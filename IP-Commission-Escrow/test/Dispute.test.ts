@@ -0,0 +1,125 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+const b32 = (s: string) => ethers.encodeBytes32String(s);
+const toUnit = (v: string) => ethers.parseUnits(v, 18);
+const DAY = 24 * 60 * 60;
+const AMOUNT = toUnit("100");
+
+async function paidOrder() {
+  const [owner, creator, supplier, other, signerA, signerB] = await ethers.getSigners();
+  const token = await (await ethers.getContractFactory("MockToken")).deploy("MockToken", "MKT", 18);
+  const escrow = await (await ethers.getContractFactory("IPCommissionEscrow")).deploy(await token.getAddress());
+
+  await token.mint(creator.address, AMOUNT);
+  await token.connect(creator).approve(await escrow.getAddress(), AMOUNT);
+  await escrow.connect(creator).create_order(AMOUNT, supplier.address, "ipfs://brief", "CC-BY");
+  const orderId = await escrow.order_count();
+  await escrow.connect(creator).pay_order(orderId);
+
+  return { owner, creator, supplier, other, signerA, signerB, token, escrow, orderId };
+}
+
+describe("IPCommissionEscrow: litiges", () => {
+  it("open_dispute gèle les fonds; preuves par partie", async () => {
+    const { creator, supplier, other, escrow, orderId } = await paidOrder();
+
+    await expect(escrow.connect(other).open_dispute(orderId, "ipfs://x")).to.be.revertedWith("Only order parties");
+    await expect(escrow.connect(creator).open_dispute(orderId, "")).to.be.revertedWith("Evidence required");
+
+    await expect(escrow.connect(creator).open_dispute(orderId, "ipfs://late"))
+      .to.emit(escrow, "DisputeOpened")
+      .and.to.emit(escrow, "EvidenceSubmitted")
+      .withArgs(orderId, creator.address, "ipfs://late");
+    await escrow.connect(supplier).submit_evidence(orderId, "ipfs://delivery-proof");
+    await escrow.connect(supplier).submit_evidence(orderId, "ipfs://chat-log");
+
+    const [, , , state] = await escrow.get_order_details(orderId);
+    expect(state).to.equal(b32("Disputed"));
+    expect(await escrow.get_evidence(orderId, supplier.address)).to.deep.equal([
+      "ipfs://delivery-proof",
+      "ipfs://chat-log",
+    ]);
+    expect((await escrow.get_dispute(orderId)).opened_by).to.equal(creator.address);
+
+    await expect(escrow.connect(creator).complete_order(orderId)).to.be.revertedWith("Order is not paid");
+    await expect(escrow.connect(creator).open_dispute(orderId, "ipfs://again")).to.be.revertedWith("Order is not paid");
+    // créateur actif: pas de libération d'office
+    await time.increase(30 * DAY);
+    await expect(escrow.release_to_supplier(orderId)).to.be.revertedWith("Creator responded");
+  });
+
+  it("resolve_dispute: l'arbitre répartit les fonds", async () => {
+    const { owner, creator, supplier, token, escrow, orderId } = await paidOrder();
+    await escrow.connect(creator).open_dispute(orderId, "ipfs://late");
+
+    await expect(escrow.connect(creator).resolve_dispute(orderId, 5000)).to.be.revertedWith("Only arbitrator");
+    await expect(escrow.connect(owner).resolve_dispute(orderId, 10_001)).to.be.revertedWith("Invalid split");
+
+    await expect(escrow.connect(owner).resolve_dispute(orderId, 7000))
+      .to.emit(escrow, "DisputeResolved")
+      .withArgs(orderId, 7000, toUnit("70"), toUnit("30"));
+    expect(await token.balanceOf(supplier.address)).to.equal(toUnit("70"));
+    expect(await token.balanceOf(creator.address)).to.equal(toUnit("30"));
+
+    const [, , , state] = await escrow.get_order_details(orderId);
+    expect(state).to.equal(b32("Resolved"));
+    await expect(escrow.connect(owner).resolve_dispute(orderId, 0)).to.be.revertedWith("Order is not disputed");
+  });
+
+  it("arbitre multisig: la décision s'exécute au seuil de confirmations", async () => {
+    const { owner, creator, supplier, signerA, signerB, token, escrow, orderId } = await paidOrder();
+    const multisig = await (await ethers.getContractFactory("MultisigMock")).deploy(
+      [owner.address, signerA.address, signerB.address],
+      2
+    );
+    await expect(escrow.connect(creator).set_arbitrator(creator.address)).to.be.revertedWith("Only owner");
+    await escrow.connect(owner).set_arbitrator(await multisig.getAddress());
+
+    await escrow.connect(supplier).open_dispute(orderId, "ipfs://unpaid");
+    await escrow.connect(creator).submit_evidence(orderId, "ipfs://never-delivered");
+
+    const ruling = escrow.interface.encodeFunctionData("resolve_dispute", [orderId, 0]);
+    await multisig.connect(signerA).propose(await escrow.getAddress(), ruling);
+    expect(await token.balanceOf(creator.address)).to.equal(0n);
+
+    await multisig.connect(signerB).confirm(0);
+    expect(await token.balanceOf(creator.address)).to.equal(AMOUNT);
+    expect(await token.balanceOf(supplier.address)).to.equal(0n);
+  });
+
+  it("délais: créateur muet après livraison ou après un litige du fournisseur", async () => {
+    // livraison non contestée
+    {
+      const { creator, supplier, other, token, escrow, orderId } = await paidOrder();
+      await expect(escrow.release_to_supplier(orderId)).to.be.revertedWith("Order not delivered");
+      await expect(escrow.connect(creator).mark_delivered(orderId)).to.be.revertedWith("Only supplier can deliver");
+      await escrow.connect(supplier).mark_delivered(orderId);
+
+      await time.increase(7 * DAY - 10);
+      await expect(escrow.release_to_supplier(orderId)).to.be.revertedWith("Review period not over");
+      await time.increase(10);
+      await expect(escrow.connect(creator).open_dispute(orderId, "ipfs://too-late")).to.be.revertedWith(
+        "Review period over"
+      );
+      await expect(escrow.connect(other).release_to_supplier(orderId))
+        .to.emit(escrow, "FundsReleasedOnTimeout")
+        .withArgs(orderId, supplier.address, AMOUNT)
+        .and.to.emit(escrow, "OrderCompleted");
+      expect(await token.balanceOf(supplier.address)).to.equal(AMOUNT);
+    }
+    // litige du fournisseur sans réponse
+    {
+      const { owner, supplier, token, escrow, orderId } = await paidOrder();
+      await escrow.connect(owner).set_timeouts(7 * DAY, DAY);
+      await escrow.connect(supplier).open_dispute(orderId, "ipfs://delivered");
+
+      await expect(escrow.release_to_supplier(orderId)).to.be.revertedWith("Response period not over");
+      await time.increase(DAY);
+      await escrow.release_to_supplier(orderId);
+      expect(await token.balanceOf(supplier.address)).to.equal(AMOUNT);
+      await expect(escrow.connect(owner).resolve_dispute(orderId, 0)).to.be.revertedWith("Order is not disputed");
+    }
+  });
+});
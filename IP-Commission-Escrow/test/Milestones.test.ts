@@ -0,0 +1,134 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+const b32 = (s: string) => ethers.encodeBytes32String(s);
+const toUnit = (v: string) => ethers.parseUnits(v, 18);
+const DAY = 24 * 60 * 60;
+
+// esquisse, brouillon, version finale
+const STAGES = [toUnit("20"), toUnit("30"), toUnit("50")];
+const TOTAL = toUnit("100");
+const sketch = ethers.id("sketch.png");
+const draft = ethers.id("draft.png");
+const final = ethers.id("final.png");
+
+async function milestoneOrder() {
+  const [owner, creator, supplier, other] = await ethers.getSigners();
+  const token = await (await ethers.getContractFactory("MockToken")).deploy("MockToken", "MKT", 18);
+  const escrow = await (await ethers.getContractFactory("IPCommissionEscrow")).deploy(await token.getAddress());
+
+  await token.mint(creator.address, TOTAL);
+  await token.connect(creator).approve(await escrow.getAddress(), TOTAL);
+  await expect(escrow.connect(creator).create_milestone_order(STAGES, supplier.address, "ipfs://brief", "CC-BY"))
+    .to.emit(escrow, "OrderCreated")
+    .withArgs(1n, creator.address, supplier.address, TOTAL, "ipfs://brief", "CC-BY")
+    .and.to.emit(escrow, "MilestonesCreated");
+  const orderId = await escrow.order_count();
+  await escrow.connect(creator).pay_order(orderId);
+
+  return { owner, creator, supplier, other, token, escrow, orderId };
+}
+
+describe("IPCommissionEscrow: commandes échelonnées", () => {
+  it("create_milestone_order: étapes non vides, montant total payé d'avance", async () => {
+    const [creator, supplier] = await ethers.getSigners();
+    const token = await (await ethers.getContractFactory("MockToken")).deploy("MockToken", "MKT", 18);
+    const escrow = await (await ethers.getContractFactory("IPCommissionEscrow")).deploy(await token.getAddress());
+
+    await expect(escrow.connect(creator).create_milestone_order([], supplier.address, "", "")).to.be.revertedWith(
+      "Invalid milestone count"
+    );
+    await expect(
+      escrow.connect(creator).create_milestone_order([1n, 0n], supplier.address, "", "")
+    ).to.be.revertedWith("Milestone amount is zero");
+
+    const { escrow: paid, token: paidToken, orderId } = await milestoneOrder();
+    const [, , amount, state] = await paid.get_order_details(orderId);
+    expect(amount).to.equal(TOTAL);
+    expect(state).to.equal(b32("Paid"));
+    expect(await paidToken.balanceOf(await paid.getAddress())).to.equal(TOTAL);
+    expect((await paid.get_milestones(orderId)).map((m) => m.amount)).to.deep.equal(STAGES);
+  });
+
+  it("soumission, acceptation et versement étape par étape", async () => {
+    const { creator, supplier, other, token, escrow, orderId } = await milestoneOrder();
+
+    await expect(escrow.connect(creator).accept_milestone(orderId)).to.be.revertedWith("Milestone not submitted");
+    await expect(escrow.connect(other).submit_milestone(orderId, sketch)).to.be.revertedWith("Only supplier can deliver");
+    await expect(escrow.connect(supplier).mark_delivered(orderId)).to.be.revertedWith("Use submit_milestone");
+
+    await expect(escrow.connect(supplier).submit_milestone(orderId, sketch))
+      .to.emit(escrow, "MilestoneSubmitted")
+      .withArgs(orderId, 0n, sketch);
+    await expect(escrow.connect(other).accept_milestone(orderId)).to.be.revertedWith("Only order creator can accept");
+    await expect(escrow.connect(creator).accept_milestone(orderId))
+      .to.emit(escrow, "MilestoneReleased")
+      .withArgs(orderId, 0n, STAGES[0], false);
+    expect(await token.balanceOf(supplier.address)).to.equal(STAGES[0]);
+
+    await escrow.connect(supplier).submit_milestone(orderId, draft);
+    await escrow.connect(creator).accept_milestone(orderId);
+    await escrow.connect(supplier).submit_milestone(orderId, final);
+    await expect(escrow.connect(creator).accept_milestone(orderId))
+      .to.emit(escrow, "OrderCompleted")
+      .withArgs(orderId, supplier.address, TOTAL);
+
+    const [, , , state] = await escrow.get_order_details(orderId);
+    expect(state).to.equal(b32("Completed"));
+    expect(await token.balanceOf(supplier.address)).to.equal(TOTAL);
+    expect(await escrow.orders_released(orderId)).to.equal(TOTAL);
+    expect((await escrow.get_milestones(orderId)).map((m) => m.deliverable_hash)).to.deep.equal([sketch, draft, final]);
+  });
+
+  it("acceptation automatique après la fenêtre de revue; resoumission la relance", async () => {
+    const { supplier, other, token, escrow, orderId } = await milestoneOrder();
+    await escrow.connect(supplier).submit_milestone(orderId, sketch);
+
+    await time.increase(5 * DAY);
+    await escrow.connect(supplier).submit_milestone(orderId, ethers.id("sketch-v2.png"));
+    await time.increase(5 * DAY);
+    await expect(escrow.connect(other).release_milestone(orderId)).to.be.revertedWith("Review period not over");
+
+    await time.increase(2 * DAY);
+    await expect(escrow.connect(other).release_milestone(orderId))
+      .to.emit(escrow, "MilestoneReleased")
+      .withArgs(orderId, 0n, STAGES[0], true);
+    expect(await token.balanceOf(supplier.address)).to.equal(STAGES[0]);
+    await expect(escrow.release_milestone(orderId)).to.be.revertedWith("Milestone not submitted");
+  });
+
+  it("annulation: seules les étapes non libérées sont remboursées", async () => {
+    const { creator, supplier, token, escrow, orderId } = await milestoneOrder();
+    await escrow.connect(supplier).submit_milestone(orderId, sketch);
+    await escrow.connect(creator).accept_milestone(orderId);
+
+    await escrow.connect(supplier).submit_milestone(orderId, draft);
+    await expect(escrow.connect(creator).cancel_order(orderId)).to.be.revertedWith("Milestone under review");
+    await escrow.connect(creator).accept_milestone(orderId);
+
+    await expect(escrow.connect(creator).cancel_order(orderId))
+      .to.emit(escrow, "OrderRefunded")
+      .withArgs(orderId, creator.address, STAGES[2])
+      .and.to.emit(escrow, "OrderCancelled");
+    expect(await token.balanceOf(creator.address)).to.equal(STAGES[2]);
+    expect(await token.balanceOf(supplier.address)).to.equal(STAGES[0] + STAGES[1]);
+    expect(await token.balanceOf(await escrow.getAddress())).to.equal(0n);
+    await expect(escrow.connect(supplier).submit_milestone(orderId, final)).to.be.revertedWith("Order is not paid");
+  });
+
+  it("litige: l'arbitre ne répartit que le solde en séquestre", async () => {
+    const { owner, creator, supplier, token, escrow, orderId } = await milestoneOrder();
+    await escrow.connect(supplier).submit_milestone(orderId, sketch);
+    await escrow.connect(creator).accept_milestone(orderId);
+
+    await escrow.connect(creator).open_dispute(orderId, "ipfs://draft-off-brief");
+    await expect(escrow.connect(creator).accept_milestone(orderId)).to.be.revertedWith("Order is not paid");
+
+    await expect(escrow.connect(owner).resolve_dispute(orderId, 5000))
+      .to.emit(escrow, "DisputeResolved")
+      .withArgs(orderId, 5000, toUnit("40"), toUnit("40"));
+    expect(await token.balanceOf(supplier.address)).to.equal(toUnit("60"));
+    expect(await token.balanceOf(creator.address)).to.equal(toUnit("40"));
+  });
+});
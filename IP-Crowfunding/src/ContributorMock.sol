@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+interface ICrowdfundingToken {
+    function approve(address spender, uint256 value) external returns (bool);
+}
+
+interface ICrowdfunding {
+    function contribute(uint256 campaignId, uint256 amount) external;
+}
+
+/// @dev Contributeur de test: enchaîne de nombreuses contributions en une transaction
+///      (tests de charge) et relaie n'importe quel appel (claim_refund, approve_milestone…).
+contract ContributorMock {
+    function contribute_many(address ipc, address token, uint256 campaignId, uint256 amount, uint256 times) external {
+        ICrowdfundingToken(token).approve(ipc, amount * times);
+        for (uint256 i = 0; i < times; ) {
+            ICrowdfunding(ipc).contribute(campaignId, amount);
+            unchecked { ++i; }
+        }
+    }
+
+    function exec(address target, bytes calldata data) external returns (bytes memory) {
+        (bool ok, bytes memory ret) = target.call(data);
+        if (!ok) {
+            assembly { revert(add(ret, 32), mload(ret)) }
+        }
+        return ret;
+    }
+}
@@ -1,6 +1,8 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
+import {ERC1155} from "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+
 library SafeERC20Compat {
     function _callOptionalReturn(address token, bytes memory data) private {
         (bool ok, bytes memory ret) = token.call(data);
@@ -15,6 +17,11 @@ library SafeERC20Compat {
     function safeTransferFrom(address token, address from, address to, uint256 value) internal {
         _callOptionalReturn(token, abi.encodeWithSelector(bytes4(keccak256("transferFrom(address,address,uint256)")), from, to, value));
     }
+    /// @dev Variante sans revert: false si l'appel échoue (destinataire bloqué, etc.).
+    function trySafeTransfer(address token, address to, uint256 value) internal returns (bool) {
+        (bool ok, bytes memory ret) = token.call(abi.encodeWithSelector(bytes4(keccak256("transfer(address,uint256)")), to, value));
+        return ok && (ret.length == 0 || abi.decode(ret, (bool)));
+    }
 }
 
 interface IERC20 {
@@ -36,7 +43,8 @@ abstract contract ReentrancyGuard {
     }
 }
 
-contract IPCrowdfunding is ReentrancyGuard {
+/// @dev Les reçus de contributeurs (ERC-1155) sont émis par ce contrat: token id = id du palier.
+contract IPCrowdfunding is ReentrancyGuard, ERC1155 {
     using SafeERC20Compat for address;
 
     struct Campaign {
@@ -57,6 +65,36 @@ contract IPCrowdfunding is ReentrancyGuard {
         uint64 timestamp;
     }
 
+    /// @dev Tranches de fonds débloquées une à une après vote des contributeurs.
+    struct MilestonePlan {
+        uint16[] trancheBps;   // part de raisedAmount par tranche (somme = 10_000)
+        uint256 nextTranche;   // prochaine tranche à débloquer
+        uint256 released;      // montant déjà versé au creator
+        uint64 voteEnd;        // fin du vote en cours (0 = aucun)
+        uint256 approvals;     // poids (montant contribué) des approbations du vote en cours
+        bool rejected;         // vote clos sans majorité ou creator inactif: remboursement du solde
+        uint64 releasedAt;     // date du dernier versement de tranche (0 = aucun)
+    }
+
+    /// @dev Palier de récompense d'une campagne; son id est aussi le token id du reçu ERC-1155.
+    struct RewardTier {
+        uint256 campaignId;
+        uint256 minPledge;  // contribution cumulée minimale
+        uint256 quantity;   // 0 = illimité
+        uint256 reserved;   // contributeurs ayant choisi ce palier (libéré au remboursement)
+        uint256 claimed;    // reçus émis
+        string uri;         // métadonnées du reçu
+    }
+
+    uint256 public constant MAX_REWARD_TIERS = 20;
+    uint256 public constant REFUND_BATCH_SIZE = 200;
+    uint256 public constant MAX_TRANCHES = 20;
+    uint64 public constant MILESTONE_VOTE_PERIOD = 7 days;
+    // Délai laissé au creator pour demander (puis retirer) la tranche suivante, compté depuis la fin
+    // de la campagne, le dernier versement ou la fin du vote en cours; au-delà, solde remboursable.
+    uint64 public constant MILESTONE_REQUEST_WINDOW = 30 days;
+    uint256 public constant APPROVAL_THRESHOLD_BPS = 5_000; // > 50% des montants contribués
+
     address public owner;
     IERC20 public token; // exposé en lecture, mais on passe par SafeERC20Compat pour les calls
 
@@ -65,12 +103,37 @@ contract IPCrowdfunding is ReentrancyGuard {
     mapping(uint256 => mapping(uint256 => Contribution)) public contributions; // (campaignId => (contributionId => Contribution))
     mapping(uint256 => uint256) public campaignContributionsCount;
 
+    // Total restant dû par contributeur (remis à 0 une fois remboursé) — poids de vote des tranches
+    mapping(uint256 => mapping(address => uint256)) public contributedAmount;
+    // Prochaine contribution à traiter par refund_contributions (remboursement par lots)
+    mapping(uint256 => uint256) public refundCursor;
+
+    mapping(uint256 => MilestonePlan) private milestones;
+    // (campaignId => (tranche => (contributor => a voté)))
+    mapping(uint256 => mapping(uint256 => mapping(address => bool))) public milestoneVoted;
+
+    uint256 public rewardTiersCount;
+    mapping(uint256 => RewardTier) private rewardTiers; // tierId (>= 1) => palier
+    mapping(uint256 => uint256[]) private campaignRewardTiers;
+    // (campaignId => (backer => tierId choisi, 0 = aucun))
+    mapping(uint256 => mapping(address => uint256)) public backerTier;
+    mapping(uint256 => mapping(address => bool)) public receiptClaimed;
+
     event CampaignCreated(uint256 indexed campaignId, address creator, string title);
     event ContributionMade(uint256 indexed campaignId, address contributor, uint256 amount);
     event FundsWithdrawn(uint256 indexed campaignId);
     event ContributionsRefunded(uint256 indexed campaignId, uint256 totalAmount);
-
-    constructor(address _owner, address _token) {
+    event RefundClaimed(uint256 indexed campaignId, address indexed contributor, uint256 amount);
+    event MilestonesConfigured(uint256 indexed campaignId, uint16[] trancheBps);
+    event MilestoneRequested(uint256 indexed campaignId, uint256 tranche, uint64 voteEnd);
+    event MilestoneApproved(uint256 indexed campaignId, uint256 tranche, address contributor, uint256 weight);
+    event TrancheReleased(uint256 indexed campaignId, uint256 tranche, uint256 amount);
+    event RewardTierAdded(uint256 indexed campaignId, uint256 indexed tierId, uint256 minPledge, uint256 quantity, string uri);
+    event RewardTierSelected(uint256 indexed campaignId, address indexed backer, uint256 tierId);
+    event RewardTierReleased(uint256 indexed campaignId, address indexed backer, uint256 tierId);
+    event BackerReceiptClaimed(uint256 indexed campaignId, address indexed backer, uint256 tierId);
+
+    constructor(address _owner, address _token) ERC1155("") {
         require(_owner != address(0), "Owner zero");
         require(_token != address(0), "Token zero");
         owner = _owner;
@@ -84,6 +147,37 @@ contract IPCrowdfunding is ReentrancyGuard {
         uint256 goalAmount,
         uint64 duration
     ) external nonReentrant {
+        _create_campaign(title, description, goalAmount, duration);
+    }
+
+    /// @notice Campagne dont les fonds sont versés par tranches, chacune approuvée par les contributeurs.
+    function create_campaign_with_milestones(
+        string memory title,
+        string memory description,
+        uint256 goalAmount,
+        uint64 duration,
+        uint16[] calldata trancheBps
+    ) external nonReentrant {
+        require(trancheBps.length > 0 && trancheBps.length <= MAX_TRANCHES, "Invalid tranches");
+        uint256 total;
+        for (uint256 i = 0; i < trancheBps.length; ) {
+            require(trancheBps[i] > 0, "Empty tranche");
+            total += trancheBps[i];
+            unchecked { ++i; }
+        }
+        require(total == 10_000, "Tranches must sum to 100%");
+
+        uint256 campaignId = _create_campaign(title, description, goalAmount, duration);
+        milestones[campaignId].trancheBps = trancheBps;
+        emit MilestonesConfigured(campaignId, trancheBps);
+    }
+
+    function _create_campaign(
+        string memory title,
+        string memory description,
+        uint256 goalAmount,
+        uint64 duration
+    ) private returns (uint256) {
         require(bytes(title).length != 0, "Empty title");
         require(goalAmount > 0, "Invalid goal");
         require(duration > 0, "Invalid duration");
@@ -105,9 +199,72 @@ contract IPCrowdfunding is ReentrancyGuard {
 
         campaignsCount = campaignId;
         emit CampaignCreated(campaignId, msg.sender, title);
+        return campaignId;
+    }
+
+    /// @notice Ajoute un palier de récompense; seulement avant la première contribution.
+    function add_reward_tier(uint256 campaignId, uint256 minPledge, uint256 quantity, string calldata uri_)
+        external
+        returns (uint256 tierId)
+    {
+        Campaign storage c = campaigns[campaignId];
+        require(c.startTime != 0, "Campaign not found");
+        require(msg.sender == c.creator, "Not the creator");
+        require(campaignContributionsCount[campaignId] == 0, "Contributions started");
+        require(minPledge > 0, "Invalid min pledge");
+        require(campaignRewardTiers[campaignId].length < MAX_REWARD_TIERS, "Too many tiers");
+
+        tierId = ++rewardTiersCount;
+        rewardTiers[tierId] = RewardTier({
+            campaignId: campaignId,
+            minPledge: minPledge,
+            quantity: quantity,
+            reserved: 0,
+            claimed: 0,
+            uri: uri_
+        });
+        campaignRewardTiers[campaignId].push(tierId);
+        emit RewardTierAdded(campaignId, tierId, minPledge, quantity, uri_);
     }
 
     function contribute(uint256 campaignId, uint256 amount) external nonReentrant {
+        _contribute(campaignId, amount);
+    }
+
+    /// @notice Contribue et choisit (ou change) son palier: la contribution cumulée doit
+    ///         atteindre minPledge. Une place est réservée tant que la campagne n'échoue pas.
+    function contribute_with_reward(uint256 campaignId, uint256 amount, uint256 tierId) external nonReentrant {
+        RewardTier storage tier = rewardTiers[tierId];
+        require(tierId != 0 && tier.campaignId == campaignId, "Unknown tier");
+
+        _contribute(campaignId, amount);
+        require(contributedAmount[campaignId][msg.sender] >= tier.minPledge, "Pledge below tier minimum");
+
+        uint256 current = backerTier[campaignId][msg.sender];
+        if (current == tierId) return;
+
+        require(tier.quantity == 0 || tier.reserved < tier.quantity, "Tier sold out");
+        if (current != 0) rewardTiers[current].reserved -= 1;
+        tier.reserved += 1;
+        backerTier[campaignId][msg.sender] = tierId;
+        emit RewardTierSelected(campaignId, msg.sender, tierId);
+    }
+
+    /// @notice Reçu ERC-1155 du palier choisi, une fois la campagne réussie
+    ///         (fonds entièrement versés au creator).
+    function claim_backer_receipt(uint256 campaignId) external nonReentrant {
+        uint256 tierId = backerTier[campaignId][msg.sender];
+        require(tierId != 0, "No reward tier");
+        require(_successful(campaignId), "Campaign not successful");
+        require(!receiptClaimed[campaignId][msg.sender], "Receipt already claimed");
+
+        receiptClaimed[campaignId][msg.sender] = true;
+        rewardTiers[tierId].claimed += 1;
+        _mint(msg.sender, tierId, 1, "");
+        emit BackerReceiptClaimed(campaignId, msg.sender, tierId);
+    }
+
+    function _contribute(uint256 campaignId, uint256 amount) private {
         require(amount > 0, "Zero amount");
 
         Campaign storage c = campaigns[campaignId];
@@ -125,6 +282,7 @@ contract IPCrowdfunding is ReentrancyGuard {
             timestamp: uint64(block.timestamp)
         });
         campaignContributionsCount[campaignId] = contributionId;
+        contributedAmount[campaignId][msg.sender] += amount;
 
         unchecked { c.raisedAmount += amount; }
 
@@ -134,45 +292,152 @@ contract IPCrowdfunding is ReentrancyGuard {
         emit ContributionMade(campaignId, msg.sender, amount);
     }
 
+    /// @notice Sans tranches: tout le montant levé. Avec tranches: la tranche en cours,
+    ///         une fois approuvée par plus de APPROVAL_THRESHOLD_BPS du montant contribué.
     function withdraw_funds(uint256 campaignId) external nonReentrant {
         Campaign storage c = campaigns[campaignId];
         require(c.startTime != 0, "Campaign not found");
         require(msg.sender == c.creator, "Not the creator");
-        require(!c.completed, "Campaign completed");
         require(!c.refunded, "Campaign refunded");
         require(c.raisedAmount >= c.goalAmount, "Goal not reached");
 
-        uint256 amount = c.raisedAmount;
+        MilestonePlan storage m = milestones[campaignId];
+        if (m.trancheBps.length == 0) {
+            require(!c.completed, "Campaign completed");
+            uint256 amount = c.raisedAmount;
+
+            // Effects
+            c.completed = true;
+
+            // Interaction
+            address(address(token)).safeTransfer(c.creator, amount);
+
+            emit FundsWithdrawn(campaignId);
+            return;
+        }
+
+        require(m.voteEnd != 0, "No milestone requested");
+        require(_milestone_approved(c, m), "Milestone not approved");
+        require(!_milestone_stalled(c, m), "Milestone deadline passed");
+
+        uint256 tranche = m.nextTranche;
+        uint256 trancheAmount = tranche == m.trancheBps.length - 1
+            ? c.raisedAmount - m.released // dernière tranche: le reste (arrondis)
+            : (c.raisedAmount * m.trancheBps[tranche]) / 10_000;
 
         // Effects
+        m.nextTranche = tranche + 1;
+        m.released += trancheAmount;
+        m.releasedAt = uint64(block.timestamp);
+        m.voteEnd = 0;
+        m.approvals = 0;
+
+        // Interaction
+        address(address(token)).safeTransfer(c.creator, trancheAmount);
+
+        emit TrancheReleased(campaignId, tranche, trancheAmount);
+        if (m.nextTranche == m.trancheBps.length) emit FundsWithdrawn(campaignId);
+    }
+
+    /// @notice Ouvre le vote des contributeurs sur la prochaine tranche (clôt les contributions).
+    function request_milestone(uint256 campaignId) external nonReentrant {
+        Campaign storage c = campaigns[campaignId];
+        MilestonePlan storage m = milestones[campaignId];
+        require(c.startTime != 0, "Campaign not found");
+        require(msg.sender == c.creator, "Not the creator");
+        require(m.trancheBps.length > 0, "No milestones");
+        require(c.raisedAmount >= c.goalAmount, "Goal not reached");
+        require(!m.rejected && !_milestone_rejected(c, m), "Milestone rejected");
+        require(m.nextTranche < m.trancheBps.length, "All tranches released");
+        require(m.voteEnd == 0, "Vote already open");
+        require(!_milestone_stalled(c, m), "Milestone deadline passed");
+
         c.completed = true;
+        m.voteEnd = uint64(block.timestamp) + MILESTONE_VOTE_PERIOD;
+        emit MilestoneRequested(campaignId, m.nextTranche, m.voteEnd);
+    }
+
+    /// @notice Approbation de la tranche en cours, pondérée par le montant contribué.
+    function approve_milestone(uint256 campaignId) external {
+        MilestonePlan storage m = milestones[campaignId];
+        require(m.voteEnd != 0 && block.timestamp <= m.voteEnd, "No open vote");
+
+        uint256 tranche = m.nextTranche;
+        require(!milestoneVoted[campaignId][tranche][msg.sender], "Already voted");
+        uint256 weight = contributedAmount[campaignId][msg.sender];
+        require(weight > 0, "Not a contributor");
+
+        milestoneVoted[campaignId][tranche][msg.sender] = true;
+        m.approvals += weight;
+        emit MilestoneApproved(campaignId, tranche, msg.sender, weight);
+    }
+
+    /// @notice Remboursement à l'initiative de chaque contributeur: montant total si l'objectif
+    ///         n'est pas atteint à la fin, solde non versé au prorata si un vote de tranche échoue
+    ///         ou si le creator laisse passer MILESTONE_REQUEST_WINDOW sans demander ni retirer.
+    function claim_refund(uint256 campaignId) external nonReentrant {
+        Campaign storage c = campaigns[campaignId];
+        MilestonePlan storage m = milestones[campaignId];
+        require(c.startTime != 0, "Campaign not found");
+
+        uint256 contributed = contributedAmount[campaignId][msg.sender];
+        require(contributed > 0, "Nothing to refund");
+
+        uint256 amount;
+        if (_goal_failed(c)) {
+            amount = contributed;
+        } else if (m.rejected || _milestone_rejected(c, m) || _milestone_stalled(c, m)) {
+            m.rejected = true;
+            amount = (contributed * (c.raisedAmount - m.released)) / c.raisedAmount;
+        } else {
+            revert("Refund not available");
+        }
+
+        // Effects
+        c.refunded = true;
+        contributedAmount[campaignId][msg.sender] = 0;
+        _release_reward(campaignId, msg.sender);
 
         // Interaction
-        address(address(token)).safeTransfer(c.creator, amount);
+        address(address(token)).safeTransfer(msg.sender, amount);
 
-        emit FundsWithdrawn(campaignId);
+        emit RefundClaimed(campaignId, msg.sender, amount);
     }
 
+    /// @notice Remboursement poussé par lots de REFUND_BATCH_SIZE contributions (appel répété
+    ///         jusqu'à épuisement). Un transfert qui échoue n'interrompt pas le lot: le montant
+    ///         reste récupérable via claim_refund.
     function refund_contributions(uint256 campaignId) external nonReentrant {
         Campaign storage c = campaigns[campaignId];
         require(c.startTime != 0, "Campaign not found");
         require(!c.completed, "Campaign completed");
-        require(!c.refunded, "Already refunded");
         require(c.raisedAmount < c.goalAmount, "Goal reached");
         require(block.timestamp > c.endTime, "Campaign not ended");
 
         uint256 count = campaignContributionsCount[campaignId];
+        uint256 cursor = refundCursor[campaignId];
+        require(cursor < count || (count == 0 && !c.refunded), "Already refunded");
+
+        uint256 end = cursor + REFUND_BATCH_SIZE;
+        if (end > count) end = count;
 
-        // Effects (marque comme remboursé d'abord — revert annulerait tout si un transfer échoue)
+        // Effects (remboursé = campagne en mode remboursement)
         c.refunded = true;
+        refundCursor[campaignId] = end;
 
-        // Interaction(s)
+        // Interaction(s) — un contributeur est remboursé une seule fois, pour son total
         uint256 total;
-        for (uint256 i = 1; i <= count; ) {
-            Contribution memory cont = contributions[campaignId][i];
-            if (cont.amount > 0) {
-                address(address(token)).safeTransfer(cont.contributor, cont.amount);
-                unchecked { total += cont.amount; }
+        for (uint256 i = cursor + 1; i <= end; ) {
+            address contributor = contributions[campaignId][i].contributor;
+            uint256 amount = contributedAmount[campaignId][contributor];
+            if (amount > 0) {
+                contributedAmount[campaignId][contributor] = 0;
+                if (address(address(token)).trySafeTransfer(contributor, amount)) {
+                    unchecked { total += amount; }
+                    _release_reward(campaignId, contributor);
+                } else {
+                    contributedAmount[campaignId][contributor] = amount;
+                }
             }
             unchecked { ++i; }
         }
@@ -180,11 +445,66 @@ contract IPCrowdfunding is ReentrancyGuard {
         emit ContributionsRefunded(campaignId, total);
     }
 
+    // Campagne échouée: la place réservée dans le palier est rendue.
+    function _release_reward(uint256 campaignId, address backer) private {
+        uint256 tierId = backerTier[campaignId][backer];
+        if (tierId == 0) return;
+        rewardTiers[tierId].reserved -= 1;
+        delete backerTier[campaignId][backer];
+        emit RewardTierReleased(campaignId, backer, tierId);
+    }
+
+    // Tous les fonds versés au creator: plus aucun remboursement possible.
+    function _successful(uint256 campaignId) private view returns (bool) {
+        Campaign storage c = campaigns[campaignId];
+        MilestonePlan storage m = milestones[campaignId];
+        if (c.refunded) return false;
+        if (m.trancheBps.length == 0) return c.completed;
+        return m.nextTranche == m.trancheBps.length;
+    }
+
+    function _goal_failed(Campaign storage c) private view returns (bool) {
+        return !c.completed && c.raisedAmount < c.goalAmount && block.timestamp > c.endTime;
+    }
+
+    function _milestone_approved(Campaign storage c, MilestonePlan storage m) private view returns (bool) {
+        return m.approvals * 10_000 > c.raisedAmount * APPROVAL_THRESHOLD_BPS;
+    }
+
+    // Vote clos sans majorité
+    function _milestone_rejected(Campaign storage c, MilestonePlan storage m) private view returns (bool) {
+        return m.voteEnd != 0 && block.timestamp > m.voteEnd && !_milestone_approved(c, m);
+    }
+
+    // Tranches restantes sans demande (ou sans retrait d'une tranche approuvée) dans le délai
+    function _milestone_stalled(Campaign storage c, MilestonePlan storage m) private view returns (bool) {
+        if (m.nextTranche == m.trancheBps.length || c.raisedAmount < c.goalAmount) return false;
+        uint64 from = m.voteEnd != 0 ? m.voteEnd : (m.releasedAt != 0 ? m.releasedAt : c.endTime);
+        return block.timestamp > from + MILESTONE_REQUEST_WINDOW;
+    }
+
     // helpers "getters"
     function get_campaign(uint256 campaignId) external view returns (Campaign memory) {
         return campaigns[campaignId];
     }
 
+    function get_reward_tier(uint256 tierId) external view returns (RewardTier memory) {
+        return rewardTiers[tierId];
+    }
+
+    function get_campaign_reward_tiers(uint256 campaignId) external view returns (uint256[] memory) {
+        return campaignRewardTiers[campaignId];
+    }
+
+    /// @notice Métadonnées du reçu: URI du palier.
+    function uri(uint256 tierId) public view override returns (string memory) {
+        return rewardTiers[tierId].uri;
+    }
+
+    function get_milestones(uint256 campaignId) external view returns (MilestonePlan memory) {
+        return milestones[campaignId];
+    }
+
     function get_contributions(uint256 campaignId) external view returns (Contribution[] memory arr) {
         uint256 count = campaignContributionsCount[campaignId];
         arr = new Contribution[](count);
@@ -8,6 +8,8 @@ contract MockERC20 {
 
     mapping(address => uint256) public balanceOf;
     mapping(address => mapping(address => uint256)) public allowance;
+    // destinataires refusés (simule un jeton avec liste noire)
+    mapping(address => bool) public blocked;
 
     event Transfer(address indexed from, address indexed to, uint256 value);
     event Approval(address indexed owner, address indexed spender, uint256 value);
@@ -21,6 +23,10 @@ contract MockERC20 {
         emit Transfer(address(0), to, amount);
     }
 
+    function setBlocked(address account, bool value) external {
+        blocked[account] = value;
+    }
+
     function approve(address spender, uint256 value) external returns (bool) {
         allowance[msg.sender][spender] = value;
         emit Approval(msg.sender, spender, value);
@@ -28,6 +34,7 @@ contract MockERC20 {
     }
 
     function transfer(address to, uint256 value) external returns (bool) {
+        require(!blocked[to], "blocked");
         require(balanceOf[msg.sender] >= value, "balance");
         balanceOf[msg.sender] -= value;
         balanceOf[to] += value;
@@ -0,0 +1,96 @@
+// tests/ipcrowdfunding.stress.test.js
+// Campagnes à plusieurs milliers de contributions: gas borné par transaction.
+import { expect } from "chai";
+import hre from "hardhat";
+const { ethers, network } = hre;
+
+const CONTRIBUTORS = 50;
+const PER_CONTRIBUTOR = 50; // 2500 contributions
+const AMOUNT = 10n;
+const BATCH_GAS_LIMIT = 10_000_000n;
+
+async function nextBlockAt(ts) {
+  await network.provider.send("evm_setNextBlockTimestamp", [Math.floor(ts)]);
+  await network.provider.send("evm_mine");
+}
+
+describe("IPCrowdfunding — charge (milliers de contributions)", function () {
+  this.timeout(600_000);
+
+  let owner, token, ipc, mocks;
+
+  // Chaque ContributorMock est un contributeur distinct qui enchaîne PER_CONTRIBUTOR contributions.
+  async function fill(campaignId) {
+    const ipcAddr = await ipc.getAddress();
+    const tokenAddr = await token.getAddress();
+    for (const mock of mocks) {
+      await token.mint(await mock.getAddress(), AMOUNT * BigInt(PER_CONTRIBUTOR));
+      await mock.contribute_many(ipcAddr, tokenAddr, campaignId, AMOUNT, PER_CONTRIBUTOR);
+    }
+    expect(await ipc.campaignContributionsCount(campaignId)).to.equal(BigInt(CONTRIBUTORS * PER_CONTRIBUTOR));
+  }
+
+  const call = (mock, fn, args) => mock.exec(ipc.getAddress(), ipc.interface.encodeFunctionData(fn, args));
+
+  beforeEach(async () => {
+    [owner] = await ethers.getSigners();
+    token = await (await ethers.getContractFactory("MockERC20")).deploy();
+    ipc = await (await ethers.getContractFactory("IPCrowdfunding")).deploy(owner.address, await token.getAddress());
+
+    const Mock = await ethers.getContractFactory("ContributorMock");
+    mocks = [];
+    for (let i = 0; i < CONTRIBUTORS; i++) mocks.push(await Mock.deploy());
+  });
+
+  it("remboursement: lots bornés, destinataire bloqué isolé, claim_refund à coût constant", async () => {
+    const total = AMOUNT * BigInt(CONTRIBUTORS * PER_CONTRIBUTOR);
+    await ipc.create_campaign("Big", "D", total * 2n, 3600);
+    await fill(1);
+
+    const c = await ipc.get_campaign(1);
+    await nextBlockAt(Number(c.endTime) + 1);
+
+    // un contributeur se rembourse lui-même avant le lot: coût indépendant du nombre de contributions
+    const claim = await (await call(mocks[0], "claim_refund", [1])).wait();
+    expect(claim.gasUsed < 100_000n).to.equal(true);
+
+    const blocked = await mocks[1].getAddress();
+    await token.setBlocked(blocked, true);
+
+    let batches = 0;
+    while ((await ipc.refundCursor(1)) < (await ipc.campaignContributionsCount(1))) {
+      const receipt = await (await ipc.refund_contributions(1)).wait();
+      expect(receipt.gasUsed < BATCH_GAS_LIMIT).to.equal(true);
+      batches++;
+    }
+    expect(batches).to.equal(Math.ceil((CONTRIBUTORS * PER_CONTRIBUTOR) / Number(await ipc.REFUND_BATCH_SIZE())));
+    await expect(ipc.refund_contributions(1)).to.be.revertedWith("Already refunded");
+
+    // seul le contributeur bloqué attend encore, via claim_refund
+    const share = AMOUNT * BigInt(PER_CONTRIBUTOR);
+    expect(await token.balanceOf(await ipc.getAddress())).to.equal(share);
+    await token.setBlocked(blocked, false);
+    await call(mocks[1], "claim_refund", [1]);
+    expect(await token.balanceOf(blocked)).to.equal(share);
+    expect(await token.balanceOf(await ipc.getAddress())).to.equal(0n);
+  });
+
+  it("tranches: approbation pondérée sur des milliers de contributions", async () => {
+    const total = AMOUNT * BigInt(CONTRIBUTORS * PER_CONTRIBUTOR);
+    await ipc.create_campaign_with_milestones("Big", "D", total, 3600, [5000, 5000]);
+    await fill(1);
+    await ipc.request_milestone(1);
+
+    // exactement la moitié du poids: insuffisant; un contributeur de plus: majorité
+    const half = CONTRIBUTORS / 2;
+    for (const mock of mocks.slice(0, half)) {
+      const receipt = await (await call(mock, "approve_milestone", [1])).wait();
+      expect(receipt.gasUsed < 100_000n).to.equal(true);
+    }
+    await expect(ipc.withdraw_funds(1)).to.be.revertedWith("Milestone not approved");
+    await call(mocks[half], "approve_milestone", [1]);
+
+    await expect(ipc.withdraw_funds(1)).to.emit(ipc, "TrancheReleased").withArgs(1n, 0n, total / 2n);
+    expect(await token.balanceOf(owner.address)).to.equal(total / 2n);
+  });
+});
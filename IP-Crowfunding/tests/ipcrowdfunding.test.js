@@ -121,4 +121,265 @@ describe("IPCrowdfunding — parité avec Cairo", function () {
     await expect(ipc.connect(bob).withdraw_funds(2))
       .to.be.revertedWith("Not the creator");
   });
+
+  it("claim_refund: chaque contributeur récupère son total, une seule fois", async () => {
+    await token.mint(alice.address, 500n);
+    await token.connect(alice).approve(await ipc.getAddress(), 500n);
+    await ipc.connect(alice).contribute(1, 200n);
+    await ipc.connect(alice).contribute(1, 300n);
+
+    await expect(ipc.connect(alice).claim_refund(1)).to.be.revertedWith("Refund not available");
+
+    const c1 = await ipc.get_campaign(1);
+    await nextBlockAt(Number(c1.endTime) + 1);
+
+    // un destinataire bloqué ne gêne pas les autres
+    await token.setBlocked(alice.address, true);
+    await expect(ipc.connect(alice).claim_refund(1)).to.be.revertedWith("ERC20 call failed");
+    await token.setBlocked(alice.address, false);
+
+    await expect(ipc.connect(alice).claim_refund(1))
+      .to.emit(ipc, "RefundClaimed").withArgs(1n, alice.address, 500n);
+    expect(await token.balanceOf(alice.address)).to.equal(500n);
+    expect((await ipc.get_campaign(1)).refunded).to.equal(true);
+
+    await expect(ipc.connect(alice).claim_refund(1)).to.be.revertedWith("Nothing to refund");
+    await expect(ipc.connect(bob).claim_refund(1)).to.be.revertedWith("Nothing to refund");
+  });
+
+  it("refund_contributions: contributeur bloqué ignoré, montant récupérable ensuite", async () => {
+    for (const [who, amount] of [[alice, 300n], [bob, 200n]]) {
+      await token.mint(who.address, amount);
+      await token.connect(who).approve(await ipc.getAddress(), amount);
+      await ipc.connect(who).contribute(1, amount);
+    }
+    const c1 = await ipc.get_campaign(1);
+    await nextBlockAt(Number(c1.endTime) + 1);
+
+    await token.setBlocked(alice.address, true);
+    await expect(ipc.refund_contributions(1))
+      .to.emit(ipc, "ContributionsRefunded").withArgs(1n, 200n);
+    expect(await token.balanceOf(bob.address)).to.equal(200n);
+    expect(await ipc.contributedAmount(1, alice.address)).to.equal(300n);
+    await expect(ipc.refund_contributions(1)).to.be.revertedWith("Already refunded");
+
+    await token.setBlocked(alice.address, false);
+    await ipc.connect(alice).claim_refund(1);
+    expect(await token.balanceOf(alice.address)).to.equal(300n);
+  });
+
+  describe("tranches approuvées par les contributeurs", () => {
+    async function milestoneCampaign() {
+      // id=2: 30% / 70%, objectif 1000 atteint par alice (600) et bob (400)
+      await ipc.connect(owner).create_campaign_with_milestones("M", "D", 1000n, 3600, [3000, 7000]);
+      for (const [who, amount] of [[alice, 600n], [bob, 400n]]) {
+        await token.mint(who.address, amount);
+        await token.connect(who).approve(await ipc.getAddress(), amount);
+        await ipc.connect(who).contribute(2, amount);
+      }
+    }
+
+    it("create_campaign_with_milestones valide les tranches", async () => {
+      await expect(ipc.create_campaign_with_milestones("M", "D", 1000n, 3600, [5000, 4000]))
+        .to.be.revertedWith("Tranches must sum to 100%");
+      await expect(ipc.create_campaign_with_milestones("M", "D", 1000n, 3600, []))
+        .to.be.revertedWith("Invalid tranches");
+      await expect(ipc.create_campaign_with_milestones("M", "D", 1000n, 3600, [10000, 0]))
+        .to.be.revertedWith("Empty tranche");
+    });
+
+    it("tranche débloquée seulement après approbation majoritaire pondérée", async () => {
+      await milestoneCampaign();
+      await expect(ipc.connect(owner).withdraw_funds(2)).to.be.revertedWith("No milestone requested");
+
+      await expect(ipc.connect(owner).request_milestone(2)).to.emit(ipc, "MilestoneRequested");
+      await expect(ipc.connect(owner).request_milestone(2)).to.be.revertedWith("Vote already open");
+      // contributions closes pendant le versement par tranches
+      await expect(ipc.connect(alice).contribute(2, 1n)).to.be.revertedWith("Campaign completed");
+
+      // bob (40%) seul: insuffisant
+      await expect(ipc.connect(bob).approve_milestone(2))
+        .to.emit(ipc, "MilestoneApproved").withArgs(2n, 0n, bob.address, 400n);
+      await expect(ipc.connect(bob).approve_milestone(2)).to.be.revertedWith("Already voted");
+      await expect(ipc.connect(owner).approve_milestone(2)).to.be.revertedWith("Not a contributor");
+      await expect(ipc.connect(owner).withdraw_funds(2)).to.be.revertedWith("Milestone not approved");
+
+      await ipc.connect(alice).approve_milestone(2);
+      await expect(ipc.connect(bob).withdraw_funds(2)).to.be.revertedWith("Not the creator");
+      await expect(ipc.connect(owner).withdraw_funds(2))
+        .to.emit(ipc, "TrancheReleased").withArgs(2n, 0n, 300n);
+      expect(await token.balanceOf(owner.address)).to.equal(300n);
+
+      // tranche 1: nouveau vote, alice (60%) suffit
+      await ipc.connect(owner).request_milestone(2);
+      await ipc.connect(alice).approve_milestone(2);
+      await expect(ipc.connect(owner).withdraw_funds(2))
+        .to.emit(ipc, "TrancheReleased").withArgs(2n, 1n, 700n)
+        .and.to.emit(ipc, "FundsWithdrawn").withArgs(2n);
+      await expect(ipc.connect(owner).request_milestone(2)).to.be.revertedWith("All tranches released");
+
+      const m = await ipc.get_milestones(2);
+      expect(m.released).to.equal(1000n);
+      expect(m.nextTranche).to.equal(2n);
+    });
+
+    it("vote rejeté: solde non versé remboursé au prorata", async () => {
+      await milestoneCampaign();
+      await ipc.connect(owner).request_milestone(2);
+      await ipc.connect(alice).approve_milestone(2);
+      await ipc.connect(bob).approve_milestone(2);
+      await ipc.connect(owner).withdraw_funds(2); // 300 versés
+
+      await ipc.connect(owner).request_milestone(2);
+      await ipc.connect(bob).approve_milestone(2); // 40%: insuffisant
+      await expect(ipc.connect(alice).claim_refund(2)).to.be.revertedWith("Refund not available");
+
+      const { voteEnd } = await ipc.get_milestones(2);
+      await nextBlockAt(Number(voteEnd) + 1);
+      await expect(ipc.connect(alice).approve_milestone(2)).to.be.revertedWith("No open vote");
+      await expect(ipc.connect(owner).withdraw_funds(2)).to.be.revertedWith("Milestone not approved");
+      await expect(ipc.connect(owner).request_milestone(2)).to.be.revertedWith("Milestone rejected");
+
+      // 700 restants: alice 60%, bob 40%
+      await expect(ipc.connect(alice).claim_refund(2))
+        .to.emit(ipc, "RefundClaimed").withArgs(2n, alice.address, 420n);
+      await expect(ipc.connect(bob).claim_refund(2))
+        .to.emit(ipc, "RefundClaimed").withArgs(2n, bob.address, 280n);
+      await expect(ipc.connect(owner).withdraw_funds(2)).to.be.revertedWith("Campaign refunded");
+      expect(await token.balanceOf(await ipc.getAddress())).to.equal(0n);
+    });
+
+    it("creator inactif: solde remboursable au prorata passé MILESTONE_REQUEST_WINDOW", async () => {
+      await milestoneCampaign();
+      const window = Number(await ipc.MILESTONE_REQUEST_WINDOW());
+      const { endTime } = await ipc.get_campaign(2);
+
+      // aucune demande: le délai court depuis la fin de la campagne
+      await nextBlockAt(Number(endTime) + window - 2);
+      await expect(ipc.connect(alice).claim_refund(2)).to.be.revertedWith("Refund not available");
+      await ipc.connect(owner).request_milestone(2);
+      await ipc.connect(alice).approve_milestone(2);
+      await ipc.connect(owner).withdraw_funds(2); // 300 versés
+
+      // tranche suivante jamais demandée: le délai court depuis le versement
+      const { releasedAt } = await ipc.get_milestones(2);
+      await nextBlockAt(Number(releasedAt) + window + 1);
+      await expect(ipc.connect(owner).request_milestone(2)).to.be.revertedWith("Milestone deadline passed");
+      await expect(ipc.connect(bob).claim_refund(2))
+        .to.emit(ipc, "RefundClaimed").withArgs(2n, bob.address, 280n);
+      await expect(ipc.connect(owner).request_milestone(2)).to.be.revertedWith("Milestone rejected");
+      await expect(ipc.connect(alice).claim_refund(2))
+        .to.emit(ipc, "RefundClaimed").withArgs(2n, alice.address, 420n);
+      expect(await token.balanceOf(await ipc.getAddress())).to.equal(0n);
+    });
+
+    it("tranche approuvée mais jamais retirée: remboursable après le délai", async () => {
+      await milestoneCampaign();
+      await ipc.connect(owner).request_milestone(2);
+      await ipc.connect(alice).approve_milestone(2);
+      const { voteEnd } = await ipc.get_milestones(2);
+      await nextBlockAt(Number(voteEnd) + Number(await ipc.MILESTONE_REQUEST_WINDOW()) + 1);
+
+      await expect(ipc.connect(owner).withdraw_funds(2)).to.be.revertedWith("Milestone deadline passed");
+      await expect(ipc.connect(alice).claim_refund(2))
+        .to.emit(ipc, "RefundClaimed").withArgs(2n, alice.address, 600n);
+    });
+  });
+
+  describe("paliers de récompense et reçus ERC-1155", () => {
+    // id=2: objectif 1000, paliers "Supporter" (>= 100, illimité) et "Gold" (>= 500, 1 place)
+    async function rewardCampaign() {
+      await ipc.connect(owner).create_campaign("R", "D", 1000n, 3600);
+      await ipc.connect(owner).add_reward_tier(2, 100n, 0n, "ipfs://tiers/supporter.json");
+      await ipc.connect(owner).add_reward_tier(2, 500n, 1n, "ipfs://tiers/gold.json");
+      for (const who of [alice, bob]) {
+        await token.mint(who.address, 1000n);
+        await token.connect(who).approve(await ipc.getAddress(), 1000n);
+      }
+      return { supporter: 1n, gold: 2n };
+    }
+
+    it("add_reward_tier: creator seulement, avant toute contribution", async () => {
+      await rewardCampaign();
+      await expect(ipc.connect(alice).add_reward_tier(2, 1n, 0n, "x")).to.be.revertedWith("Not the creator");
+      await expect(ipc.connect(owner).add_reward_tier(2, 0n, 0n, "x")).to.be.revertedWith("Invalid min pledge");
+
+      await ipc.connect(alice).contribute(2, 10n);
+      await expect(ipc.connect(owner).add_reward_tier(2, 1n, 0n, "x")).to.be.revertedWith("Contributions started");
+      expect(await ipc.get_campaign_reward_tiers(2)).to.deep.equal([1n, 2n]);
+      expect(await ipc.uri(2)).to.equal("ipfs://tiers/gold.json");
+    });
+
+    it("sélection: minimum cumulé, quantité limitée, changement de palier", async () => {
+      const { supporter, gold } = await rewardCampaign();
+      await expect(ipc.connect(alice).contribute_with_reward(2, 50n, supporter))
+        .to.be.revertedWith("Pledge below tier minimum");
+      await expect(ipc.connect(alice).contribute_with_reward(1, 500n, gold)).to.be.revertedWith("Unknown tier");
+
+      await expect(ipc.connect(alice).contribute_with_reward(2, 100n, supporter))
+        .to.emit(ipc, "RewardTierSelected").withArgs(2n, alice.address, supporter);
+      // complément de 400: 500 cumulés, passage au palier Gold
+      await ipc.connect(alice).contribute_with_reward(2, 400n, gold);
+      expect(await ipc.backerTier(2, alice.address)).to.equal(gold);
+      expect((await ipc.get_reward_tier(supporter)).reserved).to.equal(0n);
+      expect((await ipc.get_reward_tier(gold)).reserved).to.equal(1n);
+
+      await expect(ipc.connect(bob).contribute_with_reward(2, 500n, gold)).to.be.revertedWith("Tier sold out");
+      await ipc.connect(bob).contribute_with_reward(2, 500n, supporter);
+    });
+
+    it("succès: reçu ERC-1155 du palier, une seule fois", async () => {
+      const { supporter, gold } = await rewardCampaign();
+      await ipc.connect(alice).contribute_with_reward(2, 600n, gold);
+      await ipc.connect(bob).contribute_with_reward(2, 400n, supporter);
+      await expect(ipc.connect(alice).claim_backer_receipt(2)).to.be.revertedWith("Campaign not successful");
+
+      await ipc.connect(owner).withdraw_funds(2);
+      await expect(ipc.connect(alice).claim_backer_receipt(2))
+        .to.emit(ipc, "BackerReceiptClaimed").withArgs(2n, alice.address, gold);
+      await ipc.connect(bob).claim_backer_receipt(2);
+
+      expect(await ipc.balanceOf(alice.address, gold)).to.equal(1n);
+      expect(await ipc.balanceOf(bob.address, supporter)).to.equal(1n);
+      expect((await ipc.get_reward_tier(gold)).claimed).to.equal(1n);
+      await expect(ipc.connect(alice).claim_backer_receipt(2)).to.be.revertedWith("Receipt already claimed");
+      await expect(ipc.connect(owner).claim_backer_receipt(2)).to.be.revertedWith("No reward tier");
+    });
+
+    it("échec: les remboursements libèrent les places, aucun reçu", async () => {
+      const { supporter, gold } = await rewardCampaign();
+      await ipc.connect(alice).contribute_with_reward(2, 500n, gold);
+      await ipc.connect(bob).contribute_with_reward(2, 100n, supporter);
+
+      const c2 = await ipc.get_campaign(2);
+      await nextBlockAt(Number(c2.endTime) + 1);
+
+      await expect(ipc.connect(alice).claim_refund(2))
+        .to.emit(ipc, "RewardTierReleased").withArgs(2n, alice.address, gold);
+      await ipc.refund_contributions(2); // bob, par lot
+      for (const tierId of [supporter, gold]) {
+        expect((await ipc.get_reward_tier(tierId)).reserved).to.equal(0n);
+      }
+      expect(await ipc.backerTier(2, bob.address)).to.equal(0n);
+      await expect(ipc.connect(alice).claim_backer_receipt(2)).to.be.revertedWith("No reward tier");
+    });
+
+    it("tranches: reçu disponible une fois la dernière tranche versée", async () => {
+      await ipc.connect(owner).create_campaign_with_milestones("M", "D", 1000n, 3600, [5000, 5000]);
+      const tierId = (await ipc.rewardTiersCount()) + 1n;
+      await ipc.connect(owner).add_reward_tier(2, 100n, 0n, "ipfs://tiers/m.json");
+      await token.mint(alice.address, 1000n);
+      await token.connect(alice).approve(await ipc.getAddress(), 1000n);
+      await ipc.connect(alice).contribute_with_reward(2, 1000n, tierId);
+
+      for (let tranche = 0; tranche < 2; tranche++) {
+        await expect(ipc.connect(alice).claim_backer_receipt(2)).to.be.revertedWith("Campaign not successful");
+        await ipc.connect(owner).request_milestone(2);
+        await ipc.connect(alice).approve_milestone(2);
+        await ipc.connect(owner).withdraw_funds(2);
+      }
+      await ipc.connect(alice).claim_backer_receipt(2);
+      expect(await ipc.balanceOf(alice.address, tierId)).to.equal(1n);
+    });
+  });
 });
@@ -5,7 +5,8 @@ const config: HardhatUserConfig = {
   solidity: {
     version: "0.8.24",
     settings: {
-      optimizer: { enabled: true, runs: 200 }
+      optimizer: { enabled: true, runs: 200 },
+      viaIR: true
     }
   },
   paths: {
@@ -0,0 +1,87 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./FranchiseTypes.sol";
+
+/*
+    ─────────────────────────────────────────────────────────────────────────
+    Libs de validation/calcul (équivalents des traits Cairo)
+    ─────────────────────────────────────────────────────────────────────────
+*/
+library FranchiseLib {
+    function _paymentInterval(RoyaltyFees memory rf) internal pure returns (uint64) {
+        if (rf.paymentSchedule == PaymentSchedule.Monthly) return 30 * 24 * 60 * 60;
+        if (rf.paymentSchedule == PaymentSchedule.Quarterly) return 3 * 30 * 24 * 60 * 60;
+        if (rf.paymentSchedule == PaymentSchedule.SemiAnnually) return 6 * 30 * 24 * 60 * 60;
+        if (rf.paymentSchedule == PaymentSchedule.Annually) return 365 * 24 * 60 * 60;
+        if (rf.paymentSchedule == PaymentSchedule.Custom) {
+            return rf.hasCustomInterval ? rf.customInterval : 0;
+        }
+        return 0;
+    }
+
+    function validateTerms(FranchiseTerms memory t, uint64 nowTs) internal pure {
+        if (t.licenseStart <= nowTs) revert StartDateInThePast();
+        if (t.licenseStart >= t.licenseEnd) revert StartDateAfterEndDate();
+        if (t.licenseEnd <= nowTs) revert EndDateInThePast();
+        // max 5 ans
+        uint64 maxEnd = nowTs + uint64(5 * 365 days);
+        if (t.licenseEnd >= maxEnd) revert EndDateTooFar();
+        if (t.paymentToken == address(0)) revert InvalidTokenAddress();
+        if (t.franchiseFee == 0) revert FranchiseFeeRequired();
+
+        if (t.kind == PaymentModelKind.OneTime) {
+            if (t.oneTimeFee == 0) revert OneTimeFeeRequired();
+        } else {
+            // RoyaltyBased
+            if (t.royaltyFees.royaltyPercent == 0) revert RoyaltyPercentRequired();
+            if (t.royaltyFees.royaltyPercent > 100) revert RoyaltyPercentTooHigh();
+            if (t.royaltyFees.maxMissedPayments == 0) revert MaxMissedPaymentsRequired();
+            if (t.royaltyFees.lastPaymentId != 0) revert LastPaymentIdMustBeZero();
+
+            if (t.royaltyFees.paymentSchedule == PaymentSchedule.Custom) {
+                if (!t.royaltyFees.hasCustomInterval) revert CustomIntervalRequired();
+                if (t.royaltyFees.customInterval < 1 days) revert CustomIntervalBelowMinimum();
+            }
+
+            uint64 interval = _paymentInterval(t.royaltyFees);
+            if (interval == 0 || (t.licenseEnd - t.licenseStart) <= interval) {
+                revert InvalidPaymentInterval();
+            }
+        }
+    }
+
+    function totalFranchiseFee(FranchiseTerms memory t) internal pure returns (uint256) {
+        if (t.kind == PaymentModelKind.OneTime) {
+            return t.franchiseFee + t.oneTimeFee;
+        } else {
+            return t.franchiseFee;
+        }
+    }
+
+    function royaltyDue(RoyaltyFees memory rf, uint256 revenue) internal pure returns (uint256) {
+        return (revenue * rf.royaltyPercent) / 100;
+    }
+
+    function calculateMissedPayments(
+        RoyaltyFees memory rf,
+        uint64 licenseStart,
+        uint64 nowTs
+    ) internal pure returns (uint32 missed) {
+        uint64 interval = _paymentInterval(rf);
+        if (interval == 0 || nowTs < licenseStart) return 0;
+
+        uint64 totalDue = (nowTs - licenseStart) / interval;
+        if (totalDue <= rf.lastPaymentId) return 0;
+
+        uint64 diff = totalDue - rf.lastPaymentId;
+        if (diff > type(uint32).max) diff = type(uint32).max;
+        missed = uint32(diff);
+    }
+
+    function nextPaymentDue(RoyaltyFees memory rf, uint64 licenseStart) internal pure returns (uint64) {
+        uint64 interval = _paymentInterval(rf);
+        if (interval == 0) return licenseStart;
+        return licenseStart + (uint64(rf.lastPaymentId + 1) * interval);
+    }
+}
@@ -0,0 +1,8 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+// Artefacts des proxies OpenZeppelin pour le déploiement (tests, SDK):
+//   UpgradeableBeacon(implémentation IPFranchisingAgreement, owner) partagé par les accords,
+//   ERC1967Proxy(implémentation IPFranchiseManager, initialize(...)) pour chaque manager.
+import "@openzeppelin/contracts/proxy/beacon/UpgradeableBeacon.sol";
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
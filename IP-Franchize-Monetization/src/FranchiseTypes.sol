@@ -0,0 +1,146 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/*
+    ─────────────────────────────────────────────────────────────────────────
+    Erreurs (équivalents des constantes felt252 Cairo)
+    ─────────────────────────────────────────────────────────────────────────
+*/
+error InvalidIpAsset();
+error NotOwnerErr();                 // "Caller not asset owner"
+error NotApprovedErr();              // "ip asset not approved by owner"
+error IpAssetNotLinked();
+error IpAssetAlreadyLinked();
+error InvalidIpId();
+error InvalidIpNftId();
+error InvalidIpNftAddress();
+
+error InvalidTerritoryId();
+error RoyaltyFeesNotAllowed();
+error TerritoryAlreadyLinked();
+error ApplicationNotApproved();
+error NotApplicationOwner();
+error CannotCancelApplication();
+error NotAuthorized();
+error InvalidApplicationStatus();
+error AgreementLicenseNotOver();
+error TerritoryNotActive();
+error FranchiseAgreementNotListed();
+
+error Erc20TransferFailed();
+error SaleRequestNotFound();
+error InvalidSaleStatus();
+error OnlyBuyerCanFinalizeSale();
+error RevenueMismatch();
+error InvalidRevenueAmount();
+error InvalidRoyaltyAmount();
+error FranchiseIpNotLinked();
+error FranchiseAgreementNotActive();
+error MaxMissedPaymentsNotReached();
+error MissedPaymentsExceedsMax();
+error ActiveSaleRequestInProgress();
+error OnlyRoyaltyPayments();
+
+error StartDateInThePast();
+error StartDateAfterEndDate();
+error EndDateInThePast();
+error EndDateTooFar();
+error FranchiseFeeRequired();
+error OneTimeFeeRequired();
+error RoyaltyPercentRequired();
+error RoyaltyPercentTooHigh();
+error CustomIntervalRequired();
+error CustomIntervalBelowMinimum();
+error InvalidTokenAddress();
+error InvalidPaymentInterval();
+error MaxMissedPaymentsRequired();
+error LastPaymentIdMustBeZero();
+
+error RevenueAttestationRequired();
+error InvalidRevenueAttestation();
+error PaymentNotFound();
+error AuditAlreadyRecorded();
+error NoClawbackOutstanding();
+error ClawbackOutstanding();
+
+error InvalidRegionCode();
+error ExclusiveRegionOverlap();
+
+error SaleEscrowNotFunded();
+error SaleEscrowAlreadyFunded();
+error SaleProceedsInsufficient();
+error InvalidTransferFee();
+
+/*
+    ─────────────────────────────────────────────────────────────────────────
+    Types / Enums (équivalents Cairo -> Solidity)
+    ─────────────────────────────────────────────────────────────────────────
+*/
+enum PaymentSchedule { Monthly, Quarterly, SemiAnnually, Annually, Custom }
+enum ExclusivityType { Exclusive, NonExclusive }
+enum FranchiseSaleStatus { Pending, Approved, Rejected, Completed, Cancelled }
+enum ApplicationStatus { Pending, Revised, RevisionAccepted, Approved, Rejected, Cancelled }
+enum PaymentModelKind { OneTime, RoyaltyBased }
+
+struct RoyaltyFees {
+    uint8  royaltyPercent;         // 1..100
+    PaymentSchedule paymentSchedule;
+    uint64 customInterval;         // en secondes
+    bool   hasCustomInterval;
+    uint32 lastPaymentId;          // commence à 0
+    uint32 maxMissedPayments;      // > 0
+}
+
+struct FranchiseTerms {
+    PaymentModelKind kind;         // OneTime ou RoyaltyBased
+    address paymentToken;          // IERC20
+    uint256 franchiseFee;          // frais d’activation (toujours payé)
+    uint64  licenseStart;          // timestamp futur
+    uint64  licenseEnd;            // > start, <= start + 5 ans
+    ExclusivityType exclusivity;   // territoire exclusif ?
+    uint256 territoryId;
+
+    // payload du modèle de paiement :
+    uint256 oneTimeFee;            // utilisé si kind == OneTime
+    RoyaltyFees royaltyFees;       // utilisé si kind == RoyaltyBased
+}
+
+struct Territory {
+    uint256 id;
+    string  name;
+    bool    hasExclusiveAgreement;
+    uint256 exclusiveAgreementId;  // valide si hasExclusiveAgreement==true
+    bool    active;
+}
+
+struct FranchiseApplication {
+    uint256 applicationId;
+    address franchisee;
+    FranchiseTerms currentTerms;
+    ApplicationStatus status;
+    address lastProposedBy;
+    uint8   version;
+}
+
+struct FranchiseSaleRequest {
+    address from;
+    address to;
+    uint256 salePrice;
+    FranchiseSaleStatus status;
+}
+
+struct RoyaltyPayment {
+    uint32 paymentId;
+    uint256 royaltyPaid;
+    uint256 reportedRevenue;
+    uint64 timestamp;
+    address attestedBy;            // auditeur / clé POS signataire, address(0) si auto-déclaré
+}
+
+// Audit d'une échéance payée: un manque à gagner ouvre un litige (clawback) à régler
+struct RevenueAudit {
+    uint256 auditedRevenue;
+    uint256 shortfall;             // royalties dues sur le CA audité - royalties payées (0 si aucun)
+    address auditor;
+    uint64  timestamp;
+}
@@ -0,0 +1,166 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./FranchiseTypes.sol";
+
+/*
+    ─────────────────────────────────────────────────────────────────────────
+    Interfaces (équivalents Cairo)
+    ─────────────────────────────────────────────────────────────────────────
+*/
+interface IIPFranchiseAgreement {
+    function activate_franchise() external;
+
+    function create_sale_request(address to, uint256 salePrice) external;
+    function approve_franchise_sale() external;
+    function reject_franchise_sale() external;
+    function fund_franchise_sale() external;
+    function cancel_franchise_sale() external;
+    function finalize_franchise_sale(uint256[] calldata reportedRevenues) external;
+
+    function make_royalty_payments(uint256[] calldata reportedRevenues) external;
+    function make_attested_royalty_payments(uint256[] calldata reportedRevenues, bytes calldata signature) external;
+
+    function record_revenue_audit(uint32 paymentId, uint256 auditedRevenue, bytes calldata signature) external;
+    function settle_audit_clawback() external;
+    function set_attestation_required(bool required) external;
+
+    function revoke_franchise_license() external;
+    function reinstate_franchise_license() external;
+
+    // Views
+    function get_agreement_id() external view returns (uint256);
+    function get_franchise_manager() external view returns (address);
+    function get_franchisee() external view returns (address);
+    function get_payment_token() external view returns (address);
+    function get_franchise_terms() external view returns (FranchiseTerms memory);
+    function get_sale_request() external view returns (bool exists, FranchiseSaleRequest memory req);
+    function get_sale_escrow() external view returns (bool funded, uint16 transferFeeBps);
+    function get_royalty_payment_info(uint32 paymentId) external view returns (RoyaltyPayment memory);
+    function is_active() external view returns (bool);
+    function is_revoked() external view returns (bool);
+    function get_activation_fee() external view returns (uint256);
+    function get_total_missed_payments() external view returns (uint32);
+    function is_attestation_required() external view returns (bool);
+    function get_revenue_audit(uint32 paymentId) external view returns (RevenueAudit memory);
+    function get_audit_clawback() external view returns (uint256 outstanding, uint64 dueBy);
+}
+
+interface IIPFranchiseManager {
+    function link_ip_asset() external;
+    function unlink_ip_asset() external;
+
+    function add_franchise_territory(string calldata name) external;
+    function deactivate_franchise_territory(uint256 territoryId) external;
+    function add_territory_regions(uint256 territoryId, string[] calldata regionCodes) external;
+
+    function create_direct_franchise_agreement(address franchisee, FranchiseTerms calldata terms) external;
+    function create_franchise_agreement_from_application(uint256 applicationId) external;
+
+    function apply_for_franchise(FranchiseTerms calldata terms) external;
+    function cancel_franchise_application(uint256 applicationId) external;
+    function revise_franchise_application(uint256 applicationId, FranchiseTerms calldata newTerms) external;
+    function accept_franchise_application_revision(uint256 applicationId) external;
+    function approve_franchise_application(uint256 applicationId) external;
+    function reject_franchise_application(uint256 applicationId) external;
+
+    function revoke_franchise_license(uint256 agreementId) external;
+    function reinstate_franchise_license(uint256 agreementId) external;
+    function release_franchise_regions(uint256 agreementId) external;
+
+    function set_revenue_auditor(address auditor, bool enabled) external;
+    function set_point_of_sale_key(uint256 agreementId, address key, bool enabled) external;
+    function set_revenue_attestation_required(uint256 agreementId, bool required) external;
+
+    function initiate_franchise_sale(uint256 agreementId) external;
+    function approve_franchise_sale(uint256 agreementId) external;
+    function reject_franchise_sale(uint256 agreementId) external;
+    function set_transfer_fee_bps(uint16 feeBps) external;
+
+    // mise à niveau UUPS du manager (owner); les accords se mettent à niveau via leur beacon
+    function upgrade(address newImpl) external;
+
+    // Views
+    function get_ip_nft_id() external view returns (uint256);
+    function get_ip_nft_address() external view returns (address);
+    function is_ip_asset_linked() external view returns (bool);
+    function get_agreement_beacon() external view returns (address);
+
+    function get_territory_info(uint256 territoryId) external view returns (Territory memory);
+    function get_total_territories() external view returns (uint256);
+    function get_territory_regions(uint256 territoryId) external view returns (string[] memory);
+    function get_region_agreement(string calldata regionCode) external view returns (bool covered, uint256 agreementId);
+
+    function get_franchise_agreement_address(uint256 agreementId) external view returns (address);
+    function get_franchise_agreement_id(address agreement) external view returns (uint256);
+    function get_total_franchise_agreements() external view returns (uint256);
+    function get_franchisee_agreement(address franchisee, uint256 index) external view returns (uint256);
+    function get_franchisee_agreement_count(address franchisee) external view returns (uint256);
+
+    function get_franchise_application(uint256 applicationId, uint8 version) external view returns (FranchiseApplication memory);
+    function get_franchise_application_version(uint256 applicationId) external view returns (uint8);
+    function get_total_franchise_applications() external view returns (uint256);
+    function get_franchisee_application(address franchisee, uint256 index) external view returns (uint256);
+    function get_franchisee_application_count(address franchisee) external view returns (uint256);
+
+    function get_preferred_payment_model() external view returns (FranchiseTerms memory);
+    function get_default_franchise_fee() external view returns (uint256);
+
+    function is_franchise_sale_requested(uint256 agreementId) external view returns (bool);
+    function get_total_franchise_sale_requests() external view returns (uint256);
+    function get_transfer_fee_bps() external view returns (uint16);
+
+    function is_revenue_auditor(address account) external view returns (bool);
+    function is_revenue_attestor(uint256 agreementId, address account) external view returns (bool);
+}
+
+/*
+    ─────────────────────────────────────────────────────────────────────────
+    Événements (équivalents Cairo)
+    ─────────────────────────────────────────────────────────────────────────
+*/
+contract EventsDefs {
+    event IPAssetLinked(uint256 ip_token_id, address ip_token_address, address owner, uint64 timestamp);
+    event IPAssetUnLinked(uint256 ip_token_id, address ip_token_address, address owner, uint64 timestamp);
+
+    event FranchiseAgreementCreated(uint256 agreement_id, address agreement_address, address franchisee, uint64 timestamp);
+
+    event NewFranchiseApplication(uint256 application_id, address franchisee, uint64 timestamp);
+    event FranchiseApplicationRevised(uint256 application_id, address reviser, uint8 application_version, uint64 timestamp);
+    event ApplicationRevisionAccepted(uint256 application_id, address franchisee, uint64 timestamp);
+    event FranchiseApplicationCanceled(uint256 application_id, address franchisee, uint64 timestamp);
+    event FranchiseApplicationApproved(uint256 application_id, uint64 timestamp);
+    event FranchiseApplicationRejected(uint256 application_id, uint64 timestamp);
+
+    event FranchiseSaleInitiated(uint256 agreement_id, uint256 sale_id, uint64 timestamp);
+    event FranchiseSaleApproved(uint256 agreement_id, address agreement_address, uint64 timestamp);
+    event FranchiseSaleRejected(uint256 agreement_id, address agreement_address, uint64 timestamp);
+    event FranchiseAgreementRevoked(uint256 agreement_id, address agreement_address, uint64 timestamp);
+    event FranchiseAgreementReinstated(uint256 agreement_id, address agreement_address, uint64 timestamp);
+
+    event FranchiseAgreementActivated(uint256 agreement_id, uint64 timestamp);
+    event SaleRequestInitiated(uint256 agreement_id, uint256 sale_price, address to, uint64 timestamp);
+    event SaleRequestApproved(uint256 agreement_id, uint64 timestamp);
+    event SaleRequestRejected(uint256 agreement_id, uint64 timestamp);
+    event SaleRequestFinalized(uint256 agreement_id, address new_franchisee, uint64 timestamp);
+    event SaleEscrowFunded(uint256 agreement_id, address buyer, uint256 amount, uint64 timestamp);
+    event SaleRequestCancelled(uint256 agreement_id, address cancelled_by, uint256 refunded, uint64 timestamp);
+    event SaleSettled(uint256 agreement_id, uint256 seller_proceeds, uint256 transfer_fee, uint256 royalties_settled, uint64 timestamp);
+    event TransferFeeUpdated(uint16 fee_bps, uint64 timestamp);
+    event RoyaltyPaymentMade(uint256 agreement_id, uint256 total_royalty, uint256 total_revenue, uint64 timestamp);
+
+    event RevenueAttested(uint256 agreement_id, uint32 first_payment_id, address attestor, uint64 timestamp);
+    event RevenueAuditRecorded(uint256 agreement_id, uint32 payment_id, uint256 audited_revenue, uint256 shortfall, address auditor, uint64 timestamp);
+    event AuditClawbackSettled(uint256 agreement_id, uint256 amount, uint64 timestamp);
+    event AttestationRequirementUpdated(uint256 agreement_id, bool required, uint64 timestamp);
+    event RevenueAuditorUpdated(address auditor, bool enabled, uint64 timestamp);
+    event PointOfSaleKeyUpdated(uint256 agreement_id, address key, bool enabled, uint64 timestamp);
+
+    event FranchiseLicenseRevoked(uint256 agreement_id, uint64 timestamp);
+    event FranchiseLicenseReinstated(uint256 agreement_id, uint64 timestamp);
+
+    event NewTerritoryAdded(uint256 territory_id, string name, uint64 timestamp);
+    event TerritoryDeactivated(uint256 territory_id, uint64 timestamp);
+    event TerritoryRegionAdded(uint256 territory_id, string region_code, uint64 timestamp);
+    event FranchiseRegionsReleased(uint256 agreement_id, uint64 timestamp);
+}
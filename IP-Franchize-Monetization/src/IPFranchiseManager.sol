@@ -0,0 +1,683 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import "@openzeppelin/contracts/proxy/beacon/BeaconProxy.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+
+import "./FranchiseTypes.sol";
+import "./FranchiseLib.sol";
+import "./RegionCodeLib.sol";
+import "./IFranchise.sol";
+import "./IPFranchisingAgreement.sol";
+
+/*
+    ─────────────────────────────────────────────────────────────────────────
+    IPFranchiseManager (équivalent Cairo)
+    Derrière un ERC1967Proxy (UUPS, mise à niveau par l'owner via upgrade); les accords
+    sont des BeaconProxy vers le beacon reçu à l'initialisation.
+    ─────────────────────────────────────────────────────────────────────────
+*/
+contract IPFranchiseManager is IIPFranchiseManager, Initializable, OwnableUpgradeable, UUPSUpgradeable, EventsDefs {
+    using FranchiseLib for FranchiseTerms;
+
+    // Frais de cession à l'initialisation: 20% du prix, comme l'ancien partage fixe 20/80
+    uint16 private constant DEFAULT_TRANSFER_FEE_BPS = 2_000;
+
+    // Storage (ERC-7201): nouveaux champs uniquement en fin de struct
+    /// @custom:storage-location erc7201:mediolano.storage.IPFranchiseManager
+    struct ManagerStorage {
+        // Stockage principal
+        uint256 _ipNftId;
+        address _ipNft;
+        bool    _ipLinked;
+
+        // Territoires
+        mapping(uint256 => Territory) _territories;
+        uint256 _territoriesCount;
+
+        // Codes région (cf. RegionCodeLib); clés = keccak256(code)
+        mapping(uint256 => string[]) _territoryRegions;
+        mapping(bytes32 => uint256) _exclusiveRegions;     // code -> agreementId + 1 (0: libre)
+        mapping(bytes32 => uint256) _exclusiveSubRegions;  // code -> nb de codes exclusifs strictement inclus
+
+        // Accords
+        address _agreementBeacon;                          // UpgradeableBeacon commun à tous les accords
+        mapping(uint256 => address) _agreements;      // id -> address
+        mapping(address => uint256) _agreementIds;    // address -> id
+        uint256 _agreementsCount;
+
+        // Par franchisee
+        mapping(address => mapping(uint256 => uint256)) _franchiseeAgreements;
+        mapping(address => uint256) _franchiseeAgreementCount;
+
+        // Applications (id, version) -> application
+        mapping(uint256 => mapping(uint8 => FranchiseApplication)) _applications;
+        mapping(uint256 => uint8) _applicationVersion;
+        uint256 _applicationsCount;
+
+        mapping(address => mapping(uint256 => uint256)) _franchiseeApplications;
+        mapping(address => uint256) _franchiseeApplicationCount;
+
+        // Ventes
+        mapping(uint256 => bool) _saleRequested;
+        uint256 _saleRequestsCount;
+
+        // Config par défaut
+        FranchiseTerms _preferredModel; // stocke un gabarit "par défaut"
+        uint256 _defaultFranchiseFee;
+
+        // Attestation du CA: auditeurs (tous accords) et clés point de vente (par accord)
+        mapping(address => bool) _revenueAuditors;
+        mapping(uint256 => mapping(address => bool)) _posKeys;
+
+        // Frais de cession prélevés sur le prix des ventes secondaires (bps)
+        uint16 _transferFeeBps;
+
+        // Régions des accords non exclusifs (cf. _exclusiveRegions), et codes tenus par chaque accord
+        mapping(bytes32 => uint256) _sharedRegions;        // code -> nb d'accords non exclusifs sur ce code
+        mapping(bytes32 => uint256) _sharedSubRegions;     // code -> nb de codes non exclusifs strictement inclus
+        mapping(uint256 => uint256) _agreementRegionCount; // id -> nb de codes du territoire tenus (à la création)
+        mapping(uint256 => bool) _agreementRegionsReleased;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("mediolano.storage.IPFranchiseManager")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant MANAGER_STORAGE_LOCATION =
+        0x69de1303a4207aba478e671291380d4b2b0d25066816882d17b861313fd40000;
+
+    function _getManagerStorage() private pure returns (ManagerStorage storage $) {
+        assembly {
+            $.slot := MANAGER_STORAGE_LOCATION
+        }
+    }
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(
+        address owner_,
+        uint256 ipId,
+        address ipNftAddress,
+        uint256 defaultFranchiseFee,
+        FranchiseTerms calldata preferredPaymentModel,
+        address agreementBeacon
+    ) external initializer {
+        __Ownable_init(owner_);
+        __UUPSUpgradeable_init();
+
+        ManagerStorage storage $ = _getManagerStorage();
+        $._ipNftId = ipId;
+        $._ipNft = ipNftAddress;
+        $._defaultFranchiseFee = defaultFranchiseFee;
+        $._preferredModel = preferredPaymentModel;
+        $._agreementBeacon = agreementBeacon;
+        $._transferFeeBps = DEFAULT_TRANSFER_FEE_BPS;
+    }
+
+    // ─────────── Link/Unlink IP NFT ───────────
+
+    function link_ip_asset() external override onlyOwner {
+        ManagerStorage storage $ = _getManagerStorage();
+        if ($._ipLinked) revert IpAssetAlreadyLinked();
+
+        IERC721 nft = IERC721($._ipNft);
+        if (nft.ownerOf($._ipNftId) != msg.sender) revert NotOwnerErr();
+        if (!nft.isApprovedForAll(msg.sender, address(this))) revert NotApprovedErr();
+
+        nft.transferFrom(msg.sender, address(this), $._ipNftId);
+        $._ipLinked = true;
+
+        emit IPAssetLinked($._ipNftId, $._ipNft, msg.sender, uint64(block.timestamp));
+    }
+
+    function unlink_ip_asset() external override onlyOwner {
+        ManagerStorage storage $ = _getManagerStorage();
+        if (!$._ipLinked) revert IpAssetNotLinked();
+
+        // Tous les accords doivent être inactifs/expirés
+        for (uint256 id = 0; id < $._agreementsCount; id++) {
+            address ag = $._agreements[id];
+            if (ag != address(0)) {
+                if (IIPFranchiseAgreement(ag).is_active()) revert AgreementLicenseNotOver();
+            }
+        }
+
+        IERC721 nft = IERC721($._ipNft);
+        if (nft.ownerOf($._ipNftId) != address(this)) revert NotOwnerErr();
+
+        nft.transferFrom(address(this), msg.sender, $._ipNftId);
+        $._ipLinked = false;
+
+        emit IPAssetUnLinked($._ipNftId, $._ipNft, msg.sender, uint64(block.timestamp));
+    }
+
+    // ─────────── Territoires ───────────
+
+    function add_franchise_territory(string calldata name) external override onlyOwner {
+        ManagerStorage storage $ = _getManagerStorage();
+        uint256 id = $._territoriesCount;
+        $._territories[id] = Territory({
+            id: id,
+            name: name,
+            hasExclusiveAgreement: false,
+            exclusiveAgreementId: 0,
+            active: true
+        });
+        $._territoriesCount = id + 1;
+
+        emit NewTerritoryAdded(id, name, uint64(block.timestamp));
+    }
+
+    function deactivate_franchise_territory(uint256 territoryId) external override onlyOwner {
+        ManagerStorage storage $ = _getManagerStorage();
+        Territory storage t = $._territories[territoryId];
+        if (t.id != territoryId) revert InvalidTerritoryId();
+        t.active = false;
+
+        emit TerritoryDeactivated(territoryId, uint64(block.timestamp));
+    }
+
+    // Un code ne peut pas empiéter sur une exclusivité existante; les régions d'un territoire
+    // sont figées dès qu'il porte lui-même un accord exclusif.
+    function add_territory_regions(uint256 territoryId, string[] calldata regionCodes) external override onlyOwner {
+        ManagerStorage storage $ = _getManagerStorage();
+        if (territoryId >= $._territoriesCount) revert InvalidTerritoryId();
+        if ($._territories[territoryId].hasExclusiveAgreement) revert TerritoryAlreadyLinked();
+
+        for (uint256 i = 0; i < regionCodes.length; i++) {
+            _checkRegionFree(regionCodes[i], false);
+            $._territoryRegions[territoryId].push(regionCodes[i]);
+            emit TerritoryRegionAdded(territoryId, regionCodes[i], uint64(block.timestamp));
+        }
+    }
+
+    // ─────────── Création d’accords ───────────
+
+    function create_direct_franchise_agreement(address franchisee, FranchiseTerms calldata terms) external override onlyOwner {
+        ManagerStorage storage $ = _getManagerStorage();
+        if (!$._ipLinked) revert IpAssetNotLinked();
+        FranchiseTerms memory t = terms;
+        t.validateTerms(uint64(block.timestamp));
+
+        _create_franchise_agreement(franchisee, t);
+    }
+
+    function create_franchise_agreement_from_application(uint256 applicationId) external override onlyOwner {
+        ManagerStorage storage $ = _getManagerStorage();
+        if (!$._ipLinked) revert IpAssetNotLinked();
+
+        uint8 v = $._applicationVersion[applicationId];
+        FranchiseApplication storage app = $._applications[applicationId][v];
+        if (app.status != ApplicationStatus.Approved) revert ApplicationNotApproved();
+
+        FranchiseTerms memory t = app.currentTerms;
+        t.validateTerms(uint64(block.timestamp));
+
+        _create_franchise_agreement(app.franchisee, t);
+    }
+
+    // ─────────── Applications ───────────
+
+    function apply_for_franchise(FranchiseTerms calldata terms) external override {
+        ManagerStorage storage $ = _getManagerStorage();
+        if (!$._ipLinked) revert IpAssetNotLinked();
+
+        FranchiseTerms memory t = terms;
+        t.validateTerms(uint64(block.timestamp));
+
+        _openTerritory(t.territoryId);
+
+        uint256 id = $._applicationsCount;
+        uint8 v = $._applicationVersion[id]; // 0 à la création
+
+        _write_application(id, v, msg.sender, t, ApplicationStatus.Pending, v);
+        $._applicationsCount++;
+
+        uint256 idx = $._franchiseeApplicationCount[msg.sender];
+        $._franchiseeApplications[msg.sender][idx] = id;
+        $._franchiseeApplicationCount[msg.sender] = idx + 1;
+
+        emit NewFranchiseApplication(id, msg.sender, uint64(block.timestamp));
+    }
+
+    function revise_franchise_application(uint256 applicationId, FranchiseTerms calldata newTerms) external override {
+        ManagerStorage storage $ = _getManagerStorage();
+        uint8 v = $._applicationVersion[applicationId];
+        FranchiseApplication storage app = $._applications[applicationId][v];
+
+        if (msg.sender != app.franchisee && msg.sender != owner()) revert NotAuthorized();
+        if (app.status != ApplicationStatus.Pending && app.status != ApplicationStatus.Revised) revert InvalidApplicationStatus();
+
+        FranchiseTerms memory t = newTerms;
+        t.validateTerms(uint64(block.timestamp));
+
+        _openTerritory(t.territoryId);
+
+        uint8 newV = v + 1;
+        $._applicationVersion[applicationId] = newV;
+        _write_application(applicationId, newV, app.franchisee, t, ApplicationStatus.Revised, app.version);
+
+        emit FranchiseApplicationRevised(applicationId, msg.sender, newV, uint64(block.timestamp));
+    }
+
+    function accept_franchise_application_revision(uint256 applicationId) external override {
+        FranchiseApplication storage app = _latest_application(applicationId);
+
+        if (msg.sender != app.franchisee) revert NotAuthorized();
+        if (app.status != ApplicationStatus.Revised) revert InvalidApplicationStatus();
+
+        app.status = ApplicationStatus.RevisionAccepted;
+
+        emit ApplicationRevisionAccepted(applicationId, msg.sender, uint64(block.timestamp));
+    }
+
+    function cancel_franchise_application(uint256 applicationId) external override {
+        FranchiseApplication storage app = _latest_application(applicationId);
+
+        if (msg.sender != app.franchisee) revert NotApplicationOwner();
+        if (app.status != ApplicationStatus.Pending) revert CannotCancelApplication();
+
+        app.status = ApplicationStatus.Cancelled;
+
+        emit FranchiseApplicationCanceled(applicationId, msg.sender, uint64(block.timestamp));
+    }
+
+    function approve_franchise_application(uint256 applicationId) external override onlyOwner {
+        FranchiseApplication storage app = _latest_application(applicationId);
+
+        if (app.status != ApplicationStatus.Pending && app.status != ApplicationStatus.RevisionAccepted) {
+            revert InvalidApplicationStatus();
+        }
+        // une exclusivité ne peut recouper aucun accord en cours (exclusif ou non) d'un autre territoire
+        if (app.currentTerms.exclusivity == ExclusivityType.Exclusive) {
+            _checkTerritoryRegionsFree(app.currentTerms.territoryId, true);
+        }
+
+        app.status = ApplicationStatus.Approved;
+
+        emit FranchiseApplicationApproved(applicationId, uint64(block.timestamp));
+    }
+
+    function reject_franchise_application(uint256 applicationId) external override onlyOwner {
+        FranchiseApplication storage app = _latest_application(applicationId);
+
+        if (app.status != ApplicationStatus.Pending && app.status != ApplicationStatus.RevisionAccepted) {
+            revert InvalidApplicationStatus();
+        }
+
+        app.status = ApplicationStatus.Rejected;
+
+        emit FranchiseApplicationRejected(applicationId, uint64(block.timestamp));
+    }
+
+    // ─────────── Ventes (pilotées par l’accord) ───────────
+
+    function initiate_franchise_sale(uint256 agreementId) external override {
+        ManagerStorage storage $ = _getManagerStorage();
+        address ag = $._agreements[agreementId];
+        if (ag == address(0)) revert InvalidIpId();
+        if (msg.sender != ag) revert NotAuthorized();
+
+        $._saleRequested[agreementId] = true;
+
+        uint256 saleId = $._saleRequestsCount;
+        $._saleRequestsCount = saleId + 1;
+
+        emit FranchiseSaleInitiated(agreementId, saleId, uint64(block.timestamp));
+    }
+
+    function approve_franchise_sale(uint256 agreementId) external override onlyOwner {
+        ManagerStorage storage $ = _getManagerStorage();
+        if (!$._saleRequested[agreementId]) revert FranchiseAgreementNotListed();
+
+        address ag = $._agreements[agreementId];
+        IIPFranchiseAgreement(ag).approve_franchise_sale();
+
+        emit FranchiseSaleApproved(agreementId, ag, uint64(block.timestamp));
+    }
+
+    function reject_franchise_sale(uint256 agreementId) external override onlyOwner {
+        ManagerStorage storage $ = _getManagerStorage();
+        if (!$._saleRequested[agreementId]) revert FranchiseAgreementNotListed();
+
+        address ag = $._agreements[agreementId];
+        IIPFranchiseAgreement(ag).reject_franchise_sale();
+
+        emit FranchiseSaleRejected(agreementId, ag, uint64(block.timestamp));
+    }
+
+    // S'applique aux ventes approuvées ensuite: l'accord fige le taux à l'approbation.
+    function set_transfer_fee_bps(uint16 feeBps) external override onlyOwner {
+        if (feeBps > 10_000) revert InvalidTransferFee();
+        _getManagerStorage()._transferFeeBps = feeBps;
+        emit TransferFeeUpdated(feeBps, uint64(block.timestamp));
+    }
+
+    function revoke_franchise_license(uint256 agreementId) external override onlyOwner {
+        ManagerStorage storage $ = _getManagerStorage();
+        address ag = $._agreements[agreementId];
+        IIPFranchiseAgreement(ag).revoke_franchise_license();
+        _releaseAgreementRegions(agreementId);
+        emit FranchiseAgreementRevoked(agreementId, ag, uint64(block.timestamp));
+    }
+
+    // Les régions libérées à la révocation sont reprises, si elles sont encore libres
+    function reinstate_franchise_license(uint256 agreementId) external override onlyOwner {
+        ManagerStorage storage $ = _getManagerStorage();
+        address ag = $._agreements[agreementId];
+        IIPFranchiseAgreement(ag).reinstate_franchise_license();
+
+        FranchiseTerms memory t = IIPFranchiseAgreement(ag).get_franchise_terms();
+        if ($._agreementRegionsReleased[agreementId] && uint64(block.timestamp) < t.licenseEnd) {
+            bool exclusive = t.exclusivity == ExclusivityType.Exclusive;
+            uint256 count = $._agreementRegionCount[agreementId];
+            if (exclusive) {
+                Territory storage terr = $._territories[t.territoryId];
+                if (terr.hasExclusiveAgreement) revert TerritoryAlreadyLinked();
+                terr.hasExclusiveAgreement = true;
+                terr.exclusiveAgreementId = agreementId;
+            }
+            _checkRegionsFree(t.territoryId, count, exclusive);
+            _holdRegions(agreementId, t.territoryId, count, exclusive);
+        }
+        emit FranchiseAgreementReinstated(agreementId, ag, uint64(block.timestamp));
+    }
+
+    // Sans permission: une fois la licence échue, les régions de l'accord redeviennent disponibles
+    function release_franchise_regions(uint256 agreementId) external override {
+        ManagerStorage storage $ = _getManagerStorage();
+        address ag = $._agreements[agreementId];
+        if (ag == address(0)) revert FranchiseAgreementNotListed();
+        if (uint64(block.timestamp) < IIPFranchiseAgreement(ag).get_franchise_terms().licenseEnd) {
+            revert AgreementLicenseNotOver();
+        }
+        _releaseAgreementRegions(agreementId);
+    }
+
+    // ─────────── Attestation du CA ───────────
+
+    function set_revenue_auditor(address auditor, bool enabled) external override onlyOwner {
+        ManagerStorage storage $ = _getManagerStorage();
+        $._revenueAuditors[auditor] = enabled;
+        emit RevenueAuditorUpdated(auditor, enabled, uint64(block.timestamp));
+    }
+
+    function set_point_of_sale_key(uint256 agreementId, address key, bool enabled) external override onlyOwner {
+        ManagerStorage storage $ = _getManagerStorage();
+        if ($._agreements[agreementId] == address(0)) revert InvalidIpId();
+        $._posKeys[agreementId][key] = enabled;
+        emit PointOfSaleKeyUpdated(agreementId, key, enabled, uint64(block.timestamp));
+    }
+
+    // required: make_royalty_payments (CA auto-déclaré) est refusé pour cet accord
+    function set_revenue_attestation_required(uint256 agreementId, bool required) external override onlyOwner {
+        ManagerStorage storage $ = _getManagerStorage();
+        address ag = $._agreements[agreementId];
+        if (ag == address(0)) revert InvalidIpId();
+        IIPFranchiseAgreement(ag).set_attestation_required(required);
+    }
+
+    // ─────────── Views ───────────
+
+    function get_ip_nft_id() external view override returns (uint256) { return _getManagerStorage()._ipNftId; }
+    function get_ip_nft_address() external view override returns (address) { return _getManagerStorage()._ipNft; }
+    function is_ip_asset_linked() external view override returns (bool) { return _getManagerStorage()._ipLinked; }
+    function get_agreement_beacon() external view override returns (address) { return _getManagerStorage()._agreementBeacon; }
+
+    function get_territory_info(uint256 territoryId) external view override returns (Territory memory) {
+        ManagerStorage storage $ = _getManagerStorage();
+        return $._territories[territoryId];
+    }
+
+    function get_total_territories() external view override returns (uint256) { return _getManagerStorage()._territoriesCount; }
+
+    function get_territory_regions(uint256 territoryId) external view override returns (string[] memory) {
+        ManagerStorage storage $ = _getManagerStorage();
+        return $._territoryRegions[territoryId];
+    }
+
+    // Accord exclusif dont un code couvre `regionCode` (le code lui-même ou l'un de ses ancêtres)
+    function get_region_agreement(string calldata regionCode) external view override returns (bool covered, uint256 agreementId) {
+        ManagerStorage storage $ = _getManagerStorage();
+        bytes32[] memory keys = RegionCodeLib.levelKeys(regionCode);
+        for (uint256 i = keys.length; i > 0; i--) {
+            uint256 id = $._exclusiveRegions[keys[i - 1]];
+            if (id != 0) return (true, id - 1);
+        }
+        return (false, 0);
+    }
+
+    function get_franchise_agreement_address(uint256 agreementId) external view override returns (address) {
+        ManagerStorage storage $ = _getManagerStorage();
+        return $._agreements[agreementId];
+    }
+
+    function get_franchise_agreement_id(address agreement) external view override returns (uint256) {
+        ManagerStorage storage $ = _getManagerStorage();
+        return $._agreementIds[agreement];
+    }
+
+    function get_total_franchise_agreements() external view override returns (uint256) {
+        ManagerStorage storage $ = _getManagerStorage();
+        return $._agreementsCount;
+    }
+
+    function get_franchisee_agreement(address franchisee, uint256 index) external view override returns (uint256) {
+        ManagerStorage storage $ = _getManagerStorage();
+        return $._franchiseeAgreements[franchisee][index];
+    }
+
+    function get_franchisee_agreement_count(address franchisee) external view override returns (uint256) {
+        ManagerStorage storage $ = _getManagerStorage();
+        return $._franchiseeAgreementCount[franchisee];
+    }
+
+    function get_franchise_application(uint256 applicationId, uint8 version) external view override returns (FranchiseApplication memory) {
+        ManagerStorage storage $ = _getManagerStorage();
+        return $._applications[applicationId][version];
+    }
+
+    function get_franchise_application_version(uint256 applicationId) external view override returns (uint8) {
+        ManagerStorage storage $ = _getManagerStorage();
+        return $._applicationVersion[applicationId];
+    }
+
+    function get_total_franchise_applications() external view override returns (uint256) {
+        ManagerStorage storage $ = _getManagerStorage();
+        return $._applicationsCount;
+    }
+
+    function get_franchisee_application(address franchisee, uint256 index) external view override returns (uint256) {
+        ManagerStorage storage $ = _getManagerStorage();
+        return $._franchiseeApplications[franchisee][index];
+    }
+
+    function get_franchisee_application_count(address franchisee) external view override returns (uint256) {
+        ManagerStorage storage $ = _getManagerStorage();
+        return $._franchiseeApplicationCount[franchisee];
+    }
+
+    function get_preferred_payment_model() external view override returns (FranchiseTerms memory) {
+        ManagerStorage storage $ = _getManagerStorage();
+        return $._preferredModel;
+    }
+
+    function get_default_franchise_fee() external view override returns (uint256) {
+        ManagerStorage storage $ = _getManagerStorage();
+        return $._defaultFranchiseFee;
+    }
+
+    function is_franchise_sale_requested(uint256 agreementId) external view override returns (bool) {
+        ManagerStorage storage $ = _getManagerStorage();
+        return $._saleRequested[agreementId];
+    }
+
+    function get_total_franchise_sale_requests() external view override returns (uint256) {
+        ManagerStorage storage $ = _getManagerStorage();
+        return $._saleRequestsCount;
+    }
+
+    function get_transfer_fee_bps() external view override returns (uint16) {
+        return _getManagerStorage()._transferFeeBps;
+    }
+
+    function is_revenue_auditor(address account) external view override returns (bool) {
+        ManagerStorage storage $ = _getManagerStorage();
+        return $._revenueAuditors[account];
+    }
+
+    function is_revenue_attestor(uint256 agreementId, address account) external view override returns (bool) {
+        ManagerStorage storage $ = _getManagerStorage();
+        return $._revenueAuditors[account] || $._posKeys[agreementId][account];
+    }
+
+    // ─────────── Upgrade (UUPS) ───────────
+
+    // Raccourci de upgradeToAndCall sans appel d'initialisation (parité d'API Cairo)
+    function upgrade(address newImpl) external override onlyOwner {
+        upgradeToAndCall(newImpl, "");
+    }
+
+    function _authorizeUpgrade(address) internal override onlyOwner {}
+
+    // ─────────── Internals ───────────
+    function _create_franchise_agreement(address franchisee, FranchiseTerms memory t) internal {
+        ManagerStorage storage $ = _getManagerStorage();
+        Territory storage terr = _openTerritory(t.territoryId);
+        // exclusif ou non, aucun accord sur une région couverte par l'exclusivité d'un autre territoire;
+        // un exclusif ne recoupe pas non plus les régions d'accords non exclusifs en cours
+        bool exclusive = t.exclusivity == ExclusivityType.Exclusive;
+        _checkTerritoryRegionsFree(t.territoryId, exclusive);
+
+        uint256 id = $._agreementsCount;
+
+        // BeaconProxy: l'équivalent EVM du class hash Cairo, partagé par tous les accords
+        address agreementAddr = address(
+            new BeaconProxy(
+                $._agreementBeacon,
+                abi.encodeCall(IPFranchisingAgreement.initialize, (id, address(this), franchisee, t))
+            )
+        );
+
+        $._agreements[id] = agreementAddr;
+        $._agreementIds[agreementAddr] = id;
+        $._agreementsCount = id + 1;
+
+        // associer à franchisee
+        uint256 idx = $._franchiseeAgreementCount[franchisee];
+        $._franchiseeAgreements[franchisee][idx] = id;
+        $._franchiseeAgreementCount[franchisee] = idx + 1;
+
+        // exclusivité
+        if (exclusive) {
+            terr.hasExclusiveAgreement = true;
+            terr.exclusiveAgreementId = id;
+        }
+        uint256 count = $._territoryRegions[t.territoryId].length;
+        $._agreementRegionCount[id] = count;
+        _holdRegions(id, t.territoryId, count, exclusive);
+
+        emit FranchiseAgreementCreated(id, agreementAddr, franchisee, uint64(block.timestamp));
+    }
+
+    function _latest_application(uint256 id) internal view returns (FranchiseApplication storage) {
+        ManagerStorage storage $ = _getManagerStorage();
+        return $._applications[id][$._applicationVersion[id]];
+    }
+
+    // Le territoire doit être actif et libre de tout accord exclusif
+    function _openTerritory(uint256 territoryId) internal view returns (Territory storage terr) {
+        terr = _getManagerStorage()._territories[territoryId];
+        if (!terr.active) revert TerritoryNotActive();
+        if (terr.hasExclusiveAgreement) revert TerritoryAlreadyLinked();
+    }
+
+    // Version `v` de l'application `id`, proposée par msg.sender
+    function _write_application(
+        uint256 id,
+        uint8 v,
+        address franchisee,
+        FranchiseTerms memory t,
+        ApplicationStatus status,
+        uint8 version
+    ) internal {
+        FranchiseApplication storage app = _getManagerStorage()._applications[id][v];
+        app.applicationId = id;
+        app.franchisee = franchisee;
+        app.currentTerms = t;
+        app.status = status;
+        app.lastProposedBy = msg.sender;
+        app.version = version;
+    }
+
+    // Recouvrement: un niveau du code (ancêtre ou lui-même) est exclusif, ou un code exclusif y est inclus;
+    // pour un exclusif, il en va de même des codes tenus par des accords non exclusifs
+    function _checkRegionFree(string memory code, bool exclusive) internal view {
+        ManagerStorage storage $ = _getManagerStorage();
+        bytes32[] memory keys = RegionCodeLib.levelKeys(code);
+        for (uint256 i = 0; i < keys.length; i++) {
+            if ($._exclusiveRegions[keys[i]] != 0) revert ExclusiveRegionOverlap();
+            if (exclusive && $._sharedRegions[keys[i]] != 0) revert ExclusiveRegionOverlap();
+        }
+        bytes32 key = keys[keys.length - 1];
+        if ($._exclusiveSubRegions[key] != 0) revert ExclusiveRegionOverlap();
+        if (exclusive && $._sharedSubRegions[key] != 0) revert ExclusiveRegionOverlap();
+    }
+
+    function _checkTerritoryRegionsFree(uint256 territoryId, bool exclusive) internal view {
+        _checkRegionsFree(territoryId, _getManagerStorage()._territoryRegions[territoryId].length, exclusive);
+    }
+
+    // Les `count` premiers codes du territoire (la liste ne fait que croître)
+    function _checkRegionsFree(uint256 territoryId, uint256 count, bool exclusive) internal view {
+        string[] storage codes = _getManagerStorage()._territoryRegions[territoryId];
+        for (uint256 i = 0; i < count; i++) {
+            _checkRegionFree(codes[i], exclusive);
+        }
+    }
+
+    function _holdRegions(uint256 agreementId, uint256 territoryId, uint256 count, bool exclusive) internal {
+        ManagerStorage storage $ = _getManagerStorage();
+        string[] storage codes = $._territoryRegions[territoryId];
+        mapping(bytes32 => uint256) storage subRegions = exclusive ? $._exclusiveSubRegions : $._sharedSubRegions;
+        for (uint256 i = 0; i < count; i++) {
+            bytes32[] memory keys = RegionCodeLib.levelKeys(codes[i]);
+            uint256 last = keys.length - 1;
+            if (exclusive) $._exclusiveRegions[keys[last]] = agreementId + 1;
+            else $._sharedRegions[keys[last]]++;
+            for (uint256 j = 0; j < last; j++) {
+                subRegions[keys[j]]++;
+            }
+        }
+        $._agreementRegionsReleased[agreementId] = false;
+    }
+
+    // Inverse de _holdRegions; un territoire exclusif redevient libre
+    function _releaseAgreementRegions(uint256 agreementId) internal {
+        ManagerStorage storage $ = _getManagerStorage();
+        if ($._agreementRegionsReleased[agreementId]) return;
+        $._agreementRegionsReleased[agreementId] = true;
+
+        FranchiseTerms memory t = IIPFranchiseAgreement($._agreements[agreementId]).get_franchise_terms();
+        bool exclusive = t.exclusivity == ExclusivityType.Exclusive;
+        string[] storage codes = $._territoryRegions[t.territoryId];
+        mapping(bytes32 => uint256) storage subRegions = exclusive ? $._exclusiveSubRegions : $._sharedSubRegions;
+        uint256 count = $._agreementRegionCount[agreementId];
+        for (uint256 i = 0; i < count; i++) {
+            bytes32[] memory keys = RegionCodeLib.levelKeys(codes[i]);
+            uint256 last = keys.length - 1;
+            if (exclusive) delete $._exclusiveRegions[keys[last]];
+            else $._sharedRegions[keys[last]]--;
+            for (uint256 j = 0; j < last; j++) {
+                subRegions[keys[j]]--;
+            }
+        }
+        if (exclusive) $._territories[t.territoryId].hasExclusiveAgreement = false;
+
+        emit FranchiseRegionsReleased(agreementId, uint64(block.timestamp));
+    }
+}
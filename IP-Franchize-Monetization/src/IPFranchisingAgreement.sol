@@ -0,0 +1,490 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+
+import "./FranchiseTypes.sol";
+import "./FranchiseLib.sol";
+import "./IFranchise.sol";
+
+/*
+    ─────────────────────────────────────────────────────────────────────────
+    IPFranchisingAgreement (équivalent Cairo)
+    Implémentation derrière un BeaconProxy: tous les accords d'un manager pointent vers
+    le même UpgradeableBeacon, une mise à niveau du beacon s'applique à chacun d'eux.
+    ─────────────────────────────────────────────────────────────────────────
+*/
+contract IPFranchisingAgreement is
+    IIPFranchiseAgreement,
+    Initializable,
+    AccessControlUpgradeable,
+    OwnableUpgradeable,
+    EIP712Upgradeable,
+    EventsDefs
+{
+    using FranchiseLib for FranchiseTerms;
+    using FranchiseLib for RoyaltyFees;
+
+    // Rôles
+    bytes32 public constant FRANCHISEE_ROLE = keccak256("FRANCHISER_ROLE"); // même chaîne que Cairo
+    bytes32 public constant APPROVED_BUYER_ROLE = keccak256("APPROVED_BUYER");
+
+    // Attestation du CA (EIP-712, domaine "IPFranchiseAgreement"/"1" propre à chaque accord).
+    // Signataires admis: auditeurs du manager, ou clés point de vente enregistrées pour cet accord.
+    bytes32 public constant REVENUE_REPORT_TYPEHASH =
+        keccak256("RevenueReport(uint256 agreementId,uint32 firstPaymentId,uint256[] revenues)");
+    bytes32 public constant REVENUE_AUDIT_TYPEHASH =
+        keccak256("RevenueAudit(uint256 agreementId,uint32 paymentId,uint256 auditedRevenue)");
+
+    // Délai laissé au franchisé pour régler un manque à gagner constaté par audit;
+    // au-delà, le litige ouvre la voie à revoke_franchise_license.
+    uint64 public constant CLAWBACK_SETTLEMENT_PERIOD = 30 days;
+
+    uint16 private constant BPS_DENOMINATOR = 10_000;
+
+    // Storage (ERC-7201): nouveaux champs uniquement en fin de struct
+    /// @custom:storage-location erc7201:mediolano.storage.IPFranchisingAgreement
+    struct AgreementStorage {
+        uint256 _agreementId;
+        address _franchiseManager;
+        address _franchisee;
+        FranchiseTerms _terms;
+
+        bool _hasSaleRequest;
+        FranchiseSaleRequest _saleRequest;
+
+        mapping(uint32 => RoyaltyPayment) _royaltyPayments;
+
+        bool _isActiveFlag;
+        bool _isRevokedFlag;
+
+        // Attestation / audits
+        bool _attestationRequired;
+        mapping(uint32 => RevenueAudit) _audits;
+        uint256 _clawbackOutstanding;
+        uint64 _clawbackDueBy;       // échéance du plus ancien manque à gagner non réglé
+
+        // Cession: prix de vente séquestré par l'acheteur, frais de cession figés à l'approbation
+        bool _saleEscrowFunded;
+        uint16 _saleTransferFeeBps;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("mediolano.storage.IPFranchisingAgreement")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant AGREEMENT_STORAGE_LOCATION =
+        0xc0e31372cea7e5c26f2358c090e4aebc575fb939d644b9ec8c988e1ef0565400;
+
+    function _getAgreementStorage() private pure returns (AgreementStorage storage $) {
+        assembly {
+            $.slot := AGREEMENT_STORAGE_LOCATION
+        }
+    }
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    // Appelé par le BeaconProxy à sa création (IPFranchiseManager._create_franchise_agreement)
+    function initialize(
+        uint256 agreementId,
+        address franchiseManager,
+        address franchisee,
+        FranchiseTerms calldata terms
+    ) external initializer {
+        __AccessControl_init();
+        __Ownable_init(franchiseManager);
+        __EIP712_init("IPFranchiseAgreement", "1");
+
+        AgreementStorage storage $ = _getAgreementStorage();
+        $._agreementId = agreementId;
+        $._franchiseManager = franchiseManager;
+        $._franchisee = franchisee;
+        $._terms = terms;
+
+        _grantRole(DEFAULT_ADMIN_ROLE, franchiseManager);
+        _grantRole(FRANCHISEE_ROLE, franchisee);
+    }
+
+    // ───────────────────── Logic ─────────────────────
+
+    function activate_franchise() external override onlyRole(FRANCHISEE_ROLE) {
+        AgreementStorage storage $ = _getAgreementStorage();
+        // Vérifie que l'IP est toujours liée côté manager
+        if (!IIPFranchiseManager($._franchiseManager).is_ip_asset_linked()) revert FranchiseIpNotLinked();
+
+        uint256 totalFee = $._terms.totalFranchiseFee();
+        if (totalFee > 0) {
+            bool ok = IERC20($._terms.paymentToken).transferFrom(msg.sender, $._franchiseManager, totalFee);
+            if (!ok) revert Erc20TransferFailed();
+        }
+
+        $._isActiveFlag = true;
+        emit FranchiseAgreementActivated($._agreementId, uint64(block.timestamp));
+    }
+
+    function create_sale_request(address to, uint256 salePrice) external override onlyRole(FRANCHISEE_ROLE) {
+        AgreementStorage storage $ = _getAgreementStorage();
+        if (!is_active()) revert FranchiseAgreementNotActive();
+        if (!IIPFranchiseManager($._franchiseManager).is_ip_asset_linked()) revert FranchiseIpNotLinked();
+
+        if ($._hasSaleRequest) {
+            // En Cairo, le test est légèrement bogué (Rejected || Rejected). Ici on empêche une demande active.
+            if ($._saleRequest.status == FranchiseSaleStatus.Pending || $._saleRequest.status == FranchiseSaleStatus.Approved) {
+                revert ActiveSaleRequestInProgress();
+            }
+        }
+
+        $._saleRequest = FranchiseSaleRequest({
+            from: $._franchisee,
+            to: to,
+            salePrice: salePrice,
+            status: FranchiseSaleStatus.Pending
+        });
+        $._hasSaleRequest = true;
+
+        IIPFranchiseManager($._franchiseManager).initiate_franchise_sale($._agreementId);
+        emit SaleRequestInitiated($._agreementId, salePrice, to, uint64(block.timestamp));
+    }
+
+    function approve_franchise_sale() external override onlyRole(DEFAULT_ADMIN_ROLE) {
+        AgreementStorage storage $ = _getAgreementStorage();
+        if (!$._hasSaleRequest) revert SaleRequestNotFound();
+        if ($._saleRequest.status != FranchiseSaleStatus.Pending) revert InvalidSaleStatus();
+
+        $._saleRequest.status = FranchiseSaleStatus.Approved;
+        $._saleTransferFeeBps = IIPFranchiseManager($._franchiseManager).get_transfer_fee_bps();
+        _grantRole(APPROVED_BUYER_ROLE, $._saleRequest.to);
+
+        emit SaleRequestApproved($._agreementId, uint64(block.timestamp));
+    }
+
+    function reject_franchise_sale() external override onlyRole(DEFAULT_ADMIN_ROLE) {
+        AgreementStorage storage $ = _getAgreementStorage();
+        if (!$._hasSaleRequest) revert SaleRequestNotFound();
+        if ($._saleRequest.status != FranchiseSaleStatus.Pending) revert InvalidSaleStatus();
+
+        $._saleRequest.status = FranchiseSaleStatus.Rejected;
+        emit SaleRequestRejected($._agreementId, uint64(block.timestamp));
+    }
+
+    /// L'acheteur approuvé séquestre le prix de vente (paymentToken) dans l'accord.
+    function fund_franchise_sale() external override onlyRole(APPROVED_BUYER_ROLE) {
+        AgreementStorage storage $ = _getAgreementStorage();
+        if ($._saleRequest.status != FranchiseSaleStatus.Approved) revert InvalidSaleStatus();
+        if (msg.sender != $._saleRequest.to) revert OnlyBuyerCanFinalizeSale();
+        if ($._saleEscrowFunded) revert SaleEscrowAlreadyFunded();
+        if ($._isRevokedFlag || !is_active()) revert FranchiseAgreementNotActive();
+
+        $._saleEscrowFunded = true;
+        bool ok = IERC20($._terms.paymentToken).transferFrom(msg.sender, address(this), $._saleRequest.salePrice);
+        if (!ok) revert Erc20TransferFailed();
+
+        emit SaleEscrowFunded($._agreementId, msg.sender, $._saleRequest.salePrice, uint64(block.timestamp));
+    }
+
+    /// Vendeur ou acheteur: annule une vente non finalisée, le séquestre éventuel est rendu à l'acheteur.
+    function cancel_franchise_sale() external override {
+        AgreementStorage storage $ = _getAgreementStorage();
+        if (!$._hasSaleRequest) revert SaleRequestNotFound();
+        FranchiseSaleStatus status = $._saleRequest.status;
+        if (status != FranchiseSaleStatus.Pending && status != FranchiseSaleStatus.Approved) revert InvalidSaleStatus();
+        address buyer = $._saleRequest.to;
+        if (msg.sender != $._franchisee && msg.sender != buyer) revert NotAuthorized();
+
+        uint256 refunded = $._saleEscrowFunded ? $._saleRequest.salePrice : 0;
+        $._saleEscrowFunded = false;
+        $._saleRequest.status = FranchiseSaleStatus.Cancelled;
+        _revokeRole(APPROVED_BUYER_ROLE, buyer);
+
+        if (refunded > 0) {
+            bool ok = IERC20($._terms.paymentToken).transfer(buyer, refunded);
+            if (!ok) revert Erc20TransferFailed();
+        }
+        emit SaleRequestCancelled($._agreementId, msg.sender, refunded, uint64(block.timestamp));
+    }
+
+    /// Le vendeur finalise sur le séquestre, en une étape: royalties des échéances manquées
+    /// (CA déclaré dans `reportedRevenues`, comme make_royalty_payments) et clawback d'audit
+    /// en cours au manager, frais de cession au manager, le solde au vendeur; puis la franchise
+    /// passe à l'acheteur, à jour de ses échéances.
+    function finalize_franchise_sale(uint256[] calldata reportedRevenues) external override onlyRole(FRANCHISEE_ROLE) {
+        AgreementStorage storage $ = _getAgreementStorage();
+        if (!$._hasSaleRequest) revert SaleRequestNotFound();
+        if ($._saleRequest.status != FranchiseSaleStatus.Approved) revert InvalidSaleStatus();
+        if (!$._saleEscrowFunded) revert SaleEscrowNotFunded();
+        // licence révoquée ou échue: plus rien à céder, le séquestre se récupère par cancel_franchise_sale
+        if ($._isRevokedFlag || !is_active()) revert FranchiseAgreementNotActive();
+
+        uint256 royalties = 0;
+        if ($._terms.kind == PaymentModelKind.RoyaltyBased) {
+            // CA non attesté: refusé si l'accord exige une attestation (régler d'abord via make_attested_royalty_payments)
+            if ($._attestationRequired && reportedRevenues.length > 0) revert RevenueAttestationRequired();
+            (uint256 totalRoyalty, uint256 totalRevenue) = _recordRoyalties(reportedRevenues, address(0));
+            if (reportedRevenues.length > 0) {
+                emit RoyaltyPaymentMade($._agreementId, totalRoyalty, totalRevenue, uint64(block.timestamp));
+            }
+            royalties = totalRoyalty;
+        } else if (reportedRevenues.length != 0) {
+            revert RevenueMismatch();
+        }
+
+        uint256 clawback = $._clawbackOutstanding;
+        if (clawback > 0) {
+            $._clawbackOutstanding = 0;
+            $._clawbackDueBy = 0;
+            royalties += clawback;
+            emit AuditClawbackSettled($._agreementId, clawback, uint64(block.timestamp));
+        }
+
+        uint256 price = $._saleRequest.salePrice;
+        uint256 fee = (price * $._saleTransferFeeBps) / BPS_DENOMINATOR;
+        if (fee + royalties > price) revert SaleProceedsInsufficient();
+        uint256 sellerAmount = price - fee - royalties;
+        address seller = $._franchisee;
+
+        // rôles
+        $._saleEscrowFunded = false;
+        _revokeRole(FRANCHISEE_ROLE, seller);
+        _revokeRole(APPROVED_BUYER_ROLE, $._saleRequest.to);
+        $._franchisee = $._saleRequest.to;
+        _grantRole(FRANCHISEE_ROLE, $._franchisee);
+
+        $._saleRequest.status = FranchiseSaleStatus.Completed;
+
+        IERC20 token = IERC20($._terms.paymentToken);
+        bool ok1 = token.transfer($._franchiseManager, fee + royalties);
+        bool ok2 = token.transfer(seller, sellerAmount);
+        if (!ok1 || !ok2) revert Erc20TransferFailed();
+
+        emit SaleSettled($._agreementId, sellerAmount, fee, royalties, uint64(block.timestamp));
+        emit SaleRequestFinalized($._agreementId, $._franchisee, uint64(block.timestamp));
+    }
+
+    function make_royalty_payments(uint256[] calldata reportedRevenues) external override {
+        AgreementStorage storage $ = _getAgreementStorage();
+        if ($._attestationRequired) revert RevenueAttestationRequired();
+        _payRoyalties(reportedRevenues, address(0));
+    }
+
+    /// Paiement sur CA attesté: `signature` couvre les échéances dues à partir de lastPaymentId + 1.
+    function make_attested_royalty_payments(uint256[] calldata reportedRevenues, bytes calldata signature) external override {
+        AgreementStorage storage $ = _getAgreementStorage();
+        uint32 firstPaymentId = $._terms.royaltyFees.lastPaymentId + 1;
+        bytes32 structHash = keccak256(
+            abi.encode(
+                REVENUE_REPORT_TYPEHASH,
+                $._agreementId,
+                firstPaymentId,
+                keccak256(abi.encodePacked(reportedRevenues))
+            )
+        );
+        address attestor = _recoverAttestor(structHash, signature, false);
+
+        _payRoyalties(reportedRevenues, attestor);
+        emit RevenueAttested($._agreementId, firstPaymentId, attestor, uint64(block.timestamp));
+    }
+
+    /// Audit périodique d'une échéance déjà payée, signé par un auditeur du manager.
+    /// Un manque à gagner est ajouté au clawback, à régler sous CLAWBACK_SETTLEMENT_PERIOD.
+    function record_revenue_audit(uint32 paymentId, uint256 auditedRevenue, bytes calldata signature) external override {
+        AgreementStorage storage $ = _getAgreementStorage();
+        RoyaltyPayment memory p = $._royaltyPayments[paymentId];
+        if (p.paymentId == 0) revert PaymentNotFound();
+        if ($._audits[paymentId].auditor != address(0)) revert AuditAlreadyRecorded();
+
+        bytes32 structHash = keccak256(abi.encode(REVENUE_AUDIT_TYPEHASH, $._agreementId, paymentId, auditedRevenue));
+        address auditor = _recoverAttestor(structHash, signature, true);
+
+        uint256 due = FranchiseLib.royaltyDue($._terms.royaltyFees, auditedRevenue);
+        uint256 shortfall = due > p.royaltyPaid ? due - p.royaltyPaid : 0;
+        $._audits[paymentId] = RevenueAudit({
+            auditedRevenue: auditedRevenue,
+            shortfall: shortfall,
+            auditor: auditor,
+            timestamp: uint64(block.timestamp)
+        });
+
+        if (shortfall > 0) {
+            if ($._clawbackOutstanding == 0) $._clawbackDueBy = uint64(block.timestamp) + CLAWBACK_SETTLEMENT_PERIOD;
+            $._clawbackOutstanding += shortfall;
+        }
+        emit RevenueAuditRecorded($._agreementId, paymentId, auditedRevenue, shortfall, auditor, uint64(block.timestamp));
+    }
+
+    /// Règle l'intégralité du manque à gagner constaté (payeur: msg.sender, au profit du manager).
+    function settle_audit_clawback() external override {
+        AgreementStorage storage $ = _getAgreementStorage();
+        uint256 amount = $._clawbackOutstanding;
+        if (amount == 0) revert NoClawbackOutstanding();
+
+        $._clawbackOutstanding = 0;
+        $._clawbackDueBy = 0;
+
+        bool ok = IERC20($._terms.paymentToken).transferFrom(msg.sender, $._franchiseManager, amount);
+        if (!ok) revert Erc20TransferFailed();
+
+        emit AuditClawbackSettled($._agreementId, amount, uint64(block.timestamp));
+    }
+
+    function set_attestation_required(bool required) external override onlyRole(DEFAULT_ADMIN_ROLE) {
+        AgreementStorage storage $ = _getAgreementStorage();
+        $._attestationRequired = required;
+        emit AttestationRequirementUpdated($._agreementId, required, uint64(block.timestamp));
+    }
+
+    function _payRoyalties(uint256[] calldata reportedRevenues, address attestor) internal {
+        AgreementStorage storage $ = _getAgreementStorage();
+        (uint256 totalRoyalty, uint256 totalRevenue) = _recordRoyalties(reportedRevenues, attestor);
+
+        bool ok = IERC20($._terms.paymentToken).transferFrom(msg.sender, $._franchiseManager, totalRoyalty);
+        if (!ok) revert Erc20TransferFailed();
+
+        emit RoyaltyPaymentMade($._agreementId, totalRoyalty, totalRevenue, uint64(block.timestamp));
+    }
+
+    // Enregistre les échéances manquées (une par CA déclaré) et avance lastPaymentId; le paiement reste à l'appelant.
+    function _recordRoyalties(uint256[] calldata reportedRevenues, address attestor)
+        internal
+        returns (uint256 totalRoyalty, uint256 totalRevenue)
+    {
+        AgreementStorage storage $ = _getAgreementStorage();
+        if ($._terms.kind != PaymentModelKind.RoyaltyBased) revert OnlyRoyaltyPayments();
+
+        RoyaltyFees memory rf = $._terms.royaltyFees;
+        uint32 missed = rf.calculateMissedPayments($._terms.licenseStart, uint64(block.timestamp));
+        if (reportedRevenues.length != missed) revert RevenueMismatch();
+
+        uint32 lastPaymentId = rf.lastPaymentId;
+
+        for (uint32 i = 0; i < missed; i++) {
+            uint256 revenue = reportedRevenues[i];
+            if (revenue == 0) revert InvalidRevenueAmount();
+            uint256 royalty = FranchiseLib.royaltyDue(rf, revenue);
+            if (royalty == 0) revert InvalidRoyaltyAmount();
+
+            totalRoyalty += royalty;
+            totalRevenue += revenue;
+
+            uint32 nextId = lastPaymentId + (i + 1);
+            $._royaltyPayments[nextId] = RoyaltyPayment({
+                paymentId: nextId,
+                royaltyPaid: royalty,
+                reportedRevenue: revenue,
+                timestamp: uint64(block.timestamp),
+                attestedBy: attestor
+            });
+        }
+
+        // update lastPaymentId
+        $._terms.royaltyFees.lastPaymentId = lastPaymentId + missed;
+    }
+
+    // Révocable après maxMissedPayments échéances manquées, ou sur litige d'audit non réglé à échéance.
+    function revoke_franchise_license() external override onlyRole(DEFAULT_ADMIN_ROLE) {
+        AgreementStorage storage $ = _getAgreementStorage();
+        if ($._terms.kind == PaymentModelKind.RoyaltyBased && !_clawbackOverdue()) {
+            RoyaltyFees memory rf = $._terms.royaltyFees;
+            uint32 missed = rf.calculateMissedPayments($._terms.licenseStart, uint64(block.timestamp));
+            if (missed < rf.maxMissedPayments) revert MaxMissedPaymentsNotReached();
+        }
+        $._isRevokedFlag = true;
+        emit FranchiseLicenseRevoked($._agreementId, uint64(block.timestamp));
+    }
+
+    function reinstate_franchise_license() external override onlyRole(DEFAULT_ADMIN_ROLE) {
+        AgreementStorage storage $ = _getAgreementStorage();
+        if ($._clawbackOutstanding > 0) revert ClawbackOutstanding();
+        if ($._terms.kind == PaymentModelKind.RoyaltyBased) {
+            RoyaltyFees memory rf = $._terms.royaltyFees;
+            uint32 missed = rf.calculateMissedPayments($._terms.licenseStart, uint64(block.timestamp));
+            if (missed >= rf.maxMissedPayments) revert MissedPaymentsExceedsMax();
+        }
+        $._isRevokedFlag = false;
+        emit FranchiseLicenseReinstated($._agreementId, uint64(block.timestamp));
+    }
+
+    // ───────────────────── Views ─────────────────────
+
+    function get_agreement_id() external view override returns (uint256) { return _getAgreementStorage()._agreementId; }
+    function get_franchise_manager() external view override returns (address) { return _getAgreementStorage()._franchiseManager; }
+    function get_franchisee() external view override returns (address) { return _getAgreementStorage()._franchisee; }
+    function get_payment_token() external view override returns (address) { return _getAgreementStorage()._terms.paymentToken; }
+
+    function get_franchise_terms() external view override returns (FranchiseTerms memory) {
+        AgreementStorage storage $ = _getAgreementStorage();
+        return $._terms;
+    }
+
+    function get_sale_request() external view override returns (bool exists, FranchiseSaleRequest memory req) {
+        AgreementStorage storage $ = _getAgreementStorage();
+        return ($._hasSaleRequest, $._saleRequest);
+    }
+
+    function get_sale_escrow() external view override returns (bool funded, uint16 transferFeeBps) {
+        AgreementStorage storage $ = _getAgreementStorage();
+        return ($._saleEscrowFunded, $._saleTransferFeeBps);
+    }
+
+    function get_royalty_payment_info(uint32 paymentId) external view override returns (RoyaltyPayment memory) {
+        AgreementStorage storage $ = _getAgreementStorage();
+        return $._royaltyPayments[paymentId];
+    }
+
+    function is_active() public view override returns (bool) {
+        AgreementStorage storage $ = _getAgreementStorage();
+        if (uint64(block.timestamp) >= $._terms.licenseEnd) return false;
+        return $._isActiveFlag;
+    }
+
+    function is_revoked() external view override returns (bool) { return _getAgreementStorage()._isRevokedFlag; }
+
+    function get_activation_fee() external view override returns (uint256) {
+        AgreementStorage storage $ = _getAgreementStorage();
+        return $._terms.totalFranchiseFee();
+    }
+
+    function get_total_missed_payments() external view override returns (uint32) {
+        AgreementStorage storage $ = _getAgreementStorage();
+        if ($._terms.kind == PaymentModelKind.OneTime) return 0;
+        return $._terms.royaltyFees.calculateMissedPayments($._terms.licenseStart, uint64(block.timestamp));
+    }
+
+    function is_attestation_required() external view override returns (bool) {
+        AgreementStorage storage $ = _getAgreementStorage();
+        return $._attestationRequired;
+    }
+
+    function get_revenue_audit(uint32 paymentId) external view override returns (RevenueAudit memory) {
+        AgreementStorage storage $ = _getAgreementStorage();
+        return $._audits[paymentId];
+    }
+
+    function get_audit_clawback() external view override returns (uint256 outstanding, uint64 dueBy) {
+        AgreementStorage storage $ = _getAgreementStorage();
+        return ($._clawbackOutstanding, $._clawbackDueBy);
+    }
+
+    // ───────────────────── Internals ─────────────────────
+
+    // auditOnly: seuls les auditeurs du manager (pas les clés point de vente) peuvent auditer
+    function _recoverAttestor(bytes32 structHash, bytes calldata signature, bool auditOnly) internal view returns (address signer) {
+        AgreementStorage storage $ = _getAgreementStorage();
+        (address recovered, ECDSA.RecoverError err, ) = ECDSA.tryRecover(_hashTypedDataV4(structHash), signature);
+        if (err != ECDSA.RecoverError.NoError) revert InvalidRevenueAttestation();
+
+        IIPFranchiseManager mgr = IIPFranchiseManager($._franchiseManager);
+        bool allowed = auditOnly ? mgr.is_revenue_auditor(recovered) : mgr.is_revenue_attestor($._agreementId, recovered);
+        if (!allowed) revert InvalidRevenueAttestation();
+        return recovered;
+    }
+
+    function _clawbackOverdue() internal view returns (bool) {
+        AgreementStorage storage $ = _getAgreementStorage();
+        return $._clawbackOutstanding > 0 && uint64(block.timestamp) > $._clawbackDueBy;
+    }
+}
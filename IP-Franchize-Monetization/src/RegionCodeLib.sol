@@ -0,0 +1,72 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./FranchiseTypes.sol";
+
+/*
+    Codes région hiérarchiques délimitant un territoire:
+      "CC"              pays, ISO 3166-1 alpha-2 (ex. "NG")
+      "CC-SUB"          subdivision ISO 3166-2 (ex. "NG-LA")
+      "CC-SUB/geohash"  cellule geohash (1 à 12 caractères base32) dans la subdivision (ex. "NG-LA/s1v")
+    Chaque niveau est contenu dans le précédent: NG ⊃ NG-LA ⊃ NG-LA/s ⊃ NG-LA/s1 ⊃ ...
+    Deux codes se recoupent ssi l'un est un ancêtre (ou l'égal) de l'autre. Forme canonique
+    uniquement (majuscules ISO, geohash en minuscules): pas de normalisation on-chain.
+*/
+library RegionCodeLib {
+    uint256 internal constant MAX_SUBDIVISION_LENGTH = 3;
+    uint256 internal constant MAX_GEOHASH_LENGTH = 12;
+
+    // Clés (keccak256 du préfixe) de chaque niveau, du pays au code lui-même (dernière clé).
+    function levelKeys(string memory code) internal pure returns (bytes32[] memory keys) {
+        bytes memory b = bytes(code);
+        uint256 len = b.length;
+        if (len < 2 || !_isUpper(b[0]) || !_isUpper(b[1])) revert InvalidRegionCode();
+
+        // fin de la subdivision (== 2 si le code n'est qu'un pays)
+        uint256 subEnd = 2;
+        if (len > 2) {
+            if (b[2] != "-") revert InvalidRegionCode();
+            subEnd = 3;
+            while (subEnd < len && b[subEnd] != "/") {
+                if (!_isUpper(b[subEnd]) && !_isDigit(b[subEnd])) revert InvalidRegionCode();
+                subEnd++;
+            }
+            if (subEnd == 3 || subEnd - 3 > MAX_SUBDIVISION_LENGTH) revert InvalidRegionCode();
+        }
+
+        uint256 geohashLen;
+        if (subEnd < len) {
+            geohashLen = len - subEnd - 1;
+            if (geohashLen == 0 || geohashLen > MAX_GEOHASH_LENGTH) revert InvalidRegionCode();
+            for (uint256 i = subEnd + 1; i < len; i++) {
+                if (!_isGeohash(b[i])) revert InvalidRegionCode();
+            }
+        }
+
+        keys = new bytes32[]((subEnd > 2 ? 2 : 1) + geohashLen);
+        uint256 k;
+        keys[k++] = _prefixKey(b, 2);
+        if (subEnd > 2) keys[k++] = _prefixKey(b, subEnd);
+        for (uint256 end = subEnd + 2; end <= len; end++) keys[k++] = _prefixKey(b, end);
+    }
+
+    function _prefixKey(bytes memory b, uint256 length) private pure returns (bytes32 key) {
+        assembly ("memory-safe") {
+            key := keccak256(add(b, 32), length)
+        }
+    }
+
+    function _isUpper(bytes1 c) private pure returns (bool) {
+        return c >= "A" && c <= "Z";
+    }
+
+    function _isDigit(bytes1 c) private pure returns (bool) {
+        return c >= "0" && c <= "9";
+    }
+
+    // alphabet geohash: chiffres et minuscules sauf a, i, l, o
+    function _isGeohash(bytes1 c) private pure returns (bool) {
+        if (_isDigit(c)) return true;
+        return c >= "b" && c <= "z" && c != "i" && c != "l" && c != "o";
+    }
+}
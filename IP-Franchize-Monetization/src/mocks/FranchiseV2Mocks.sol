@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "../IPFranchisingAgreement.sol";
+import "../IPFranchiseManager.sol";
+
+/*
+    Implémentations "V2" pour les tests de mise à niveau (beacon / UUPS): même stockage
+    ERC-7201, une fonction en plus pour vérifier que la nouvelle logique est bien servie.
+*/
+contract IPFranchisingAgreementV2 is IPFranchisingAgreement {
+    function version() external pure returns (uint256) {
+        return 2;
+    }
+}
+
+contract IPFranchiseManagerV2 is IPFranchiseManager {
+    function version() external pure returns (uint256) {
+        return 2;
+    }
+}
@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/*
+    ─────────────────────────────────────────────────────────────────────────
+    Mock ERC20 (équivalent MockERC20 Cairo)
+    - constructeur: name, symbol, fixedSupply (non utilisé pour coller au Cairo)
+    - mint(address,uint256) : pas de contrôle d'accès (idem Cairo)
+    ─────────────────────────────────────────────────────────────────────────
+*/
+contract MockERC20 is ERC20 {
+    constructor(string memory name_, string memory symbol_, uint256 /*fixedSupplyIgnored*/) ERC20(name_, symbol_) {}
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
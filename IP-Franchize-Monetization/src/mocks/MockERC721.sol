@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+
+/*
+    ─────────────────────────────────────────────────────────────────────────
+    Mock ERC721 (équivalent MockERC721 Cairo)
+    - constructor fixe name/symbol comme Cairo ("Mediolano","MED") et baseURI
+    - mint(address,uint256) : pas de contrôle d'accès (idem Cairo)
+    ─────────────────────────────────────────────────────────────────────────
+*/
+contract MockERC721 is ERC721 {
+    string private _base;
+
+    constructor(string memory baseUri_) ERC721("Mediolano", "MED") {
+        _base = baseUri_;
+    }
+
+    function _baseURI() internal view override returns (string memory) {
+        return _base;
+    }
+
+    function mint(address to, uint256 tokenId) external {
+        _safeMint(to, tokenId);
+    }
+}
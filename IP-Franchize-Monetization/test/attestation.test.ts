@@ -0,0 +1,165 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { IPFranchisingAgreement, MockERC20 } from "../typechain-types";
+import { signRevenueAudit, signRevenueReport } from "../utils/revenueSigner";
+import { deployFranchiseManager } from "../utils/deploy";
+
+const DAY = 24 * 60 * 60;
+const MONTH = 30 * DAY;
+const ROYALTY_PERCENT = 10n;
+
+// Accord royalties mensuelles (10 %), activé, première échéance due
+async function setup() {
+  const [owner, franchisee, posDevice] = await ethers.getSigners();
+  // stub local: clé de l'auditeur jamais financée, elle ne fait que signer
+  const auditor = ethers.Wallet.createRandom().connect(ethers.provider);
+
+  const erc20 = (await (await ethers.getContractFactory("MockERC20")).deploy("DummyERC20", "DUMMY", 0n)) as unknown as MockERC20;
+  const erc721 = await (await ethers.getContractFactory("MockERC721")).deploy("DummyBaseURI/");
+  await erc721.mint(owner.address, 1n);
+
+  const start = (await time.latest()) + 3600;
+  const terms = {
+    kind: 1, // RoyaltyBased
+    paymentToken: await erc20.getAddress(),
+    franchiseFee: 100n,
+    licenseStart: BigInt(start),
+    licenseEnd: BigInt(start + 2 * 365 * DAY),
+    exclusivity: 1,
+    territoryId: 0n,
+    oneTimeFee: 0n,
+    royaltyFees: {
+      royaltyPercent: Number(ROYALTY_PERCENT),
+      paymentSchedule: 0, // Monthly
+      customInterval: 0n,
+      hasCustomInterval: false,
+      lastPaymentId: 0,
+      maxMissedPayments: 3,
+    },
+  };
+
+  const { manager: mgr } = await deployFranchiseManager(owner, {
+    ipId: 1n,
+    ipNft: await erc721.getAddress(),
+    defaultFranchiseFee: 0n,
+    preferredTerms: terms,
+  });
+  const manager = await mgr.getAddress();
+  await erc721.setApprovalForAll(manager, true);
+  await mgr.link_ip_asset();
+  await mgr.add_franchise_territory("Lagos");
+  await mgr.create_direct_franchise_agreement(franchisee.address, terms);
+  const agreement = (await ethers.getContractAt(
+    "IPFranchisingAgreement",
+    await mgr.get_franchise_agreement_address(0n)
+  )) as unknown as IPFranchisingAgreement;
+
+  await erc20.mint(franchisee.address, 1_000_000_000n);
+  await erc20.connect(franchisee).approve(await agreement.getAddress(), ethers.MaxUint256);
+  await agreement.connect(franchisee).activate_franchise();
+
+  await mgr.set_revenue_auditor(auditor.address, true);
+  await mgr.set_point_of_sale_key(0n, posDevice.address, true);
+
+  await time.increase(MONTH + 3600);
+  return { owner, franchisee, posDevice, auditor, erc20, mgr, manager, agreement };
+}
+
+describe("IP Franchise – attestation du CA et audits", () => {
+  it("paiement attesté par une clé point de vente; CA auto-déclaré refusé si l'attestation est exigée", async () => {
+    const { franchisee, posDevice, mgr, agreement } = await setup();
+    const revenues = [5_000_000n];
+
+    await expect(mgr.set_revenue_attestation_required(0n, true))
+      .to.emit(agreement, "AttestationRequirementUpdated");
+    expect(await agreement.is_attestation_required()).to.equal(true);
+    await expect(agreement.connect(franchisee).make_royalty_payments(revenues))
+      .to.be.revertedWithCustomError(agreement, "RevenueAttestationRequired");
+
+    // signé par le franchisé lui-même: pas un attesteur enregistré
+    const selfSigned = await signRevenueReport(franchisee, agreement, revenues);
+    await expect(agreement.connect(franchisee).make_attested_royalty_payments(revenues, selfSigned))
+      .to.be.revertedWithCustomError(agreement, "InvalidRevenueAttestation");
+    // signature valide mais pour un autre CA
+    const signature = await signRevenueReport(posDevice, agreement, revenues);
+    await expect(agreement.connect(franchisee).make_attested_royalty_payments([6_000_000n], signature))
+      .to.be.revertedWithCustomError(agreement, "InvalidRevenueAttestation");
+
+    await expect(agreement.connect(franchisee).make_attested_royalty_payments(revenues, signature))
+      .to.emit(agreement, "RevenueAttested")
+      .withArgs(0n, 1n, posDevice.address, (ts: bigint) => ts > 0n);
+    const payment = await agreement.get_royalty_payment_info(1);
+    expect(payment.attestedBy).to.equal(posDevice.address);
+    expect(payment.royaltyPaid).to.equal(500_000n);
+
+    // rejeu impossible: l'attestation couvrait l'échéance 1
+    await time.increase(MONTH);
+    await expect(agreement.connect(franchisee).make_attested_royalty_payments(revenues, signature))
+      .to.be.revertedWithCustomError(agreement, "InvalidRevenueAttestation");
+
+    // clé révoquée
+    await mgr.set_point_of_sale_key(0n, posDevice.address, false);
+    const stale = await signRevenueReport(posDevice, agreement, revenues);
+    await expect(agreement.connect(franchisee).make_attested_royalty_payments(revenues, stale))
+      .to.be.revertedWithCustomError(agreement, "InvalidRevenueAttestation");
+  });
+
+  it("audit: le manque à gagner est réclamé (clawback) et bloque la réintégration", async () => {
+    const { franchisee, posDevice, auditor, erc20, mgr, manager, agreement } = await setup();
+    await agreement.connect(franchisee).make_royalty_payments([1_000_000n]); // CA sous-déclaré
+
+    // une clé point de vente ne peut pas auditer; échéance inexistante
+    const byPos = await signRevenueAudit(posDevice, agreement, 1n, 4_000_000n);
+    await expect(agreement.record_revenue_audit(1, 4_000_000n, byPos))
+      .to.be.revertedWithCustomError(agreement, "InvalidRevenueAttestation");
+    const future = await signRevenueAudit(auditor, agreement, 2n, 4_000_000n);
+    await expect(agreement.record_revenue_audit(2, 4_000_000n, future))
+      .to.be.revertedWithCustomError(agreement, "PaymentNotFound");
+
+    const audit = await signRevenueAudit(auditor, agreement, 1n, 4_000_000n);
+    await expect(agreement.record_revenue_audit(1, 4_000_000n, audit))
+      .to.emit(agreement, "RevenueAuditRecorded")
+      .withArgs(0n, 1n, 4_000_000n, 300_000n, auditor.address, (ts: bigint) => ts > 0n);
+    await expect(agreement.record_revenue_audit(1, 4_000_000n, audit))
+      .to.be.revertedWithCustomError(agreement, "AuditAlreadyRecorded");
+
+    const [outstanding, dueBy] = await agreement.get_audit_clawback();
+    const recorded = await agreement.get_revenue_audit(1);
+    expect(outstanding).to.equal(300_000n);
+    expect(recorded.shortfall).to.equal(300_000n);
+    expect(dueBy).to.equal(recorded.timestamp + 30n * BigInt(DAY));
+    await expect(mgr.reinstate_franchise_license(0n)).to.be.revertedWithCustomError(agreement, "ClawbackOutstanding");
+
+    await expect(agreement.connect(franchisee).settle_audit_clawback()).to.changeTokenBalances(
+      erc20,
+      [franchisee.address, manager],
+      [-300_000n, 300_000n]
+    );
+    await expect(agreement.settle_audit_clawback()).to.be.revertedWithCustomError(agreement, "NoClawbackOutstanding");
+    await mgr.reinstate_franchise_license(0n);
+  });
+
+  it("litige non réglé à échéance: revoke_franchise_license sans attendre maxMissedPayments", async () => {
+    const { franchisee, auditor, mgr, agreement } = await setup();
+    await agreement.connect(franchisee).make_royalty_payments([1_000_000n]);
+    await agreement.record_revenue_audit(1, 2_000_000n, await signRevenueAudit(auditor, agreement, 1n, 2_000_000n));
+
+    // dans le délai de règlement: règles habituelles (aucune échéance manquée)
+    await expect(mgr.revoke_franchise_license(0n))
+      .to.be.revertedWithCustomError(agreement, "MaxMissedPaymentsNotReached");
+
+    const [, dueBy] = await agreement.get_audit_clawback();
+    await time.increaseTo(dueBy + 1n);
+    await expect(mgr.revoke_franchise_license(0n)).to.emit(agreement, "FranchiseLicenseRevoked");
+    expect(await agreement.is_revoked()).to.equal(true);
+
+    // audit sans manque à gagner: aucun litige supplémentaire
+    await agreement.connect(franchisee).settle_audit_clawback();
+    await agreement.connect(franchisee).make_royalty_payments([3_000_000n]);
+    await agreement.record_revenue_audit(2, 2_000_000n, await signRevenueAudit(auditor, agreement, 2n, 2_000_000n));
+    expect((await agreement.get_audit_clawback())[0]).to.equal(0n);
+    await mgr.reinstate_franchise_license(0n);
+    expect(await agreement.is_revoked()).to.equal(false);
+  });
+});
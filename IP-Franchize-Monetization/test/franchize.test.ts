@@ -1,6 +1,8 @@
 import { expect } from "chai";
 import { ethers, network } from "hardhat";
-import { Contract, Signer } from "ethers";
+import { Signer } from "ethers";
+import type { IPFranchiseManager, IPFranchisingAgreement, MockERC20, MockERC721 } from "../typechain-types";
+import { deployFranchiseManager } from "../utils/deploy";
 
 // Helpers time
 const increaseTime = async (secs: number | bigint) => {
@@ -15,7 +17,7 @@ const now = async (): Promise<number> => {
 // Enums mirror (doivent matcher l’ordre dans les contrats)
 enum PaymentSchedule { Monthly, Quarterly, SemiAnnually, Annually, Custom }
 enum ExclusivityType { Exclusive, NonExclusive }
-enum FranchiseSaleStatus { Pending, Approved, Rejected, Completed }
+enum FranchiseSaleStatus { Pending, Approved, Rejected, Completed, Cancelled }
 enum PaymentModelKind { OneTime, RoyaltyBased }
 
 type RoyaltyFees = {
@@ -50,11 +52,11 @@ async function deployMocks() {
   owner = o; franchisee = f; buyer = b; someone = s;
 
   const ERC20 = await ethers.getContractFactory("MockERC20", owner);
-  const erc20 = await ERC20.deploy("DummyERC20", "DUMMY", 0n);
+  const erc20 = (await ERC20.deploy("DummyERC20", "DUMMY", 0n)) as unknown as MockERC20;
   await erc20.waitForDeployment();
 
   const ERC721 = await ethers.getContractFactory("MockERC721", owner);
-  const erc721 = await ERC721.deploy("DummyBaseURI/");
+  const erc721 = (await ERC721.deploy("DummyBaseURI/")) as unknown as MockERC721;
   await erc721.waitForDeployment();
 
   // Mint l’IP NFT au owner
@@ -128,35 +130,33 @@ async function deployManager(
   defaultFranchiseFee: bigint,
   preferredTerms: FranchiseTerms
 ) {
-  const Manager = await ethers.getContractFactory("IPFranchiseManager", owner);
-  const mgr = await Manager.deploy(
-    await owner.getAddress(),
-    ipNftId,
-    ipNftAddress,
+  // ERC1967Proxy (UUPS) + beacon des accords
+  const { manager } = await deployFranchiseManager(owner, {
+    ipId: ipNftId,
+    ipNft: ipNftAddress,
     defaultFranchiseFee,
     preferredTerms
-  );
-  await mgr.waitForDeployment();
-  return mgr;
+  });
+  return manager;
 }
 
-async function linkIP(mgr: Contract, erc721: Contract) {
+async function linkIP(mgr: IPFranchiseManager, erc721: MockERC721) {
   // setApprovalForAll(manager, true)
   await (await erc721.connect(owner).setApprovalForAll(await mgr.getAddress(), true)).wait();
   // link_ip_asset (owner)
   await (await mgr.connect(owner).link_ip_asset()).wait();
 }
 
-async function addTerritory(mgr: Contract, name = "Lagos") {
+async function addTerritory(mgr: IPFranchiseManager, name = "Lagos") {
   await (await mgr.connect(owner).add_franchise_territory(name)).wait();
 }
 
-async function createDirectAgreement(mgr: Contract, terms: FranchiseTerms) {
+async function createDirectAgreement(mgr: IPFranchiseManager, terms: FranchiseTerms) {
   await (await mgr.connect(owner).create_direct_franchise_agreement(await franchisee.getAddress(), terms)).wait();
   const total = await mgr.get_total_franchise_agreements();
   const agreementId = total - 1n;
   const addr = await mgr.get_franchise_agreement_address(agreementId);
-  const agreement = await ethers.getContractAt("IPFranchisingAgreement", addr, owner);
+  const agreement = (await ethers.getContractAt("IPFranchisingAgreement", addr, owner)) as unknown as IPFranchisingAgreement;
   return { agreement, agreementId };
 }
 
@@ -298,17 +298,29 @@ describe("IP Franchise – parity tests (Cairo ➜ Solidity)", () => {
     const saleReq = await agreement.get_sale_request();
     expect(saleReq[0]).to.eq(true); // exists
 
-    // approve sale (owner → via manager)
-    await (await mgr.connect(owner).approve_franchise_sale(agreementId)).wait();
-
-    // reject est mutual exclusif; on réinitialise une nouvelle vente pour tester le rejet
-    await (await agreement.connect(franchisee).create_sale_request(await buyer.getAddress(), 6000n)).wait();
+    // reject (owner → via manager); une demande rejetée libère la place pour une nouvelle vente
     await (await mgr.connect(owner).reject_franchise_sale(agreementId)).wait();
     const saleReq2 = await agreement.get_sale_request();
     expect(saleReq2[1].status).to.eq(FranchiseSaleStatus.Rejected);
+
+    // approve sale (owner → via manager)
+    await (await agreement.connect(franchisee).create_sale_request(await buyer.getAddress(), 6000n)).wait();
+    await (await mgr.connect(owner).approve_franchise_sale(agreementId)).wait();
+    const saleReq3 = await agreement.get_sale_request();
+    expect(saleReq3[1].status).to.eq(FranchiseSaleStatus.Approved);
+    expect(saleReq3[1].salePrice).to.eq(6000n);
+
+    // une vente approuvée bloque toute nouvelle demande jusqu'à son annulation
+    await expect(agreement.connect(franchisee).create_sale_request(await buyer.getAddress(), 7000n))
+      .to.be.revertedWithCustomError(agreement, "ActiveSaleRequestInProgress");
+    await (await agreement.connect(franchisee).cancel_franchise_sale()).wait();
+    await (await agreement.connect(franchisee).create_sale_request(await buyer.getAddress(), 7000n)).wait();
+    const saleReq4 = await agreement.get_sale_request();
+    expect(saleReq4[1].status).to.eq(FranchiseSaleStatus.Pending);
+    expect(saleReq4[1].salePrice).to.eq(7000n);
   });
 
-  it("finalize sale request (buyer pays 20/80 split)", async () => {
+  it("finalize sale request (escrow, 20/80 split par défaut)", async () => {
     const { erc20, erc721 } = await deployMocks();
     const nowTs = await now();
     const mgr = await deployManager(1n, await erc721.getAddress(), 0n,
@@ -330,14 +342,22 @@ describe("IP Franchise – parity tests (Cairo ➜ Solidity)", () => {
     await (await agreement.connect(franchisee).create_sale_request(await buyer.getAddress(), price)).wait();
     await (await mgr.connect(owner).approve_franchise_sale(agreementId)).wait();
 
-    // buyer paie
+    // buyer séquestre le prix, le vendeur finalise (aucune échéance manquée)
     await (await erc20.connect(owner).mint(await buyer.getAddress(), price)).wait();
     await (await erc20.connect(buyer).approve(await agreement.getAddress(), price)).wait();
-    await (await agreement.connect(buyer).finalize_franchise_sale()).wait();
+    await (await agreement.connect(buyer).fund_franchise_sale()).wait();
+    expect(await erc20.balanceOf(await agreement.getAddress())).to.eq(price);
+
+    const sellerBefore = await erc20.balanceOf(await franchisee.getAddress());
+    const mgrBefore = await erc20.balanceOf(await mgr.getAddress());
+    await (await agreement.connect(franchisee).finalize_franchise_sale([])).wait();
 
     const saleReq = await agreement.get_sale_request();
     expect(saleReq[1].status).to.eq(FranchiseSaleStatus.Completed);
     expect(await agreement.get_franchisee()).to.eq(await buyer.getAddress());
+    expect((await erc20.balanceOf(await mgr.getAddress())) - mgrBefore).to.eq(price / 5n);
+    expect((await erc20.balanceOf(await franchisee.getAddress())) - sellerBefore).to.eq(price - price / 5n);
+    expect(await erc20.balanceOf(await agreement.getAddress())).to.eq(0n);
   });
 
   it("royalty payment path (1 mois)", async () => {
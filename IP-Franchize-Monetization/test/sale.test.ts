@@ -0,0 +1,189 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { IPFranchisingAgreement, MockERC20 } from "../typechain-types";
+import { signRevenueReport } from "../utils/revenueSigner";
+import { deployFranchiseManager } from "../utils/deploy";
+
+const DAY = 24 * 60 * 60;
+const MONTH = 30 * DAY;
+const SALE_PRICE = 2_000_000n;
+enum FranchiseSaleStatus { Pending, Approved, Rejected, Completed, Cancelled }
+
+// Accord royalties mensuelles (10 %), activé, une échéance manquée; l'acheteur est financé
+async function setup() {
+  const [owner, seller, buyer, other, posDevice] = await ethers.getSigners();
+  const erc20 = (await (await ethers.getContractFactory("MockERC20")).deploy("DummyERC20", "DUMMY", 0n)) as unknown as MockERC20;
+  const erc721 = await (await ethers.getContractFactory("MockERC721")).deploy("DummyBaseURI/");
+  await erc721.mint(owner.address, 1n);
+
+  const start = (await time.latest()) + 3600;
+  const terms = {
+    kind: 1, // RoyaltyBased
+    paymentToken: await erc20.getAddress(),
+    franchiseFee: 100n,
+    licenseStart: BigInt(start),
+    licenseEnd: BigInt(start + 2 * 365 * DAY),
+    exclusivity: 1,
+    territoryId: 0n,
+    oneTimeFee: 0n,
+    royaltyFees: {
+      royaltyPercent: 10,
+      paymentSchedule: 0, // Monthly
+      customInterval: 0n,
+      hasCustomInterval: false,
+      lastPaymentId: 0,
+      maxMissedPayments: 3,
+    },
+  };
+
+  const { manager: mgr } = await deployFranchiseManager(owner, {
+    ipId: 1n,
+    ipNft: await erc721.getAddress(),
+    defaultFranchiseFee: 0n,
+    preferredTerms: terms,
+  });
+  await erc721.setApprovalForAll(await mgr.getAddress(), true);
+  await mgr.link_ip_asset();
+  await mgr.add_franchise_territory("Lagos");
+  await mgr.create_direct_franchise_agreement(seller.address, terms);
+  const agreement = (await ethers.getContractAt(
+    "IPFranchisingAgreement",
+    await mgr.get_franchise_agreement_address(0n)
+  )) as unknown as IPFranchisingAgreement;
+  const escrow = await agreement.getAddress();
+
+  await erc20.mint(seller.address, 1_000_000_000n);
+  await erc20.connect(seller).approve(escrow, ethers.MaxUint256);
+  await agreement.connect(seller).activate_franchise();
+  await erc20.mint(buyer.address, 10n * SALE_PRICE);
+  await erc20.connect(buyer).approve(escrow, ethers.MaxUint256);
+  await mgr.set_point_of_sale_key(0n, posDevice.address, true);
+
+  await time.increase(MONTH + 3600);
+  return { owner, seller, buyer, other, posDevice, erc20, mgr, agreement, escrow };
+}
+
+describe("IP Franchise – cession avec prix séquestré", () => {
+  it("finalisation: royalties manquées, frais de cession et vendeur réglés sur le séquestre", async () => {
+    const { seller, buyer, other, erc20, mgr, agreement, escrow } = await setup();
+    expect(await mgr.get_transfer_fee_bps()).to.equal(2_000n);
+    await expect(mgr.connect(other).set_transfer_fee_bps(500)).to.be.revertedWithCustomError(mgr, "OwnableUnauthorizedAccount");
+    await expect(mgr.set_transfer_fee_bps(10_001)).to.be.revertedWithCustomError(mgr, "InvalidTransferFee");
+    await expect(mgr.set_transfer_fee_bps(500)).to.emit(mgr, "TransferFeeUpdated").withArgs(500, (ts: bigint) => ts > 0n);
+
+    await agreement.connect(seller).create_sale_request(buyer.address, SALE_PRICE);
+    await mgr.approve_franchise_sale(0n);
+    // le taux est figé à l'approbation
+    await mgr.set_transfer_fee_bps(9_000);
+    expect(await agreement.get_sale_escrow()).to.deep.equal([false, 500n]);
+
+    await expect(agreement.connect(seller).finalize_franchise_sale([5_000_000n]))
+      .to.be.revertedWithCustomError(agreement, "SaleEscrowNotFunded");
+    await expect(agreement.connect(other).fund_franchise_sale())
+      .to.be.revertedWithCustomError(agreement, "AccessControlUnauthorizedAccount");
+    await expect(agreement.connect(buyer).fund_franchise_sale())
+      .to.emit(agreement, "SaleEscrowFunded")
+      .withArgs(0n, buyer.address, SALE_PRICE, (ts: bigint) => ts > 0n);
+    await expect(agreement.connect(buyer).fund_franchise_sale())
+      .to.be.revertedWithCustomError(agreement, "SaleEscrowAlreadyFunded");
+
+    // un CA par échéance manquée, et seul le vendeur finalise
+    expect(await agreement.get_total_missed_payments()).to.equal(1);
+    await expect(agreement.connect(seller).finalize_franchise_sale([]))
+      .to.be.revertedWithCustomError(agreement, "RevenueMismatch");
+    await expect(agreement.connect(buyer).finalize_franchise_sale([5_000_000n]))
+      .to.be.revertedWithCustomError(agreement, "AccessControlUnauthorizedAccount");
+
+    // 10 % de 5M = 500k de royalties, 5 % de frais = 100k, solde 1,4M au vendeur
+    const finalize = await agreement.connect(seller).finalize_franchise_sale([5_000_000n]);
+    await expect(finalize)
+      .to.emit(agreement, "SaleSettled")
+      .withArgs(0n, 1_400_000n, 100_000n, 500_000n, (ts: bigint) => ts > 0n)
+      .and.to.emit(agreement, "SaleRequestFinalized");
+    await expect(finalize).to.changeTokenBalances(erc20, [escrow, mgr, seller], [-SALE_PRICE, 600_000n, 1_400_000n]);
+
+    expect((await agreement.get_sale_request())[1].status).to.equal(FranchiseSaleStatus.Completed);
+    expect(await agreement.get_sale_escrow()).to.deep.equal([false, 500n]);
+    expect(await agreement.get_franchisee()).to.equal(buyer.address);
+    expect(await agreement.get_total_missed_payments()).to.equal(0);
+    expect((await agreement.get_royalty_payment_info(1)).reportedRevenue).to.equal(5_000_000n);
+
+    // l'acheteur reprend la franchise à jour; le vendeur n'a plus la main
+    await expect(agreement.connect(seller).create_sale_request(other.address, 1n))
+      .to.be.revertedWithCustomError(agreement, "AccessControlUnauthorizedAccount");
+    await agreement.connect(buyer).create_sale_request(other.address, 1n);
+  });
+
+  it("finalisation refusée si le prix ne couvre pas les arriérés, ou sans attestation exigée", async () => {
+    const { seller, buyer, posDevice, mgr, agreement } = await setup();
+    await agreement.connect(seller).create_sale_request(buyer.address, 500_000n);
+    await mgr.approve_franchise_sale(0n);
+    await agreement.connect(buyer).fund_franchise_sale();
+
+    // 20 % de 500k + 500k de royalties > 500k
+    await expect(agreement.connect(seller).finalize_franchise_sale([5_000_000n]))
+      .to.be.revertedWithCustomError(agreement, "SaleProceedsInsufficient");
+
+    await mgr.set_revenue_attestation_required(0n, true);
+    await expect(agreement.connect(seller).finalize_franchise_sale([1_000_000n]))
+      .to.be.revertedWithCustomError(agreement, "RevenueAttestationRequired");
+
+    // arriérés réglés sur CA attesté, puis finalisation sans échéance manquée
+    const signature = await signRevenueReport(posDevice, agreement, [1_000_000n]);
+    await agreement.connect(seller).make_attested_royalty_payments([1_000_000n], signature);
+    await expect(agreement.connect(seller).finalize_franchise_sale([]))
+      .to.emit(agreement, "SaleSettled")
+      .withArgs(0n, 400_000n, 100_000n, 0n, (ts: bigint) => ts > 0n);
+  });
+
+  it("licence révoquée: ni séquestre ni finalisation, l'acheteur récupère son dépôt", async () => {
+    const { seller, buyer, erc20, mgr, agreement, escrow } = await setup();
+    await agreement.connect(seller).create_sale_request(buyer.address, SALE_PRICE);
+    await mgr.approve_franchise_sale(0n);
+    await agreement.connect(buyer).fund_franchise_sale();
+
+    // trois échéances manquées: révocable
+    await time.increase(2 * MONTH);
+    await mgr.revoke_franchise_license(0n);
+    await expect(agreement.connect(seller).finalize_franchise_sale([1n, 1n, 1n]))
+      .to.be.revertedWithCustomError(agreement, "FranchiseAgreementNotActive");
+    await expect(agreement.connect(buyer).cancel_franchise_sale())
+      .to.changeTokenBalances(erc20, [escrow, buyer], [-SALE_PRICE, SALE_PRICE]);
+    expect(await agreement.get_franchisee()).to.equal(seller.address);
+
+    // une vente approuvée avant révocation ne peut plus être financée
+    const { seller: seller2, buyer: buyer2, mgr: mgr2, agreement: agreement2 } = await setup();
+    await agreement2.connect(seller2).create_sale_request(buyer2.address, SALE_PRICE);
+    await mgr2.approve_franchise_sale(0n);
+    await time.increase(2 * MONTH);
+    await mgr2.revoke_franchise_license(0n);
+    await expect(agreement2.connect(buyer2).fund_franchise_sale())
+      .to.be.revertedWithCustomError(agreement2, "FranchiseAgreementNotActive");
+  });
+
+  it("annulation: le séquestre revient à l'acheteur", async () => {
+    const { seller, buyer, other, erc20, mgr, agreement, escrow } = await setup();
+    await agreement.connect(seller).create_sale_request(buyer.address, SALE_PRICE);
+    await mgr.approve_franchise_sale(0n);
+    await agreement.connect(buyer).fund_franchise_sale();
+
+    await expect(agreement.connect(other).cancel_franchise_sale()).to.be.revertedWithCustomError(agreement, "NotAuthorized");
+    const cancel = await agreement.connect(buyer).cancel_franchise_sale();
+    await expect(cancel)
+      .to.emit(agreement, "SaleRequestCancelled")
+      .withArgs(0n, buyer.address, SALE_PRICE, (ts: bigint) => ts > 0n);
+    await expect(cancel).to.changeTokenBalances(erc20, [escrow, buyer], [-SALE_PRICE, SALE_PRICE]);
+    expect((await agreement.get_sale_request())[1].status).to.equal(FranchiseSaleStatus.Cancelled);
+    await expect(agreement.connect(buyer).fund_franchise_sale())
+      .to.be.revertedWithCustomError(agreement, "AccessControlUnauthorizedAccount");
+
+    // une vente annulée libère le vendeur; une demande en attente s'annule sans remboursement
+    await agreement.connect(seller).create_sale_request(other.address, SALE_PRICE);
+    await expect(agreement.connect(seller).cancel_franchise_sale())
+      .to.emit(agreement, "SaleRequestCancelled")
+      .withArgs(0n, seller.address, 0n, (ts: bigint) => ts > 0n);
+    await expect(agreement.connect(seller).finalize_franchise_sale([1n]))
+      .to.be.revertedWithCustomError(agreement, "InvalidSaleStatus");
+  });
+});
@@ -0,0 +1,149 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { normalizeRegionCode, regionLevels, regionsOverlap } from "../utils/regionCodes";
+import { deployFranchiseManager } from "../utils/deploy";
+
+const DAY = 24 * 60 * 60;
+const EXCLUSIVE = 0;
+const NON_EXCLUSIVE = 1;
+
+async function setup() {
+  const [owner, alice, bob, carol] = await ethers.getSigners();
+  const erc20 = await (await ethers.getContractFactory("MockERC20")).deploy("DummyERC20", "DUMMY", 0n);
+  const erc721 = await (await ethers.getContractFactory("MockERC721")).deploy("DummyBaseURI/");
+  await erc721.mint(owner.address, 1n);
+
+  const start = (await time.latest()) + 3600;
+  const termsFor = (territoryId: bigint, exclusivity: number) => ({
+    kind: 0, // OneTime
+    paymentToken: erc20.target as string,
+    franchiseFee: 100n,
+    licenseStart: BigInt(start),
+    licenseEnd: BigInt(start + 365 * DAY),
+    exclusivity,
+    territoryId,
+    oneTimeFee: 1_000n,
+    royaltyFees: {
+      royaltyPercent: 0,
+      paymentSchedule: 0,
+      customInterval: 0n,
+      hasCustomInterval: false,
+      lastPaymentId: 0,
+      maxMissedPayments: 0,
+    },
+  });
+
+  const { manager: mgr } = await deployFranchiseManager(owner, {
+    ipId: 1n,
+    ipNft: await erc721.getAddress(),
+    defaultFranchiseFee: 0n,
+    preferredTerms: termsFor(0n, NON_EXCLUSIVE),
+  });
+  await erc721.setApprovalForAll(await mgr.getAddress(), true);
+  await mgr.link_ip_asset();
+
+  // 0: Lagos (NG-LA), 1: Nigeria entier, 2: une cellule geohash dans Lagos, 3: Abuja
+  for (const [name, codes] of [
+    ["Lagos", ["NG-LA"]],
+    ["Nigeria", ["NG"]],
+    ["Lekki", ["NG-LA/s14"]],
+    ["Abuja", ["NG-FC"]],
+  ] as const) {
+    await mgr.add_franchise_territory(name);
+    await mgr.add_territory_regions((await mgr.get_total_territories()) - 1n, [...codes]);
+  }
+  return { owner, alice, bob, carol, mgr, termsFor };
+}
+
+describe("IP Franchise – territoires par codes région", () => {
+  it("valide les codes région (ISO 3166-1/2 + geohash)", async () => {
+    const { mgr } = await setup();
+    expect(await mgr.get_territory_regions(2n)).to.deep.equal(["NG-LA/s14"]);
+
+    for (const bad of ["ng", "N", "NGA", "NG-", "NG-LAGO", "NG/s14", "NG-LA/", "NG-LA/S14", "NG-LA/a", "NG-LA/s1234567890123"]) {
+      await expect(mgr.add_territory_regions(0n, [bad]), bad).to.be.revertedWithCustomError(mgr, "InvalidRegionCode");
+    }
+    await expect(mgr.add_territory_regions(9n, ["FR"])).to.be.revertedWithCustomError(mgr, "InvalidTerritoryId");
+
+    expect(normalizeRegionCode(" ng-la/S14 ")).to.equal("NG-LA/s14");
+    expect(regionLevels("NG-LA/s14")).to.deep.equal(["NG", "NG-LA", "NG-LA/s", "NG-LA/s1", "NG-LA/s14"]);
+    expect(regionsOverlap("NG", "NG-LA/s14")).to.equal(true);
+    expect(regionsOverlap("NG-LA/s14", "NG-LA/s15")).to.equal(false);
+    expect(() => normalizeRegionCode("NG/s14")).to.throw(/invalide/);
+  });
+
+  it("approbation Exclusive: refusée si une région recoupe une exclusivité existante", async () => {
+    const { alice, bob, carol, mgr, termsFor } = await setup();
+    await mgr.connect(alice).apply_for_franchise(termsFor(0n, EXCLUSIVE)); // Lagos
+    await mgr.connect(bob).apply_for_franchise(termsFor(1n, EXCLUSIVE)); // Nigeria
+    await mgr.connect(carol).apply_for_franchise(termsFor(2n, EXCLUSIVE)); // cellule dans Lagos
+
+    await mgr.approve_franchise_application(0n);
+    await mgr.create_franchise_agreement_from_application(0n);
+
+    // ancêtre (NG) et descendant (NG-LA/s14) de la région exclusive NG-LA
+    await expect(mgr.approve_franchise_application(1n)).to.be.revertedWithCustomError(mgr, "ExclusiveRegionOverlap");
+    await expect(mgr.approve_franchise_application(2n)).to.be.revertedWithCustomError(mgr, "ExclusiveRegionOverlap");
+
+    // Abuja reste libre, y compris en non exclusif
+    await mgr.connect(bob).apply_for_franchise(termsFor(3n, EXCLUSIVE));
+    await mgr.approve_franchise_application(3n);
+    // un non-exclusif ne peut pas s'installer dans la région exclusive d'un autre territoire
+    await expect(mgr.create_direct_franchise_agreement(carol.address, termsFor(2n, NON_EXCLUSIVE)))
+      .to.be.revertedWithCustomError(mgr, "ExclusiveRegionOverlap");
+    // ni étendre un territoire vers une région exclusive
+    await expect(mgr.add_territory_regions(3n, ["NG-LA/s"])).to.be.revertedWithCustomError(mgr, "ExclusiveRegionOverlap");
+    await expect(mgr.add_territory_regions(0n, ["NG-OG"])).to.be.revertedWithCustomError(mgr, "TerritoryAlreadyLinked");
+  });
+
+  it("exclusivité refusée sur les régions d'un non-exclusif en cours; régions libérées à la révocation ou à l'échéance", async () => {
+    const { alice, bob, carol, mgr, termsFor } = await setup();
+    await mgr.create_direct_franchise_agreement(alice.address, termsFor(0n, NON_EXCLUSIVE)); // 0: Lagos
+    await mgr.connect(bob).apply_for_franchise(termsFor(1n, EXCLUSIVE)); // Nigeria
+    await mgr.connect(carol).apply_for_franchise(termsFor(2n, EXCLUSIVE)); // cellule dans Lagos
+
+    // ancêtre et descendant d'une région non exclusive, à l'approbation comme à la création directe
+    await expect(mgr.approve_franchise_application(0n)).to.be.revertedWithCustomError(mgr, "ExclusiveRegionOverlap");
+    await expect(mgr.approve_franchise_application(1n)).to.be.revertedWithCustomError(mgr, "ExclusiveRegionOverlap");
+    await expect(mgr.create_direct_franchise_agreement(bob.address, termsFor(0n, EXCLUSIVE)))
+      .to.be.revertedWithCustomError(mgr, "ExclusiveRegionOverlap");
+    await expect(mgr.release_franchise_regions(0n)).to.be.revertedWithCustomError(mgr, "AgreementLicenseNotOver");
+
+    // la révocation libère Lagos; la réintégration échoue tant que la cellule est exclusive
+    await expect(mgr.revoke_franchise_license(0n)).to.emit(mgr, "FranchiseRegionsReleased");
+    await mgr.approve_franchise_application(1n);
+    await mgr.create_franchise_agreement_from_application(1n); // 1: cellule, exclusif
+    await expect(mgr.reinstate_franchise_license(0n)).to.be.revertedWithCustomError(mgr, "ExclusiveRegionOverlap");
+
+    // un exclusif révoqué puis réintégré reprend ses régions
+    await mgr.revoke_franchise_license(1n);
+    expect((await mgr.get_territory_info(2n)).hasExclusiveAgreement).to.equal(false);
+    expect(await mgr.get_region_agreement("NG-LA/s14")).to.deep.equal([false, 0n]);
+    await mgr.reinstate_franchise_license(1n);
+    expect(await mgr.get_region_agreement("NG-LA/s14")).to.deep.equal([true, 1n]);
+
+    // à l'échéance, n'importe qui libère les régions (une seule fois)
+    await mgr.create_direct_franchise_agreement(alice.address, termsFor(3n, NON_EXCLUSIVE)); // 2: Abuja
+    await time.increaseTo(termsFor(0n, EXCLUSIVE).licenseEnd);
+    await expect(mgr.connect(carol).release_franchise_regions(1n)).to.emit(mgr, "FranchiseRegionsReleased");
+    await mgr.connect(carol).release_franchise_regions(2n);
+    await expect(mgr.connect(carol).release_franchise_regions(2n)).not.to.emit(mgr, "FranchiseRegionsReleased");
+    await expect(mgr.release_franchise_regions(9n)).to.be.revertedWithCustomError(mgr, "FranchiseAgreementNotListed");
+    await mgr.approve_franchise_application(0n);
+  });
+
+  it("get_region_agreement: accord exclusif couvrant un code", async () => {
+    const { alice, mgr, termsFor } = await setup();
+    expect(await mgr.get_region_agreement("NG-LA")).to.deep.equal([false, 0n]);
+
+    await mgr.create_direct_franchise_agreement(alice.address, termsFor(3n, NON_EXCLUSIVE)); // 0: Abuja, non exclusif
+    await mgr.create_direct_franchise_agreement(alice.address, termsFor(0n, EXCLUSIVE)); // 1: Lagos
+
+    expect(await mgr.get_region_agreement("NG-LA")).to.deep.equal([true, 1n]);
+    expect(await mgr.get_region_agreement("NG-LA/s14wz")).to.deep.equal([true, 1n]);
+    expect(await mgr.get_region_agreement("NG")).to.deep.equal([false, 0n]); // Lagos ne couvre pas tout le pays
+    expect(await mgr.get_region_agreement("NG-FC")).to.deep.equal([false, 0n]); // non exclusif
+    await expect(mgr.get_region_agreement("ng-la")).to.be.revertedWithCustomError(mgr, "InvalidRegionCode");
+  });
+});
@@ -0,0 +1,149 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { IPFranchisingAgreementV2, MockERC20 } from "../typechain-types";
+import { deployFranchiseManager } from "../utils/deploy";
+
+const DAY = 24 * 60 * 60;
+// bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+function erc7201(namespace: string): string {
+  const hash = BigInt(ethers.keccak256(ethers.toUtf8Bytes(namespace))) - 1n;
+  const slot = BigInt(ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [hash]))) & ~0xffn;
+  return ethers.toBeHex(slot, 32);
+}
+
+async function setup() {
+  const [owner, franchisee, other] = await ethers.getSigners();
+  const erc20 = (await (await ethers.getContractFactory("MockERC20")).deploy("DummyERC20", "DUMMY", 0n)) as unknown as MockERC20;
+  const erc721 = await (await ethers.getContractFactory("MockERC721")).deploy("DummyBaseURI/");
+  await erc721.mint(owner.address, 7n);
+
+  const start = (await time.latest()) + 3600;
+  const terms = {
+    kind: 0, // OneTime
+    paymentToken: await erc20.getAddress(),
+    franchiseFee: 100n,
+    licenseStart: BigInt(start),
+    licenseEnd: BigInt(start + 365 * DAY),
+    exclusivity: 0, // Exclusive
+    territoryId: 0n,
+    oneTimeFee: 1_000n,
+    royaltyFees: {
+      royaltyPercent: 0,
+      paymentSchedule: 0,
+      customInterval: 0n,
+      hasCustomInterval: false,
+      lastPaymentId: 0,
+      maxMissedPayments: 0,
+    },
+  };
+
+  const { manager: mgr, beacon, managerImplementation } = await deployFranchiseManager(owner, {
+    ipId: 7n,
+    ipNft: await erc721.getAddress(),
+    defaultFranchiseFee: 500n,
+    preferredTerms: terms,
+  });
+  await erc721.setApprovalForAll(await mgr.getAddress(), true);
+  await mgr.link_ip_asset();
+  await mgr.add_franchise_territory("Lagos");
+  await mgr.add_territory_regions(0n, ["NG-LA"]);
+  await mgr.add_franchise_territory("Abuja");
+  await mgr.create_direct_franchise_agreement(franchisee.address, terms);
+  await mgr.create_direct_franchise_agreement(franchisee.address, { ...terms, territoryId: 1n, exclusivity: 1 });
+
+  const agreements = await Promise.all(
+    [0n, 1n].map(async (id) => ethers.getContractAt("IPFranchisingAgreementV2", await mgr.get_franchise_agreement_address(id)))
+  ) as unknown as IPFranchisingAgreementV2[];
+  await erc20.mint(franchisee.address, 10_000n);
+  await erc20.connect(franchisee).approve(await agreements[0].getAddress(), ethers.MaxUint256);
+  await agreements[0].connect(franchisee).activate_franchise();
+
+  return { owner, franchisee, other, erc20, mgr, beacon, managerImplementation, agreements, terms };
+}
+
+describe("IP Franchise – proxies et mises à niveau", () => {
+  it("beacon: une nouvelle implémentation s'applique à tous les accords, état conservé", async () => {
+    const { owner, franchisee, other, mgr, beacon, agreements, terms } = await setup();
+    expect(await mgr.get_agreement_beacon()).to.equal(await beacon.getAddress());
+    await expect(agreements[0].version()).to.be.reverted; // V1: fonction absente
+
+    const v2 = await (await ethers.getContractFactory("IPFranchisingAgreementV2")).deploy();
+    await expect(beacon.connect(other).upgradeTo(await v2.getAddress()))
+      .to.be.revertedWithCustomError(beacon, "OwnableUnauthorizedAccount");
+    await beacon.connect(owner).upgradeTo(await v2.getAddress());
+
+    for (const [id, agreement] of agreements.entries()) {
+      expect(await agreement.version()).to.equal(2n);
+      expect(await agreement.get_agreement_id()).to.equal(BigInt(id));
+      expect(await agreement.get_franchisee()).to.equal(franchisee.address);
+      expect(await agreement.get_franchise_manager()).to.equal(await mgr.getAddress());
+      expect(await agreement.owner()).to.equal(await mgr.getAddress());
+    }
+    expect(await agreements[0].is_active()).to.equal(true);
+    expect(await agreements[1].is_active()).to.equal(false);
+    expect((await agreements[0].get_franchise_terms()).oneTimeFee).to.equal(terms.oneTimeFee);
+
+    // le manager reste admin des accords mis à niveau
+    await expect(mgr.set_revenue_attestation_required(0n, true))
+      .to.emit(agreements[0], "AttestationRequirementUpdated")
+      .withArgs(0n, true, (ts: bigint) => ts > 0n);
+
+    // les accords créés ensuite pointent vers le même beacon
+    await mgr.add_franchise_territory("Kano");
+    await mgr.create_direct_franchise_agreement(franchisee.address, { ...terms, territoryId: 2n });
+    const later = await ethers.getContractAt("IPFranchisingAgreementV2", await mgr.get_franchise_agreement_address(2n));
+    expect(await later.version()).to.equal(2n);
+  });
+
+  it("manager UUPS: upgrade réservé à l'owner, stockage ERC-7201 conservé", async () => {
+    const { owner, other, mgr, managerImplementation, erc20 } = await setup();
+    const proxy = await mgr.getAddress();
+    const auditor = ethers.Wallet.createRandom().address;
+    await mgr.set_revenue_auditor(auditor, true);
+
+    // premier champ de ManagerStorage: l'id de l'IP
+    const base = erc7201("mediolano.storage.IPFranchiseManager");
+    expect(BigInt(await ethers.provider.getStorage(proxy, base))).to.equal(7n);
+
+    const v2 = await (await ethers.getContractFactory("IPFranchiseManagerV2")).deploy();
+    await expect(mgr.connect(other).upgrade(await v2.getAddress()))
+      .to.be.revertedWithCustomError(mgr, "OwnableUnauthorizedAccount");
+    // pas un UUPS: refusé
+    await expect(mgr.upgrade(await erc20.getAddress())).to.be.revertedWithCustomError(mgr, "ERC1967InvalidImplementation");
+    expect(ethers.getAddress("0x" + (await ethers.provider.getStorage(proxy, IMPLEMENTATION_SLOT)).slice(26)))
+      .to.equal(managerImplementation);
+
+    await expect(mgr.connect(owner).upgrade(await v2.getAddress()))
+      .to.emit(mgr, "Upgraded")
+      .withArgs(await v2.getAddress());
+
+    const upgraded = await ethers.getContractAt("IPFranchiseManagerV2", proxy);
+    expect(await upgraded.version()).to.equal(2n);
+    expect(await upgraded.owner()).to.equal(owner.address);
+    expect(await upgraded.get_ip_nft_id()).to.equal(7n);
+    expect(await upgraded.is_ip_asset_linked()).to.equal(true);
+    expect(await upgraded.get_default_franchise_fee()).to.equal(500n);
+    expect(await upgraded.get_total_territories()).to.equal(2n);
+    expect(await upgraded.get_territory_regions(0n)).to.deep.equal(["NG-LA"]);
+    expect(await upgraded.get_region_agreement("NG-LA/s1")).to.deep.equal([true, 0n]);
+    expect(await upgraded.get_total_franchise_agreements()).to.equal(2n);
+    expect(await upgraded.get_franchise_agreement_id(await upgraded.get_franchise_agreement_address(1n))).to.equal(1n);
+    expect(await upgraded.is_revenue_auditor(auditor)).to.equal(true);
+  });
+
+  it("initialize: implémentations verrouillées, proxies initialisés une seule fois", async () => {
+    const { owner, franchisee, mgr, managerImplementation, agreements, terms } = await setup();
+    const impl = await ethers.getContractAt("IPFranchiseManager", managerImplementation);
+    const beacon = await mgr.get_agreement_beacon();
+
+    await expect(impl.initialize(owner.address, 1n, owner.address, 0n, terms, beacon))
+      .to.be.revertedWithCustomError(impl, "InvalidInitialization");
+    await expect(mgr.initialize(owner.address, 1n, owner.address, 0n, terms, beacon))
+      .to.be.revertedWithCustomError(mgr, "InvalidInitialization");
+    await expect(agreements[0].initialize(9n, owner.address, franchisee.address, terms))
+      .to.be.revertedWithCustomError(agreements[0], "InvalidInitialization");
+  });
+});
@@ -0,0 +1,62 @@
+import type { BigNumberish, Signer } from "ethers";
+import {
+  ERC1967Proxy__factory,
+  IPFranchiseManager__factory,
+  IPFranchisingAgreement__factory,
+  UpgradeableBeacon__factory,
+  type IPFranchiseManager,
+  type UpgradeableBeacon,
+} from "../typechain-types";
+import type { FranchiseTermsStruct } from "../typechain-types/src/IPFranchiseManager";
+
+export interface FranchiseManagerParams {
+  owner?: string; // défaut: le signer
+  ipId: BigNumberish;
+  ipNft: string;
+  defaultFranchiseFee: BigNumberish;
+  preferredTerms: FranchiseTermsStruct;
+  // Beacon existant à partager entre managers; sinon un beacon (owner: le signer) est déployé
+  beacon?: string;
+}
+
+export interface FranchiseDeployment {
+  manager: IPFranchiseManager; // attaché au proxy
+  beacon: UpgradeableBeacon;
+  managerImplementation: string;
+}
+
+// Beacon des accords de franchise: upgradeTo(nouvelle implémentation) les met tous à niveau.
+export async function deployAgreementBeacon(signer: Signer, owner?: string): Promise<UpgradeableBeacon> {
+  const implementation = await new IPFranchisingAgreement__factory(signer).deploy();
+  const beacon = await new UpgradeableBeacon__factory(signer).deploy(
+    await implementation.getAddress(),
+    owner ?? (await signer.getAddress())
+  );
+  await beacon.waitForDeployment();
+  return beacon;
+}
+
+// Implémentation + ERC1967Proxy initialisé en une transaction (pas de fenêtre pour un initialize tiers).
+export async function deployFranchiseManager(signer: Signer, params: FranchiseManagerParams): Promise<FranchiseDeployment> {
+  const beacon = params.beacon
+    ? UpgradeableBeacon__factory.connect(params.beacon, signer)
+    : await deployAgreementBeacon(signer);
+
+  const implementation = await new IPFranchiseManager__factory(signer).deploy();
+  const initData = implementation.interface.encodeFunctionData("initialize", [
+    params.owner ?? (await signer.getAddress()),
+    params.ipId,
+    params.ipNft,
+    params.defaultFranchiseFee,
+    params.preferredTerms,
+    await beacon.getAddress(),
+  ]);
+  const proxy = await new ERC1967Proxy__factory(signer).deploy(await implementation.getAddress(), initData);
+  await proxy.waitForDeployment();
+
+  return {
+    manager: IPFranchiseManager__factory.connect(await proxy.getAddress(), signer),
+    beacon,
+    managerImplementation: await implementation.getAddress(),
+  };
+}
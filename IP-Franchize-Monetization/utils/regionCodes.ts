@@ -0,0 +1,28 @@
+// Miroir off-chain de RegionCodeLib (src/RegionCodeLib.sol): "CC", "CC-SUB" ou "CC-SUB/geohash".
+// Le contrat n'accepte que la forme canonique; normaliser les saisies avant de les envoyer.
+const REGION_CODE = /^([A-Z]{2})(?:-([A-Z0-9]{1,3})(?:\/([0-9b-hjkmnp-z]{1,12}))?)?$/;
+
+export function normalizeRegionCode(code: string): string {
+  const [iso, geohash] = code.trim().split("/");
+  const normalized = geohash === undefined ? iso.toUpperCase() : `${iso.toUpperCase()}/${geohash.toLowerCase()}`;
+  if (!REGION_CODE.test(normalized)) throw new Error(`Code région invalide: ${code}`);
+  return normalized;
+}
+
+// Niveaux du code, du pays au code lui-même (mêmes préfixes que RegionCodeLib.levelKeys)
+export function regionLevels(code: string): string[] {
+  const [, country, subdivision, geohash] = REGION_CODE.exec(normalizeRegionCode(code))!;
+  if (subdivision === undefined) return [country];
+  const levels = [country, `${country}-${subdivision}`];
+  for (let i = 1; i <= (geohash ?? "").length; i++) {
+    levels.push(`${country}-${subdivision}/${geohash!.slice(0, i)}`);
+  }
+  return levels;
+}
+
+// Deux codes se recoupent ssi l'un est un niveau de l'autre
+export function regionsOverlap(a: string, b: string): boolean {
+  const [la, lb] = [regionLevels(a), regionLevels(b)];
+  const [shorter, longer] = la.length <= lb.length ? [la, lb] : [lb, la];
+  return longer[shorter.length - 1] === shorter[shorter.length - 1];
+}
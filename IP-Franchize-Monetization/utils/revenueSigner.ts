@@ -0,0 +1,67 @@
+import type { Signer, TypedDataDomain } from "ethers";
+
+// Doit rester aligné avec EIP712("IPFranchiseAgreement", "1") et les *_TYPEHASH de IPFranchisingAgreement.sol
+export const REVENUE_DOMAIN_NAME = "IPFranchiseAgreement";
+export const REVENUE_DOMAIN_VERSION = "1";
+
+export const REVENUE_REPORT_TYPES = {
+  RevenueReport: [
+    { name: "agreementId", type: "uint256" },
+    { name: "firstPaymentId", type: "uint32" },
+    { name: "revenues", type: "uint256[]" },
+  ],
+};
+
+export const REVENUE_AUDIT_TYPES = {
+  RevenueAudit: [
+    { name: "agreementId", type: "uint256" },
+    { name: "paymentId", type: "uint32" },
+    { name: "auditedRevenue", type: "uint256" },
+  ],
+};
+
+// Sous-ensemble de IPFranchisingAgreement utilisé ici (évite la dépendance aux typechain-types)
+export interface FranchiseAgreementLike {
+  getAddress(): Promise<string>;
+  get_agreement_id(): Promise<bigint>;
+  get_franchise_terms(): Promise<{ royaltyFees: { lastPaymentId: bigint } }>;
+}
+
+// Domaine propre à chaque accord: une attestation ne peut pas être rejouée sur un autre.
+export async function revenueDomain(agreement: FranchiseAgreementLike, chainId: bigint | number): Promise<TypedDataDomain> {
+  return {
+    name: REVENUE_DOMAIN_NAME,
+    version: REVENUE_DOMAIN_VERSION,
+    chainId,
+    verifyingContract: await agreement.getAddress(),
+  };
+}
+
+// Rapport de CA signé par un auditeur ou une clé point de vente, pour les échéances dues
+// à partir de lastPaymentId + 1 (lu on-chain sauf si `firstPaymentId` est fourni).
+export async function signRevenueReport(
+  signer: Signer,
+  agreement: FranchiseAgreementLike,
+  revenues: bigint[],
+  firstPaymentId?: bigint
+): Promise<string> {
+  const chainId = (await signer.provider!.getNetwork()).chainId;
+  const message = {
+    agreementId: await agreement.get_agreement_id(),
+    firstPaymentId: firstPaymentId ?? (await agreement.get_franchise_terms()).royaltyFees.lastPaymentId + 1n,
+    revenues,
+  };
+  return signer.signTypedData(await revenueDomain(agreement, chainId), REVENUE_REPORT_TYPES, message);
+}
+
+// Audit du CA réel d'une échéance déjà payée (auditeur du manager uniquement).
+export async function signRevenueAudit(
+  signer: Signer,
+  agreement: FranchiseAgreementLike,
+  paymentId: bigint,
+  auditedRevenue: bigint
+): Promise<string> {
+  const chainId = (await signer.provider!.getNetwork()).chainId;
+  const message = { agreementId: await agreement.get_agreement_id(), paymentId, auditedRevenue };
+  return signer.signTypedData(await revenueDomain(agreement, chainId), REVENUE_AUDIT_TYPES, message);
+}
@@ -38,6 +38,31 @@ contract Crowdfunding {
         uint64 timestamp;
     }
 
+    /// Mode de prix de la vente de tokens (prix exprimés pour TOKEN_UNIT unités de token vendu)
+    enum PricingMode {
+        FIXED,          // prix constant = base_price
+        LINEAR_CURVE,   // prix = base_price + slope * vendus / TOKEN_UNIT
+        BATCH_AUCTION   // prix uniforme fixé à la clôture: max(base_price, raised / supply)
+    }
+
+    struct Sale {
+        address sale_token;      // token de l'asset, déposé par le creator
+        PricingMode mode;
+        uint256 supply;
+        uint256 slope;           // LINEAR_CURVE uniquement
+        uint256 sold;            // BATCH_AUCTION: connu à close_funding
+        uint256 clearing_price;  // BATCH_AUCTION uniquement
+        uint64 cliff;            // vesting: rien avant end_time + cliff
+        uint64 vesting_duration; // puis linéaire jusqu'à end_time + vesting_duration
+        bool unsold_withdrawn;
+    }
+
+    struct Vesting {
+        uint256 allocated;
+        uint256 claimed;
+        uint256 vested;
+    }
+
     // ───────────────────── Storage ─────────────────────
     uint64  private _assetCount;     // asset_count
     address private _tokenAddress;   // token_address
@@ -47,6 +72,12 @@ contract Crowdfunding {
     mapping(uint64 => mapping(uint64 => uint256)) private ipfsParts; // (asset_id, idx) => felt/uint256
     mapping(uint64 => mapping(address => Investment)) public investorData; // (asset_id, investor) => Investment
 
+    uint256 public constant TOKEN_UNIT = 1e18;
+
+    mapping(uint64 => Sale) private saleData;                                // asset_id => Sale
+    mapping(uint64 => mapping(address => uint256)) private allocatedTokens;  // FIXED / LINEAR_CURVE
+    mapping(uint64 => mapping(address => uint256)) private claimedTokens;
+
     // ───────────────────── Events ─────────────────────
     event AssetCreated(
         uint64 assetId,
@@ -72,6 +103,20 @@ contract Crowdfunding {
         bool success
     );
 
+    event SaleConfigured(
+        uint64 indexed assetId,
+        address saleToken,
+        PricingMode mode,
+        uint256 supply,
+        uint256 slope,
+        uint64 cliff,
+        uint64 vestingDuration
+    );
+    event TokensAllocated(uint64 indexed assetId, address indexed investor, uint256 tokens);
+    event BatchCleared(uint64 indexed assetId, uint256 clearingPrice, uint256 sold);
+    event TokensClaimed(uint64 indexed assetId, address indexed investor, uint256 amount);
+    event UnsoldWithdrawn(uint64 indexed assetId, uint256 amount);
+
     event CreatorWithdrawal(uint64 indexed assetId, uint256 amount);
     event InvestorWithdrawal(uint64 indexed assetId, address indexed investor, uint256 amount);
 
@@ -126,7 +171,8 @@ contract Crowdfunding {
         );
     }
 
-    /// NOTE: fidèle au Cairo → pas de transferFrom ici, uniquement comptable.
+    /// NOTE: sans vente configurée, fidèle au Cairo → pas de transferFrom, uniquement comptable.
+    /// Vente configurée: `amount` est prélevé en token de paiement (transferFrom), les tokens vendus étant réels.
     function fund(uint64 assetId, uint256 amount) external {
         Asset storage a = assetData[assetId];
         require(a.start_time != 0, "ASSET_NOT_FOUND");
@@ -159,6 +205,12 @@ contract Crowdfunding {
 
         a.raised += amount;
 
+        if (saleData[assetId].sale_token != address(0)) {
+            bool ok = IERC20Like(_tokenAddress).transferFrom(msg.sender, address(this), amount);
+            require(ok, "TRANSFER_FAILED");
+        }
+        _allocate(assetId, a, amount);
+
         emit Funded(assetId, msg.sender, amount, nowTs);
     }
 
@@ -173,6 +225,15 @@ contract Crowdfunding {
         bool success = a.raised >= a.goal;
         a.is_closed = true;
 
+        Sale storage s = saleData[assetId];
+        if (success && s.sale_token != address(0) && s.mode == PricingMode.BATCH_AUCTION) {
+            // arrondi supérieur: la somme des allocations ne dépasse jamais supply
+            uint256 demandPrice = (a.raised * TOKEN_UNIT + s.supply - 1) / s.supply;
+            s.clearing_price = demandPrice > a.base_price ? demandPrice : a.base_price;
+            s.sold = _mulDiv(a.raised, TOKEN_UNIT, s.clearing_price);
+            emit BatchCleared(assetId, s.clearing_price, s.sold);
+        }
+
         emit FundingClosed(assetId, a.raised, success);
     }
 
@@ -216,6 +277,86 @@ contract Crowdfunding {
         emit InvestorWithdrawal(assetId, msg.sender, amount);
     }
 
+    // ───────────────────── Vente de tokens + vesting ─────────────────────
+    /// Optionnel, avant le premier fund: le creator dépose `supply` tokens de l'asset (transferFrom).
+    /// Sans vente configurée, fund/close_funding gardent le comportement Cairo (comptable uniquement);
+    /// avec, chaque fund est payé en token de paiement.
+    function configure_sale(
+        uint64 assetId,
+        address saleToken,
+        PricingMode mode,
+        uint256 supply,
+        uint256 slope,
+        uint64 cliff,
+        uint64 vestingDuration
+    ) external {
+        Asset storage a = assetData[assetId];
+        require(a.start_time != 0, "ASSET_NOT_FOUND");
+        require(msg.sender == a.creator, "NOT_CREATOR");
+        require(!a.is_closed, "FUNDING_CLOSED");
+        require(a.raised == 0, "FUNDING_STARTED");
+
+        Sale storage s = saleData[assetId];
+        require(s.sale_token == address(0), "SALE_ALREADY_CONFIGURED");
+        require(saleToken != address(0) && saleToken != _tokenAddress, "INVALID_SALE_TOKEN");
+        require(supply > 0, "SUPPLY_ZERO");
+        require((mode == PricingMode.LINEAR_CURVE) == (slope > 0), "INVALID_SLOPE");
+        require(cliff <= vestingDuration, "CLIFF_EXCEEDS_VESTING");
+
+        s.sale_token = saleToken;
+        s.mode = mode;
+        s.supply = supply;
+        s.slope = slope;
+        s.cliff = cliff;
+        s.vesting_duration = vestingDuration;
+
+        bool ok = IERC20Like(saleToken).transferFrom(msg.sender, address(this), supply);
+        require(ok, "TRANSFER_FAILED");
+
+        emit SaleConfigured(assetId, saleToken, mode, supply, slope, cliff, vestingDuration);
+    }
+
+    /// Tokens acquis libérables (cliff + linéaire depuis end_time), une fois l'objectif atteint.
+    function claim_tokens(uint64 assetId) external {
+        Asset storage a = assetData[assetId];
+        require(a.start_time != 0, "ASSET_NOT_FOUND");
+        Sale storage s = saleData[assetId];
+        require(s.sale_token != address(0), "NO_SALE");
+        require(a.is_closed, "FUNDING_NOT_CLOSED");
+        require(a.raised >= a.goal, "GOAL_NOT_REACHED");
+
+        uint256 vested = _vested(a, s, _allocation(assetId, msg.sender));
+        uint256 amount = vested - claimedTokens[assetId][msg.sender];
+        require(amount > 0, "NOTHING_TO_CLAIM");
+        claimedTokens[assetId][msg.sender] = vested;
+
+        bool ok = IERC20Like(s.sale_token).transfer(msg.sender, amount);
+        require(ok, "TRANSFER_FAILED");
+
+        emit TokensClaimed(assetId, msg.sender, amount);
+    }
+
+    /// Récupère les tokens invendus (ou tout le dépôt si l'objectif n'est pas atteint).
+    function withdraw_unsold(uint64 assetId) external {
+        Asset storage a = assetData[assetId];
+        require(a.start_time != 0, "ASSET_NOT_FOUND");
+        require(msg.sender == a.creator, "NOT_CREATOR");
+        Sale storage s = saleData[assetId];
+        require(s.sale_token != address(0), "NO_SALE");
+        require(a.is_closed, "FUNDING_NOT_CLOSED");
+        require(!s.unsold_withdrawn, "UNSOLD_ALREADY_WITHDRAWN");
+
+        uint256 amount = a.raised >= a.goal ? s.supply - s.sold : s.supply;
+        s.unsold_withdrawn = true;
+
+        if (amount > 0) {
+            bool ok = IERC20Like(s.sale_token).transfer(msg.sender, amount);
+            require(ok, "TRANSFER_FAILED");
+        }
+
+        emit UnsoldWithdrawn(assetId, amount);
+    }
+
     function set_token_address(address tokenAddress_) external {
         require(msg.sender == _owner, "NOT_CONTRACT_OWNER");
         _tokenAddress = tokenAddress_;
@@ -247,7 +388,84 @@ contract Crowdfunding {
         return _tokenAddress;
     }
 
+    function get_sale(uint64 assetId) external view returns (Sale memory) {
+        return saleData[assetId];
+    }
+
+    /// Tokens obtenus pour `amount` au prix courant. BATCH_AUCTION: estimation si la collecte
+    /// s'arrêtait après ce fund (le prix définitif n'est connu qu'à close_funding).
+    function quote_tokens(uint64 assetId, uint256 amount) external view returns (uint256) {
+        Asset storage a = assetData[assetId];
+        Sale storage s = saleData[assetId];
+        require(s.sale_token != address(0), "NO_SALE");
+        if (s.mode != PricingMode.BATCH_AUCTION) {
+            return _quote(a, s, amount);
+        }
+        uint256 demandPrice = ((a.raised + amount) * TOKEN_UNIT + s.supply - 1) / s.supply;
+        return _mulDiv(amount, TOKEN_UNIT, demandPrice > a.base_price ? demandPrice : a.base_price);
+    }
+
+    function get_vesting(uint64 assetId, address investor) external view returns (Vesting memory v) {
+        Asset storage a = assetData[assetId];
+        v.allocated = _allocation(assetId, investor);
+        v.claimed = claimedTokens[assetId][investor];
+        if (a.is_closed && a.raised >= a.goal) {
+            v.vested = _vested(a, saleData[assetId], v.allocated);
+        }
+    }
+
     // ───────────────────── Helpers ─────────────────────
+    /// FIXED: amount / base_price. LINEAR_CURVE: q tel que l'intégrale du prix de sold à sold + q
+    /// vaille amount, soit q = (sqrt(p0² + 2·slope·amount) - p0) / slope avec p0 le prix courant.
+    /// Arrondis vers le bas: l'investisseur ne reçoit jamais plus que ce qu'il a payé.
+    function _quote(Asset storage a, Sale storage s, uint256 amount) internal view returns (uint256) {
+        if (s.mode == PricingMode.FIXED) {
+            return _mulDiv(amount, TOKEN_UNIT, a.base_price);
+        }
+        uint256 p0 = a.base_price + _mulDiv(s.slope, s.sold, TOKEN_UNIT);
+        return _mulDiv(_sqrt(p0 * p0 + 2 * s.slope * amount) - p0, TOKEN_UNIT, s.slope);
+    }
+
+    /// Vente configurée: allocation immédiate au prix courant (sauf enchère, calculée à la clôture)
+    function _allocate(uint64 assetId, Asset storage a, uint256 amount) internal {
+        Sale storage s = saleData[assetId];
+        if (s.sale_token == address(0) || s.mode == PricingMode.BATCH_AUCTION) return;
+
+        uint256 tokens = _quote(a, s, amount);
+        require(tokens > 0, "AMOUNT_TOO_SMALL");
+        require(s.sold + tokens <= s.supply, "SALE_SUPPLY_EXCEEDED");
+        s.sold += tokens;
+        allocatedTokens[assetId][msg.sender] += tokens;
+        emit TokensAllocated(assetId, msg.sender, tokens);
+    }
+
+    function _allocation(uint64 assetId, address investor) internal view returns (uint256) {
+        Sale storage s = saleData[assetId];
+        if (s.mode != PricingMode.BATCH_AUCTION) {
+            return allocatedTokens[assetId][investor];
+        }
+        if (s.clearing_price == 0) return 0;
+        return _mulDiv(investorData[assetId][investor].amount, TOKEN_UNIT, s.clearing_price);
+    }
+
+    function _vested(Asset storage a, Sale storage s, uint256 total) internal view returns (uint256) {
+        uint256 start = a.end_time;
+        if (block.timestamp < start + s.cliff) return 0;
+        if (block.timestamp >= start + s.vesting_duration) return total;
+        return _mulDiv(total, block.timestamp - start, s.vesting_duration);
+    }
+
+    function _sqrt(uint256 x) internal pure returns (uint256 y) {
+        if (x == 0) return 0;
+        // Babylonienne, point de départ >= sqrt(x): la suite décroît jusqu'à floor(sqrt(x))
+        uint256 z = x / 2 + 1;
+        y = x;
+        while (z < y) {
+            y = z;
+            z = (x / z + z) / 2;
+        }
+    }
+
     function _mulDiv(uint256 value, uint256 numerator, uint256 denominator) internal pure returns (uint256) {
         require(denominator != 0, "DIVISION_BY_ZERO");
         // "unsafe" comme dans le Cairo (peut revert en overflow sur value*numerator)
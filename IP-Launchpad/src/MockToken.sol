@@ -57,7 +57,7 @@ contract MockToken {
     }
 
     // Standard
-    function transferFrom(address sender, address recipient, uint256 amount) external returns (bool) {
+    function transferFrom(address sender, address recipient, uint256 amount) public returns (bool) {
         address spender = msg.sender;
         uint256 allowed = _allowances[sender][spender];
         require(allowed >= amount, "ALLOWANCE_EXCEEDED");
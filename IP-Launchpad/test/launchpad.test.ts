@@ -34,7 +34,7 @@ describe("Crowdfunding (Solidity port)", function () {
     const [owner, creator] = await ethers.getSigners();
     const { cf } = await deployCrowdfunding(owner.address);
 
-    const now = await time.latest();
+    const now = BigInt(await time.latest());
     const start = now + 10n;
     await time.setNextBlockTimestamp(start);
 
@@ -88,7 +88,7 @@ describe("Crowdfunding (Solidity port)", function () {
     const { cf } = await deployCrowdfunding(owner.address);
 
     // create asset
-    const now = await time.latest();
+    const now = BigInt(await time.latest());
     const start = now + 10n;
     await time.setNextBlockTimestamp(start);
     await cf.connect(creator).createAsset(10_000n, 86_400, 100n, []);
@@ -108,38 +108,35 @@ describe("Crowdfunding (Solidity port)", function () {
     expect(inv.timestamp).to.equal(start + 100n);
   });
 
-  it("fund: reverts zero amount / before start / after end / insufficient funds", async () => {
+  it("fund: reverts zero amount / insufficient funds / after end", async () => {
     const [owner, creator, investor] = await ethers.getSigners();
     const { cf } = await deployCrowdfunding(owner.address);
 
-    const now = await time.latest();
+    const now = BigInt(await time.latest());
     const start = now + 10n;
     const duration = 100n;
     await time.setNextBlockTimestamp(start);
     await cf.connect(creator).createAsset(1000n, Number(duration), 100n, []);
 
+    // le temps ne fait qu'avancer; pas de cas "avant le début": start_time = bloc de création
     // zero
     await time.setNextBlockTimestamp(start + 1n);
     await expect(cf.connect(investor).fund(0, 0n)).to.be.revertedWith("AMOUNT_ZERO");
 
-    // before start
-    await time.setNextBlockTimestamp(start - 1n);
-    await expect(cf.connect(investor).fund(0, 100n)).to.be.revertedWith("FUNDING_NOT_STARTED");
+    // insufficient (need >= 90)
+    await time.setNextBlockTimestamp(start + 10n);
+    await expect(cf.connect(investor).fund(0, 89n)).to.be.revertedWith("INSUFFICIENT_FUNDS");
 
     // after end
     await time.setNextBlockTimestamp(start + duration + 1n);
     await expect(cf.connect(investor).fund(0, 100n)).to.be.revertedWith("FUNDING_ENDED");
-
-    // insufficient (need >= 90)
-    await time.setNextBlockTimestamp(start + 10n);
-    await expect(cf.connect(investor).fund(0, 89n)).to.be.revertedWith("INSUFFICIENT_FUNDS");
   });
 
   it("close_funding: success path (goal met)", async () => {
     const [owner, creator, investor] = await ethers.getSigners();
     const { cf } = await deployCrowdfunding(owner.address);
 
-    const now = await time.latest();
+    const now = BigInt(await time.latest());
     const start = now + 10n;
     const duration = 100n;
     await time.setNextBlockTimestamp(start);
@@ -161,7 +158,7 @@ describe("Crowdfunding (Solidity port)", function () {
     const [owner, creator, investor] = await ethers.getSigners();
     const { cf } = await deployCrowdfunding(owner.address);
 
-    const now = await time.latest();
+    const now = BigInt(await time.latest());
     const start = now + 10n;
     const duration = 100n;
     await time.setNextBlockTimestamp(start);
@@ -184,24 +181,24 @@ describe("Crowdfunding (Solidity port)", function () {
     const [owner, creator, other] = await ethers.getSigners();
     const { cf } = await deployCrowdfunding(owner.address);
 
-    const now = await time.latest();
+    const now = BigInt(await time.latest());
     const start = now + 10n;
     const duration = 100n;
     await time.setNextBlockTimestamp(start);
     await cf.connect(creator).createAsset(1000n, Number(duration), 100n, []);
 
-    await time.setNextBlockTimestamp(start + duration + 1n);
-    await expect(cf.connect(other).close_funding(0)).to.be.revertedWith("NOT_CREATOR");
-
     await time.setNextBlockTimestamp(start + 1n);
     await expect(cf.connect(creator).close_funding(0)).to.be.revertedWith("FUNDING_NOT_ENDED");
+
+    await time.setNextBlockTimestamp(start + duration + 1n);
+    await expect(cf.connect(other).close_funding(0)).to.be.revertedWith("NOT_CREATOR");
   });
 
   it("withdraw_creator: transfers tokens + emits event", async () => {
     const [owner, creator, investor] = await ethers.getSigners();
     const { cf, token } = await deployCrowdfunding(owner.address);
 
-    const now = await time.latest();
+    const now = BigInt(await time.latest());
     const start = now + 10n;
     const duration = 100n;
     const amount = 100n;
@@ -232,7 +229,7 @@ describe("Crowdfunding (Solidity port)", function () {
     const [owner, creator, investor] = await ethers.getSigners();
     const { cf, token } = await deployCrowdfunding(owner.address);
 
-    const now = await time.latest();
+    const now = BigInt(await time.latest());
     const start = now + 10n;
     const duration = 100n;
 
@@ -254,7 +251,7 @@ describe("Crowdfunding (Solidity port)", function () {
     const [owner, creator, investor] = await ethers.getSigners();
     const { cf, token } = await deployCrowdfunding(owner.address);
 
-    const now = await time.latest();
+    const now = BigInt(await time.latest());
     const start = now + 10n;
     const duration = 100n;
     const amt = 100n;
@@ -288,7 +285,7 @@ describe("Crowdfunding (Solidity port)", function () {
     const [owner, creator, investor] = await ethers.getSigners();
     const { cf, token } = await deployCrowdfunding(owner.address);
 
-    const now = await time.latest();
+    const now = BigInt(await time.latest());
     const start = now + 10n;
     const duration = 100n;
 
@@ -322,7 +319,7 @@ describe("Crowdfunding (Solidity port)", function () {
 
     expect(await cf.get_asset_count()).to.equal(0n);
 
-    const now = await time.latest();
+    const now = BigInt(await time.latest());
     const start = now + 10n;
     await time.setNextBlockTimestamp(start);
     const goal = 10_000n;
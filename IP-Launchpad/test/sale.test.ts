@@ -0,0 +1,265 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { Crowdfunding } from "../typechain-types";
+import {
+  PricingMode,
+  SaleState,
+  TOKEN_UNIT,
+  applyFund,
+  batchAllocation,
+  clearingPrice,
+  curveCost,
+  curvePrice,
+  quoteTokens,
+  sqrt,
+  vestedAmount,
+} from "../utils/pricing";
+
+const BASE_PRICE = TOKEN_UNIT; // 1 token de paiement pour 1 token vendu
+const SUPPLY = 1_000n * TOKEN_UNIT;
+const DURATION = 1_000n;
+const INVESTOR_BALANCE = 1_000n * TOKEN_UNIT; // token de paiement crédité à chaque investisseur
+
+async function deploySale(
+  mode: PricingMode,
+  { goal = 10n * TOKEN_UNIT, slope = 0n, cliff = 0n, vesting = 0n, supply = SUPPLY } = {}
+) {
+  const [owner, creator, ...others] = await ethers.getSigners();
+  const investors = others.slice(0, 4);
+  const Mock = await ethers.getContractFactory("MockToken");
+  const paymentToken = await Mock.deploy(owner.address);
+  const saleToken = await Mock.deploy(owner.address);
+  const cf = await (await ethers.getContractFactory("Crowdfunding")).deploy(owner.address, await paymentToken.getAddress());
+
+  await saleToken.mint(creator.address, supply);
+  await saleToken.connect(creator).approve(await cf.getAddress(), supply);
+  await cf.connect(creator).createAsset(goal, Number(DURATION), BASE_PRICE, []);
+  await cf.connect(creator).configure_sale(0, await saleToken.getAddress(), mode, supply, slope, Number(cliff), Number(vesting));
+
+  // chaque fund est payé: les investisseurs détiennent et approuvent le token de paiement
+  for (const investor of investors) {
+    await paymentToken.mint(investor.address, INVESTOR_BALANCE);
+    await paymentToken.connect(investor).approve(await cf.getAddress(), INVESTOR_BALANCE);
+  }
+
+  const state: SaleState = { mode, basePrice: BASE_PRICE, slope, supply, sold: 0n, raised: 0n };
+  return { cf, saleToken, paymentToken, owner, creator, investors, state };
+}
+
+async function closeSale(cf: Crowdfunding, creator: HardhatEthersSigner): Promise<bigint> {
+  const a = await cf.get_asset_data(0);
+  await time.setNextBlockTimestamp(a.end_time + 1n);
+  await cf.connect(creator).close_funding(0);
+  return a.end_time;
+}
+
+describe("Crowdfunding: vente de tokens (prix + vesting)", function () {
+  it("sqrt de référence: plancher exact", () => {
+    let x = 1n;
+    for (let i = 0; i < 200; i++) {
+      x = (x * 6364136223846793005n + 1442695040888963407n) % (1n << 200n);
+      const r = sqrt(x);
+      expect(r * r <= x && (r + 1n) * (r + 1n) > x).to.equal(true);
+    }
+  });
+
+  it("configure_sale: creator seulement, avant le premier fund, paramètres cohérents", async () => {
+    const [owner, creator, investor] = await ethers.getSigners();
+    const Mock = await ethers.getContractFactory("MockToken");
+    const paymentToken = await Mock.deploy(owner.address);
+    const saleToken = await Mock.deploy(owner.address);
+    const cf = await (await ethers.getContractFactory("Crowdfunding")).deploy(owner.address, await paymentToken.getAddress());
+    const sale = await saleToken.getAddress();
+    await saleToken.mint(creator.address, SUPPLY);
+    await saleToken.connect(creator).approve(await cf.getAddress(), SUPPLY);
+    await cf.connect(creator).createAsset(100n * TOKEN_UNIT, Number(DURATION), BASE_PRICE, []);
+
+    await expect(cf.connect(investor).configure_sale(0, sale, PricingMode.Fixed, SUPPLY, 0n, 0, 0))
+      .to.be.revertedWith("NOT_CREATOR");
+    await expect(cf.connect(creator).configure_sale(0, await paymentToken.getAddress(), PricingMode.Fixed, SUPPLY, 0n, 0, 0))
+      .to.be.revertedWith("INVALID_SALE_TOKEN");
+    await expect(cf.connect(creator).configure_sale(0, sale, PricingMode.LinearCurve, SUPPLY, 0n, 0, 0))
+      .to.be.revertedWith("INVALID_SLOPE");
+    await expect(cf.connect(creator).configure_sale(0, sale, PricingMode.Fixed, SUPPLY, 1n, 0, 0))
+      .to.be.revertedWith("INVALID_SLOPE");
+    await expect(cf.connect(creator).configure_sale(0, sale, PricingMode.Fixed, SUPPLY, 0n, 100, 50))
+      .to.be.revertedWith("CLIFF_EXCEEDS_VESTING");
+
+    await expect(cf.connect(creator).configure_sale(0, sale, PricingMode.Fixed, SUPPLY, 0n, 100, 500))
+      .to.emit(cf, "SaleConfigured")
+      .withArgs(0n, sale, PricingMode.Fixed, SUPPLY, 0n, 100n, 500n);
+    expect(await saleToken.balanceOf(await cf.getAddress())).to.equal(SUPPLY);
+    await expect(cf.connect(creator).configure_sale(0, sale, PricingMode.Fixed, SUPPLY, 0n, 0, 0))
+      .to.be.revertedWith("SALE_ALREADY_CONFIGURED");
+
+    // asset 1: un fund a déjà eu lieu
+    await cf.connect(creator).createAsset(100n * TOKEN_UNIT, Number(DURATION), BASE_PRICE, []);
+    await cf.connect(investor).fund(1, BASE_PRICE);
+    await expect(cf.connect(creator).configure_sale(1, sale, PricingMode.Fixed, SUPPLY, 0n, 0, 0))
+      .to.be.revertedWith("FUNDING_STARTED");
+  });
+
+  it("fund avec vente: montant prélevé en token de paiement, refusé sans approbation ni solde", async () => {
+    const { cf, paymentToken, investors } = await deploySale(PricingMode.Fixed);
+    const [alice] = investors;
+    const [, , , , , , outsider] = await ethers.getSigners();
+
+    const tx = cf.connect(alice).fund(0, 3n * TOKEN_UNIT);
+    await expect(tx).to.changeTokenBalances(paymentToken, [alice, cf], [-3n * TOKEN_UNIT, 3n * TOKEN_UNIT]);
+
+    // ni approbation ni solde: aucun token alloué sans paiement
+    await expect(cf.connect(outsider).fund(0, 3n * TOKEN_UNIT)).to.be.revertedWith("ALLOWANCE_EXCEEDED");
+    await paymentToken.connect(outsider).approve(await cf.getAddress(), 3n * TOKEN_UNIT);
+    await expect(cf.connect(outsider).fund(0, 3n * TOKEN_UNIT)).to.be.revertedWith("INSUFFICIENT_BALANCE");
+    expect((await cf.get_vesting(0, outsider.address)).allocated).to.equal(0n);
+    expect((await cf.get_asset_data(0)).raised).to.equal(3n * TOKEN_UNIT);
+  });
+
+  it("prix fixe: allocation = amount / base_price, plafonnée par supply", async () => {
+    const { cf, paymentToken, investors, state } = await deploySale(PricingMode.Fixed, { supply: 5n * TOKEN_UNIT });
+    const [alice, bob] = investors;
+
+    await expect(cf.connect(alice).fund(0, 3n * TOKEN_UNIT))
+      .to.emit(cf, "TokensAllocated")
+      .withArgs(0n, alice.address, quoteTokens(state, 3n * TOKEN_UNIT));
+    await expect(cf.connect(bob).fund(0, 3n * TOKEN_UNIT)).to.be.revertedWith("SALE_SUPPLY_EXCEEDED");
+    await cf.connect(bob).fund(0, 2n * TOKEN_UNIT);
+    expect((await cf.get_sale(0)).sold).to.equal(5n * TOKEN_UNIT);
+
+    expect(await paymentToken.balanceOf(alice.address)).to.equal(INVESTOR_BALANCE - 3n * TOKEN_UNIT);
+    expect(await paymentToken.balanceOf(bob.address)).to.equal(INVESTOR_BALANCE - 2n * TOKEN_UNIT);
+    expect(await paymentToken.balanceOf(await cf.getAddress())).to.equal(5n * TOKEN_UNIT);
+  });
+
+  it("courbe linéaire: chaque allocation correspond à la référence TypeScript", async () => {
+    const slope = TOKEN_UNIT / 50n; // +0,02 par token vendu
+    const { cf, paymentToken, investors, state: initial } = await deploySale(PricingMode.LinearCurve, { slope });
+    let state = initial;
+    const amounts = [1n, 7n, 13n, 2n, 40n, 3n, 25n, 9n].map((n) => n * TOKEN_UNIT + n * 123_456_789n);
+
+    for (const [i, amount] of amounts.entries()) {
+      const investor = investors[i % 4];
+      const p0 = curvePrice(state.basePrice, slope, state.sold);
+      const { tokens, next } = applyFund(state, amount);
+
+      expect(await cf.quote_tokens(0, amount)).to.equal(tokens);
+      await expect(cf.connect(investor).fund(0, amount))
+        .to.emit(cf, "TokensAllocated")
+        .withArgs(0n, investor.address, tokens);
+
+      // arrondi vers le bas: le coût exact de `tokens` ne dépasse jamais le montant payé
+      const { num, den } = curveCost(p0, slope, tokens);
+      expect(num <= amount * den).to.equal(true);
+      state = next;
+    }
+
+    expect((await cf.get_sale(0)).sold).to.equal(state.sold);
+    expect(await paymentToken.balanceOf(await cf.getAddress())).to.equal(amounts.reduce((a, b) => a + b, 0n));
+    // le prix a monté: le même montant achète moins de tokens qu'au départ
+    const first = quoteTokens({ ...state, sold: 0n }, TOKEN_UNIT);
+    expect(await cf.quote_tokens(0, TOKEN_UNIT)).to.be.lessThan(first);
+  });
+
+  it("enchère: prix uniforme à la clôture, invendus rendus au creator", async () => {
+    // sur-souscrite: 1500 pour 1000 tokens -> prix 1,5
+    {
+      const { cf, paymentToken, creator, investors } = await deploySale(PricingMode.BatchAuction);
+      const pledges = [700n, 500n, 300n].map((n) => n * TOKEN_UNIT);
+      for (const [i, amount] of pledges.entries()) await cf.connect(investors[i]).fund(0, amount);
+
+      const raised = 1_500n * TOKEN_UNIT;
+      const price = clearingPrice(BASE_PRICE, raised, SUPPLY);
+      const a = await cf.get_asset_data(0);
+      await time.setNextBlockTimestamp(a.end_time + 1n);
+      await expect(cf.connect(creator).close_funding(0))
+        .to.emit(cf, "BatchCleared")
+        .withArgs(0n, price, batchAllocation(raised, price));
+
+      let total = 0n;
+      for (const [i, amount] of pledges.entries()) {
+        const v = await cf.get_vesting(0, investors[i].address);
+        expect(v.allocated).to.equal(batchAllocation(amount, price));
+        total += v.allocated;
+      }
+      expect(total <= SUPPLY).to.equal(true);
+
+      // les enchères ont été payées; le creator encaisse la collecte
+      for (const [i, amount] of pledges.entries()) {
+        expect(await paymentToken.balanceOf(investors[i].address)).to.equal(INVESTOR_BALANCE - amount);
+      }
+      await expect(cf.connect(creator).withdraw_creator(0))
+        .to.changeTokenBalances(paymentToken, [cf, creator], [-raised, raised]);
+    }
+    // sous-souscrite: prix plancher, le reste revient au creator
+    {
+      const { cf, saleToken, creator, investors } = await deploySale(PricingMode.BatchAuction);
+      await cf.connect(investors[0]).fund(0, 400n * TOKEN_UNIT);
+      expect(await cf.quote_tokens(0, 100n * TOKEN_UNIT)).to.equal(100n * TOKEN_UNIT);
+      await closeSale(cf, creator);
+
+      expect((await cf.get_sale(0)).clearing_price).to.equal(BASE_PRICE);
+      await expect(cf.connect(creator).withdraw_unsold(0))
+        .to.emit(cf, "UnsoldWithdrawn")
+        .withArgs(0n, 600n * TOKEN_UNIT);
+      expect(await saleToken.balanceOf(creator.address)).to.equal(600n * TOKEN_UNIT);
+      await expect(cf.connect(creator).withdraw_unsold(0)).to.be.revertedWith("UNSOLD_ALREADY_WITHDRAWN");
+    }
+  });
+
+  it("vesting: cliff puis linéaire, montants libérés conformes à la référence", async () => {
+    const schedule = { cliff: 200n, duration: 1_000n };
+    const { cf, saleToken, paymentToken, creator, investors, state } = await deploySale(PricingMode.Fixed, {
+      cliff: schedule.cliff,
+      vesting: schedule.duration,
+    });
+    const [alice] = investors;
+    const allocation = quoteTokens(state, 50n * TOKEN_UNIT);
+    await cf.connect(alice).fund(0, 50n * TOKEN_UNIT);
+
+    await expect(cf.connect(alice).claim_tokens(0)).to.be.revertedWith("FUNDING_NOT_CLOSED");
+    const start = await closeSale(cf, creator);
+    const vesting = { start, ...schedule };
+
+    await time.setNextBlockTimestamp(start + schedule.cliff - 1n);
+    await expect(cf.connect(alice).claim_tokens(0)).to.be.revertedWith("NOTHING_TO_CLAIM");
+
+    let claimed = 0n;
+    for (const offset of [schedule.cliff, 450n, 999n, 5_000n]) {
+      await time.setNextBlockTimestamp(start + offset);
+      const expected = vestedAmount(allocation, vesting, start + offset) - claimed;
+      await expect(cf.connect(alice).claim_tokens(0))
+        .to.emit(cf, "TokensClaimed")
+        .withArgs(0n, alice.address, expected);
+      claimed += expected;
+    }
+    expect(claimed).to.equal(allocation);
+    expect(await saleToken.balanceOf(alice.address)).to.equal(allocation);
+    await expect(cf.connect(alice).claim_tokens(0)).to.be.revertedWith("NOTHING_TO_CLAIM");
+
+    await cf.connect(creator).withdraw_unsold(0);
+    expect(await saleToken.balanceOf(creator.address)).to.equal(SUPPLY - allocation);
+    await cf.connect(creator).withdraw_creator(0);
+    expect(await paymentToken.balanceOf(creator.address)).to.equal(50n * TOKEN_UNIT);
+    expect(await paymentToken.balanceOf(alice.address)).to.equal(INVESTOR_BALANCE - 50n * TOKEN_UNIT);
+    expect(await paymentToken.balanceOf(await cf.getAddress())).to.equal(0n);
+  });
+
+  it("objectif manqué: aucun token libéré, dépôt intégralement rendu", async () => {
+    const { cf, saleToken, paymentToken, creator, investors } = await deploySale(PricingMode.Fixed, { goal: 100n * TOKEN_UNIT });
+    await cf.connect(investors[0]).fund(0, 10n * TOKEN_UNIT);
+    await closeSale(cf, creator);
+    await expect(cf.connect(creator).withdraw_creator(0)).to.be.revertedWith("GOAL_NOT_REACHED");
+
+    await expect(cf.connect(investors[0]).claim_tokens(0)).to.be.revertedWith("GOAL_NOT_REACHED");
+    expect((await cf.get_vesting(0, investors[0].address)).vested).to.equal(0n);
+    await cf.connect(creator).withdraw_unsold(0);
+    expect(await saleToken.balanceOf(creator.address)).to.equal(SUPPLY);
+
+    // le paiement revient à l'investisseur
+    await expect(cf.connect(investors[0]).withdraw_investor(0))
+      .to.changeTokenBalances(paymentToken, [cf, investors[0]], [-10n * TOKEN_UNIT, 10n * TOKEN_UNIT]);
+    expect(await paymentToken.balanceOf(investors[0].address)).to.equal(INVESTOR_BALANCE);
+  });
+});
@@ -0,0 +1,93 @@
+// Référence hors chaîne des calculs de prix et de vesting de Crowdfunding (IPLaunchpad.sol).
+// Mêmes formules, mêmes arrondis (division entière vers le bas) que le contrat.
+
+export const TOKEN_UNIT = 10n ** 18n;
+
+// Même ordre que l'enum Solidity PricingMode
+export enum PricingMode {
+  Fixed = 0,
+  LinearCurve = 1,
+  BatchAuction = 2,
+}
+
+export interface SaleState {
+  mode: PricingMode;
+  basePrice: bigint; // prix pour TOKEN_UNIT unités de token vendu
+  slope: bigint; // LinearCurve: hausse du prix par TOKEN_UNIT vendu
+  supply: bigint;
+  sold: bigint;
+  raised: bigint;
+}
+
+export interface VestingSchedule {
+  start: bigint; // end_time de la collecte
+  cliff: bigint;
+  duration: bigint;
+}
+
+// floor(sqrt(x)), identique à _sqrt
+export function sqrt(x: bigint): bigint {
+  if (x < 0n) throw new Error("sqrt: valeur négative");
+  if (x === 0n) return 0n;
+  let y = x;
+  let z = x / 2n + 1n;
+  while (z < y) {
+    y = z;
+    z = (x / z + z) / 2n;
+  }
+  return y;
+}
+
+// Prix courant de la courbe linéaire après `sold` tokens vendus
+export function curvePrice(basePrice: bigint, slope: bigint, sold: bigint): bigint {
+  return basePrice + (slope * sold) / TOKEN_UNIT;
+}
+
+// Coût exact (non arrondi) de q tokens à partir de p0, en fraction num / den
+export function curveCost(p0: bigint, slope: bigint, q: bigint): { num: bigint; den: bigint } {
+  const den = 2n * TOKEN_UNIT * TOKEN_UNIT;
+  return { num: 2n * p0 * q * TOKEN_UNIT + slope * q * q, den };
+}
+
+// Prix uniforme de l'enchère: la demande au prix plancher, sans dépasser supply
+export function clearingPrice(basePrice: bigint, raised: bigint, supply: bigint): bigint {
+  const demandPrice = (raised * TOKEN_UNIT + supply - 1n) / supply;
+  return demandPrice > basePrice ? demandPrice : basePrice;
+}
+
+// Tokens obtenus pour `amount` (= quote_tokens)
+export function quoteTokens(sale: SaleState, amount: bigint): bigint {
+  switch (sale.mode) {
+    case PricingMode.Fixed:
+      return (amount * TOKEN_UNIT) / sale.basePrice;
+    case PricingMode.LinearCurve: {
+      const p0 = curvePrice(sale.basePrice, sale.slope, sale.sold);
+      return ((sqrt(p0 * p0 + 2n * sale.slope * amount) - p0) * TOKEN_UNIT) / sale.slope;
+    }
+    case PricingMode.BatchAuction:
+      return (amount * TOKEN_UNIT) / clearingPrice(sale.basePrice, sale.raised + amount, sale.supply);
+  }
+}
+
+// Applique un fund: renvoie les tokens alloués et le nouvel état (allocation différée pour l'enchère)
+export function applyFund(sale: SaleState, amount: bigint): { tokens: bigint; next: SaleState } {
+  if (sale.mode === PricingMode.BatchAuction) {
+    return { tokens: 0n, next: { ...sale, raised: sale.raised + amount } };
+  }
+  const tokens = quoteTokens(sale, amount);
+  if (tokens === 0n) throw new Error("AMOUNT_TOO_SMALL");
+  if (sale.sold + tokens > sale.supply) throw new Error("SALE_SUPPLY_EXCEEDED");
+  return { tokens, next: { ...sale, sold: sale.sold + tokens, raised: sale.raised + amount } };
+}
+
+// Allocation d'un investisseur après clôture de l'enchère
+export function batchAllocation(invested: bigint, price: bigint): bigint {
+  return (invested * TOKEN_UNIT) / price;
+}
+
+// Rien avant start + cliff, puis linéaire jusqu'à start + duration
+export function vestedAmount(total: bigint, { start, cliff, duration }: VestingSchedule, now: bigint): bigint {
+  if (now < start + cliff) return 0n;
+  if (now >= start + duration) return total;
+  return (total * (now - start)) / duration;
+}
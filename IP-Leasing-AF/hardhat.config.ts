@@ -1,23 +0,0 @@
-import { HardhatUserConfig } from "hardhat/config";
-import "@nomicfoundation/hardhat-toolbox";
-
-const config: HardhatUserConfig = {
-  solidity: {
-    version: "0.8.20",
-    settings: {
-      optimizer: { enabled: true, runs: 200 },
-    },
-  },
-  paths: {
-    sources: "./src",
-    tests: "./test",
-    cache: "./cache",
-    artifacts: "./artifacts",
-  },
-  typechain: {
-    outDir: "typechain-types",
-    target: "ethers-v6",
-  },
-};
-
-export default config;
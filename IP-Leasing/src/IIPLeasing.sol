@@ -2,6 +2,26 @@
 pragma solidity ^0.8.20;
 
 interface IIPLeasing {
+    // --- Politiques (fixées au déploiement) ---
+
+    // AMOUNT_1155: tokens IP fongibles, offres sur une quantité, leases non exclusifs possibles.
+    // EXCLUSIVE_721: chaque token IP est unique (supply 1) et ne se loue qu'en exclusif.
+    enum TokenModel { AMOUNT_1155, EXCLUSIVE_721 }
+
+    // ON_START: le locataire règle lease_fee au bailleur au démarrage du lease.
+    // ON_OFFER: le bailleur règle lease_fee à la plateforme (owner du contrat) en publiant l'offre.
+    enum FeeTiming { ON_START, ON_OFFER }
+
+    // LOCKED: le bailleur ne peut pas résilier; seul un défaut de loyer met fin au lease avant terme.
+    enum Termination { OWNER_TERMINABLE, LOCKED }
+
+    struct LeasePolicy {
+        TokenModel  token_model;
+        FeeTiming   fee_timing;
+        Termination termination;
+        address     fee_token;   // ERC20 de lease_fee; address(0): frais indicatifs, non prélevés
+    }
+
     struct Lease {
         address lessee;
         uint256 amount;
@@ -19,6 +39,59 @@ interface IIPLeasing {
         bool    is_active;
     }
 
+    // Lease identifié par son token de lease (NFT ERC1155, id >= LEASE_ID_FLAG).
+    // Le locataire est le détenteur courant de ce token.
+    struct LeaseInfo {
+        uint256 token_id;
+        address owner;
+        address lessee;
+        uint256 amount;     // exclusif: tokens IP détenus par le locataire; non exclusif: 0
+        uint64  start_time;
+        uint64  end_time;
+        bool    exclusive;
+        bool    ended;      // expire_lease / terminate_*
+    }
+
+    // Offre non exclusive: plusieurs leases simultanés, sans séquestre des tokens IP
+    struct OpenLeaseOffer {
+        uint256 token_id;
+        address owner;
+        uint256 lease_fee;
+        uint64  duration;
+        uint32  max_leases;
+        uint32  leases_started;
+        string  license_terms_uri;
+        bool    is_active;
+    }
+
+    // Loyer périodique (ERC20) d'une offre exclusive, recopié dans le lease au démarrage.
+    // La période k couvre [start + k*interval, start + (k+1)*interval) et est due à son début;
+    // au-delà de grace_period elle est en retard: late_fee s'ajoute et le lease peut être
+    // résilié par n'importe qui via terminate_lease.
+    struct RentTerms {
+        address token;
+        uint256 amount;       // par période
+        uint64  interval;
+        uint64  grace_period;
+        uint256 late_fee;     // par période payée en retard
+    }
+
+    // Arriérés d'un lease à l'instant de la lecture
+    struct RentStatus {
+        uint64  paid_until;
+        uint256 periods_due;  // périodes commencées (avant end_time) et non payées
+        uint256 late_periods; // dont échues depuis plus de grace_period
+        uint256 amount_due;   // periods_due * amount + late_periods * late_fee
+        bool    in_default;
+    }
+
+    // --- Rôle "user" (style ERC-4907) sur les tokens de lease ---
+    event UpdateUser(uint256 indexed tokenId, address indexed user, uint64 expires);
+
+    function setUser(uint256 lease_id, address user, uint64 expires) external;
+    function userOf(uint256 lease_id) external view returns (address);
+    function userExpires(uint256 lease_id) external view returns (uint256);
+
     // --- Actions ---
     function create_lease_offer(
         uint256 token_id,
@@ -38,11 +111,38 @@ interface IIPLeasing {
 
     function terminate_lease(uint256 token_id, string calldata reason) external;
 
+    function set_lease_offer_rent(uint256 token_id, RentTerms calldata terms) external;
+
+    function pay_rent(uint256 lease_id, uint256 periods) external;
+
     function mint_ip(address to, uint256 token_id, uint256 amount) external;
 
+    function create_open_lease_offer(
+        uint256 token_id,
+        uint256 lease_fee,
+        uint64  duration,
+        uint32  max_leases,
+        string calldata license_terms_uri
+    ) external returns (uint256 offer_id);
+
+    function cancel_open_lease_offer(uint256 offer_id) external;
+
+    function start_open_lease(uint256 offer_id) external returns (uint256 lease_id);
+
+    function terminate_open_lease(uint256 lease_id, string calldata reason) external;
+
     // --- Views ---
+    function get_policy() external view returns (LeasePolicy memory);
     function get_lease(uint256 token_id) external view returns (Lease memory);
     function get_lease_offer(uint256 token_id) external view returns (LeaseOffer memory);
     function get_active_leases_by_owner(address owner_) external view returns (uint256[] memory);
     function get_active_leases_by_lessee(address lessee) external view returns (uint256[] memory);
+    function get_lease_info(uint256 lease_id) external view returns (LeaseInfo memory);
+    function get_open_lease_offer(uint256 offer_id) external view returns (OpenLeaseOffer memory);
+    function get_token_leases(uint256 token_id) external view returns (uint256[] memory);
+    function get_leases_by_holder(address holder) external view returns (uint256[] memory);
+    function get_rent_terms(uint256 lease_id) external view returns (RentTerms memory);
+    function get_rent_status(uint256 lease_id) external view returns (RentStatus memory);
+    function is_lease_live(uint256 lease_id) external view returns (bool);
+    function has_usage_rights(uint256 token_id, address account) external view returns (bool);
 }
@@ -4,26 +4,75 @@ pragma solidity ^0.8.20;
 import {ERC1155} from "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
 import {ERC1155Holder} from "@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder.sol";
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import {IIPLeasing} from "./IIPLeasing.sol";
 
 /**
- * Port Solidity du contrat Cairo `IPLeasing`.
- * - Le token est un ERC1155 interne au contrat.
+ * Port Solidity du contrat Cairo `IPLeasing`, moteur de leasing unique paramétré par une
+ * LeasePolicy fixée au déploiement (modèle de token, moment des frais, résiliation).
+ * - Le token est un ERC1155 interne au contrat (ids uniques en EXCLUSIVE_721).
  * - Les transferts d'IDs en cours de lease sont bloqués (hook _update),
  *   sauf lorsqu'ils sont initiés « de force » par le contrat (expire/terminate/cancel).
+ * - Chaque lease est représenté par un token de lease (NFT, id >= LEASE_ID_FLAG) remis au
+ *   locataire: transférable, il emporte les droits (et, en exclusif, les tokens IP loués).
+ *   Le détenteur peut sous-louer via setUser (style ERC-4907) dans la durée restante.
+ * - L'expiration est vérifiée à la lecture: les vues ignorent un lease dont end_time est
+ *   dépassé, même si personne n'a encore appelé expire_lease.
+ * - Une offre exclusive peut porter un loyer périodique en ERC20 (set_lease_offer_rent):
+ *   première période prélevée au démarrage, puis pay_rent par n'importe quel payeur.
+ *   Passé le délai de grâce, chaque période payée en retard coûte late_fee et le lease
+ *   peut être résilié par n'importe qui via terminate_lease (raison "Rent in arrears").
  */
 contract IPLeasing is ERC1155, Ownable, ERC1155Holder, IIPLeasing {
+    using SafeERC20 for IERC20;
+
+    // --- Politique ---
+    TokenModel  private immutable _tokenModel;
+    FeeTiming   private immutable _feeTiming;
+    Termination private immutable _termination;
+    address     private immutable _feeToken;
+
     // --- Storage ---
 
-    // tokenId => Lease actif (ou vide)
-    mapping(uint256 => Lease) private _leases;
+    // ids >= LEASE_ID_FLAG: tokens de lease ; en dessous: tokens IP
+    uint256 public constant LEASE_ID_FLAG = 1 << 255;
+
+    // tokenId => déjà minté (EXCLUSIVE_721: un seul exemplaire par id)
+    mapping(uint256 => bool) private _minted;
 
-    // tokenId => offre courante
+    // tokenId => offre exclusive courante
     mapping(uint256 => LeaseOffer) private _offers;
 
+    // tokenId => lease exclusif courant (lease_id, 0 = jamais loué)
+    mapping(uint256 => uint256) private _exclusiveLease;
+
+    // lease_id => lease (exclusif ou non)
+    mapping(uint256 => LeaseInfo) private _leaseInfo;
+    uint256 public lease_count;
+
+    // offer_id => offre non exclusive
+    mapping(uint256 => OpenLeaseOffer) private _openOffers;
+    uint256 public open_offer_count;
+
+    // tokenId => loyer de l'offre exclusive courante ; lease_id => loyer du lease
+    mapping(uint256 => RentTerms) private _offerRent;
+    mapping(uint256 => RentTerms) private _leaseRent;
+    mapping(uint256 => uint64) private _paidUntil;
+
+    // lease_id => sous-location (rôle "user" ERC-4907)
+    struct SubLease {
+        address user;
+        uint64  expires;
+    }
+    mapping(uint256 => SubLease) private _subLeases;
+
     // indexation simple pour les vues (on filtre à la lecture)
     mapping(address => uint256[]) private _ownerIndexedTokenIds;   // push lors de create_lease_offer
-    mapping(address => uint256[]) private _lesseeIndexedTokenIds;  // push lors de start_lease
+    mapping(address => uint256[]) private _lesseeIndexedTokenIds;  // push lors de start_lease / transfert du lease
+    mapping(uint256 => uint256[]) private _tokenLeaseIds;          // tokenId => tous ses leases
+    mapping(address => uint256[]) private _holderLeaseIds;         // détenteur => tokens de lease reçus
+    mapping(address => mapping(uint256 => bool)) private _holderIndexed;
 
     // drapeau interne pour autoriser les transferts malgré un lease actif (expire/terminate/cancel)
     bool private _forceTransfer;
@@ -54,6 +103,37 @@ contract IPLeasing is ERC1155, Ownable, ERC1155Holder, IIPLeasing {
 
     event LeaseTerminated(uint256 token_id, address lessee, string reason);
 
+    // --- Events (tokens de lease, offres non exclusives) ---
+    event LeaseIssued(uint256 lease_id, uint256 token_id, address lessee, bool exclusive);
+
+    event LeaseTransferred(uint256 lease_id, address from, address to);
+
+    event OpenLeaseOfferCreated(
+        uint256 offer_id,
+        uint256 token_id,
+        address owner,
+        uint256 lease_fee,
+        uint64  duration,
+        uint32  max_leases,
+        string  license_terms_uri
+    );
+
+    event OpenLeaseOfferCancelled(uint256 offer_id, address owner);
+
+    // --- Events (loyer) ---
+    event LeaseOfferRentSet(
+        uint256 token_id,
+        address token,
+        uint256 amount,
+        uint64  interval,
+        uint64  grace_period,
+        uint256 late_fee
+    );
+
+    event RentPaid(uint256 lease_id, address payer, uint256 periods, uint256 late_fees, uint64 paid_until);
+
+    event RentDefaulted(uint256 lease_id, address lessee, uint256 amount_due);
+
     // --- Messages d'erreur (alignés avec le Cairo) ---
     string constant INVALID_TOKEN_ID     = "Invalid token ID";
     string constant NOT_TOKEN_OWNER      = "Not token owner";
@@ -66,9 +146,25 @@ contract IPLeasing is ERC1155, Ownable, ERC1155Holder, IIPLeasing {
     string constant NOT_LESSEE           = "Not lessee";
     string constant NO_ACTIVE_OFFER      = "No active offer";
     string constant LEASE_NOT_EXPIRED    = "Lease not expired";
+    string constant UNKNOWN_LEASE        = "Unknown lease";
+    string constant OFFER_FULLY_LEASED   = "Offer fully leased";
+    string constant INVALID_MAX_LEASES   = "Invalid max leases";
+    string constant SUBLEASE_TOO_LONG    = "Sublease exceeds lease term";
+    string constant INVALID_RENT         = "Invalid rent";
+    string constant NO_RENT              = "Lease has no rent";
+    string constant RENT_BEYOND_TERM     = "Rent beyond lease term";
+    string constant RENT_IN_ARREARS      = "Rent in arrears";
+    string constant TOKEN_ALREADY_MINTED = "Token already minted";
+    string constant EXCLUSIVE_ONLY       = "Exclusive leases only";
+    string constant LEASE_LOCKED         = "Lease is locked";
 
     // --- Constructor ---
-    constructor(address owner_, string memory uri_) ERC1155(uri_) Ownable(owner_) {}
+    constructor(address owner_, string memory uri_, LeasePolicy memory policy_) ERC1155(uri_) Ownable(owner_) {
+        _tokenModel = policy_.token_model;
+        _feeTiming = policy_.fee_timing;
+        _termination = policy_.termination;
+        _feeToken = policy_.fee_token;
+    }
 
     // --- Core logic ---
 
@@ -79,13 +175,15 @@ contract IPLeasing is ERC1155, Ownable, ERC1155Holder, IIPLeasing {
         uint64  duration,
         string calldata license_terms_uri
     ) external override {
+        require(token_id < LEASE_ID_FLAG, INVALID_TOKEN_ID);
         require(balanceOf(msg.sender, token_id) >= amount, NOT_TOKEN_OWNER);
         require(amount > 0, INSUFFICIENT_AMOUNT);
         require(lease_fee > 0, INVALID_LEASE_FEE);
         require(duration > 0, INVALID_DURATION);
-        require(!_leases[token_id].is_active, LEASE_ALREADY_ACTIVE);
+        require(!_exclusiveActive(token_id), LEASE_ALREADY_ACTIVE);
 
-        // Enregistrer l'offre
+        // Enregistrer l'offre (sans loyer tant que set_lease_offer_rent n'est pas appelé)
+        delete _offerRent[token_id];
         _offers[token_id] = LeaseOffer({
             owner: msg.sender,
             amount: amount,
@@ -97,6 +195,7 @@ contract IPLeasing is ERC1155, Ownable, ERC1155Holder, IIPLeasing {
 
         // Escrow des tokens: vers le contrat
         _safeTransferFrom(msg.sender, address(this), token_id, amount, "");
+        if (_feeTiming == FeeTiming.ON_OFFER) _chargeFee(owner(), lease_fee);
 
         // Indexation côté owner
         _ownerIndexedTokenIds[msg.sender].push(token_id);
@@ -123,26 +222,30 @@ contract IPLeasing is ERC1155, Ownable, ERC1155Holder, IIPLeasing {
     function start_lease(uint256 token_id) external override {
         LeaseOffer memory offer = _offers[token_id];
         require(offer.is_active, NO_ACTIVE_OFFER);
-        require(!_leases[token_id].is_active, LEASE_ALREADY_ACTIVE);
+        require(!_exclusiveActive(token_id), LEASE_ALREADY_ACTIVE);
 
         uint64 start = uint64(block.timestamp);
         uint64 end   = start + offer.duration;
 
-        _leases[token_id] = Lease({
-            lessee: msg.sender,
-            amount: offer.amount,
-            start_time: start,
-            end_time: end,
-            is_active: true
-        });
+        // désactiver l'offre
+        _offers[token_id].is_active = false;
+
+        if (_feeTiming == FeeTiming.ON_START) _chargeFee(offer.owner, offer.lease_fee);
 
         // transfert du contrat -> locataire
         _forceTransfer = true;
         _safeTransferFrom(address(this), msg.sender, token_id, offer.amount, "");
         _forceTransfer = false;
 
-        // désactiver l'offre
-        _offers[token_id].is_active = false;
+        uint256 lease_id = _issueLease(token_id, offer.owner, offer.amount, start, end, true);
+        _exclusiveLease[token_id] = lease_id;
+
+        // loyer: la première période est due au démarrage
+        if (_offerRent[token_id].interval != 0) {
+            _leaseRent[lease_id] = _offerRent[token_id];
+            _paidUntil[lease_id] = start;
+            _payRent(lease_id, 1);
+        }
 
         // indexation côté locataire
         _lesseeIndexedTokenIds[msg.sender].push(token_id);
@@ -151,95 +254,417 @@ contract IPLeasing is ERC1155, Ownable, ERC1155Holder, IIPLeasing {
     }
 
     function renew_lease(uint256 token_id, uint64 additional_duration) external override {
-        Lease memory l = _leases[token_id];
-        require(l.is_active, NO_ACTIVE_LEASE);
+        uint256 lease_id = _exclusiveLease[token_id];
+        LeaseInfo storage l = _leaseInfo[lease_id];
+        require(lease_id != 0 && !l.ended, NO_ACTIVE_LEASE);
         require(l.lessee == msg.sender, NOT_LESSEE);
         require(block.timestamp <= l.end_time, LEASE_EXPIRED);
         require(additional_duration > 0, INVALID_DURATION);
+        require(!_rentStatus(lease_id).in_default, RENT_IN_ARREARS);
 
         uint64 newEnd = l.end_time + additional_duration;
-        _leases[token_id].end_time = newEnd;
+        l.end_time = newEnd;
 
         emit LeaseRenewed(token_id, msg.sender, newEnd);
     }
 
     function expire_lease(uint256 token_id) external override {
-        Lease memory l = _leases[token_id];
-        require(l.is_active, NO_ACTIVE_LEASE);
+        uint256 lease_id = _exclusiveLease[token_id];
+        LeaseInfo memory l = _leaseInfo[lease_id];
+        require(lease_id != 0 && !l.ended, NO_ACTIVE_LEASE);
         require(block.timestamp > l.end_time, LEASE_NOT_EXPIRED);
-
-        LeaseOffer memory offer = _offers[token_id];
-        address owner_ = offer.owner;
-        require(owner_ != address(0), INVALID_TOKEN_ID);
+        require(l.owner != address(0), INVALID_TOKEN_ID);
 
         // restitution lessee -> owner
-        _forceTransfer = true;
-        _safeTransferFrom(l.lessee, owner_, token_id, l.amount, "");
-        _forceTransfer = false;
-
-        _leases[token_id].is_active = false;
+        _endExclusive(lease_id, l.owner);
 
         emit LeaseExpired(token_id, l.lessee);
     }
 
+    /// Résiliation par l'owner (hors politique LOCKED), ou par n'importe qui (keeper) si le loyer est en défaut.
     function terminate_lease(uint256 token_id, string calldata reason) external override {
-        Lease memory l = _leases[token_id];
-        require(l.is_active, NO_ACTIVE_LEASE);
+        uint256 lease_id = _exclusiveLease[token_id];
+        LeaseInfo memory l = _leaseInfo[lease_id];
+        require(lease_id != 0 && !l.ended, NO_ACTIVE_LEASE);
+        RentStatus memory rent = _rentStatus(lease_id);
+        if (!rent.in_default) {
+            require(l.owner == msg.sender, NOT_TOKEN_OWNER);
+            require(_termination == Termination.OWNER_TERMINABLE, LEASE_LOCKED);
+        }
+
+        // restitution lessee -> owner
+        _endExclusive(lease_id, l.owner);
+
+        if (rent.in_default) emit RentDefaulted(lease_id, l.lessee, rent.amount_due);
+        if (l.owner == msg.sender) {
+            emit LeaseTerminated(token_id, l.lessee, reason);
+        } else {
+            emit LeaseTerminated(token_id, l.lessee, RENT_IN_ARREARS);
+        }
+    }
 
+    // --- Loyer ---
+
+    /// Ajoute un loyer périodique à l'offre exclusive active (avant start_lease).
+    function set_lease_offer_rent(uint256 token_id, RentTerms calldata terms) external override {
         LeaseOffer memory offer = _offers[token_id];
+        require(offer.is_active, NO_ACTIVE_OFFER);
         require(offer.owner == msg.sender, NOT_TOKEN_OWNER);
+        require(terms.token != address(0) && terms.amount > 0, INVALID_RENT);
+        require(terms.interval > 0, INVALID_DURATION);
 
-        // restitution lessee -> owner (msg.sender)
-        _forceTransfer = true;
-        _safeTransferFrom(l.lessee, msg.sender, token_id, l.amount, "");
-        _forceTransfer = false;
-
-        _leases[token_id].is_active = false;
+        _offerRent[token_id] = terms;
+        emit LeaseOfferRentSet(token_id, terms.token, terms.amount, terms.interval, terms.grace_period, terms.late_fee);
+    }
 
-        emit LeaseTerminated(token_id, l.lessee, reason);
+    /// Paie `periods` périodes à partir de paid_until, late_fee compris pour celles en retard.
+    /// Le prépaiement est borné aux périodes qui commencent avant end_time.
+    function pay_rent(uint256 lease_id, uint256 periods) external override {
+        LeaseInfo memory l = _leaseInfo[lease_id];
+        require(_leaseRent[lease_id].interval != 0, NO_RENT);
+        require(!l.ended, NO_ACTIVE_LEASE);
+        require(periods > 0, INVALID_RENT);
+        require(
+            _paidUntil[lease_id] + (periods - 1) * _leaseRent[lease_id].interval < l.end_time,
+            RENT_BEYOND_TERM
+        );
+        _payRent(lease_id, periods);
     }
 
     function mint_ip(address to, uint256 token_id, uint256 amount) external override onlyOwner {
+        require(token_id < LEASE_ID_FLAG, INVALID_TOKEN_ID);
         require(amount > 0, INSUFFICIENT_AMOUNT);
+        if (_tokenModel == TokenModel.EXCLUSIVE_721) {
+            require(amount == 1, INSUFFICIENT_AMOUNT);
+            require(!_minted[token_id], TOKEN_ALREADY_MINTED);
+            _minted[token_id] = true;
+        }
         _mint(to, token_id, amount, "");
     }
 
+    // --- Leases non exclusifs ---
+
+    /// Licence non exclusive: jusqu'à max_leases locataires simultanés, tokens IP conservés par l'owner.
+    function create_open_lease_offer(
+        uint256 token_id,
+        uint256 lease_fee,
+        uint64  duration,
+        uint32  max_leases,
+        string calldata license_terms_uri
+    ) external override returns (uint256 offer_id) {
+        require(_tokenModel == TokenModel.AMOUNT_1155, EXCLUSIVE_ONLY);
+        require(token_id < LEASE_ID_FLAG, INVALID_TOKEN_ID);
+        require(balanceOf(msg.sender, token_id) > 0, NOT_TOKEN_OWNER);
+        require(lease_fee > 0, INVALID_LEASE_FEE);
+        require(duration > 0, INVALID_DURATION);
+        require(max_leases > 0, INVALID_MAX_LEASES);
+
+        offer_id = ++open_offer_count;
+        _openOffers[offer_id] = OpenLeaseOffer({
+            token_id: token_id,
+            owner: msg.sender,
+            lease_fee: lease_fee,
+            duration: duration,
+            max_leases: max_leases,
+            leases_started: 0,
+            license_terms_uri: license_terms_uri,
+            is_active: true
+        });
+
+        if (_feeTiming == FeeTiming.ON_OFFER) _chargeFee(owner(), lease_fee);
+
+        emit OpenLeaseOfferCreated(offer_id, token_id, msg.sender, lease_fee, duration, max_leases, license_terms_uri);
+    }
+
+    /// Ferme l'offre aux nouveaux locataires; les leases en cours vont à leur terme.
+    function cancel_open_lease_offer(uint256 offer_id) external override {
+        OpenLeaseOffer storage offer = _openOffers[offer_id];
+        require(offer.is_active, NO_ACTIVE_OFFER);
+        require(offer.owner == msg.sender, NOT_TOKEN_OWNER);
+
+        offer.is_active = false;
+        emit OpenLeaseOfferCancelled(offer_id, msg.sender);
+    }
+
+    function start_open_lease(uint256 offer_id) external override returns (uint256 lease_id) {
+        OpenLeaseOffer storage offer = _openOffers[offer_id];
+        require(offer.is_active, NO_ACTIVE_OFFER);
+        require(offer.leases_started < offer.max_leases, OFFER_FULLY_LEASED);
+
+        offer.leases_started += 1;
+        if (_feeTiming == FeeTiming.ON_START) _chargeFee(offer.owner, offer.lease_fee);
+        uint64 start = uint64(block.timestamp);
+        uint64 end   = start + offer.duration;
+
+        lease_id = _issueLease(offer.token_id, offer.owner, 0, start, end, false);
+
+        emit LeaseStarted(offer.token_id, msg.sender, 0, start, end);
+    }
+
+    function terminate_open_lease(uint256 lease_id, string calldata reason) external override {
+        LeaseInfo storage l = _leaseInfo[lease_id];
+        require(l.owner != address(0) && !l.exclusive, UNKNOWN_LEASE);
+        require(!l.ended, NO_ACTIVE_LEASE);
+        require(l.owner == msg.sender, NOT_TOKEN_OWNER);
+        require(_termination == Termination.OWNER_TERMINABLE, LEASE_LOCKED);
+
+        l.ended = true;
+        emit LeaseTerminated(l.token_id, l.lessee, reason);
+    }
+
+    // --- Rôle "user" (style ERC-4907) ---
+
+    /// Sous-location par le détenteur du token de lease, bornée par la fin du lease.
+    /// user = 0 annule la sous-location. Réinitialisée à chaque transfert du token de lease.
+    function setUser(uint256 lease_id, address user, uint64 expires) external override {
+        LeaseInfo memory l = _leaseInfo[lease_id];
+        require(l.owner != address(0), UNKNOWN_LEASE);
+        require(l.lessee == msg.sender || isApprovedForAll(l.lessee, msg.sender), NOT_LESSEE);
+        require(_isLive(l), NO_ACTIVE_LEASE);
+        require(expires <= l.end_time, SUBLEASE_TOO_LONG);
+
+        _subLeases[lease_id] = SubLease({user: user, expires: expires});
+        emit UpdateUser(lease_id, user, expires);
+    }
+
+    /// Utilisateur effectif: le sous-locataire pendant la sous-location, sinon le détenteur
+    /// du token de lease; address(0) une fois le lease expiré ou terminé.
+    function userOf(uint256 lease_id) public view override returns (address) {
+        LeaseInfo memory l = _leaseInfo[lease_id];
+        if (!_isLive(l)) return address(0);
+        SubLease memory s = _subLeases[lease_id];
+        if (s.user != address(0) && block.timestamp <= s.expires) return s.user;
+        return l.lessee;
+    }
+
+    function userExpires(uint256 lease_id) external view override returns (uint256) {
+        LeaseInfo memory l = _leaseInfo[lease_id];
+        if (!_isLive(l)) return 0;
+        SubLease memory s = _subLeases[lease_id];
+        if (s.user != address(0) && block.timestamp <= s.expires) return s.expires;
+        return l.end_time;
+    }
+
     // --- Views ---
 
+    function get_policy() external view override returns (LeasePolicy memory) {
+        return LeasePolicy(_tokenModel, _feeTiming, _termination, _feeToken);
+    }
+
+    /// Lease exclusif courant du token; is_active tient compte de end_time.
     function get_lease(uint256 token_id) external view override returns (Lease memory) {
-        return _leases[token_id];
+        uint256 lease_id = _exclusiveLease[token_id];
+        if (lease_id == 0) return Lease(address(0), 0, 0, 0, false);
+        LeaseInfo memory l = _leaseInfo[lease_id];
+        return Lease({
+            lessee: l.lessee,
+            amount: l.amount,
+            start_time: l.start_time,
+            end_time: l.end_time,
+            is_active: _isLive(l)
+        });
     }
 
     function get_lease_offer(uint256 token_id) external view override returns (LeaseOffer memory) {
         return _offers[token_id];
     }
 
+    function get_lease_info(uint256 lease_id) external view override returns (LeaseInfo memory) {
+        return _leaseInfo[lease_id];
+    }
+
+    function get_open_lease_offer(uint256 offer_id) external view override returns (OpenLeaseOffer memory) {
+        return _openOffers[offer_id];
+    }
+
+    function get_rent_terms(uint256 lease_id) external view override returns (RentTerms memory) {
+        return _leaseRent[lease_id];
+    }
+
+    function get_rent_status(uint256 lease_id) external view override returns (RentStatus memory) {
+        return _rentStatus(lease_id);
+    }
+
+    function is_lease_live(uint256 lease_id) external view override returns (bool) {
+        return _isLive(_leaseInfo[lease_id]);
+    }
+
+    /// Vrai si `account` est l'utilisateur effectif (userOf) d'un lease en cours sur le token.
+    function has_usage_rights(uint256 token_id, address account) external view override returns (bool) {
+        uint256[] memory ids = _tokenLeaseIds[token_id];
+        for (uint256 i = 0; i < ids.length; i++) {
+            if (account != address(0) && userOf(ids[i]) == account) return true;
+        }
+        return false;
+    }
+
+    function get_token_leases(uint256 token_id) external view override returns (uint256[] memory) {
+        return _filter(_tokenLeaseIds[token_id], address(0), _isAnyLive);
+    }
+
+    function get_leases_by_holder(address holder) external view override returns (uint256[] memory) {
+        return _filter(_holderLeaseIds[holder], holder, _isHeldLive);
+    }
+
     function get_active_leases_by_owner(address owner_) external view override returns (uint256[] memory) {
-        uint256[] memory all = _ownerIndexedTokenIds[owner_];
+        return _filter(_ownerIndexedTokenIds[owner_], owner_, _isOwnedLive);
+    }
+
+    function get_active_leases_by_lessee(address lessee) external view override returns (uint256[] memory) {
+        return _filter(_lesseeIndexedTokenIds[lessee], lessee, _isLeasedLive);
+    }
+
+    // --- Internes ---
+
+    function _issueLease(
+        uint256 token_id,
+        address owner_,
+        uint256 amount,
+        uint64  start,
+        uint64  end,
+        bool    exclusive
+    ) internal returns (uint256 lease_id) {
+        lease_id = LEASE_ID_FLAG | ++lease_count;
+        _leaseInfo[lease_id] = LeaseInfo({
+            token_id: token_id,
+            owner: owner_,
+            lessee: msg.sender,
+            amount: amount,
+            start_time: start,
+            end_time: end,
+            exclusive: exclusive,
+            ended: false
+        });
+        _tokenLeaseIds[token_id].push(lease_id);
+        _indexHolder(msg.sender, lease_id);
+
+        _mint(msg.sender, lease_id, 1, "");
+        emit LeaseIssued(lease_id, token_id, msg.sender, exclusive);
+    }
+
+    // lease_fee payé par msg.sender (bailleur ou locataire selon FeeTiming)
+    function _chargeFee(address to, uint256 amount) internal {
+        if (_feeToken != address(0)) IERC20(_feeToken).safeTransferFrom(msg.sender, to, amount);
+    }
+
+    // Prélève `periods` périodes sur msg.sender au profit de l'owner du lease
+    function _payRent(uint256 lease_id, uint256 periods) internal {
+        RentTerms memory r = _leaseRent[lease_id];
+        uint256 late = _rentStatus(lease_id).late_periods;
+        if (late > periods) late = periods;
+
+        uint64 paid = _paidUntil[lease_id] + uint64(periods * r.interval);
+        _paidUntil[lease_id] = paid;
+
+        IERC20(r.token).safeTransferFrom(msg.sender, _leaseInfo[lease_id].owner, periods * r.amount + late * r.late_fee);
+        emit RentPaid(lease_id, msg.sender, periods, late * r.late_fee, paid);
+    }
+
+    // Périodes dues: celles qui commencent avant min(now, end_time) à partir de paid_until;
+    // en retard: celles dont le début + grace_period est dépassé.
+    function _rentStatus(uint256 lease_id) internal view returns (RentStatus memory st) {
+        RentTerms memory r = _leaseRent[lease_id];
+        LeaseInfo memory l = _leaseInfo[lease_id];
+        st.paid_until = _paidUntil[lease_id];
+        if (r.interval == 0 || l.ended) return st;
+
+        uint256 cutoff = block.timestamp < l.end_time ? block.timestamp : l.end_time - 1;
+        if (cutoff < st.paid_until) return st;
+        st.periods_due = (cutoff - st.paid_until) / r.interval + 1;
+
+        uint256 deadline = st.paid_until + r.grace_period;
+        if (block.timestamp > deadline) {
+            uint256 late = (block.timestamp - deadline + r.interval - 1) / r.interval;
+            st.late_periods = late < st.periods_due ? late : st.periods_due;
+        }
+        st.amount_due = st.periods_due * r.amount + st.late_periods * r.late_fee;
+        st.in_default = st.late_periods > 0;
+    }
+
+    // Rend les tokens IP à `to` et brûle le token de lease
+    function _endExclusive(uint256 lease_id, address to) internal {
+        LeaseInfo storage l = _leaseInfo[lease_id];
+        l.ended = true;
+
+        _forceTransfer = true;
+        _safeTransferFrom(l.lessee, to, l.token_id, l.amount, "");
+        _forceTransfer = false;
+
+        _burn(l.lessee, lease_id, 1);
+    }
+
+    function _exclusiveActive(uint256 token_id) internal view returns (bool) {
+        uint256 lease_id = _exclusiveLease[token_id];
+        return lease_id != 0 && !_leaseInfo[lease_id].ended;
+    }
+
+    function _isLive(LeaseInfo memory l) internal view returns (bool) {
+        return l.owner != address(0) && !l.ended && block.timestamp <= l.end_time;
+    }
+
+    // Sous-ensemble de `all` retenu par `keep(id, account)` (index filtrés à la lecture)
+    function _filter(
+        uint256[] storage all,
+        address account,
+        function(uint256, address) internal view returns (bool) keep
+    ) internal view returns (uint256[] memory out) {
+        out = new uint256[](all.length);
         uint256 count;
         for (uint256 i = 0; i < all.length; i++) {
-            if (_leases[all[i]].is_active) count++;
+            if (keep(all[i], account)) out[count++] = all[i];
         }
-        uint256[] memory out = new uint256[](count);
-        uint256 j;
-        for (uint256 i = 0; i < all.length; i++) {
-            if (_leases[all[i]].is_active) out[j++] = all[i];
+        assembly {
+            mstore(out, count)
         }
-        return out;
     }
 
-    function get_active_leases_by_lessee(address lessee) external view override returns (uint256[] memory) {
-        uint256[] memory all = _lesseeIndexedTokenIds[lessee];
-        uint256 count;
-        for (uint256 i = 0; i < all.length; i++) {
-            if (_leases[all[i]].is_active) count++;
+    function _isAnyLive(uint256 lease_id, address) internal view returns (bool) {
+        return _isLive(_leaseInfo[lease_id]);
+    }
+
+    function _isLeasedLive(uint256 token_id, address lessee) internal view returns (bool) {
+        return _isHeldLive(_exclusiveLease[token_id], lessee);
+    }
+
+    function _isHeldLive(uint256 lease_id, address holder) internal view returns (bool) {
+        LeaseInfo memory l = _leaseInfo[lease_id];
+        return l.lessee == holder && _isLive(l);
+    }
+
+    function _isOwnedLive(uint256 token_id, address owner_) internal view returns (bool) {
+        LeaseInfo memory l = _leaseInfo[_exclusiveLease[token_id]];
+        return l.owner == owner_ && _isLive(l);
+    }
+
+    function _indexHolder(address holder, uint256 lease_id) internal {
+        if (!_holderIndexed[holder][lease_id]) {
+            _holderIndexed[holder][lease_id] = true;
+            _holderLeaseIds[holder].push(lease_id);
         }
-        uint256[] memory out = new uint256[](count);
-        uint256 j;
-        for (uint256 i = 0; i < all.length; i++) {
-            if (_leases[all[i]].is_active) out[j++] = all[i];
+    }
+
+    // Transfert d'un token de lease: les droits suivent, la sous-location est annulée,
+    // et en exclusif les tokens IP loués passent au nouveau détenteur.
+    function _moveLease(uint256 lease_id, address from, address to) internal {
+        LeaseInfo storage l = _leaseInfo[lease_id];
+        l.lessee = to;
+        _indexHolder(to, lease_id);
+
+        if (_subLeases[lease_id].user != address(0)) {
+            delete _subLeases[lease_id];
+            emit UpdateUser(lease_id, address(0), 0);
         }
-        return out;
+
+        if (l.exclusive && !l.ended) {
+            _lesseeIndexedTokenIds[to].push(l.token_id);
+            uint256[] memory ids = new uint256[](1);
+            uint256[] memory values = new uint256[](1);
+            ids[0] = l.token_id;
+            values[0] = l.amount;
+            super._update(from, to, ids, values);
+        }
+
+        emit LeaseTransferred(lease_id, from, to);
     }
 
     // --- Hooks (OZ v5) ---
@@ -252,9 +677,11 @@ contract IPLeasing is ERC1155, Ownable, ERC1155Holder, IIPLeasing {
         uint256[] memory values
     ) internal override {
         // autoriser mint/burn (from==0 ou to==0) via super, mais bloquer les transferts usuels si lease actif
-        if (!_forceTransfer && from != address(0) && to != address(0)) {
+        if (from != address(0) && to != address(0)) {
             for (uint256 i = 0; i < ids.length; ++i) {
-                if (_leases[ids[i]].is_active) {
+                if (ids[i] >= LEASE_ID_FLAG) {
+                    if (values[i] > 0 && from != to) _moveLease(ids[i], from, to);
+                } else if (!_forceTransfer && _exclusiveActive(ids[i])) {
                     revert("Leased IP cannot be transferred");
                 }
             }
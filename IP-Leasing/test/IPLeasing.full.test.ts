@@ -1,27 +1,28 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { POLICIES, Termination, deployLeasing, ipAmount, policyName } from "./utils";
 
 const TOKEN_ID = 1n;
-const AMOUNT = 100n;
 const LEASE_FEE = 10n;
 const DURATION = 86400; // 1 day
 const TERMS = "ipfs://QmLicenseTerms";
 
-async function deploy() {
-  const [owner, user1, user2, extra] = await ethers.getSigners();
-  const IPLeasing = await ethers.getContractFactory("IPLeasing", owner);
-  const leasing = await IPLeasing.deploy(owner.address, "ipfs://QmBaseUri");
-  await leasing.waitForDeployment();
-  return { leasing, owner, user1, user2, extra };
-}
+// Suite issue de IP-Leasing-AF, exécutée pour chaque politique
+for (const policy of POLICIES) describe(`IPLeasing – full suite [${policyName(policy)}]`, () => {
+  const AMOUNT = ipAmount(policy);
 
-async function setupOffer(leasing: any, owner: any) {
-  await leasing.connect(owner).mint_ip(owner.address, TOKEN_ID, AMOUNT);
-  await leasing.connect(owner).create_lease_offer(TOKEN_ID, AMOUNT, LEASE_FEE, DURATION, TERMS);
-}
+  async function deploy() {
+    const [owner, user1, user2, extra] = await ethers.getSigners();
+    const { leasing } = await deployLeasing(policy, { feeToken: true });
+    return { leasing: leasing as any, owner, user1, user2, extra };
+  }
+
+  async function setupOffer(leasing: any, owner: any) {
+    await leasing.connect(owner).mint_ip(owner.address, TOKEN_ID, AMOUNT);
+    await leasing.connect(owner).create_lease_offer(TOKEN_ID, AMOUNT, LEASE_FEE, DURATION, TERMS);
+  }
 
-describe("IPLeasing – full suite", () => {
   // ------------------------
   // Reverts (traduction 1:1)
   // ------------------------
@@ -161,6 +162,10 @@ describe("IPLeasing – full suite", () => {
     await setupOffer(leasing, owner);
     await leasing.connect(lessee).start_lease(TOKEN_ID);
 
+    if (policy.termination === Termination.Locked) {
+      await expect(leasing.connect(owner).terminate_lease(TOKEN_ID, "breach")).to.be.revertedWith("Lease is locked");
+      return;
+    }
     await expect(leasing.connect(owner).terminate_lease(TOKEN_ID, "breach"))
       .to.emit(leasing, "LeaseTerminated");
 
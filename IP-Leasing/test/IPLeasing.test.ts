@@ -1,13 +1,13 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { Contract } from "ethers";
+import { POLICIES, deployLeasing, ipAmount, policyName } from "./utils";
 
-describe("IPLeasing (tests traduits Cairo -> TS)", function () {
+for (const policy of POLICIES) describe(`IPLeasing (tests traduits Cairo -> TS) [${policyName(policy)}]`, function () {
   const TOKEN_ID = 1n;
-  const AMOUNT = 100n;
+  const AMOUNT = ipAmount(policy);
   const LEASE_FEE = 10n;
   const DURATION = 86_400n; // 1 day
-  const BASE_URI = "ipfs://QmBaseUri";
   const LICENSE_URI = "ipfs://QmLicenseTerms";
 
   let owner: any;
@@ -19,9 +19,7 @@ describe("IPLeasing (tests traduits Cairo -> TS)", function () {
 
   async function deploy() {
     [owner, user1, user2, extra] = await ethers.getSigners();
-    const F = await ethers.getContractFactory("IPLeasing", owner);
-    leasing = await F.deploy(await owner.getAddress(), BASE_URI);
-    await leasing.waitForDeployment();
+    leasing = (await deployLeasing(policy, { feeToken: true })).leasing as unknown as Contract;
   }
 
   beforeEach(async () => {
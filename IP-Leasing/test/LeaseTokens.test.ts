@@ -0,0 +1,150 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployLeasing } from "./utils";
+
+const TOKEN_ID = 1n;
+const AMOUNT = 100n;
+const LEASE_FEE = 10n;
+const DURATION = 86_400; // 1 jour
+const TERMS = "ipfs://QmLicenseTerms";
+const FLAG = 1n << 255n;
+
+async function deploy() {
+  const [owner, lessee, buyer, sublessee] = await ethers.getSigners();
+  const { leasing } = await deployLeasing();
+  await leasing.mint_ip(owner.address, TOKEN_ID, AMOUNT);
+  return { leasing, owner, lessee, buyer, sublessee };
+}
+
+async function exclusiveLease() {
+  const ctx = await deploy();
+  await ctx.leasing.create_lease_offer(TOKEN_ID, AMOUNT, LEASE_FEE, DURATION, TERMS);
+  await ctx.leasing.connect(ctx.lessee).start_lease(TOKEN_ID);
+  return { ...ctx, leaseId: FLAG | 1n };
+}
+
+describe("IPLeasing: tokens de lease, sous-location, leases non exclusifs", () => {
+  it("start_lease remet un token de lease; expiration lue sans appel à expire_lease", async () => {
+    const { leasing, owner, lessee, leaseId } = await exclusiveLease();
+
+    expect(await leasing.balanceOf(lessee.address, leaseId)).to.equal(1n);
+    const info = await leasing.get_lease_info(leaseId);
+    expect(info.token_id).to.equal(TOKEN_ID);
+    expect(info.owner).to.equal(owner.address);
+    expect(info.exclusive).to.equal(true);
+    expect(await leasing.userOf(leaseId)).to.equal(lessee.address);
+    expect(await leasing.userExpires(leaseId)).to.equal(info.end_time);
+    expect(await leasing.has_usage_rights(TOKEN_ID, lessee.address)).to.equal(true);
+
+    await time.increaseTo(info.end_time + 1n);
+    expect((await leasing.get_lease(TOKEN_ID)).is_active).to.equal(false);
+    expect(await leasing.userOf(leaseId)).to.equal(ethers.ZeroAddress);
+    expect(await leasing.has_usage_rights(TOKEN_ID, lessee.address)).to.equal(false);
+    expect(await leasing.get_active_leases_by_lessee(lessee.address)).to.deep.equal([]);
+    expect(await leasing.get_token_leases(TOKEN_ID)).to.deep.equal([]);
+
+    // la restitution des tokens reste une transaction; elle brûle le token de lease
+    await leasing.expire_lease(TOKEN_ID);
+    expect(await leasing.balanceOf(lessee.address, leaseId)).to.equal(0n);
+    expect(await leasing.balanceOf(owner.address, TOKEN_ID)).to.equal(AMOUNT);
+  });
+
+  it("le token de lease est transférable et emporte les tokens IP loués", async () => {
+    const { leasing, lessee, buyer, leaseId } = await exclusiveLease();
+
+    await expect(leasing.connect(lessee).safeTransferFrom(lessee.address, buyer.address, leaseId, 1n, "0x"))
+      .to.emit(leasing, "LeaseTransferred")
+      .withArgs(leaseId, lessee.address, buyer.address);
+
+    expect(await leasing.balanceOf(buyer.address, TOKEN_ID)).to.equal(AMOUNT);
+    expect(await leasing.balanceOf(lessee.address, TOKEN_ID)).to.equal(0n);
+    expect((await leasing.get_lease(TOKEN_ID)).lessee).to.equal(buyer.address);
+    expect(await leasing.get_active_leases_by_lessee(buyer.address)).to.deep.equal([TOKEN_ID]);
+    expect(await leasing.get_active_leases_by_lessee(lessee.address)).to.deep.equal([]);
+    expect(await leasing.get_leases_by_holder(buyer.address)).to.deep.equal([leaseId]);
+
+    // les droits suivent: renouvellement par le nouveau détenteur seulement
+    await expect(leasing.connect(lessee).renew_lease(TOKEN_ID, 60)).to.be.revertedWith("Not lessee");
+    await leasing.connect(buyer).renew_lease(TOKEN_ID, 60);
+    await expect(
+      leasing.connect(buyer).safeTransferFrom(buyer.address, lessee.address, TOKEN_ID, AMOUNT, "0x")
+    ).to.be.revertedWith("Leased IP cannot be transferred");
+  });
+
+  it("setUser: sous-location bornée par la durée restante, annulée au transfert", async () => {
+    const { leasing, lessee, buyer, sublessee, leaseId } = await exclusiveLease();
+    const { end_time } = await leasing.get_lease_info(leaseId);
+
+    await expect(leasing.connect(sublessee).setUser(leaseId, sublessee.address, end_time)).to.be.revertedWith(
+      "Not lessee"
+    );
+    await expect(leasing.connect(lessee).setUser(leaseId, sublessee.address, end_time + 1n)).to.be.revertedWith(
+      "Sublease exceeds lease term"
+    );
+
+    const subEnd = end_time - 3600n;
+    await expect(leasing.connect(lessee).setUser(leaseId, sublessee.address, subEnd))
+      .to.emit(leasing, "UpdateUser")
+      .withArgs(leaseId, sublessee.address, subEnd);
+    expect(await leasing.userOf(leaseId)).to.equal(sublessee.address);
+    expect(await leasing.has_usage_rights(TOKEN_ID, sublessee.address)).to.equal(true);
+    expect(await leasing.has_usage_rights(TOKEN_ID, lessee.address)).to.equal(false);
+
+    // fin de sous-location: l'usage revient au détenteur
+    await time.increaseTo(subEnd + 1n);
+    expect(await leasing.userOf(leaseId)).to.equal(lessee.address);
+
+    await leasing.connect(lessee).setUser(leaseId, sublessee.address, end_time);
+    await expect(leasing.connect(lessee).safeTransferFrom(lessee.address, buyer.address, leaseId, 1n, "0x"))
+      .to.emit(leasing, "UpdateUser")
+      .withArgs(leaseId, ethers.ZeroAddress, 0n);
+    expect(await leasing.userOf(leaseId)).to.equal(buyer.address);
+  });
+
+  it("offre non exclusive: leases simultanés, plafond, résiliation ciblée", async () => {
+    const { leasing, owner, lessee, buyer, sublessee } = await deploy();
+
+    await expect(leasing.create_open_lease_offer(TOKEN_ID, LEASE_FEE, DURATION, 0, TERMS)).to.be.revertedWith(
+      "Invalid max leases"
+    );
+    await expect(leasing.connect(lessee).create_open_lease_offer(TOKEN_ID, LEASE_FEE, DURATION, 2, TERMS))
+      .to.be.revertedWith("Not token owner");
+    await expect(leasing.create_open_lease_offer(TOKEN_ID, LEASE_FEE, DURATION, 2, TERMS))
+      .to.emit(leasing, "OpenLeaseOfferCreated")
+      .withArgs(1n, TOKEN_ID, owner.address, LEASE_FEE, DURATION, 2, TERMS);
+
+    await leasing.connect(lessee).start_open_lease(1n);
+    await leasing.connect(buyer).start_open_lease(1n);
+    await expect(leasing.connect(sublessee).start_open_lease(1n)).to.be.revertedWith("Offer fully leased");
+
+    const [first, second] = [FLAG | 1n, FLAG | 2n];
+    expect(await leasing.get_token_leases(TOKEN_ID)).to.deep.equal([first, second]);
+    expect(await leasing.has_usage_rights(TOKEN_ID, lessee.address)).to.equal(true);
+    expect(await leasing.has_usage_rights(TOKEN_ID, buyer.address)).to.equal(true);
+    // aucun séquestre: l'owner garde ses tokens et peut en proposer un lease exclusif
+    expect(await leasing.balanceOf(owner.address, TOKEN_ID)).to.equal(AMOUNT);
+    expect((await leasing.get_open_lease_offer(1n)).leases_started).to.equal(2n);
+
+    await expect(leasing.connect(lessee).terminate_open_lease(first, "breach")).to.be.revertedWith("Not token owner");
+    await expect(leasing.terminate_open_lease(first, "breach"))
+      .to.emit(leasing, "LeaseTerminated")
+      .withArgs(TOKEN_ID, lessee.address, "breach");
+    expect(await leasing.get_token_leases(TOKEN_ID)).to.deep.equal([second]);
+    expect(await leasing.has_usage_rights(TOKEN_ID, lessee.address)).to.equal(false);
+
+    await leasing.cancel_open_lease_offer(1n);
+    await expect(leasing.connect(sublessee).start_open_lease(1n)).to.be.revertedWith("No active offer");
+    expect(await leasing.is_lease_live(second)).to.equal(true);
+  });
+
+  it("mint_ip et offres refusent les ids réservés aux tokens de lease", async () => {
+    const { leasing } = await deploy();
+    await expect(leasing.mint_ip((await ethers.getSigners())[0].address, FLAG | 7n, 1n)).to.be.revertedWith(
+      "Invalid token ID"
+    );
+    await expect(leasing.create_open_lease_offer(FLAG | 7n, LEASE_FEE, DURATION, 1, TERMS)).to.be.revertedWith(
+      "Invalid token ID"
+    );
+  });
+});
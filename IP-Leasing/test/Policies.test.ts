@@ -0,0 +1,111 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { DEFAULT_POLICY, FeeTiming, Termination, TokenModel, deployLeasing } from "./utils";
+
+const TOKEN_ID = 1n;
+const LEASE_FEE = 10n;
+const DURATION = 86_400;
+const TERMS = "ipfs://QmLicenseTerms";
+const FLAG = 1n << 255n;
+
+describe("IPLeasing: politiques de leasing", () => {
+  it("get_policy expose la politique du déploiement", async () => {
+    const policy = { tokenModel: TokenModel.Exclusive721, feeTiming: FeeTiming.OnOffer, termination: Termination.Locked };
+    const { leasing, feeToken } = await deployLeasing(policy, { feeToken: true });
+    const p = await leasing.get_policy();
+    expect([p.token_model, p.fee_timing, p.termination]).to.deep.equal([1n, 1n, 1n]);
+    expect(p.fee_token).to.equal(await feeToken!.getAddress());
+  });
+
+  it("ERC-721 exclusif: un exemplaire par id, pas d'offre non exclusive", async () => {
+    const [owner] = await ethers.getSigners();
+    const { leasing } = await deployLeasing({ ...DEFAULT_POLICY, tokenModel: TokenModel.Exclusive721 });
+
+    await expect(leasing.mint_ip(owner.address, TOKEN_ID, 2n)).to.be.revertedWith("Insufficient amount");
+    await leasing.mint_ip(owner.address, TOKEN_ID, 1n);
+    await expect(leasing.mint_ip(owner.address, TOKEN_ID, 1n)).to.be.revertedWith("Token already minted");
+    await expect(leasing.create_open_lease_offer(TOKEN_ID, LEASE_FEE, DURATION, 2, TERMS)).to.be.revertedWith(
+      "Exclusive leases only"
+    );
+    await expect(leasing.create_lease_offer(TOKEN_ID, 2n, LEASE_FEE, DURATION, TERMS)).to.be.revertedWith(
+      "Not token owner"
+    );
+  });
+
+  it("fee-on-start: le locataire paie le bailleur au démarrage (exclusif et non exclusif)", async () => {
+    const [owner, lessee, other] = await ethers.getSigners();
+    const { leasing, feeToken } = await deployLeasing(DEFAULT_POLICY, { feeToken: true });
+    await leasing.mint_ip(owner.address, TOKEN_ID, 100n);
+    await leasing.mint_ip(owner.address, 2n, 1n);
+    const before = await feeToken!.balanceOf(owner.address);
+
+    await leasing.create_lease_offer(TOKEN_ID, 100n, LEASE_FEE, DURATION, TERMS);
+    await leasing.create_open_lease_offer(2n, 3n, DURATION, 5, TERMS);
+    expect(await feeToken!.balanceOf(owner.address)).to.equal(before);
+
+    await expect(leasing.connect(lessee).start_lease(TOKEN_ID)).to.changeTokenBalances(
+      feeToken!,
+      [lessee, owner],
+      [-LEASE_FEE, LEASE_FEE]
+    );
+    await expect(leasing.connect(other).start_open_lease(1n)).to.changeTokenBalances(
+      feeToken!,
+      [other, owner],
+      [-3n, 3n]
+    );
+  });
+
+  it("fee-on-offer: le bailleur paie la plateforme en publiant, démarrage gratuit", async () => {
+    const [platform, lessor, lessee] = await ethers.getSigners();
+    const { leasing, feeToken } = await deployLeasing({ ...DEFAULT_POLICY, feeTiming: FeeTiming.OnOffer }, { feeToken: true });
+    await leasing.mint_ip(lessor.address, TOKEN_ID, 100n);
+
+    await expect(
+      leasing.connect(lessor).create_lease_offer(TOKEN_ID, 100n, LEASE_FEE, DURATION, TERMS)
+    ).to.changeTokenBalances(feeToken!, [lessor, platform], [-LEASE_FEE, LEASE_FEE]);
+    await expect(leasing.connect(lessee).start_lease(TOKEN_ID)).to.changeTokenBalance(feeToken!, lessee, 0n);
+  });
+
+  it("sans fee_token, lease_fee reste indicatif", async () => {
+    const [owner, lessee] = await ethers.getSigners();
+    const { leasing } = await deployLeasing();
+    await leasing.mint_ip(owner.address, TOKEN_ID, 100n);
+    await leasing.create_lease_offer(TOKEN_ID, 100n, LEASE_FEE, DURATION, TERMS);
+    await leasing.connect(lessee).start_lease(TOKEN_ID);
+    expect((await leasing.get_lease(TOKEN_ID)).is_active).to.equal(true);
+  });
+
+  it("locked: pas de résiliation par le bailleur, sauf défaut de loyer", async () => {
+    const [owner, lessee, keeper] = await ethers.getSigners();
+    const { leasing, feeToken } = await deployLeasing(
+      { ...DEFAULT_POLICY, termination: Termination.Locked },
+      { feeToken: true }
+    );
+    const rentToken = await feeToken!.getAddress();
+    await leasing.mint_ip(owner.address, TOKEN_ID, 100n);
+    await leasing.mint_ip(owner.address, 2n, 100n);
+
+    await leasing.create_open_lease_offer(2n, LEASE_FEE, DURATION, 1, TERMS);
+    await leasing.connect(lessee).start_open_lease(1n);
+    await expect(leasing.terminate_open_lease(FLAG | 1n, "breach")).to.be.revertedWith("Lease is locked");
+
+    const interval = 3_600n;
+    await leasing.create_lease_offer(TOKEN_ID, 100n, LEASE_FEE, DURATION, TERMS);
+    await leasing.set_lease_offer_rent(TOKEN_ID, {
+      token: rentToken,
+      amount: 5n,
+      interval,
+      grace_period: 0n,
+      late_fee: 0n,
+    });
+    await leasing.connect(lessee).start_lease(TOKEN_ID);
+    await expect(leasing.terminate_lease(TOKEN_ID, "breach")).to.be.revertedWith("Lease is locked");
+
+    const { start_time } = await leasing.get_lease_info(FLAG | 2n);
+    await time.increaseTo(start_time + interval + 1n);
+    await expect(leasing.connect(keeper).terminate_lease(TOKEN_ID, "keeper"))
+      .to.emit(leasing, "LeaseTerminated")
+      .withArgs(TOKEN_ID, lessee.address, "Rent in arrears");
+  });
+});
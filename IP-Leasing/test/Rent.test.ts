@@ -0,0 +1,135 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployLeasing } from "./utils";
+
+const TOKEN_ID = 1n;
+const AMOUNT = 100n;
+const LEASE_FEE = 10n;
+const DAY = 86_400n;
+const DURATION = 30n * DAY; // 3 périodes de loyer
+const TERMS = "ipfs://QmLicenseTerms";
+const FLAG = 1n << 255n;
+const RENT = 1_000n;
+const LATE_FEE = 50n;
+
+async function rentedLease() {
+  const [owner, lessee, payer, keeper] = await ethers.getSigners();
+  const { leasing } = await deployLeasing();
+  const token = await (await ethers.getContractFactory("MockERC20")).deploy("Rent", "RNT");
+  const rent = {
+    token: await token.getAddress(),
+    amount: RENT,
+    interval: 10n * DAY,
+    grace_period: 2n * DAY,
+    late_fee: LATE_FEE,
+  };
+  for (const s of [lessee, payer]) {
+    await token.mint(s.address, 100_000n);
+    await token.connect(s).approve(await leasing.getAddress(), ethers.MaxUint256);
+  }
+
+  await leasing.mint_ip(owner.address, TOKEN_ID, AMOUNT);
+  await leasing.create_lease_offer(TOKEN_ID, AMOUNT, LEASE_FEE, DURATION, TERMS);
+  await leasing.set_lease_offer_rent(TOKEN_ID, rent);
+  await leasing.connect(lessee).start_lease(TOKEN_ID);
+
+  const leaseId = FLAG | 1n;
+  const { start_time } = await leasing.get_lease_info(leaseId);
+  return { leasing, token, rent, owner, lessee, payer, keeper, leaseId, start: start_time };
+}
+
+describe("IPLeasing: loyer périodique, pénalités et arriérés", () => {
+  it("set_lease_offer_rent: réservé à l'owner de l'offre, termes validés", async () => {
+    const [owner, other] = await ethers.getSigners();
+    const { leasing } = await deployLeasing();
+    const rent = { token: other.address, amount: RENT, interval: DAY, grace_period: 0n, late_fee: 0n };
+
+    await expect(leasing.set_lease_offer_rent(TOKEN_ID, rent)).to.be.revertedWith("No active offer");
+    await leasing.mint_ip(owner.address, TOKEN_ID, AMOUNT);
+    await leasing.create_lease_offer(TOKEN_ID, AMOUNT, LEASE_FEE, DURATION, TERMS);
+
+    await expect(leasing.connect(other).set_lease_offer_rent(TOKEN_ID, rent)).to.be.revertedWith("Not token owner");
+    await expect(leasing.set_lease_offer_rent(TOKEN_ID, { ...rent, amount: 0n })).to.be.revertedWith("Invalid rent");
+    await expect(leasing.set_lease_offer_rent(TOKEN_ID, { ...rent, interval: 0n })).to.be.revertedWith(
+      "Invalid duration"
+    );
+    await expect(leasing.set_lease_offer_rent(TOKEN_ID, rent))
+      .to.emit(leasing, "LeaseOfferRentSet")
+      .withArgs(TOKEN_ID, other.address, RENT, DAY, 0n, 0n);
+  });
+
+  it("première période prélevée au démarrage, paiements suivants bornés par end_time", async () => {
+    const { leasing, token, rent, owner, lessee, leaseId, start } = await rentedLease();
+
+    expect(await token.balanceOf(owner.address)).to.equal(RENT);
+    expect((await leasing.get_rent_terms(leaseId)).amount).to.equal(RENT);
+    let status = await leasing.get_rent_status(leaseId);
+    expect(status.paid_until).to.equal(start + rent.interval);
+    expect(status.periods_due).to.equal(0n);
+
+    await time.increaseTo(start + rent.interval + 1n);
+    status = await leasing.get_rent_status(leaseId);
+    expect(status.periods_due).to.equal(1n);
+    expect(status.late_periods).to.equal(0n);
+    expect(status.amount_due).to.equal(RENT);
+    expect(status.in_default).to.equal(false);
+
+    // la troisième période commence à start + 20j; une quatrième dépasserait end_time
+    await expect(leasing.connect(lessee).pay_rent(leaseId, 3n)).to.be.revertedWith("Rent beyond lease term");
+    await expect(leasing.connect(lessee).pay_rent(leaseId, 2n))
+      .to.emit(leasing, "RentPaid")
+      .withArgs(leaseId, lessee.address, 2n, 0n, start + DURATION);
+    expect(await token.balanceOf(owner.address)).to.equal(3n * RENT);
+    await expect(leasing.connect(lessee).pay_rent(leaseId, 1n)).to.be.revertedWith("Rent beyond lease term");
+
+    // lease sans loyer
+    await expect(leasing.pay_rent(FLAG | 2n, 1n)).to.be.revertedWith("Lease has no rent");
+  });
+
+  it("arriérés: late_fee par période payée en retard, paiement par un tiers", async () => {
+    const { leasing, token, rent, owner, lessee, payer, leaseId, start } = await rentedLease();
+
+    // périodes 1 et 2 dues, toutes deux au-delà de la grâce
+    await time.increaseTo(start + 2n * rent.interval + rent.grace_period + 1n);
+    let status = await leasing.get_rent_status(leaseId);
+    expect(status.periods_due).to.equal(2n);
+    expect(status.late_periods).to.equal(2n);
+    expect(status.amount_due).to.equal(2n * (RENT + LATE_FEE));
+    expect(status.in_default).to.equal(true);
+    await expect(leasing.connect(lessee).renew_lease(TOKEN_ID, 60)).to.be.revertedWith("Rent in arrears");
+
+    await expect(leasing.connect(lessee).pay_rent(leaseId, 1n))
+      .to.emit(leasing, "RentPaid")
+      .withArgs(leaseId, lessee.address, 1n, LATE_FEE, start + 2n * rent.interval);
+    status = await leasing.get_rent_status(leaseId);
+    expect(status.late_periods).to.equal(1n);
+
+    await leasing.connect(payer).pay_rent(leaseId, 1n);
+    status = await leasing.get_rent_status(leaseId);
+    expect(status.periods_due).to.equal(0n);
+    expect(status.in_default).to.equal(false);
+    expect(await token.balanceOf(owner.address)).to.equal(3n * RENT + 2n * LATE_FEE);
+    await leasing.connect(lessee).renew_lease(TOKEN_ID, 60);
+  });
+
+  it("défaut de paiement: résiliation par n'importe qui via terminate_lease", async () => {
+    const { leasing, rent, owner, lessee, keeper, leaseId, start } = await rentedLease();
+
+    // période due mais encore dans la grâce
+    await time.increaseTo(start + rent.interval + DAY);
+    await expect(leasing.connect(keeper).terminate_lease(TOKEN_ID, "keeper")).to.be.revertedWith("Not token owner");
+
+    await time.increaseTo(start + rent.interval + rent.grace_period + 1n);
+    await expect(leasing.connect(keeper).terminate_lease(TOKEN_ID, "keeper"))
+      .to.emit(leasing, "RentDefaulted")
+      .withArgs(leaseId, lessee.address, RENT + LATE_FEE)
+      .and.to.emit(leasing, "LeaseTerminated")
+      .withArgs(TOKEN_ID, lessee.address, "Rent in arrears");
+
+    expect(await leasing.balanceOf(owner.address, TOKEN_ID)).to.equal(AMOUNT);
+    expect(await leasing.balanceOf(lessee.address, leaseId)).to.equal(0n);
+    expect((await leasing.get_rent_status(leaseId)).in_default).to.equal(false);
+    await expect(leasing.connect(lessee).pay_rent(leaseId, 1n)).to.be.revertedWith("No active lease");
+  });
+});
@@ -0,0 +1,72 @@
+import { ethers } from "hardhat";
+import type { IPLeasing, MockERC20 } from "../typechain-types";
+
+export const BASE_URI = "ipfs://QmBaseUri";
+
+// Valeurs des enums de IIPLeasing
+export const TokenModel = { Amount1155: 0, Exclusive721: 1 } as const;
+export const FeeTiming = { OnStart: 0, OnOffer: 1 } as const;
+export const Termination = { OwnerTerminable: 0, Locked: 1 } as const;
+
+export type Policy = {
+  tokenModel: number;
+  feeTiming: number;
+  termination: number;
+};
+
+// Politique historique (IP-Leasing et IP-Leasing-AF avant unification)
+export const DEFAULT_POLICY: Policy = {
+  tokenModel: TokenModel.Amount1155,
+  feeTiming: FeeTiming.OnStart,
+  termination: Termination.OwnerTerminable,
+};
+
+// Toutes les combinaisons, pour exécuter les suites en matrice
+export const POLICIES: Policy[] = Object.values(TokenModel).flatMap((tokenModel) =>
+  Object.values(FeeTiming).flatMap((feeTiming) =>
+    Object.values(Termination).map((termination) => ({ tokenModel, feeTiming, termination }))
+  )
+);
+
+export function policyName({ tokenModel, feeTiming, termination }: Policy): string {
+  return [
+    tokenModel === TokenModel.Amount1155 ? "erc1155" : "erc721",
+    feeTiming === FeeTiming.OnStart ? "fee-on-start" : "fee-on-offer",
+    termination === Termination.OwnerTerminable ? "terminable" : "locked",
+  ].join("/");
+}
+
+// Quantité de tokens IP mintée et louée: un exemplaire unique en EXCLUSIVE_721
+export function ipAmount(policy: Policy, amount: bigint = 100n): bigint {
+  return policy.tokenModel === TokenModel.Exclusive721 ? 1n : amount;
+}
+
+// Déploie IPLeasing avec `policy`; sans feeToken, lease_fee n'est pas prélevé.
+// Avec feeToken, chaque signer reçoit des jetons de frais déjà approuvés pour le contrat.
+export async function deployLeasing(policy: Policy = DEFAULT_POLICY, { feeToken = false } = {}) {
+  const signers = await ethers.getSigners();
+  const [owner] = signers;
+
+  let fee_token = ethers.ZeroAddress;
+  let token: MockERC20 | undefined;
+  if (feeToken) {
+    token = (await (await ethers.getContractFactory("MockERC20")).deploy("Fee", "FEE")) as unknown as MockERC20;
+    fee_token = await token.getAddress();
+  }
+
+  const leasing = (await (await ethers.getContractFactory("IPLeasing", owner)).deploy(owner.address, BASE_URI, {
+    token_model: policy.tokenModel,
+    fee_timing: policy.feeTiming,
+    termination: policy.termination,
+    fee_token,
+  })) as unknown as IPLeasing;
+  await leasing.waitForDeployment();
+
+  if (token) {
+    for (const s of signers.slice(0, 5)) {
+      await token.mint(s.address, 1_000_000n);
+      await token.connect(s).approve(await leasing.getAddress(), ethers.MaxUint256);
+    }
+  }
+  return { leasing, feeToken: token };
+}
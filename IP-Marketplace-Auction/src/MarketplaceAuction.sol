@@ -9,6 +9,8 @@ import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
 import {IERC721} from "@openzeppelin/contracts/token/ERC721/IERC721.sol";
 import {IERC20}  from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {IERC2981} from "@openzeppelin/contracts/interfaces/IERC2981.sol";
+import {ERC165Checker} from "@openzeppelin/contracts/utils/introspection/ERC165Checker.sol";
 
 /* ------------------------------------------------------------ */
 /*                           MyToken (ERC20)                    */
@@ -40,7 +42,7 @@ contract MyNFT is ERC721, Ownable {
     function mint(address recipient) external onlyOwner returns (uint256) {
         _tokenCount += 1;
         uint256 tokenId = _tokenCount;
-        require(!_exists(tokenId), "NFT with id already exists");
+        require(_ownerOf(tokenId) == address(0), "NFT with id already exists");
         _safeMint(recipient, tokenId);
         return tokenId;
     }
@@ -73,6 +75,11 @@ library Errors {
     string constant BID_REFUNDED                   = "Bid refunded";
     string constant AMOUNT_EXCEEDS_BALANCE         = "Amount exceeds balance";
     string constant CALLER_ALREADY_WON_AUCTION     = "Caller already won auction";
+    string constant BPS_OUT_OF_BOUNDS              = "Bps out of bounds";
+    string constant WRONG_AUCTION_KIND             = "Wrong auction kind";
+    string constant MIN_INCREMENT_IS_ZERO          = "Min increment is zero";
+    string constant BID_TOO_LOW                    = "Bid below minimum";
+    string constant END_PRICE_TOO_HIGH             = "End price above start price";
 }
 
 /* ------------------------------------------------------------ */
@@ -85,9 +92,13 @@ function computeBidHash(uint256 amount, bytes32 salt) pure returns (bytes32) {
 
 /* ------------------------------------------------------------ */
 /*                            Marketplace                       */
-/*  - Enchères commit/reveal pour ERC721 payées en ERC20        */
+/*  - Enchères ERC721 payées en ERC20, trois modes:             */
+/*    Sealed (commit/reveal), English (ouverte, ascendante),    */
+/*    Dutch (prix décroissant linéairement)                     */
 /* ------------------------------------------------------------ */
 interface IMarketPlace {
+    enum AuctionKind { Sealed, English, Dutch }
+
     struct Auction {
         address owner;           // vendeur
         address token_address;   // ERC721
@@ -99,6 +110,10 @@ interface IMarketPlace {
         bool    is_open;
         bool    is_finalized;
         address currency_address; // ERC20
+        AuctionKind kind;
+        uint64  start_time;
+        uint256 end_price;        // Dutch: prix atteint à end_time
+        uint256 min_increment;    // English: surenchère minimale
     }
 
     function create_auction(
@@ -108,6 +123,22 @@ interface IMarketPlace {
         address currency_address
     ) external returns (uint64);
 
+    function create_english_auction(
+        address token_address,
+        uint256 token_id,
+        uint256 start_price,
+        uint256 min_increment,
+        address currency_address
+    ) external returns (uint64);
+
+    function create_dutch_auction(
+        address token_address,
+        uint256 token_id,
+        uint256 start_price,
+        uint256 end_price,
+        address currency_address
+    ) external returns (uint64);
+
     function get_auction(uint64 auction_id) external view returns (Auction memory);
 
     function commit_bid(uint64 auction_id, uint256 amount, bytes32 salt) external;
@@ -119,9 +150,15 @@ interface IMarketPlace {
     function finalize_auction(uint64 auction_id) external;
 
     function withdraw_unrevealed_bid(uint64 auction_id, uint256 amount, bytes32 salt) external;
+
+    function place_bid(uint64 auction_id, uint256 amount) external;
+
+    function buy_now(uint64 auction_id) external;
+
+    function get_current_price(uint64 auction_id) external view returns (uint256);
 }
 
-contract MarketPlace is IMarketPlace {
+contract MarketPlace is IMarketPlace, Ownable {
     /* ------------------------------- storage ------------------------------ */
     mapping(uint64 => Auction) private _auctions;                                   // auction_id => Auction
     uint64 private _auctionCount;
@@ -138,14 +175,24 @@ contract MarketPlace is IMarketPlace {
     uint64 public immutable auction_duration_days;
     uint64 public immutable reveal_duration_days;
 
+    uint256 public max_royalty_bps = 1_000;                                         // plafond ERC-2981 (10%)
+
+    // English: une enchère placée dans les `anti_sniping_window` dernières secondes
+    // repousse end_time à maintenant + `anti_sniping_extension`.
+    uint64 public anti_sniping_window = 10 minutes;
+    uint64 public anti_sniping_extension = 10 minutes;
+
     /* -------------------------------- events ------------------------------ */
     event AuctionCreated(address indexed owner, address indexed token_address, uint256 indexed token_id, uint256 start_price, address currency_address);
     event BidCommitted(address indexed bidder, uint64 indexed auction_id);
     event BidRevealed(address indexed bidder, uint64 indexed auction_id, uint256 amount);
     event AuctionFinalized(uint64 indexed auction_id, address indexed highest_bidder);
+    event RoyaltyPaid(uint64 indexed auction_id, address indexed receiver, uint256 amount);
+    event AuctionConfigured(uint64 indexed auction_id, AuctionKind kind, uint256 end_price, uint256 min_increment);
+    event BidPlaced(address indexed bidder, uint64 indexed auction_id, uint256 amount, uint64 end_time);
 
     /* ------------------------------ constructor --------------------------- */
-    constructor(uint64 auction_durationDays, uint64 reveal_durationDays) {
+    constructor(uint64 auction_durationDays, uint64 reveal_durationDays) Ownable(msg.sender) {
         auction_duration_days = auction_durationDays;
         reveal_duration_days  = reveal_durationDays;
     }
@@ -157,32 +204,29 @@ contract MarketPlace is IMarketPlace {
         uint256 start_price,
         address currency_address
     ) external override returns (uint64) {
-        require(start_price != 0, Errors.START_PRIZE_IS_ZERO);
-        require(IERC721(token_address).ownerOf(token_id) == msg.sender, Errors.CALLER_NOT_OWNER);
-        require(currency_address != address(0), Errors.CURRENCY_ADDRESS_ZERO);
-
-        uint64 auction_id = ++_auctionCount;
-
-        uint64 endTime = uint64(block.timestamp) + auction_duration_days * DAY_IN_SECONDS;
-
-        _auctions[auction_id] = Auction({
-            owner: msg.sender,
-            token_address: token_address,
-            token_id: token_id,
-            start_price: start_price,
-            highest_bid: 0,
-            highest_bidder: address(0),
-            end_time: endTime,
-            is_open: true,
-            is_finalized: false,
-            currency_address: currency_address
-        });
+        return _create_auction(AuctionKind.Sealed, token_address, token_id, start_price, 0, 0, currency_address);
+    }
 
-        // Le vendeur doit approuver le marketplace avant.
-        IERC721(token_address).transferFrom(msg.sender, address(this), token_id);
+    function create_english_auction(
+        address token_address,
+        uint256 token_id,
+        uint256 start_price,
+        uint256 min_increment,
+        address currency_address
+    ) external override returns (uint64) {
+        require(min_increment != 0, Errors.MIN_INCREMENT_IS_ZERO);
+        return _create_auction(AuctionKind.English, token_address, token_id, start_price, 0, min_increment, currency_address);
+    }
 
-        emit AuctionCreated(msg.sender, token_address, token_id, start_price, currency_address);
-        return auction_id;
+    function create_dutch_auction(
+        address token_address,
+        uint256 token_id,
+        uint256 start_price,
+        uint256 end_price,
+        address currency_address
+    ) external override returns (uint64) {
+        require(end_price <= start_price, Errors.END_PRICE_TOO_HIGH);
+        return _create_auction(AuctionKind.Dutch, token_address, token_id, start_price, end_price, 0, currency_address);
     }
 
     function get_auction(uint64 auction_id) external view override returns (Auction memory) {
@@ -194,6 +238,7 @@ contract MarketPlace is IMarketPlace {
         Auction memory a = _auctions[auction_id];
 
         require(a.owner != address(0), Errors.INVALID_AUCTION);
+        require(a.kind == AuctionKind.Sealed, Errors.WRONG_AUCTION_KIND);
         require(a.owner != msg.sender, Errors.BIDDER_IS_OWNER);
         require(a.is_open, Errors.AUCTION_CLOSED);
         require(amount >= a.start_price, Errors.AMOUNT_LESS_THAN_START_PRICE);
@@ -220,6 +265,7 @@ contract MarketPlace is IMarketPlace {
         Auction memory a = _auctions[auction_id];
 
         // La phase reveal commence après la fin (is_open == false)
+        require(a.kind == AuctionKind.Sealed, Errors.WRONG_AUCTION_KIND);
         require(!a.is_open, Errors.AUCTION_STILL_OPEN);
 
         bytes32 committed = _committedHash[auction_id][msg.sender];
@@ -235,26 +281,43 @@ contract MarketPlace is IMarketPlace {
         emit BidRevealed(msg.sender, auction_id, amount);
     }
 
+    // Règlement commun aux trois modes: NFT au gagnant (ou retour au vendeur sans enchère),
+    // vendeur payé depuis l'escrow du gagnant, moins la royalty ERC-2981.
     function finalize_auction(uint64 auction_id) external override {
         _check_auction_status(auction_id);
         Auction storage a = _auctions[auction_id];
 
         require(!a.is_open, Errors.AUCTION_STILL_OPEN);
-        require(_is_reveal_duration_over(auction_id), Errors.REVEAL_TIME_NOT_OVER);
         require(!a.is_finalized, Errors.AUCTION_IS_FINALIZED);
 
-        (uint256 highestBid, address highestBidder) = _get_highest_bidder(auction_id);
-
-        // rembourser tous les perdants
-        _refund_committed_funds(auction_id, highestBidder, a.currency_address);
+        uint256 highestBid = a.highest_bid;
+        address highestBidder = a.highest_bidder;
+        if (a.kind == AuctionKind.Sealed) {
+            require(_is_reveal_duration_over(auction_id), Errors.REVEAL_TIME_NOT_OVER);
+            (highestBid, highestBidder) = _get_highest_bidder(auction_id);
+
+            // rembourser tous les perdants
+            _refund_committed_funds(auction_id, highestBidder, a.currency_address);
+        } else if (highestBidder == address(0)) {
+            // aucune enchère (English) / aucun acheteur (Dutch): le NFT retourne au vendeur
+            a.is_finalized = true;
+            IERC721(a.token_address).transferFrom(address(this), a.owner, a.token_id);
+            emit AuctionFinalized(auction_id, address(0));
+            return;
+        }
 
         // transférer le NFT au gagnant
         IERC721(a.token_address).transferFrom(address(this), highestBidder, a.token_id);
 
-        // payer le vendeur avec l'escrow du gagnant
+        // payer le vendeur (moins la royalty ERC-2981) avec l'escrow du gagnant
         require(_balances[highestBidder] >= highestBid, "escrow < highest");
         _balances[highestBidder] -= highestBid;
-        require(IERC20(a.currency_address).transfer(a.owner, highestBid), "pay seller failed");
+        (address royaltyReceiver, uint256 royalty) = _royalty(a.token_address, a.token_id, highestBid);
+        if (royalty > 0) {
+            require(IERC20(a.currency_address).transfer(royaltyReceiver, royalty), "pay royalty failed");
+            emit RoyaltyPaid(auction_id, royaltyReceiver, royalty);
+        }
+        require(IERC20(a.currency_address).transfer(a.owner, highestBid - royalty), "pay seller failed");
 
         // maj état
         a.highest_bid    = highestBid;
@@ -281,7 +344,141 @@ contract MarketPlace is IMarketPlace {
         require(IERC20(a.currency_address).transfer(msg.sender, amount), "refund failed");
     }
 
+    /* ------------------------------- English ------------------------------ */
+    // Enchère ouverte: le montant part en escrow, l'enchérisseur précédent est remboursé.
+    function place_bid(uint64 auction_id, uint256 amount) external override {
+        _check_auction_status(auction_id);
+        Auction storage a = _auctions[auction_id];
+
+        require(a.owner != address(0), Errors.INVALID_AUCTION);
+        require(a.kind == AuctionKind.English, Errors.WRONG_AUCTION_KIND);
+        require(a.owner != msg.sender, Errors.BIDDER_IS_OWNER);
+        require(a.is_open, Errors.AUCTION_CLOSED);
+        if (a.highest_bidder == address(0)) {
+            require(amount >= a.start_price, Errors.AMOUNT_LESS_THAN_START_PRICE);
+        } else {
+            require(amount >= a.highest_bid + a.min_increment, Errors.BID_TOO_LOW);
+        }
+
+        require(IERC20(a.currency_address).transferFrom(msg.sender, address(this), amount), "transferFrom failed");
+        _balances[msg.sender] += amount;
+
+        address outbid = a.highest_bidder;
+        uint256 outbidAmount = a.highest_bid;
+        a.highest_bid = amount;
+        a.highest_bidder = msg.sender;
+        _bidsCount[auction_id] += 1;
+
+        // anti-sniping
+        if (a.end_time - uint64(block.timestamp) < anti_sniping_window) {
+            a.end_time = uint64(block.timestamp) + anti_sniping_extension;
+        }
+
+        if (outbid != address(0)) {
+            _balances[outbid] -= outbidAmount;
+            require(IERC20(a.currency_address).transfer(outbid, outbidAmount), "refund failed");
+        }
+
+        emit BidPlaced(msg.sender, auction_id, amount, a.end_time);
+    }
+
+    function set_anti_sniping(uint64 window, uint64 extension) external onlyOwner {
+        anti_sniping_window = window;
+        anti_sniping_extension = extension;
+    }
+
+    /* -------------------------------- Dutch ------------------------------- */
+    // Achat au prix courant; le règlement passe ensuite par finalize_auction.
+    function buy_now(uint64 auction_id) external override {
+        _check_auction_status(auction_id);
+        Auction storage a = _auctions[auction_id];
+
+        require(a.owner != address(0), Errors.INVALID_AUCTION);
+        require(a.kind == AuctionKind.Dutch, Errors.WRONG_AUCTION_KIND);
+        require(a.owner != msg.sender, Errors.BIDDER_IS_OWNER);
+        require(a.is_open, Errors.AUCTION_CLOSED);
+
+        uint256 price = get_current_price(auction_id);
+        require(IERC20(a.currency_address).transferFrom(msg.sender, address(this), price), "transferFrom failed");
+        _balances[msg.sender] += price;
+
+        a.highest_bid = price;
+        a.highest_bidder = msg.sender;
+        a.is_open = false;
+        _bidsCount[auction_id] += 1;
+
+        emit BidPlaced(msg.sender, auction_id, price, a.end_time);
+    }
+
+    // start_price à start_time, décroissance linéaire jusqu'à end_price à end_time.
+    function get_current_price(uint64 auction_id) public view override returns (uint256) {
+        Auction memory a = _auctions[auction_id];
+        require(a.kind == AuctionKind.Dutch, Errors.WRONG_AUCTION_KIND);
+        if (block.timestamp >= a.end_time) return a.end_price;
+
+        uint256 elapsed = block.timestamp - a.start_time;
+        uint256 duration = a.end_time - a.start_time;
+        return a.start_price - ((a.start_price - a.end_price) * elapsed) / duration;
+    }
+
+    function set_max_royalty_bps(uint256 bps) external onlyOwner {
+        require(bps <= 10_000, Errors.BPS_OUT_OF_BOUNDS);
+        max_royalty_bps = bps;
+    }
+
     /* ------------------------------ internes ------------------------------ */
+    function _create_auction(
+        AuctionKind kind,
+        address token_address,
+        uint256 token_id,
+        uint256 start_price,
+        uint256 end_price,
+        uint256 min_increment,
+        address currency_address
+    ) private returns (uint64) {
+        require(start_price != 0, Errors.START_PRIZE_IS_ZERO);
+        require(IERC721(token_address).ownerOf(token_id) == msg.sender, Errors.CALLER_NOT_OWNER);
+        require(currency_address != address(0), Errors.CURRENCY_ADDRESS_ZERO);
+
+        uint64 auction_id = ++_auctionCount;
+
+        uint64 endTime = uint64(block.timestamp) + auction_duration_days * DAY_IN_SECONDS;
+
+        _auctions[auction_id] = Auction({
+            owner: msg.sender,
+            token_address: token_address,
+            token_id: token_id,
+            start_price: start_price,
+            highest_bid: 0,
+            highest_bidder: address(0),
+            end_time: endTime,
+            is_open: true,
+            is_finalized: false,
+            currency_address: currency_address,
+            kind: kind,
+            start_time: uint64(block.timestamp),
+            end_price: end_price,
+            min_increment: min_increment
+        });
+
+        // Le vendeur doit approuver le marketplace avant.
+        IERC721(token_address).transferFrom(msg.sender, address(this), token_id);
+
+        emit AuctionCreated(msg.sender, token_address, token_id, start_price, currency_address);
+        if (kind != AuctionKind.Sealed) emit AuctionConfigured(auction_id, kind, end_price, min_increment);
+        return auction_id;
+    }
+
+    // royaltyInfo() du contrat NFT s'il implémente ERC-2981, plafonnée à max_royalty_bps
+    function _royalty(address token, uint256 tokenId, uint256 price) private view returns (address receiver, uint256 amount) {
+        if (!ERC165Checker.supportsInterface(token, type(IERC2981).interfaceId)) return (address(0), 0);
+        (receiver, amount) = IERC2981(token).royaltyInfo(tokenId, price);
+        if (receiver == address(0)) return (address(0), 0);
+
+        uint256 cap = (price * max_royalty_bps) / 10_000;
+        if (amount > cap) amount = cap;
+    }
+
     function _is_owner(address token, uint256 tokenId, address who) private view returns (bool) {
         return IERC721(token).ownerOf(tokenId) == who;
     }
@@ -0,0 +1,34 @@
+import { task, types } from "hardhat/config";
+import { CommitmentStore, DEFAULT_STORE_FILE, listUnrevealed } from "../utils/bidder";
+
+// npx hardhat auction:unrevealed --market 0x… [--bidder 0x…] [--store .auction-bids.json] --network …
+task("auction:unrevealed", "Liste les commitments non révélés d'un bidder sur toutes les enchères")
+  .addParam("market", "Adresse du MarketPlace")
+  .addOptionalParam("bidder", "Adresse du bidder (défaut: premier signer)", undefined, types.string)
+  .addOptionalParam("store", "Fichier local des commitments", DEFAULT_STORE_FILE, types.string)
+  .addOptionalParam("fromBlock", "Bloc de départ pour le scan d'events", 0, types.int)
+  .setAction(async ({ market, bidder, store, fromBlock }, hre) => {
+    const contract = await hre.ethers.getContractAt("MarketPlace", market);
+    const who: string = bidder ?? (await (await hre.ethers.getSigners())[0].getAddress());
+    const { chainId } = await hre.ethers.provider.getNetwork();
+
+    const rows = await listUnrevealed(contract as any, who, fromBlock);
+    const local = new CommitmentStore(store);
+
+    const report = [];
+    for (const row of rows) {
+      const saved = await local.find(chainId, market, row.auctionId, who);
+      report.push({
+        auction: row.auctionId.toString(),
+        state: row.state,
+        revealOpensAt: new Date(Number(row.revealOpensAt) * 1000).toISOString(),
+        revealClosesAt: new Date(Number(row.revealClosesAt) * 1000).toISOString(),
+        amount: saved?.amount ?? "?",
+        salt: saved !== undefined ? "local" : "re-derive",
+      });
+    }
+
+    if (report.length === 0) console.log(`Aucun commitment non révélé pour ${who}`);
+    else console.table(report);
+    return rows;
+  });
@@ -0,0 +1,147 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import {
+  deployAll,
+  approveNFTToMarket,
+  STARTING_PRICE,
+  BID_ALICE,
+  BID_BOB,
+  fastForwardDays,
+  AUCTION_DURATION_DAYS,
+  REVEAL_DURATION_DAYS
+} from "./utils";
+import {
+  CommitmentStore,
+  SealedBidder,
+  computeBidHash,
+  deriveSalt,
+  listUnrevealed
+} from "../utils/bidder";
+
+describe("SealedBidder (client commit–reveal)", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "bids-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function withAuction() {
+    const d = await deployAll();
+    await approveNFTToMarket(d.erc721, d.market, d.owner, d.tokenId);
+    await d.market.connect(d.owner).create_auction(
+      await d.erc721.getAddress(),
+      d.tokenId,
+      STARTING_PRICE,
+      await d.erc20.getAddress()
+    );
+    return d;
+  }
+
+  it("deriveSalt: déterministe par (wallet, market, auction)", async () => {
+    const d = await withAuction();
+    const market = await d.market.getAddress();
+
+    const s1 = await deriveSalt(d.alice, market, 1n);
+    expect(await deriveSalt(d.alice, market, 1n)).to.equal(s1);
+    expect(await deriveSalt(d.alice, market, 2n)).to.not.equal(s1);
+    expect(await deriveSalt(d.bob, market, 1n)).to.not.equal(s1);
+    expect(computeBidHash(BID_ALICE, s1)).to.not.equal(computeBidHash(BID_BOB, s1));
+  });
+
+  it("commit → stockage local → reveal → finalize", async () => {
+    const d = await withAuction();
+    const store = new CommitmentStore(path.join(dir, "bids.json"));
+    const alice = new SealedBidder(d.alice, d.market, store);
+    const bob = new SealedBidder(d.bob, d.market, store);
+
+    const c = await alice.commit(1n, BID_ALICE);
+    await bob.commit(1n, BID_BOB);
+    expect(c.salt).to.equal(await deriveSalt(d.alice, await d.market.getAddress(), 1n));
+    expect((await store.all()).length).to.equal(2);
+
+    await fastForwardDays(AUCTION_DURATION_DAYS);
+    await alice.reveal(1n);
+    await bob.reveal(1n);
+
+    const saved = await store.find(31337n, await d.market.getAddress(), 1n, d.aliceAddr);
+    expect(saved?.status).to.equal("revealed");
+
+    await fastForwardDays(REVEAL_DURATION_DAYS);
+    await d.market.finalize_auction(1n);
+    expect((await d.market.get_auction(1n)).highest_bidder).to.equal(d.aliceAddr);
+  });
+
+  it("scheduleReveal: attend la fin des enchères puis révèle", async () => {
+    const d = await withAuction();
+    const alice = new SealedBidder(d.alice, d.market, new CommitmentStore(path.join(dir, "bids.json")));
+    await alice.commit(1n, BID_ALICE);
+
+    const scheduled = alice.scheduleReveal(1n, { pollMs: 20 });
+    await fastForwardDays(AUCTION_DURATION_DAYS);
+
+    const revealTx = await scheduled.done;
+    const events = await d.market.queryFilter(d.market.filters.BidRevealed(d.aliceAddr, 1n));
+    expect(events.map((e) => e.transactionHash)).to.deep.equal([revealTx]);
+    expect((await alice.store.all())[0].status).to.equal("revealed");
+  });
+
+  it("scheduleReveal: rejette si la fenêtre de reveal est close", async () => {
+    const d = await withAuction();
+    const alice = new SealedBidder(d.alice, d.market, new CommitmentStore(path.join(dir, "bids.json")));
+    await alice.commit(1n, BID_ALICE);
+
+    await fastForwardDays(AUCTION_DURATION_DAYS + REVEAL_DURATION_DAYS);
+    let error: Error | undefined;
+    await alice.scheduleReveal(1n, { pollMs: 20 }).done.catch((e) => (error = e));
+    expect(error?.message).to.match(/Reveal window closed/);
+  });
+
+  it("salt perdu localement: re-dérivé depuis le wallet pour withdraw", async () => {
+    const d = await withAuction();
+    await new SealedBidder(d.bob, d.market, new CommitmentStore(path.join(dir, "a.json"))).commit(1n, BID_BOB);
+
+    // store local perdu: le salt se reconstruit à partir de la signature du wallet
+    const salt = await deriveSalt(d.bob, await d.market.getAddress(), 1n);
+    await fastForwardDays(AUCTION_DURATION_DAYS);
+
+    const before = await d.erc20.balanceOf(d.bobAddr);
+    await d.market.connect(d.bob).withdraw_unrevealed_bid(1n, BID_BOB, salt);
+    expect(await d.erc20.balanceOf(d.bobAddr)).to.equal(before + BID_BOB);
+  });
+
+  it("listUnrevealed + task auction:unrevealed sur plusieurs enchères", async () => {
+    const d = await withAuction();
+    const market = await d.market.getAddress();
+
+    // 2e enchère sur un nouveau token
+    await d.erc721.connect(d.owner).mint(d.ownerAddr);
+    await approveNFTToMarket(d.erc721, d.market, d.owner, 2n);
+    await d.market.connect(d.owner).create_auction(await d.erc721.getAddress(), 2n, STARTING_PRICE, await d.erc20.getAddress());
+
+    const store = path.join(dir, "bids.json");
+    const alice = new SealedBidder(d.alice, d.market, new CommitmentStore(store));
+    await alice.commit(1n, BID_ALICE);
+    await alice.commit(2n, BID_ALICE);
+
+    let rows = await listUnrevealed(d.market, d.aliceAddr);
+    expect(rows.map((r) => [r.auctionId, r.state])).to.deep.equal([[1n, "bidding"], [2n, "bidding"]]);
+
+    await fastForwardDays(AUCTION_DURATION_DAYS);
+    await alice.reveal(1n);
+
+    rows = await hre.run("auction:unrevealed", { market, bidder: d.aliceAddr, store, fromBlock: 0 });
+    expect(rows.map((r: any) => [r.auctionId, r.state])).to.deep.equal([[2n, "reveal-open"]]);
+
+    await fastForwardDays(REVEAL_DURATION_DAYS);
+    rows = await listUnrevealed(d.market, d.aliceAddr);
+    expect(rows[0].state).to.equal("expired");
+    expect(await listUnrevealed(d.market, d.bobAddr)).to.deep.equal([]);
+  });
+});
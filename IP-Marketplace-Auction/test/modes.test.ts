@@ -0,0 +1,204 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { deployAll, approveNFTToMarket, STARTING_PRICE, SALT, DAY_IN_SECONDS, Deployed } from "./utils";
+
+const MIN_INCREMENT = 100n;
+const END_PRICE = 100n;
+const DUTCH_START = 1_100n;
+const TEN_MINUTES = 10 * 60;
+
+enum AuctionKind {
+  Sealed,
+  English,
+  Dutch,
+}
+
+async function createEnglish(d: Deployed) {
+  await approveNFTToMarket(d.erc721, d.market, d.owner, d.tokenId);
+  await d.market
+    .connect(d.owner)
+    .create_english_auction(await d.erc721.getAddress(), d.tokenId, STARTING_PRICE, MIN_INCREMENT, await d.erc20.getAddress());
+  return 1n;
+}
+
+async function createDutch(d: Deployed) {
+  await approveNFTToMarket(d.erc721, d.market, d.owner, d.tokenId);
+  await d.market
+    .connect(d.owner)
+    .create_dutch_auction(await d.erc721.getAddress(), d.tokenId, DUTCH_START, END_PRICE, await d.erc20.getAddress());
+  return 1n;
+}
+
+describe("MarketPlace (English auctions)", () => {
+  it("create_english_auction: ok (kind, min increment, event)", async () => {
+    const d = await deployAll();
+    await approveNFTToMarket(d.erc721, d.market, d.owner, d.tokenId);
+    await expect(
+      d.market
+        .connect(d.owner)
+        .create_english_auction(await d.erc721.getAddress(), d.tokenId, STARTING_PRICE, MIN_INCREMENT, await d.erc20.getAddress())
+    )
+      .to.emit(d.market, "AuctionConfigured")
+      .withArgs(1n, AuctionKind.English, 0n, MIN_INCREMENT);
+
+    const a = await d.market.get_auction(1n);
+    expect(a.kind).to.equal(AuctionKind.English);
+    expect(a.min_increment).to.equal(MIN_INCREMENT);
+    expect(a.end_time - a.start_time).to.equal(BigInt(DAY_IN_SECONDS));
+  });
+
+  it("create_english_auction: min increment zero reverts", async () => {
+    const d = await deployAll();
+    await approveNFTToMarket(d.erc721, d.market, d.owner, d.tokenId);
+    await expect(
+      d.market
+        .connect(d.owner)
+        .create_english_auction(await d.erc721.getAddress(), d.tokenId, STARTING_PRICE, 0n, await d.erc20.getAddress())
+    ).to.be.revertedWith("Min increment is zero");
+  });
+
+  it("place_bid: start price, minimum increment, outbid bidder refunded", async () => {
+    const d = await deployAll();
+    const id = await createEnglish(d);
+    const market = await d.market.getAddress();
+
+    await expect(d.market.connect(d.alice).place_bid(id, STARTING_PRICE - 1n)).to.be.revertedWith(
+      "Amount less than start price"
+    );
+    await expect(d.market.connect(d.owner).place_bid(id, STARTING_PRICE)).to.be.revertedWith("Bidder is owner");
+
+    const aliceBefore = await d.erc20.balanceOf(d.aliceAddr);
+    await d.market.connect(d.alice).place_bid(id, STARTING_PRICE);
+    expect(await d.erc20.balanceOf(market)).to.equal(STARTING_PRICE);
+
+    await expect(d.market.connect(d.bob).place_bid(id, STARTING_PRICE + MIN_INCREMENT - 1n)).to.be.revertedWith(
+      "Bid below minimum"
+    );
+    await d.market.connect(d.bob).place_bid(id, STARTING_PRICE + MIN_INCREMENT);
+
+    // Alice remboursée dans la même transaction, seule l'enchère de Bob reste en escrow
+    expect(await d.erc20.balanceOf(d.aliceAddr)).to.equal(aliceBefore);
+    expect(await d.erc20.balanceOf(market)).to.equal(STARTING_PRICE + MIN_INCREMENT);
+
+    const a = await d.market.get_auction(id);
+    expect(a.highest_bidder).to.equal(d.bobAddr);
+    expect(a.highest_bid).to.equal(STARTING_PRICE + MIN_INCREMENT);
+    expect(await d.market.get_auction_bid_count(id)).to.equal(2n);
+  });
+
+  it("place_bid: anti-sniping repousse la fin, puis finalize règle le gagnant", async () => {
+    const d = await deployAll();
+    const id = await createEnglish(d);
+    const endTime = (await d.market.get_auction(id)).end_time;
+
+    // hors fenêtre: pas d'extension
+    await d.market.connect(d.alice).place_bid(id, STARTING_PRICE);
+    expect((await d.market.get_auction(id)).end_time).to.equal(endTime);
+
+    // 5 minutes avant la fin: end_time = maintenant + 10 minutes
+    await time.increase(DAY_IN_SECONDS - 5 * 60);
+    await d.market.connect(d.bob).place_bid(id, STARTING_PRICE + MIN_INCREMENT);
+    const extended = (await d.market.get_auction(id)).end_time;
+    expect(extended).to.equal(BigInt(await time.latest()) + BigInt(TEN_MINUTES));
+
+    await time.increase(6 * 60); // au-delà de l'ancienne fin
+    await expect(d.market.finalize_auction(id)).to.be.revertedWith("Auction is still open");
+    await d.market.connect(d.alice).place_bid(id, STARTING_PRICE + 2n * MIN_INCREMENT);
+
+    await time.increase(TEN_MINUTES);
+    await expect(d.market.connect(d.bob).place_bid(id, STARTING_PRICE + 3n * MIN_INCREMENT)).to.be.revertedWith(
+      "Auction closed"
+    );
+
+    const ownerBefore = await d.erc20.balanceOf(d.ownerAddr);
+    await expect(d.market.finalize_auction(id)).to.emit(d.market, "AuctionFinalized").withArgs(id, d.aliceAddr);
+    expect(await d.erc721.ownerOf(d.tokenId)).to.equal(d.aliceAddr);
+    expect(await d.erc20.balanceOf(d.ownerAddr)).to.equal(ownerBefore + STARTING_PRICE + 2n * MIN_INCREMENT);
+    expect(await d.erc20.balanceOf(await d.market.getAddress())).to.equal(0n);
+  });
+
+  it("finalize: sans enchère, le NFT retourne au vendeur", async () => {
+    const d = await deployAll();
+    const id = await createEnglish(d);
+    await time.increase(DAY_IN_SECONDS);
+
+    await expect(d.market.finalize_auction(id)).to.emit(d.market, "AuctionFinalized").withArgs(id, ethers.ZeroAddress);
+    expect(await d.erc721.ownerOf(d.tokenId)).to.equal(d.ownerAddr);
+    await expect(d.market.finalize_auction(id)).to.be.revertedWith("Auction already finalized");
+  });
+
+  it("modes exclusifs: commit_bid sur English, place_bid sur Sealed -> revert", async () => {
+    const d = await deployAll();
+    const id = await createEnglish(d);
+    await expect(d.market.connect(d.alice).commit_bid(id, STARTING_PRICE, SALT)).to.be.revertedWith("Wrong auction kind");
+
+    await d.erc721.connect(d.owner).mint(d.ownerAddr);
+    await approveNFTToMarket(d.erc721, d.market, d.owner, 2n);
+    await d.market.connect(d.owner).create_auction(await d.erc721.getAddress(), 2n, STARTING_PRICE, await d.erc20.getAddress());
+    await expect(d.market.connect(d.alice).place_bid(2n, STARTING_PRICE)).to.be.revertedWith("Wrong auction kind");
+    await expect(d.market.connect(d.alice).buy_now(2n)).to.be.revertedWith("Wrong auction kind");
+  });
+});
+
+describe("MarketPlace (Dutch auctions)", () => {
+  it("create_dutch_auction: end price above start price reverts", async () => {
+    const d = await deployAll();
+    await approveNFTToMarket(d.erc721, d.market, d.owner, d.tokenId);
+    await expect(
+      d.market
+        .connect(d.owner)
+        .create_dutch_auction(await d.erc721.getAddress(), d.tokenId, END_PRICE, DUTCH_START, await d.erc20.getAddress())
+    ).to.be.revertedWith("End price above start price");
+  });
+
+  it("get_current_price: décroissance linéaire jusqu'au prix final", async () => {
+    const d = await deployAll();
+    const id = await createDutch(d);
+    expect(await d.market.get_current_price(id)).to.equal(DUTCH_START);
+
+    await time.increase(DAY_IN_SECONDS / 4);
+    expect(await d.market.get_current_price(id)).to.equal(DUTCH_START - (DUTCH_START - END_PRICE) / 4n);
+
+    await time.increase(DAY_IN_SECONDS / 4);
+    expect(await d.market.get_current_price(id)).to.equal((DUTCH_START + END_PRICE) / 2n);
+
+    await time.increase(DAY_IN_SECONDS);
+    expect(await d.market.get_current_price(id)).to.equal(END_PRICE);
+  });
+
+  it("buy_now au prix courant, puis finalize immédiat", async () => {
+    const d = await deployAll();
+    const id = await createDutch(d);
+    const { start_time } = await d.market.get_auction(id);
+
+    await time.increase(DAY_IN_SECONDS / 4);
+    await time.setNextBlockTimestamp(start_time + BigInt(DAY_IN_SECONDS / 2));
+    const price = (DUTCH_START + END_PRICE) / 2n;
+
+    const aliceBefore = await d.erc20.balanceOf(d.aliceAddr);
+    await expect(d.market.connect(d.alice).buy_now(id))
+      .to.emit(d.market, "BidPlaced")
+      .withArgs(d.aliceAddr, id, price, start_time + BigInt(DAY_IN_SECONDS));
+    expect(await d.erc20.balanceOf(d.aliceAddr)).to.equal(aliceBefore - price);
+    await expect(d.market.connect(d.bob).buy_now(id)).to.be.revertedWith("Auction closed");
+
+    // pas d'attente de end_time: l'achat ferme l'enchère
+    const ownerBefore = await d.erc20.balanceOf(d.ownerAddr);
+    await d.market.finalize_auction(id);
+    expect(await d.erc721.ownerOf(d.tokenId)).to.equal(d.aliceAddr);
+    expect(await d.erc20.balanceOf(d.ownerAddr)).to.equal(ownerBefore + price);
+    expect((await d.market.get_auction(id)).is_finalized).to.equal(true);
+  });
+
+  it("finalize: sans acheteur avant end_time -> ouvert, après -> NFT rendu", async () => {
+    const d = await deployAll();
+    const id = await createDutch(d);
+    await expect(d.market.finalize_auction(id)).to.be.revertedWith("Auction is still open");
+
+    await time.increase(DAY_IN_SECONDS);
+    await expect(d.market.connect(d.alice).buy_now(id)).to.be.revertedWith("Auction closed");
+    await d.market.finalize_auction(id);
+    expect(await d.erc721.ownerOf(d.tokenId)).to.equal(d.ownerAddr);
+  });
+});
@@ -0,0 +1,227 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { AbiCoder, Contract, Signer, keccak256 } from "ethers";
+
+export const DAY_IN_SECONDS = 24n * 60n * 60n;
+export const DEFAULT_STORE_FILE = ".auction-bids.json";
+
+export type CommitmentStatus = "committed" | "revealed" | "withdrawn";
+
+export interface Commitment {
+  chainId: string;
+  market: string;
+  auctionId: string;
+  bidder: string;
+  amount: string; // décimal (JSON)
+  salt: string;
+  status: CommitmentStatus;
+  commitTx: string;
+  revealTx?: string;
+}
+
+export interface RevealWindow {
+  opensAt: bigint; // = end_time de l'enchère
+  closesAt: bigint; // end_time + reveal_duration_days
+}
+
+export interface ScheduledReveal {
+  done: Promise<string>; // hash de la tx reveal_bid
+  cancel(): void;
+}
+
+// Même encodage que computeBidHash() dans MarketplaceAuction.sol
+export function computeBidHash(amount: bigint, salt: string): string {
+  return keccak256(AbiCoder.defaultAbiCoder().encode(["uint256", "bytes32"], [amount, salt]));
+}
+
+export function saltMessage(chainId: bigint, market: string, auctionId: bigint): string {
+  return [
+    "MarketplaceAuction sealed-bid salt",
+    `chain: ${chainId}`,
+    `market: ${market.toLowerCase()}`,
+    `auction: ${auctionId}`,
+  ].join("\n");
+}
+
+// salt = keccak256(signature). Les signatures secp256k1 (RFC 6979) sont déterministes:
+// le même wallet retrouve donc son salt sans rien stocker.
+export async function deriveSalt(signer: Signer, market: string, auctionId: bigint): Promise<string> {
+  const { chainId } = await signer.provider!.getNetwork();
+  const signature = await signer.signMessage(saltMessage(chainId, market, auctionId));
+  return keccak256(signature);
+}
+
+// Stockage local (JSON) des commitments; une entrée par (chain, market, auction, bidder).
+export class CommitmentStore {
+  constructor(readonly file: string = DEFAULT_STORE_FILE) {}
+
+  async all(): Promise<Commitment[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.file, "utf8"));
+    } catch (e: any) {
+      if (e.code === "ENOENT") return [];
+      throw e;
+    }
+  }
+
+  async find(chainId: bigint, market: string, auctionId: bigint, bidder: string): Promise<Commitment | undefined> {
+    const key = commitmentKey(chainId, market, auctionId, bidder);
+    return (await this.all()).find((c) => commitmentKey(c.chainId, c.market, c.auctionId, c.bidder) === key);
+  }
+
+  async upsert(commitment: Commitment): Promise<void> {
+    const key = commitmentKey(commitment.chainId, commitment.market, commitment.auctionId, commitment.bidder);
+    const rest = (await this.all()).filter((c) => commitmentKey(c.chainId, c.market, c.auctionId, c.bidder) !== key);
+    await fs.mkdir(path.dirname(path.resolve(this.file)), { recursive: true });
+    await fs.writeFile(this.file, JSON.stringify([...rest, commitment], null, 2) + "\n");
+  }
+}
+
+function commitmentKey(chainId: bigint | string, market: string, auctionId: bigint | string, bidder: string) {
+  return `${chainId}:${market.toLowerCase()}:${auctionId}:${bidder.toLowerCase()}`;
+}
+
+export class SealedBidder {
+  constructor(
+    readonly signer: Signer,
+    readonly market: Contract,
+    readonly store: CommitmentStore = new CommitmentStore()
+  ) {}
+
+  async commit(auctionId: bigint, amount: bigint): Promise<Commitment> {
+    const [chainId, market, bidder] = await this._context();
+    const salt = await deriveSalt(this.signer, market, auctionId);
+
+    const tx = await this._market().commit_bid(auctionId, amount, salt);
+    await tx.wait();
+
+    const commitment: Commitment = {
+      chainId: chainId.toString(),
+      market,
+      auctionId: auctionId.toString(),
+      bidder,
+      amount: amount.toString(),
+      salt,
+      status: "committed",
+      commitTx: tx.hash,
+    };
+    await this.store.upsert(commitment);
+    return commitment;
+  }
+
+  async reveal(auctionId: bigint): Promise<string> {
+    const commitment = await this._commitment(auctionId);
+    const tx = await this._market().reveal_bid(auctionId, BigInt(commitment.amount), commitment.salt);
+    await tx.wait();
+    await this.store.upsert({ ...commitment, status: "revealed", revealTx: tx.hash });
+    return tx.hash;
+  }
+
+  // Récupère les fonds d'une enchère perdue/non finalisée (pendant la fenêtre de reveal).
+  async withdraw(auctionId: bigint): Promise<string> {
+    const commitment = await this._commitment(auctionId);
+    const tx = await this._market().withdraw_unrevealed_bid(auctionId, BigInt(commitment.amount), commitment.salt);
+    await tx.wait();
+    await this.store.upsert({ ...commitment, status: "withdrawn", revealTx: tx.hash });
+    return tx.hash;
+  }
+
+  async revealWindow(auctionId: bigint): Promise<RevealWindow> {
+    return revealWindow(this.market, auctionId);
+  }
+
+  // Révèle dès que la chaîne atteint end_time; re-vérifie au plus toutes les `pollMs`.
+  scheduleReveal(auctionId: bigint, { pollMs = 15_000 }: { pollMs?: number } = {}): ScheduledReveal {
+    let timer: NodeJS.Timeout | undefined;
+    let cancelled = false;
+
+    const done = new Promise<string>((resolve, reject) => {
+      const tick = async () => {
+        if (cancelled) return;
+        try {
+          const { opensAt, closesAt } = await this.revealWindow(auctionId);
+          const now = await chainTime(this.signer);
+          if (now + 1n >= closesAt) throw new Error(`Reveal window closed for auction ${auctionId}`);
+          if (now >= opensAt) return resolve(await this.reveal(auctionId));
+          timer = setTimeout(tick, Math.min(pollMs, Number(opensAt - now) * 1000));
+        } catch (e) {
+          reject(e);
+        }
+      };
+      void tick();
+    });
+
+    return {
+      done,
+      cancel: () => {
+        cancelled = true;
+        clearTimeout(timer);
+      },
+    };
+  }
+
+  private async _context(): Promise<[bigint, string, string]> {
+    const { chainId } = await this.signer.provider!.getNetwork();
+    return [chainId, await this.market.getAddress(), await this.signer.getAddress()];
+  }
+
+  private async _commitment(auctionId: bigint): Promise<Commitment> {
+    const [chainId, market, bidder] = await this._context();
+    const stored = await this.store.find(chainId, market, auctionId, bidder);
+    if (stored === undefined) throw new Error(`No local commitment for auction ${auctionId}`);
+    return stored;
+  }
+
+  private _market(): Contract {
+    return this.market.connect(this.signer) as Contract;
+  }
+}
+
+export async function chainTime(signer: Signer): Promise<bigint> {
+  const block = await signer.provider!.getBlock("latest");
+  return BigInt(block!.timestamp);
+}
+
+export async function revealWindow(market: Contract, auctionId: bigint): Promise<RevealWindow> {
+  const auction = await market.get_auction(auctionId);
+  const revealDays: bigint = await market.reveal_duration_days();
+  const opensAt = BigInt(auction.end_time);
+  return { opensAt, closesAt: opensAt + revealDays * DAY_IN_SECONDS };
+}
+
+export type UnrevealedState = "bidding" | "reveal-open" | "expired";
+
+export interface UnrevealedCommitment {
+  auctionId: bigint;
+  state: UnrevealedState;
+  revealOpensAt: bigint;
+  revealClosesAt: bigint;
+  commitTx: string;
+}
+
+// Commitments on-chain (BidCommitted) sans BidRevealed correspondant pour `bidder`.
+// withdraw_unrevealed_bid passe aussi par reveal_bid, donc émet BidRevealed.
+export async function listUnrevealed(
+  market: Contract,
+  bidder: string,
+  fromBlock: number = 0
+): Promise<UnrevealedCommitment[]> {
+  const committed = await market.queryFilter(market.filters.BidCommitted(bidder), fromBlock);
+  const revealed = await market.queryFilter(market.filters.BidRevealed(bidder), fromBlock);
+  const revealedIds = new Set(revealed.map((e: any) => BigInt(e.args.auction_id)));
+
+  const latest = new Map<bigint, string>(); // auctionId => dernière tx de commit
+  for (const e of committed as any[]) latest.set(BigInt(e.args.auction_id), e.transactionHash);
+
+  const block = await market.runner!.provider!.getBlock("latest");
+  const now = BigInt(block!.timestamp);
+
+  const rows: UnrevealedCommitment[] = [];
+  for (const [auctionId, commitTx] of latest) {
+    if (revealedIds.has(auctionId)) continue;
+    const { opensAt, closesAt } = await revealWindow(market, auctionId);
+    const state: UnrevealedState = now < opensAt ? "bidding" : now < closesAt ? "reveal-open" : "expired";
+    rows.push({ auctionId, state, revealOpensAt: opensAt, revealClosesAt: closesAt, commitTx });
+  }
+  return rows.sort((a, b) => (a.auctionId < b.auctionId ? -1 : 1));
+}
@@ -7,6 +7,12 @@ const config: HardhatUserConfig = {
     settings: {
       optimizer: { enabled: true, runs: 200 }
     }
+  },
+  paths: {
+    sources: "src",
+    tests: "test",
+    cache: "cache",
+    artifacts: "artifacts"
   }
 };
 
@@ -24,6 +24,8 @@ interface IIPNFT {
 interface IIPTokenizerMinimal {
     // Utilisé par le marketplace pour retrouver le propriétaire on-chain d’un token
     function getTokenOwner(uint256 tokenId) external view returns (address);
+    // Contrat NFT interrogé pour les royalties ERC-2981
+    function nftContract() external view returns (address);
 }
 
 /**
@@ -34,6 +36,8 @@ interface IIPTokenizerMinimal {
 
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
 import {Pausable} from "@openzeppelin/contracts/utils/Pausable.sol";
+import {IERC2981} from "@openzeppelin/contracts/interfaces/IERC2981.sol";
+import {ERC165Checker} from "@openzeppelin/contracts/utils/introspection/ERC165Checker.sol";
 
 /**
  * ─────────────────────────────────────────────────────────────────────────────
@@ -72,10 +76,12 @@ string constant ERROR_EMPTY_BATCH           = "Empty batch";
 string constant ERROR_BATCH_TOO_LARGE       = "Batch too large";
 string constant ERROR_INVALID_METADATA      = "Invalid metadata";
 string constant ERROR_TOKEN_ID_MISMATCH     = "Token ID mismatch";
+string constant ERROR_INVALID_BPS           = "Invalid bps";
 
 // paramètres par défaut
 uint32 constant DEFAULT_BATCH_LIMIT = 100;
 uint256 constant COMMISSION_FEE_PERCENTAGE = 5; // 5%
+uint256 constant DEFAULT_MAX_ROYALTY_BPS = 1_000; // 10%
 
 /**
  * ─────────────────────────────────────────────────────────────────────────────
@@ -87,6 +93,7 @@ contract IPMarketplace is Ownable, Pausable {
     address public tokenizerContract;     // contrat tokenizer (pour getTokenOwner)
     address public acceptedToken;         // ex: STRK/ETH wrapper ERC20
     address public commissionWallet;      // wallet de commission Mediolano
+    uint256 public maxRoyaltyBps;         // plafond des royalties ERC-2981 (bps du prix par asset)
 
     event BulkPurchaseCompleted(
         address indexed buyer,
@@ -100,6 +107,12 @@ contract IPMarketplace is Ownable, Pausable {
         uint256 commissionShare
     );
 
+    event RoyaltyPaid(
+        uint256 indexed assetId,
+        address indexed receiver,
+        uint256 amount
+    );
+
     constructor(
         address owner_,
         address tokenizer_,
@@ -109,12 +122,14 @@ contract IPMarketplace is Ownable, Pausable {
         tokenizerContract = tokenizer_;
         acceptedToken     = acceptedToken_;
         commissionWallet  = commissionWallet_;
+        maxRoyaltyBps     = DEFAULT_MAX_ROYALTY_BPS;
     }
 
     /**
      * Achat groupé d’actifs tokenisés.
      * - prélève la commission globale,
-     * - répartit le reste équitablement entre les vendeurs (propriétaires actuels des tokens).
+     * - répartit le reste équitablement entre les vendeurs (propriétaires actuels des tokens),
+     *   moins la royalty ERC-2981 de chaque asset (calculée sur total_amount / nb d’assets).
      */
     function bulk_purchase(
         uint256[] calldata asset_ids,
@@ -138,16 +153,31 @@ contract IPMarketplace is Ownable, Pausable {
 
         // Part égale par asset
         uint256 share = toDistribute / asset_ids.length;
+        uint256 assetPrice = total_amount / asset_ids.length;
+        // tokenizer sans nftContract(): achat sans royalties plutôt qu'un revert
+        address nft;
+        try tokz.nftContract() returns (address collection) {
+            nft = collection;
+        } catch {}
 
         for (uint256 i = 0; i < asset_ids.length; i++) {
             address seller = tokz.getTokenOwner(asset_ids[i]);
+            (address royaltyReceiver, uint256 royalty) = _royalty(nft, asset_ids[i], assetPrice, share);
+            if (royalty > 0) {
+                require(
+                    pay.transferFrom(msg.sender, royaltyReceiver, royalty),
+                    ERROR_TRANSFER_FAILED
+                );
+                emit RoyaltyPaid(asset_ids[i], royaltyReceiver, royalty);
+            }
+            uint256 sellerShare = share - royalty;
             require(
-                pay.transferFrom(msg.sender, seller, share),
+                pay.transferFrom(msg.sender, seller, sellerShare),
                 ERROR_TRANSFER_FAILED
             );
             // commission “pro-rata” (facultatif, info event)
             uint256 commissionShare = commission / asset_ids.length;
-            emit PaymentProcessed(seller, share, commissionShare);
+            emit PaymentProcessed(seller, sellerShare, commissionShare);
         }
 
         emit BulkPurchaseCompleted(msg.sender, asset_ids, total_amount);
@@ -163,10 +193,32 @@ contract IPMarketplace is Ownable, Pausable {
         commissionWallet = wallet;
     }
 
+    function set_max_royalty_bps(uint256 bps) external onlyOwner {
+        require(bps <= 10_000, ERROR_INVALID_BPS);
+        maxRoyaltyBps = bps;
+    }
+
     function set_paused(bool paused) external onlyOwner {
         if (paused) _pause();
         else _unpause();
     }
+
+    // --- Interne ---
+
+    // Royalty ERC-2981 plafonnée à maxRoyaltyBps du prix et à la part du vendeur.
+    function _royalty(address nft, uint256 assetId, uint256 price, uint256 available)
+        internal
+        view
+        returns (address receiver, uint256 amount)
+    {
+        if (nft == address(0) || !ERC165Checker.supportsInterface(nft, type(IERC2981).interfaceId)) return (address(0), 0);
+        (receiver, amount) = IERC2981(nft).royaltyInfo(assetId, price);
+        if (receiver == address(0)) return (address(0), 0);
+
+        uint256 cap = (price * maxRoyaltyBps) / 10_000;
+        if (amount > cap) amount = cap;
+        if (amount > available) amount = available;
+    }
 }
 
 /**
@@ -242,6 +294,11 @@ contract IPTokenizer is Ownable, Pausable {
         return IIPNFT(nftContract).ownerOf(tokenId);
     }
 
+    // Nom attendu par IIPTokenizerMinimal (IPMarketplace.bulk_purchase)
+    function getTokenOwner(uint256 tokenId) external view returns (address) {
+        return get_token_owner(tokenId);
+    }
+
     function get_token_expiry(uint256 tokenId) external view returns (uint64) {
         return _tokens[tokenId].expiryDate;
     }
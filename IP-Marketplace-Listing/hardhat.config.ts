@@ -9,7 +9,7 @@ const config: HardhatUserConfig = {
     },
   },
   paths: {
-    sources: "contracts",
+    sources: "src",
     tests: "test",
     cache: "cache",
     artifacts: "artifacts",
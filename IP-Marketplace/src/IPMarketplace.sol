@@ -5,6 +5,11 @@ import {IERC20}  from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import {IERC721} from "@openzeppelin/contracts/token/ERC721/IERC721.sol";
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
 import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {IERC2981} from "@openzeppelin/contracts/interfaces/IERC2981.sol";
+import {ERC165Checker} from "@openzeppelin/contracts/utils/introspection/ERC165Checker.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {SignatureChecker} from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 
 /* //////////////////////////////////////////////////////////////
                             INTERFACE
@@ -52,6 +57,37 @@ interface IIPMarketplace {
         uint16           bulk_discount_rate;
     }
 
+    // Ordre de vente signé hors-chaîne (EIP-712) par `maker`, exécuté par fulfill_order.
+    struct Order {
+        address maker;
+        address nft_contract;
+        uint256 token_id;
+        uint256 price;
+        address currency;
+        uint64  expiry;           // timestamp
+        uint256 nonce;            // >= min_nonce(maker), sinon annulé
+        bytes32 metadata_hash;
+        bytes32 license_terms_hash;
+        IPUsageRights    usage_rights;
+        DerivativeRights derivative_rights;
+    }
+
+    // 0 = ouvert, 1 = exécuté, 2 = annulé
+    enum OrderStatus { Open, Filled, Cancelled }
+
+    // Offre d'achat séquestrée (ERC20) sur n'importe quel token d'une collection,
+    // ou seulement sur les tokens dont l'id figure dans l'arbre Merkle `trait_root`.
+    struct CollectionOffer {
+        address buyer;
+        address nft_contract;
+        uint256 price;            // par token
+        address currency;
+        uint256 quantity;         // tokens encore achetables
+        uint64  expiry;           // timestamp
+        bytes32 trait_root;       // 0 = toute la collection
+        bool    active;
+    }
+
     // Actions
     function list_item(
         address nft_contract,
@@ -68,6 +104,33 @@ interface IIPMarketplace {
 
     function buy_item(address nft_contract, uint256 token_id) external;
 
+    function fulfill_order(Order calldata order, bytes calldata signature) external;
+
+    function cancel_order(Order calldata order) external;
+
+    function increase_min_nonce(uint256 new_min_nonce) external;
+
+    function make_collection_offer(
+        address nft_contract,
+        uint256 price,
+        address currency_address,
+        uint256 quantity,
+        uint64 expiry
+    ) external returns (uint256);
+
+    function make_trait_offer(
+        address nft_contract,
+        uint256 price,
+        address currency_address,
+        uint256 quantity,
+        uint64 expiry,
+        bytes32 trait_root
+    ) external returns (uint256);
+
+    function accept_offer(uint256 offer_id, uint256 token_id, bytes32[] calldata proof) external;
+
+    function cancel_offer(uint256 offer_id) external;
+
     function update_listing(address nft_contract, uint256 token_id, uint256 new_price) external;
 
     function update_metadata(
@@ -89,12 +152,20 @@ interface IIPMarketplace {
         external
         view
         returns (Listing memory);
+
+    function hash_order(Order calldata order) external view returns (bytes32);
+
+    function order_status(bytes32 order_hash) external view returns (OrderStatus);
+
+    function min_nonce(address maker) external view returns (uint256);
+
+    function get_offer(uint256 offer_id) external view returns (CollectionOffer memory);
 }
 
 /* //////////////////////////////////////////////////////////////
                            IMPLEMENTATION
 ////////////////////////////////////////////////////////////// */
-contract IPMarketplace is IIPMarketplace, Ownable, ReentrancyGuard {
+contract IPMarketplace is IIPMarketplace, Ownable, ReentrancyGuard, EIP712 {
     /* ----------------------------- Events ----------------------------- */
 
     event ItemListed(
@@ -124,6 +195,51 @@ contract IPMarketplace is IIPMarketplace, Ownable, ReentrancyGuard {
         uint256 new_price
     );
 
+    event RoyaltyPaid(
+        uint256 indexed token_id,
+        address indexed nft_contract,
+        address receiver,
+        uint256 amount
+    );
+
+    event OrderFulfilled(
+        bytes32 indexed order_hash,
+        address indexed maker,
+        address indexed buyer
+    );
+
+    event OrderCancelled(
+        bytes32 indexed order_hash,
+        address indexed maker
+    );
+
+    event MinNonceIncreased(
+        address indexed maker,
+        uint256 min_nonce
+    );
+
+    event OfferCreated(
+        uint256 indexed offer_id,
+        address indexed buyer,
+        address indexed nft_contract,
+        uint256 price,
+        address currency,
+        uint256 quantity,
+        uint64 expiry,
+        bytes32 trait_root
+    );
+
+    event OfferAccepted(
+        uint256 indexed offer_id,
+        uint256 indexed token_id,
+        address seller
+    );
+
+    event OfferCancelled(
+        uint256 indexed offer_id,
+        uint256 refund
+    );
+
     event MetadataUpdated(
         uint256 indexed token_id,
         address indexed nft_contract,
@@ -139,6 +255,25 @@ contract IPMarketplace is IIPMarketplace, Ownable, ReentrancyGuard {
         address creator
     );
 
+    /* ------------------------------ EIP-712 --------------------------- */
+
+    // Types imbriqués: référencés par ordre alphabétique après le type principal
+    bytes32 private constant DERIVATIVE_RIGHTS_TYPEHASH = keccak256(
+        "DerivativeRights(bool allowed,uint16 royalty_share,bool requires_approval,uint32 max_derivatives)"
+    );
+    bytes32 private constant USAGE_RIGHTS_TYPEHASH = keccak256(
+        "IPUsageRights(bool commercial_use,bool modifications_allowed,bool attribution_required,"
+        "bytes32 geographic_restrictions,uint64 usage_duration,bool sublicensing_allowed,bytes32 industry_restrictions)"
+    );
+    bytes32 private constant ORDER_TYPEHASH = keccak256(
+        "Order(address maker,address nft_contract,uint256 token_id,uint256 price,address currency,uint64 expiry,"
+        "uint256 nonce,bytes32 metadata_hash,bytes32 license_terms_hash,IPUsageRights usage_rights,"
+        "DerivativeRights derivative_rights)"
+        "DerivativeRights(bool allowed,uint16 royalty_share,bool requires_approval,uint32 max_derivatives)"
+        "IPUsageRights(bool commercial_use,bool modifications_allowed,bool attribution_required,"
+        "bytes32 geographic_restrictions,uint64 usage_duration,bool sublicensing_allowed,bytes32 industry_restrictions)"
+    );
+
     /* ----------------------------- Storage ---------------------------- */
 
     // listings[nft][tokenId] => Listing
@@ -151,12 +286,23 @@ contract IPMarketplace is IIPMarketplace, Ownable, ReentrancyGuard {
     // Frais du marketplace en basis points (ex: 250 = 2.5%)
     uint256 public marketplaceFeeBps;
 
+    // Plafond des royalties ERC-2981 en basis points (appliqué au prix de vente)
+    uint256 public maxRoyaltyBps = 1_000;
+
+    // Ordres signés: statut par hash, et nonce minimal par maker (annulation groupée)
+    mapping(bytes32 => OrderStatus) private _orderStatus;
+    mapping(address => uint256) private _minNonce;
+
+    // Offres collection / traits, ids à partir de 1
+    mapping(uint256 => CollectionOffer) private _offers;
+    uint256 public nextOfferId;
+
     // Compteur pour IDs “dérivés” renvoyés par register_derivative (optionnel)
     uint256 public nextTokenId;
 
     /* ---------------------------- Constructor ------------------------- */
 
-    constructor(uint256 marketplaceFeeBps_) Ownable(msg.sender) {
+    constructor(uint256 marketplaceFeeBps_) Ownable(msg.sender) EIP712("IPMarketplace", "1") {
         marketplaceFeeBps = marketplaceFeeBps_;
         nextTokenId = 0;
     }
@@ -168,6 +314,11 @@ contract IPMarketplace is IIPMarketplace, Ownable, ReentrancyGuard {
         marketplaceFeeBps = newBps;
     }
 
+    function setMaxRoyaltyBps(uint256 newBps) external onlyOwner {
+        require(newBps <= 10_000, "BPS_OOB");
+        maxRoyaltyBps = newBps;
+    }
+
     /* ------------------------------ Actions --------------------------- */
 
     function list_item(
@@ -190,34 +341,18 @@ contract IPMarketplace is IIPMarketplace, Ownable, ReentrancyGuard {
             "Not approved for marketplace"
         );
 
-        // Composer la metadata
-        IPMetadata memory md = IPMetadata({
-            ipfs_hash:      metadata_hash,
-            license_terms:  license_terms_hash,
-            creator:        msg.sender,
-            creation_date:  uint64(block.timestamp),
-            last_updated:   uint64(block.timestamp),
-            version:        1,
-            content_type:   bytes32(0),
-            derivative_of:  0
-        });
-
-        // Enregistrer l’annonce
-        Listing memory l = Listing({
-            seller:       msg.sender,
-            nft_contract: nft_contract,
-            price:        price,
-            currency:     currency_address,
-            active:       true,
-            metadata:     md,
-            royalty_percentage: 250, // 2.5% par défaut (stocké mais non appliqué ici)
-            usage_rights: usage_rights,
-            derivative_rights: derivative_rights,
-            minimum_purchase_duration: 0,
-            bulk_discount_rate: 0
-        });
-
-        _listings[nft_contract][token_id] = l;
+        _store_listing(
+            msg.sender,
+            nft_contract,
+            token_id,
+            price,
+            currency_address,
+            metadata_hash,
+            license_terms_hash,
+            usage_rights,
+            derivative_rights,
+            true
+        );
 
         emit ItemListed(token_id, nft_contract, msg.sender, price, currency_address);
     }
@@ -240,21 +375,144 @@ contract IPMarketplace is IIPMarketplace, Ownable, ReentrancyGuard {
         require(l.active, "Listing not active");
         require(msg.sender != l.seller, "Seller cannot buy");
 
-        // Paiement ERC20 (price = montant total)
-        IERC20 currency = IERC20(l.currency);
-        uint256 fee = (l.price * marketplaceFeeBps) / 10_000;
-        uint256 toSeller = l.price - fee;
+        l.active = false;
+        _settle(nft_contract, token_id, l.seller, msg.sender, msg.sender, l.price, l.currency);
+    }
 
-        // Transferts (revert si allowance insuffisante)
-        require(currency.transferFrom(msg.sender, l.seller, toSeller), "pay seller failed");
-        require(currency.transferFrom(msg.sender, owner(), fee), "pay fee failed");
+    /* ---------------------------- Signed orders ------------------------ */
 
-        // Transfert NFT vendeur -> acheteur
-        IERC721(nft_contract).safeTransferFrom(l.seller, msg.sender, token_id);
+    // Exécute un ordre signé hors-chaîne: aucune transaction de listing côté vendeur.
+    // L'annonce est enregistrée (inactive) pour conserver métadonnées et droits.
+    function fulfill_order(Order calldata order, bytes calldata signature) external override nonReentrant {
+        bytes32 orderHash = hash_order(order);
+        require(_orderStatus[orderHash] == OrderStatus.Open, "Order not open");
+        require(order.nonce >= _minNonce[order.maker], "Order nonce cancelled");
+        require(block.timestamp < order.expiry, "Order expired");
+        require(msg.sender != order.maker, "Seller cannot buy");
+        require(
+            SignatureChecker.isValidSignatureNow(order.maker, orderHash, signature),
+            "Invalid order signature"
+        );
 
-        l.active = false;
+        IERC721 nft = IERC721(order.nft_contract);
+        require(nft.ownerOf(order.token_id) == order.maker, "Not token owner");
+        require(
+            nft.getApproved(order.token_id) == address(this) ||
+            nft.isApprovedForAll(order.maker, address(this)),
+            "Not approved for marketplace"
+        );
 
-        emit ItemSold(token_id, nft_contract, l.seller, msg.sender, l.price);
+        _orderStatus[orderHash] = OrderStatus.Filled;
+        _store_listing(
+            order.maker,
+            order.nft_contract,
+            order.token_id,
+            order.price,
+            order.currency,
+            order.metadata_hash,
+            order.license_terms_hash,
+            order.usage_rights,
+            order.derivative_rights,
+            false
+        );
+
+        emit OrderFulfilled(orderHash, order.maker, msg.sender);
+        _settle(order.nft_contract, order.token_id, order.maker, msg.sender, msg.sender, order.price, order.currency);
+    }
+
+    function cancel_order(Order calldata order) external override {
+        require(order.maker == msg.sender, "Not the maker");
+        bytes32 orderHash = hash_order(order);
+        require(_orderStatus[orderHash] == OrderStatus.Open, "Order not open");
+
+        _orderStatus[orderHash] = OrderStatus.Cancelled;
+        emit OrderCancelled(orderHash, msg.sender);
+    }
+
+    // Annule d'un coup tous les ordres du maker dont le nonce est < new_min_nonce.
+    function increase_min_nonce(uint256 new_min_nonce) external override {
+        require(new_min_nonce > _minNonce[msg.sender], "Nonce not increased");
+        _minNonce[msg.sender] = new_min_nonce;
+        emit MinNonceIncreased(msg.sender, new_min_nonce);
+    }
+
+    /* ------------------------- Collection offers ------------------------ */
+
+    function make_collection_offer(
+        address nft_contract,
+        uint256 price,
+        address currency_address,
+        uint256 quantity,
+        uint64 expiry
+    ) external override nonReentrant returns (uint256) {
+        return _make_offer(nft_contract, price, currency_address, quantity, expiry, bytes32(0));
+    }
+
+    // trait_root: racine Merkle (paires triées) des feuilles keccak256(abi.encodePacked(token_id))
+    // des tokens dont les métadonnées correspondent aux traits visés (cf. utils/traits.ts).
+    function make_trait_offer(
+        address nft_contract,
+        uint256 price,
+        address currency_address,
+        uint256 quantity,
+        uint64 expiry,
+        bytes32 trait_root
+    ) external override nonReentrant returns (uint256) {
+        require(trait_root != bytes32(0), "Empty trait root");
+        return _make_offer(nft_contract, price, currency_address, quantity, expiry, trait_root);
+    }
+
+    // Le détenteur d'un token éligible vend au prix de l'offre, payé depuis le séquestre.
+    function accept_offer(uint256 offer_id, uint256 token_id, bytes32[] calldata proof)
+        external
+        override
+        nonReentrant
+    {
+        CollectionOffer storage o = _offers[offer_id];
+        require(o.active, "Offer not active");
+        require(block.timestamp < o.expiry, "Offer expired");
+        require(msg.sender != o.buyer, "Buyer cannot accept");
+        if (o.trait_root != bytes32(0)) {
+            require(
+                MerkleProof.verify(proof, o.trait_root, keccak256(abi.encodePacked(token_id))),
+                "Token not in trait set"
+            );
+        }
+
+        IERC721 nft = IERC721(o.nft_contract);
+        require(nft.ownerOf(token_id) == msg.sender, "Not token owner");
+        require(
+            nft.getApproved(token_id) == address(this) ||
+            nft.isApprovedForAll(msg.sender, address(this)),
+            "Not approved for marketplace"
+        );
+
+        o.quantity -= 1;
+        if (o.quantity == 0) o.active = false;
+
+        // Une annonce existante du vendeur ne peut plus être honorée
+        Listing storage l = _listings[o.nft_contract][token_id];
+        if (l.active && l.seller == msg.sender) {
+            l.active = false;
+            emit ItemUnlisted(token_id, o.nft_contract);
+        }
+
+        emit OfferAccepted(offer_id, token_id, msg.sender);
+        _settle(o.nft_contract, token_id, msg.sender, o.buyer, address(this), o.price, o.currency);
+    }
+
+    // Rembourse le séquestre restant (y compris après expiration).
+    function cancel_offer(uint256 offer_id) external override nonReentrant {
+        CollectionOffer storage o = _offers[offer_id];
+        require(o.active, "Offer not active");
+        require(o.buyer == msg.sender, "Not the buyer");
+
+        uint256 refund = o.price * o.quantity;
+        o.active = false;
+        o.quantity = 0;
+
+        require(IERC20(o.currency).transfer(msg.sender, refund), "refund failed");
+        emit OfferCancelled(offer_id, refund);
     }
 
     function update_listing(address nft_contract, uint256 token_id, uint256 new_price) external override {
@@ -306,6 +564,131 @@ contract IPMarketplace is IIPMarketplace, Ownable, ReentrancyGuard {
         return newId;
     }
 
+    /* ----------------------------- Internals -------------------------- */
+
+    function _store_listing(
+        address seller,
+        address nft_contract,
+        uint256 token_id,
+        uint256 price,
+        address currency_address,
+        bytes32 metadata_hash,
+        bytes32 license_terms_hash,
+        IPUsageRights calldata usage_rights,
+        DerivativeRights calldata derivative_rights,
+        bool active
+    ) private {
+        // Composer la metadata
+        IPMetadata memory md = IPMetadata({
+            ipfs_hash:      metadata_hash,
+            license_terms:  license_terms_hash,
+            creator:        seller,
+            creation_date:  uint64(block.timestamp),
+            last_updated:   uint64(block.timestamp),
+            version:        1,
+            content_type:   bytes32(0),
+            derivative_of:  0
+        });
+
+        // Enregistrer l’annonce
+        _listings[nft_contract][token_id] = Listing({
+            seller:       seller,
+            nft_contract: nft_contract,
+            price:        price,
+            currency:     currency_address,
+            active:       active,
+            metadata:     md,
+            royalty_percentage: 250, // 2.5% par défaut (stocké; les royalties viennent d'ERC-2981)
+            usage_rights: usage_rights,
+            derivative_rights: derivative_rights,
+            minimum_purchase_duration: 0,
+            bulk_discount_rate: 0
+        });
+    }
+
+    function _make_offer(
+        address nft_contract,
+        uint256 price,
+        address currency_address,
+        uint256 quantity,
+        uint64 expiry,
+        bytes32 trait_root
+    ) private returns (uint256 offerId) {
+        require(price > 0, "Price is zero");
+        require(quantity > 0, "Quantity is zero");
+        require(expiry > block.timestamp, "Offer expired");
+
+        // Séquestre du montant total (revert si allowance insuffisante)
+        require(
+            IERC20(currency_address).transferFrom(msg.sender, address(this), price * quantity),
+            "escrow failed"
+        );
+
+        offerId = ++nextOfferId;
+        _offers[offerId] = CollectionOffer({
+            buyer:        msg.sender,
+            nft_contract: nft_contract,
+            price:        price,
+            currency:     currency_address,
+            quantity:     quantity,
+            expiry:       expiry,
+            trait_root:   trait_root,
+            active:       true
+        });
+
+        emit OfferCreated(offerId, msg.sender, nft_contract, price, currency_address, quantity, expiry, trait_root);
+    }
+
+    // Paiement ERC20 (price = montant total): vendeur, frais marketplace, royalty; puis NFT -> acheteur.
+    // payer = acheteur (transferFrom) ou le marketplace lui-même pour une offre séquestrée (transfer).
+    function _settle(
+        address nft_contract,
+        uint256 token_id,
+        address seller,
+        address buyer,
+        address payer,
+        uint256 price,
+        address currency_address
+    ) private {
+        uint256 fee = (price * marketplaceFeeBps) / 10_000;
+        (address royaltyReceiver, uint256 royalty) = _royalty(nft_contract, token_id, price, price - fee);
+        uint256 toSeller = price - fee - royalty;
+
+        // Transferts (revert si allowance insuffisante)
+        require(_pay(currency_address, payer, seller, toSeller), "pay seller failed");
+        require(_pay(currency_address, payer, owner(), fee), "pay fee failed");
+        if (royalty > 0) {
+            require(_pay(currency_address, payer, royaltyReceiver, royalty), "pay royalty failed");
+            emit RoyaltyPaid(token_id, nft_contract, royaltyReceiver, royalty);
+        }
+
+        // Transfert NFT vendeur -> acheteur
+        IERC721(nft_contract).safeTransferFrom(seller, buyer, token_id);
+
+        emit ItemSold(token_id, nft_contract, seller, buyer, price);
+    }
+
+    function _pay(address currency_address, address from, address to, uint256 amount) private returns (bool) {
+        IERC20 currency = IERC20(currency_address);
+        if (from == address(this)) return currency.transfer(to, amount);
+        return currency.transferFrom(from, to, amount);
+    }
+
+    // Royalty ERC-2981 du contrat NFT, plafonnée à maxRoyaltyBps et à ce qui reste après frais.
+    function _royalty(address nft_contract, uint256 token_id, uint256 price, uint256 available)
+        private
+        view
+        returns (address receiver, uint256 amount)
+    {
+        if (!ERC165Checker.supportsInterface(nft_contract, type(IERC2981).interfaceId)) return (address(0), 0);
+        (receiver, amount) = IERC2981(nft_contract).royaltyInfo(token_id, price);
+        if (receiver == address(0)) return (address(0), 0);
+
+        uint256 cap = (price * maxRoyaltyBps) / 10_000;
+        if (amount > cap) amount = cap;
+        if (amount > available) amount = available;
+    }
+
     /* ------------------------------- Views ----------------------------- */
 
     function get_listing(address nft_contract, uint256 token_id)
@@ -316,4 +699,54 @@ contract IPMarketplace is IIPMarketplace, Ownable, ReentrancyGuard {
     {
         return _listings[nft_contract][token_id];
     }
+
+    function get_offer(uint256 offer_id) external view override returns (CollectionOffer memory) {
+        return _offers[offer_id];
+    }
+
+    function hash_order(Order calldata order) public view override returns (bytes32) {
+        IPUsageRights calldata u = order.usage_rights;
+        DerivativeRights calldata d = order.derivative_rights;
+        bytes32 usageHash = keccak256(
+            abi.encode(
+                USAGE_RIGHTS_TYPEHASH,
+                u.commercial_use,
+                u.modifications_allowed,
+                u.attribution_required,
+                u.geographic_restrictions,
+                u.usage_duration,
+                u.sublicensing_allowed,
+                u.industry_restrictions
+            )
+        );
+        bytes32 derivativeHash = keccak256(
+            abi.encode(DERIVATIVE_RIGHTS_TYPEHASH, d.allowed, d.royalty_share, d.requires_approval, d.max_derivatives)
+        );
+        return _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    ORDER_TYPEHASH,
+                    order.maker,
+                    order.nft_contract,
+                    order.token_id,
+                    order.price,
+                    order.currency,
+                    order.expiry,
+                    order.nonce,
+                    order.metadata_hash,
+                    order.license_terms_hash,
+                    usageHash,
+                    derivativeHash
+                )
+            )
+        );
+    }
+
+    function order_status(bytes32 order_hash) external view override returns (OrderStatus) {
+        return _orderStatus[order_hash];
+    }
+
+    function min_nonce(address maker) external view override returns (uint256) {
+        return _minNonce[maker];
+    }
 }
@@ -0,0 +1,157 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { buildTraitTree, matchesTraits, readMetadataDir, traitProof } from "../utils/traits";
+
+const PRICE = 10_000n;
+const HOUR = 3600n;
+
+// 1, 3: fond bleu ; 2: fond rouge ; 4: bleu mais sans chapeau
+const METADATA: Record<number, object> = {
+  1: { name: "#1", attributes: [{ trait_type: "Background", value: "Blue" }, { trait_type: "Hat", value: "Cap" }] },
+  2: { name: "#2", attributes: [{ trait_type: "Background", value: "Red" }, { trait_type: "Hat", value: "Cap" }] },
+  3: { name: "#3", attributes: [{ trait_type: "Background", value: "blue" }, { trait_type: "Hat", value: "Crown" }] },
+  4: { name: "#4", attributes: [{ trait_type: "Background", value: "Blue" }] },
+};
+
+async function setup() {
+  const [deployer, buyer, alice, bob] = await ethers.getSigners();
+  const marketplace = await (await ethers.getContractFactory("IPMarketplace")).deploy(250);
+  const nft = await (await ethers.getContractFactory("MockERC721")).deploy("MIP", "MIP");
+  const currency = await (await ethers.getContractFactory("MockERC20")).deploy("STRK", "STRK");
+  const market = await marketplace.getAddress();
+
+  await nft.mintTo(alice.address, 1n);
+  await nft.mintTo(alice.address, 2n);
+  await nft.mintTo(bob.address, 3n);
+  await nft.mintTo(bob.address, 4n);
+  await nft.connect(alice).setApprovalForAll(market, true);
+  await nft.connect(bob).setApprovalForAll(market, true);
+  await currency.mint(buyer.address, 100_000n);
+  await currency.connect(buyer).approve(market, ethers.MaxUint256);
+
+  const expiry = BigInt(await time.latest()) + HOUR;
+  return { deployer, buyer, alice, bob, marketplace, nft, currency, market, expiry };
+}
+
+describe("IPMarketplace::collection & trait offers", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "traits-"));
+    for (const [id, md] of Object.entries(METADATA)) {
+      await fs.writeFile(path.join(dir, `${id}.json`), JSON.stringify(md));
+    }
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("offre de collection: séquestre, acceptation par n'importe quel détenteur, paiements", async () => {
+    const { deployer, buyer, alice, bob, marketplace, nft, currency, market, expiry } = await setup();
+    const nftAddr = await nft.getAddress();
+
+    await expect(marketplace.connect(buyer).make_collection_offer(nftAddr, PRICE, await currency.getAddress(), 2n, expiry))
+      .to.emit(marketplace, "OfferCreated")
+      .withArgs(1n, buyer.address, nftAddr, PRICE, await currency.getAddress(), 2n, expiry, ethers.ZeroHash);
+    expect(await currency.balanceOf(market)).to.equal(2n * PRICE);
+
+    await expect(marketplace.connect(bob).accept_offer(1n, 4n, []))
+      .to.emit(marketplace, "OfferAccepted")
+      .withArgs(1n, 4n, bob.address)
+      .and.to.emit(marketplace, "ItemSold")
+      .withArgs(4n, nftAddr, bob.address, buyer.address, PRICE);
+    await marketplace.connect(alice).accept_offer(1n, 2n, []);
+
+    expect(await nft.ownerOf(4n)).to.equal(buyer.address);
+    expect(await nft.ownerOf(2n)).to.equal(buyer.address);
+    expect(await currency.balanceOf(bob.address)).to.equal(9_750n);
+    expect(await currency.balanceOf(alice.address)).to.equal(9_750n);
+    expect(await currency.balanceOf(deployer.address)).to.equal(500n);
+    expect(await currency.balanceOf(market)).to.equal(0n);
+
+    const offer = await marketplace.get_offer(1n);
+    expect(offer.quantity).to.equal(0n);
+    expect(offer.active).to.equal(false);
+    await expect(marketplace.connect(alice).accept_offer(1n, 1n, [])).to.be.revertedWith("Offer not active");
+  });
+
+  it("offre de traits: seuls les tokens de l'arbre Merkle sont acceptés", async () => {
+    const { buyer, alice, bob, marketplace, nft, currency, expiry } = await setup();
+    const metadata = await readMetadataDir(dir);
+    const tree = buildTraitTree(metadata, { Background: "Blue", Hat: ["Cap", "Crown"] });
+    expect(tree.tokenIds).to.deep.equal(["1", "3"]);
+    expect(matchesTraits(metadata.get(4n)!, { Background: "Blue", Hat: "Cap" })).to.equal(false);
+
+    await marketplace
+      .connect(buyer)
+      .make_trait_offer(await nft.getAddress(), PRICE, await currency.getAddress(), 2n, expiry, tree.root);
+    expect((await marketplace.get_offer(1n)).trait_root).to.equal(tree.root);
+
+    // token 2 (fond rouge): aucune preuve valide, ni la sienne ni celle d'un autre token
+    expect(() => traitProof(tree, 2n)).to.throw(/hors de l'ensemble/);
+    await expect(marketplace.connect(alice).accept_offer(1n, 2n, traitProof(tree, 1n))).to.be.revertedWith(
+      "Token not in trait set"
+    );
+    // preuve valide mais token d'un autre détenteur
+    await expect(marketplace.connect(alice).accept_offer(1n, 3n, traitProof(tree, 3n))).to.be.revertedWith(
+      "Not token owner"
+    );
+
+    await marketplace.connect(alice).accept_offer(1n, 1n, traitProof(tree, 1n));
+    await marketplace.connect(bob).accept_offer(1n, 3n, traitProof(tree, 3n));
+    expect(await nft.ownerOf(1n)).to.equal(buyer.address);
+    expect(await nft.ownerOf(3n)).to.equal(buyer.address);
+  });
+
+  it("cancel_offer: rembourse le séquestre restant, même après expiration", async () => {
+    const { buyer, alice, marketplace, nft, currency, market, expiry } = await setup();
+    await marketplace.connect(buyer).make_collection_offer(await nft.getAddress(), PRICE, await currency.getAddress(), 3n, expiry);
+    await marketplace.connect(alice).accept_offer(1n, 1n, []);
+
+    await time.increase(Number(HOUR));
+    await expect(marketplace.connect(alice).accept_offer(1n, 2n, [])).to.be.revertedWith("Offer expired");
+    await expect(marketplace.connect(alice).cancel_offer(1n)).to.be.revertedWith("Not the buyer");
+
+    await expect(marketplace.connect(buyer).cancel_offer(1n))
+      .to.emit(marketplace, "OfferCancelled")
+      .withArgs(1n, 2n * PRICE);
+    expect(await currency.balanceOf(buyer.address)).to.equal(100_000n - PRICE);
+    expect(await currency.balanceOf(market)).to.equal(0n);
+    await expect(marketplace.connect(buyer).cancel_offer(1n)).to.be.revertedWith("Offer not active");
+  });
+
+  it("accept_offer: désactive l'annonce du vendeur et exige l'approbation", async () => {
+    const { buyer, alice, marketplace, nft, currency, market, expiry } = await setup();
+    const nftAddr = await nft.getAddress();
+    const usage = {
+      commercial_use: true,
+      modifications_allowed: false,
+      attribution_required: true,
+      geographic_restrictions: ethers.ZeroHash,
+      usage_duration: 0n,
+      sublicensing_allowed: false,
+      industry_restrictions: ethers.ZeroHash,
+    };
+    const derivative = { allowed: false, royalty_share: 0n, requires_approval: false, max_derivatives: 0n };
+    await marketplace
+      .connect(alice)
+      .list_item(nftAddr, 1n, 50_000n, await currency.getAddress(), ethers.ZeroHash, ethers.ZeroHash, usage, derivative);
+
+    await marketplace.connect(buyer).make_collection_offer(nftAddr, PRICE, await currency.getAddress(), 1n, expiry);
+    await expect(marketplace.connect(buyer).accept_offer(1n, 1n, [])).to.be.revertedWith("Buyer cannot accept");
+
+    await nft.connect(alice).setApprovalForAll(market, false);
+    await expect(marketplace.connect(alice).accept_offer(1n, 1n, [])).to.be.revertedWith("Not approved for marketplace");
+    await nft.connect(alice).approve(market, 1n);
+
+    await expect(marketplace.connect(alice).accept_offer(1n, 1n, []))
+      .to.emit(marketplace, "ItemUnlisted")
+      .withArgs(1n, nftAddr);
+    expect((await marketplace.get_listing(nftAddr, 1n)).active).to.equal(false);
+  });
+});
@@ -0,0 +1,172 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Order, hashOrder, orderDomain, signOrder, validateOrder } from "../utils/orders";
+
+const PRICE = 10_000n;
+const HOUR = 3600n;
+
+const usage_rights = {
+  commercial_use: true,
+  modifications_allowed: false,
+  attribution_required: true,
+  geographic_restrictions: ethers.toBeHex(1, 32),
+  usage_duration: 30n * 24n * HOUR,
+  sublicensing_allowed: false,
+  industry_restrictions: ethers.ZeroHash,
+};
+
+const derivative_rights = {
+  allowed: true,
+  royalty_share: 500n,
+  requires_approval: false,
+  max_derivatives: 3n,
+};
+
+async function setup() {
+  const [deployer, maker, buyer] = await ethers.getSigners();
+  const marketplace = await (await ethers.getContractFactory("IPMarketplace")).deploy(250);
+  const nft = await (await ethers.getContractFactory("MockERC721")).deploy("MIP", "MIP");
+  const currency = await (await ethers.getContractFactory("MockERC20")).deploy("STRK", "STRK");
+
+  await nft.mintTo(maker.address, 1n);
+  await nft.mintTo(maker.address, 2n);
+  await nft.connect(maker).setApprovalForAll(await marketplace.getAddress(), true);
+  await currency.mint(buyer.address, 100_000n);
+  await currency.connect(buyer).approve(await marketplace.getAddress(), ethers.MaxUint256);
+
+  const { chainId } = await ethers.provider.getNetwork();
+  const draft = async (token_id: bigint, extra: Partial<Order> = {}) => ({
+    nft_contract: await nft.getAddress(),
+    token_id,
+    price: PRICE,
+    currency: await currency.getAddress(),
+    expiry: BigInt(await time.latest()) + HOUR,
+    metadata_hash: ethers.id("metadata"),
+    license_terms_hash: ethers.id("terms"),
+    usage_rights,
+    derivative_rights,
+    ...extra,
+  });
+  const now = async () => BigInt(await time.latest());
+
+  return { deployer, maker, buyer, marketplace, nft, currency, chainId, draft, now };
+}
+
+describe("IPMarketplace::signed orders", () => {
+  it("fulfill_order: ordre signé hors-chaîne, paiements et annonce enregistrée", async () => {
+    const { deployer, maker, buyer, marketplace, nft, currency, chainId, draft, now } = await setup();
+    const signed = await signOrder(maker, marketplace, await draft(1n));
+
+    expect(signed.order.nonce).to.equal(0n);
+    expect(await marketplace.hash_order(signed.order)).to.equal(
+      hashOrder(await orderDomain(marketplace, chainId), signed.order)
+    );
+    expect(await validateOrder(signed, marketplace, nft, { chainId, now: await now() })).to.deep.equal([]);
+
+    await expect(marketplace.connect(buyer).fulfill_order(signed.order, signed.signature))
+      .to.emit(marketplace, "OrderFulfilled")
+      .withArgs(await marketplace.hash_order(signed.order), maker.address, buyer.address)
+      .and.to.emit(marketplace, "ItemSold")
+      .withArgs(1n, await nft.getAddress(), maker.address, buyer.address, PRICE);
+
+    expect(await nft.ownerOf(1n)).to.equal(buyer.address);
+    expect(await currency.balanceOf(maker.address)).to.equal(9_750n);
+    expect(await currency.balanceOf(deployer.address)).to.equal(250n);
+
+    const listing = await marketplace.get_listing(await nft.getAddress(), 1n);
+    expect(listing.seller).to.equal(maker.address);
+    expect(listing.active).to.equal(false);
+    expect(listing.metadata.license_terms).to.equal(ethers.id("terms"));
+    expect(listing.usage_rights.usage_duration).to.equal(usage_rights.usage_duration);
+    expect(listing.derivative_rights.royalty_share).to.equal(500n);
+
+    // rejouer l'ordre
+    expect(await marketplace.order_status(await marketplace.hash_order(signed.order))).to.equal(1n);
+    await expect(marketplace.connect(buyer).fulfill_order(signed.order, signed.signature)).to.be.revertedWith(
+      "Order not open"
+    );
+  });
+
+  it("fulfill_order: ordre modifié, expiré ou vendeur acheteur -> revert", async () => {
+    const { maker, buyer, marketplace, nft, chainId, draft, now } = await setup();
+    const signed = await signOrder(maker, marketplace, await draft(1n));
+
+    const tampered = { ...signed, order: { ...signed.order, price: 1n } };
+    expect(await validateOrder(tampered, marketplace, nft, { chainId, now: await now() })).to.deep.equal([
+      "signature invalide",
+    ]);
+    await expect(marketplace.connect(buyer).fulfill_order(tampered.order, signed.signature)).to.be.revertedWith(
+      "Invalid order signature"
+    );
+    await expect(marketplace.connect(maker).fulfill_order(signed.order, signed.signature)).to.be.revertedWith(
+      "Seller cannot buy"
+    );
+
+    await time.increase(Number(HOUR));
+    expect(await validateOrder(signed, marketplace, nft, { chainId, now: await now() })).to.deep.equal(["ordre expiré"]);
+    await expect(marketplace.connect(buyer).fulfill_order(signed.order, signed.signature)).to.be.revertedWith(
+      "Order expired"
+    );
+  });
+
+  it("fulfill_order: token transféré ou approbation retirée après signature -> revert", async () => {
+    const { deployer, maker, buyer, marketplace, nft, chainId, draft, now } = await setup();
+    const first = await signOrder(maker, marketplace, await draft(1n));
+    const second = await signOrder(maker, marketplace, await draft(2n));
+
+    await nft.connect(maker).transferFrom(maker.address, deployer.address, 1n);
+    expect(await validateOrder(first, marketplace, nft, { chainId, now: await now() })).to.deep.equal([
+      "le maker ne possède plus le token",
+    ]);
+    await expect(marketplace.connect(buyer).fulfill_order(first.order, first.signature)).to.be.revertedWith(
+      "Not token owner"
+    );
+
+    await nft.connect(maker).setApprovalForAll(await marketplace.getAddress(), false);
+    await expect(marketplace.connect(buyer).fulfill_order(second.order, second.signature)).to.be.revertedWith(
+      "Not approved for marketplace"
+    );
+  });
+
+  it("cancel_order: seul le maker annule un ordre précis", async () => {
+    const { maker, buyer, marketplace, draft } = await setup();
+    const signed = await signOrder(maker, marketplace, await draft(1n));
+    const orderHash = await marketplace.hash_order(signed.order);
+
+    await expect(marketplace.connect(buyer).cancel_order(signed.order)).to.be.revertedWith("Not the maker");
+    await expect(marketplace.connect(maker).cancel_order(signed.order))
+      .to.emit(marketplace, "OrderCancelled")
+      .withArgs(orderHash, maker.address);
+    expect(await marketplace.order_status(orderHash)).to.equal(2n);
+    await expect(marketplace.connect(buyer).fulfill_order(signed.order, signed.signature)).to.be.revertedWith(
+      "Order not open"
+    );
+  });
+
+  it("increase_min_nonce: annulation groupée des ordres de nonce inférieur", async () => {
+    const { maker, buyer, marketplace, nft, chainId, draft, now } = await setup();
+    const a = await signOrder(maker, marketplace, await draft(1n));
+    const b = await signOrder(maker, marketplace, { ...(await draft(2n)), nonce: 1n });
+
+    await expect(marketplace.connect(maker).increase_min_nonce(2n))
+      .to.emit(marketplace, "MinNonceIncreased")
+      .withArgs(maker.address, 2n);
+    await expect(marketplace.connect(maker).increase_min_nonce(2n)).to.be.revertedWith("Nonce not increased");
+
+    for (const stale of [a, b]) {
+      expect(await validateOrder(stale, marketplace, nft, { chainId, now: await now() })).to.deep.equal([
+        "nonce annulé (increase_min_nonce)",
+      ]);
+      await expect(marketplace.connect(buyer).fulfill_order(stale.order, stale.signature)).to.be.revertedWith(
+        "Order nonce cancelled"
+      );
+    }
+
+    // nouvel ordre: nonce courant lu on-chain
+    const fresh = await signOrder(maker, marketplace, await draft(1n));
+    expect(fresh.order.nonce).to.equal(2n);
+    await marketplace.connect(buyer).fulfill_order(fresh.order, fresh.signature);
+    expect(await nft.ownerOf(1n)).to.equal(buyer.address);
+  });
+});
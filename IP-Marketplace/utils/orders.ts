@@ -0,0 +1,153 @@
+import { TypedDataDomain, TypedDataEncoder, Signer, verifyTypedData } from "ethers";
+
+// Doit rester aligné avec EIP712("IPMarketplace", "1") et ORDER_TYPEHASH dans IPMarketplace.sol
+export const ORDER_DOMAIN_NAME = "IPMarketplace";
+export const ORDER_DOMAIN_VERSION = "1";
+
+export const ORDER_TYPES = {
+  Order: [
+    { name: "maker", type: "address" },
+    { name: "nft_contract", type: "address" },
+    { name: "token_id", type: "uint256" },
+    { name: "price", type: "uint256" },
+    { name: "currency", type: "address" },
+    { name: "expiry", type: "uint64" },
+    { name: "nonce", type: "uint256" },
+    { name: "metadata_hash", type: "bytes32" },
+    { name: "license_terms_hash", type: "bytes32" },
+    { name: "usage_rights", type: "IPUsageRights" },
+    { name: "derivative_rights", type: "DerivativeRights" },
+  ],
+  IPUsageRights: [
+    { name: "commercial_use", type: "bool" },
+    { name: "modifications_allowed", type: "bool" },
+    { name: "attribution_required", type: "bool" },
+    { name: "geographic_restrictions", type: "bytes32" },
+    { name: "usage_duration", type: "uint64" },
+    { name: "sublicensing_allowed", type: "bool" },
+    { name: "industry_restrictions", type: "bytes32" },
+  ],
+  DerivativeRights: [
+    { name: "allowed", type: "bool" },
+    { name: "royalty_share", type: "uint16" },
+    { name: "requires_approval", type: "bool" },
+    { name: "max_derivatives", type: "uint32" },
+  ],
+};
+
+export interface UsageRights {
+  commercial_use: boolean;
+  modifications_allowed: boolean;
+  attribution_required: boolean;
+  geographic_restrictions: string;
+  usage_duration: bigint;
+  sublicensing_allowed: boolean;
+  industry_restrictions: string;
+}
+
+export interface DerivativeRights {
+  allowed: boolean;
+  royalty_share: bigint;
+  requires_approval: boolean;
+  max_derivatives: bigint;
+}
+
+// Mêmes champs que IIPMarketplace.Order (noms snake_case: passé tel quel à fulfill_order)
+export interface Order {
+  maker: string;
+  nft_contract: string;
+  token_id: bigint;
+  price: bigint;
+  currency: string;
+  expiry: bigint;
+  nonce: bigint;
+  metadata_hash: string;
+  license_terms_hash: string;
+  usage_rights: UsageRights;
+  derivative_rights: DerivativeRights;
+}
+
+export interface SignedOrder {
+  order: Order;
+  signature: string;
+}
+
+// Sous-ensemble du contrat utilisé ici (évite la dépendance aux typechain-types)
+export interface OrderBookLike {
+  getAddress(): Promise<string>;
+  min_nonce(maker: string): Promise<bigint>;
+  order_status(orderHash: string): Promise<bigint>;
+}
+
+export interface Erc721Like {
+  ownerOf(tokenId: bigint): Promise<string>;
+  getApproved(tokenId: bigint): Promise<string>;
+  isApprovedForAll(owner: string, operator: string): Promise<boolean>;
+}
+
+export async function orderDomain(marketplace: OrderBookLike, chainId: bigint | number): Promise<TypedDataDomain> {
+  return {
+    name: ORDER_DOMAIN_NAME,
+    version: ORDER_DOMAIN_VERSION,
+    chainId,
+    verifyingContract: await marketplace.getAddress(),
+  };
+}
+
+// Même valeur que IPMarketplace.hash_order(order)
+export function hashOrder(domain: TypedDataDomain, order: Order): string {
+  return TypedDataEncoder.hash(domain, ORDER_TYPES, order);
+}
+
+// Signe un ordre pour `signer` (maker). Le nonce par défaut est min_nonce(maker):
+// un increase_min_nonce au-delà annule tous les ordres signés jusque-là.
+export async function signOrder(
+  signer: Signer,
+  marketplace: OrderBookLike,
+  order: Omit<Order, "maker" | "nonce"> & { nonce?: bigint }
+): Promise<SignedOrder> {
+  const maker = await signer.getAddress();
+  const full: Order = { ...order, maker, nonce: order.nonce ?? (await marketplace.min_nonce(maker)) };
+  const { chainId } = await signer.provider!.getNetwork();
+  const signature = await signer.signTypedData(await orderDomain(marketplace, chainId), ORDER_TYPES, full);
+  return { order: full, signature };
+}
+
+export const ORDER_STATUS = ["open", "filled", "cancelled"] as const;
+
+// Vérifie un ordre avant de l'exécuter, dans le même ordre que fulfill_order.
+// Renvoie la liste des problèmes (vide = exécutable). Signature: EOA uniquement (ERC-1271 vérifié on-chain).
+export async function validateOrder(
+  { order, signature }: SignedOrder,
+  marketplace: OrderBookLike,
+  nft: Erc721Like,
+  { chainId, now }: { chainId: bigint | number; now: bigint }
+): Promise<string[]> {
+  const errors: string[] = [];
+  const domain = await orderDomain(marketplace, chainId);
+  const orderHash = hashOrder(domain, order);
+
+  const status = ORDER_STATUS[Number(await marketplace.order_status(orderHash))];
+  if (status !== "open") errors.push(`ordre ${status}`);
+  if (order.nonce < (await marketplace.min_nonce(order.maker))) errors.push("nonce annulé (increase_min_nonce)");
+  if (now >= order.expiry) errors.push("ordre expiré");
+
+  let signer: string | undefined;
+  try {
+    signer = verifyTypedData(domain, ORDER_TYPES, order, signature);
+  } catch {
+    // signature mal formée
+  }
+  if (signer?.toLowerCase() !== order.maker.toLowerCase()) errors.push("signature invalide");
+
+  const marketAddress = await marketplace.getAddress();
+  if ((await nft.ownerOf(order.token_id)).toLowerCase() !== order.maker.toLowerCase()) {
+    errors.push("le maker ne possède plus le token");
+  } else if (
+    (await nft.getApproved(order.token_id)).toLowerCase() !== marketAddress.toLowerCase() &&
+    !(await nft.isApprovedForAll(order.maker, marketAddress))
+  ) {
+    errors.push("marketplace non approuvé");
+  }
+  return errors;
+}
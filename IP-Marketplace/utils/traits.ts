@@ -0,0 +1,87 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import { MerkleTree } from "merkletreejs";
+import keccak256 from "keccak256";
+
+// Format OpenSea: { "attributes": [{ "trait_type": "Background", "value": "Blue" }, …] }
+export interface TraitAttribute {
+  trait_type: string;
+  value: string | number | boolean;
+}
+
+export interface TokenMetadata {
+  name?: string;
+  attributes?: TraitAttribute[];
+  [key: string]: unknown;
+}
+
+// trait_type => valeur attendue (ou liste de valeurs acceptées). Tous les traits doivent correspondre.
+export type TraitFilter = Record<string, TraitAttribute["value"] | Array<TraitAttribute["value"]>>;
+
+export interface TraitTree {
+  root: string;
+  tokenIds: string[]; // décimal (JSON ne sait pas sérialiser bigint)
+  proofs: Record<string, string[]>;
+}
+
+// leaf = keccak256(abi.encodePacked(token_id)) — identique à IPMarketplace.accept_offer
+export function traitLeaf(tokenId: bigint | number | string): string {
+  return ethers.keccak256(ethers.solidityPacked(["uint256"], [tokenId]));
+}
+
+// Comparaison insensible à la casse (les valeurs de traits sont souvent saisies à la main).
+function sameValue(a: TraitAttribute["value"], b: TraitAttribute["value"]): boolean {
+  return String(a).trim().toLowerCase() === String(b).trim().toLowerCase();
+}
+
+export function matchesTraits(metadata: TokenMetadata, traits: TraitFilter): boolean {
+  const attributes = metadata.attributes ?? [];
+  return Object.entries(traits).every(([traitType, expected]) => {
+    const accepted = Array.isArray(expected) ? expected : [expected];
+    return attributes.some(
+      (a) => sameValue(a.trait_type, traitType) && accepted.some((v) => sameValue(a.value, v))
+    );
+  });
+}
+
+// Lit `<dir>/<tokenId>.json` (ou `<tokenId>` sans extension) ; les autres fichiers sont ignorés.
+export async function readMetadataDir(dir: string): Promise<Map<bigint, TokenMetadata>> {
+  const metadata = new Map<bigint, TokenMetadata>();
+  for (const file of await fs.readdir(dir)) {
+    const match = /^(\d+)(\.json)?$/.exec(file);
+    if (match === null) continue;
+    const content = await fs.readFile(path.join(dir, file), "utf8");
+    try {
+      metadata.set(BigInt(match[1]), JSON.parse(content));
+    } catch {
+      throw new Error(`${file}: JSON invalide`);
+    }
+  }
+  return metadata;
+}
+
+// Arbre compatible OpenZeppelin MerkleProof (paires triées) des tokens qui correspondent aux traits.
+export function buildTraitTree(metadata: Map<bigint, TokenMetadata>, traits: TraitFilter): TraitTree {
+  if (Object.keys(traits).length === 0) throw new Error("Aucun trait: utiliser une offre de collection");
+
+  const ids = [...metadata.entries()]
+    .filter(([, md]) => matchesTraits(md, traits))
+    .map(([id]) => id)
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  if (ids.length === 0) throw new Error("Aucun token ne correspond aux traits");
+
+  const leaves = ids.map((id) => Buffer.from(traitLeaf(id).slice(2), "hex"));
+  const tree = new MerkleTree(leaves, keccak256, { sortPairs: true });
+
+  const proofs: Record<string, string[]> = {};
+  ids.forEach((id, i) => (proofs[id.toString()] = tree.getHexProof(leaves[i])));
+
+  return { root: tree.getHexRoot(), tokenIds: ids.map(String), proofs };
+}
+
+export function traitProof(tree: TraitTree, tokenId: bigint | number | string): string[] {
+  const proof = tree.proofs[BigInt(tokenId).toString()];
+  if (proof === undefined) throw new Error(`Token ${tokenId} hors de l'ensemble de traits`);
+  return proof;
+}
@@ -86,6 +86,10 @@ contract ERC20Mock is IERC20 {
    IPNegotiationEscrow (traduction du contrat Cairo)
    - orderId: bytes32 (felt252 côté Cairo)
    - hash: keccak256(tokenId, orderCount, creator)
+   - livraison déclarée par le vendeur, paiement à
+     l'acceptation de l'acheteur ou après review_period
+   - litiges: fonds gelés, preuves par partie, décision
+     de l'arbitre (EOA ou multisig) en points de base
    ======================================================= */
 
 contract IPNegotiationEscrow {
@@ -111,15 +115,48 @@ contract IPNegotiationEscrow {
     mapping(bytes32 => bool) private depositDone;
     mapping(bytes32 => address) private orderBuyer;
 
+    struct Dispute {
+        address opened_by;
+        uint64 opened_at;
+        uint64 response_deadline; // litige du vendeur: l'acheteur doit répondre avant
+        bool buyer_responded;
+        bool resolved;
+        uint16 seller_bps;
+    }
+
+    uint16 private constant BPS = 10_000;
+
+    address public owner;           // nomme l'arbitre, règle les délais
+    address public arbitrator;      // EOA ou multisig
+    uint64 public response_period;  // délai de réponse de l'acheteur
+    uint64 public review_period;    // délai de contestation après la livraison
+
+    // order_id -> date de livraison déclarée par le vendeur (0 = non livrée)
+    mapping(bytes32 => uint64) public delivered_at;
+
+    mapping(bytes32 => Dispute) private disputes;
+    // order_id -> partie -> URIs de preuves
+    mapping(bytes32 => mapping(address => string[])) private evidence;
+
     event OrderCreated(bytes32 order_id, address creator, uint256 price, uint256 token_id);
     event FundsDeposited(bytes32 order_id, address buyer, uint256 amount);
+    event OrderDelivered(bytes32 order_id, uint64 delivered_at);
     event OrderFulfilled(bytes32 order_id, address seller, address buyer, uint256 token_id, uint256 price);
     event OrderCancelled(bytes32 order_id);
+    event DisputeOpened(bytes32 order_id, address opened_by, uint64 response_deadline);
+    event EvidenceSubmitted(bytes32 order_id, address party, string uri);
+    event DisputeResolved(bytes32 order_id, uint16 seller_bps, uint256 seller_amount, uint256 buyer_amount);
+    event FundsReleasedOnTimeout(bytes32 order_id, address seller, uint256 amount);
+    event ArbitratorUpdated(address previous, address arbitrator);
 
     constructor(address _tokenAddress) {
         erc20 = IERC20(_tokenAddress);
         token_address = _tokenAddress;
         order_count = 0;
+        owner = msg.sender;
+        arbitrator = msg.sender;
+        response_period = 3 days;
+        review_period = 7 days;
     }
 
     /// Create a new order for IP negotiation
@@ -188,24 +225,47 @@ contract IPNegotiationEscrow {
         emit FundsDeposited(order_id, msg.sender, o.price);
     }
 
-    /// Fulfill an order after funds have been deposited
+    /// Declare the IP delivered: the buyer then has review_period to accept or dispute
     /// Only creator (seller)
-    function fulfill_order(bytes32 order_id) external {
-        Order storage o = orders[order_id];
+    function mark_delivered(bytes32 order_id) external {
+        Order memory o = orders[order_id];
         require(o.id == order_id && order_id != bytes32(0), "Order does not exist");
         require(!o.fulfilled, "Order already fulfilled");
-        require(msg.sender == o.creator, "Only creator can fulfill order");
+        require(msg.sender == o.creator, "Only creator can deliver");
         require(depositDone[order_id], "No deposit");
+        require(!_inDispute(order_id), "Order is disputed");
+        require(delivered_at[order_id] == 0, "Already delivered");
 
-        address buyer = orderBuyer[order_id];
+        delivered_at[order_id] = uint64(block.timestamp);
+        emit OrderDelivered(order_id, uint64(block.timestamp));
+    }
 
-        // payer le vendeur
-        bool ok = erc20.transfer(o.creator, o.price);
-        require(ok, "ERC20 transfer failed");
+    /// Buyer accepts the delivery: the price is paid to the seller
+    function accept_delivery(bytes32 order_id) external {
+        Order storage o = orders[order_id];
+        require(o.id == order_id && order_id != bytes32(0), "Order does not exist");
+        require(!o.fulfilled, "Order already fulfilled");
+        require(msg.sender == orderBuyer[order_id], "Only buyer can accept");
+        require(delivered_at[order_id] != 0, "Order not delivered");
+        require(!_inDispute(order_id), "Order is disputed");
 
-        o.fulfilled = true;
+        _paySeller(o, order_id);
+    }
 
-        emit OrderFulfilled(order_id, o.creator, buyer, o.token_id, o.price);
+    /// Fulfill an order once the delivery went unchallenged for review_period
+    /// Only creator (seller)
+    function fulfill_order(bytes32 order_id) external {
+        Order storage o = orders[order_id];
+        require(o.id == order_id && order_id != bytes32(0), "Order does not exist");
+        require(!o.fulfilled, "Order already fulfilled");
+        require(msg.sender == o.creator, "Only creator can fulfill order");
+        require(depositDone[order_id], "No deposit");
+        require(!_inDispute(order_id), "Order is disputed");
+        uint64 delivered = delivered_at[order_id];
+        require(delivered != 0, "Order not delivered");
+        require(block.timestamp >= delivered + review_period, "Review period not over");
+
+        _paySeller(o, order_id);
     }
 
     /// Cancel an order
@@ -216,11 +276,144 @@ contract IPNegotiationEscrow {
         require(o.id == order_id && order_id != bytes32(0), "Order does not exist");
         require(!o.fulfilled, "Order already fulfilled");
         require(msg.sender == o.creator, "Only creator can cancel order");
+        require(!_inDispute(order_id), "Order is disputed");
 
         o.fulfilled = true;
         emit OrderCancelled(order_id);
     }
 
+    /* -------- Litiges -------- */
+
+    /// Open a dispute on a funded order: fulfill/cancel are frozen until the ruling.
+    /// Possible jusqu'à la fin de review_period après la livraison.
+    /// Ouvert par le vendeur, le litige est perdu par un acheteur qui ne dépose
+    /// aucune preuve avant response_deadline (voir release_to_seller).
+    function open_dispute(bytes32 order_id, string calldata evidence_uri) external {
+        Order memory o = orders[order_id];
+        require(o.id == order_id && order_id != bytes32(0), "Order does not exist");
+        require(!o.fulfilled, "Order already fulfilled");
+        require(depositDone[order_id], "No deposit");
+        require(disputes[order_id].opened_at == 0, "Dispute already opened");
+
+        bool isBuyer = msg.sender == orderBuyer[order_id];
+        require(isBuyer || msg.sender == o.creator, "Only order parties");
+        require(bytes(evidence_uri).length > 0, "Evidence required");
+        uint64 delivered = delivered_at[order_id];
+        require(delivered == 0 || block.timestamp < delivered + review_period, "Review period over");
+
+        uint64 deadline = uint64(block.timestamp) + response_period;
+        disputes[order_id] = Dispute({
+            opened_by: msg.sender,
+            opened_at: uint64(block.timestamp),
+            response_deadline: deadline,
+            buyer_responded: isBuyer,
+            resolved: false,
+            seller_bps: 0
+        });
+
+        emit DisputeOpened(order_id, msg.sender, deadline);
+        _addEvidence(order_id, evidence_uri);
+    }
+
+    /// Add an evidence URI (IPFS, ...) to an open dispute
+    function submit_evidence(bytes32 order_id, string calldata evidence_uri) external {
+        require(_inDispute(order_id), "No open dispute");
+        bool isBuyer = msg.sender == orderBuyer[order_id];
+        require(isBuyer || msg.sender == orders[order_id].creator, "Only order parties");
+        require(bytes(evidence_uri).length > 0, "Evidence required");
+
+        if (isBuyer) disputes[order_id].buyer_responded = true;
+        _addEvidence(order_id, evidence_uri);
+    }
+
+    /// Arbitrator ruling: seller_bps of the price to the seller, the rest back to the buyer
+    function resolve_dispute(bytes32 order_id, uint16 seller_bps) external {
+        require(msg.sender == arbitrator, "Only arbitrator");
+        require(_inDispute(order_id), "No open dispute");
+        require(seller_bps <= BPS, "Invalid split");
+
+        Order storage o = orders[order_id];
+        uint256 sellerAmount = (o.price * seller_bps) / BPS;
+        uint256 buyerAmount = o.price - sellerAmount;
+
+        Dispute storage d = disputes[order_id];
+        d.resolved = true;
+        d.seller_bps = seller_bps;
+        o.fulfilled = true; // libère le token pour un nouvel order
+
+        if (sellerAmount > 0) {
+            require(erc20.transfer(o.creator, sellerAmount), "ERC20 transfer failed");
+        }
+        if (buyerAmount > 0) {
+            require(erc20.transfer(orderBuyer[order_id], buyerAmount), "ERC20 transfer failed");
+        }
+
+        emit DisputeResolved(order_id, seller_bps, sellerAmount, buyerAmount);
+    }
+
+    /// Seller-opened dispute left unanswered by the buyer: anyone can release the price to the seller
+    function release_to_seller(bytes32 order_id) external {
+        require(_inDispute(order_id), "No open dispute");
+        Dispute storage d = disputes[order_id];
+        require(!d.buyer_responded, "Buyer responded");
+        require(block.timestamp >= d.response_deadline, "Response period not over");
+
+        Order storage o = orders[order_id];
+        d.resolved = true;
+        d.seller_bps = BPS;
+        o.fulfilled = true;
+
+        require(erc20.transfer(o.creator, o.price), "ERC20 transfer failed");
+
+        emit FundsReleasedOnTimeout(order_id, o.creator, o.price);
+        emit OrderFulfilled(order_id, o.creator, orderBuyer[order_id], o.token_id, o.price);
+    }
+
+    function set_arbitrator(address new_arbitrator) external {
+        require(msg.sender == owner, "Only owner");
+        require(new_arbitrator != address(0), "Arbitrator is zero");
+        emit ArbitratorUpdated(arbitrator, new_arbitrator);
+        arbitrator = new_arbitrator;
+    }
+
+    /// Applies to disputes opened afterwards
+    function set_response_period(uint64 period) external {
+        require(msg.sender == owner, "Only owner");
+        require(period > 0, "Invalid timeout");
+        response_period = period;
+    }
+
+    /// Applies to pending deliveries too
+    function set_review_period(uint64 period) external {
+        require(msg.sender == owner, "Only owner");
+        require(period > 0, "Invalid timeout");
+        review_period = period;
+    }
+
+    function get_dispute(bytes32 order_id) external view returns (Dispute memory) {
+        return disputes[order_id];
+    }
+
+    function get_evidence(bytes32 order_id, address party) external view returns (string[] memory) {
+        return evidence[order_id][party];
+    }
+
+    function _inDispute(bytes32 order_id) internal view returns (bool) {
+        Dispute storage d = disputes[order_id];
+        return d.opened_at != 0 && !d.resolved;
+    }
+
+    function _paySeller(Order storage o, bytes32 order_id) internal {
+        o.fulfilled = true;
+        require(erc20.transfer(o.creator, o.price), "ERC20 transfer failed");
+        emit OrderFulfilled(order_id, o.creator, orderBuyer[order_id], o.token_id, o.price);
+    }
+
+    function _addEvidence(bytes32 order_id, string calldata uri) internal {
+        evidence[order_id][msg.sender].push(uri);
+        emit EvidenceSubmitted(order_id, msg.sender, uri);
+    }
+
     /* -------- Helpers (facultatifs) -------- */
 
     function get_order_buyer(bytes32 order_id) external view returns (address) {
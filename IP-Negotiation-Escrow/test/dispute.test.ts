@@ -0,0 +1,106 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+const PRICE = 1_000n;
+const DAY = 24 * 60 * 60;
+
+describe("IPNegotiationEscrow disputes", () => {
+  async function fundedOrder() {
+    const [seller, buyer, arbitrator, other] = await ethers.getSigners();
+
+    const token = await (await ethers.getContractFactory("ERC20Mock")).deploy();
+    const escrow = await (await ethers.getContractFactory("IPNegotiationEscrow")).deploy(await token.getAddress());
+    await escrow.set_arbitrator(arbitrator.address);
+
+    await escrow.connect(seller).create_order(seller.address, PRICE, 1n);
+    const { id } = await escrow.get_order_by_token_id(1n);
+
+    await token.mint(buyer.address, PRICE);
+    await token.connect(buyer).approve(await escrow.getAddress(), PRICE);
+    await escrow.connect(buyer).deposit_funds(id);
+
+    return { seller, buyer, arbitrator, other, token, escrow, id };
+  }
+
+  it("open_dispute: parties only, after deposit; freezes fulfill and cancel", async () => {
+    const { seller, buyer, other, escrow, id } = await fundedOrder();
+
+    await expect(escrow.connect(other).open_dispute(id, "ipfs://x")).to.be.revertedWith("Only order parties");
+    await expect(escrow.connect(buyer).open_dispute(id, "")).to.be.revertedWith("Evidence required");
+
+    await expect(escrow.connect(buyer).open_dispute(id, "ipfs://not-delivered"))
+      .to.emit(escrow, "DisputeOpened")
+      .and.to.emit(escrow, "EvidenceSubmitted")
+      .withArgs(id, buyer.address, "ipfs://not-delivered");
+    await expect(escrow.connect(seller).open_dispute(id, "ipfs://y")).to.be.revertedWith("Dispute already opened");
+
+    await expect(escrow.connect(seller).fulfill_order(id)).to.be.revertedWith("Order is disputed");
+    await expect(escrow.connect(seller).cancel_order(id)).to.be.revertedWith("Order is disputed");
+
+    await escrow.connect(seller).submit_evidence(id, "ipfs://delivery-receipt");
+    expect(await escrow.get_evidence(id, seller.address)).to.deep.equal(["ipfs://delivery-receipt"]);
+    expect(await escrow.get_evidence(id, buyer.address)).to.deep.equal(["ipfs://not-delivered"]);
+  });
+
+  it("resolve_dispute: arbitrator splits the price and closes the order", async () => {
+    const { seller, buyer, arbitrator, token, escrow, id } = await fundedOrder();
+    await escrow.connect(buyer).open_dispute(id, "ipfs://partial-delivery");
+
+    await expect(escrow.connect(seller).resolve_dispute(id, 10_000)).to.be.revertedWith("Only arbitrator");
+    await expect(escrow.connect(arbitrator).resolve_dispute(id, 10_001)).to.be.revertedWith("Invalid split");
+
+    await expect(escrow.connect(arbitrator).resolve_dispute(id, 2_500))
+      .to.emit(escrow, "DisputeResolved")
+      .withArgs(id, 2_500, 250n, 750n);
+    expect(await token.balanceOf(seller.address)).to.equal(250n);
+    expect(await token.balanceOf(buyer.address)).to.equal(750n);
+    expect((await escrow.get_order(id)).fulfilled).to.equal(true);
+
+    await expect(escrow.connect(arbitrator).resolve_dispute(id, 0)).to.be.revertedWith("No open dispute");
+    // token libre pour un nouvel order
+    await escrow.connect(seller).create_order(seller.address, PRICE, 1n);
+  });
+
+  it("release_to_seller: only when the buyer stays silent past the deadline", async () => {
+    const { seller, token, escrow, id } = await fundedOrder();
+    await escrow.set_response_period(DAY);
+    await escrow.connect(seller).open_dispute(id, "ipfs://delivered");
+
+    await expect(escrow.release_to_seller(id)).to.be.revertedWith("Response period not over");
+    await time.increase(DAY);
+    await expect(escrow.release_to_seller(id))
+      .to.emit(escrow, "FundsReleasedOnTimeout")
+      .withArgs(id, seller.address, PRICE);
+    expect(await token.balanceOf(seller.address)).to.equal(PRICE);
+    expect((await escrow.get_dispute(id)).seller_bps).to.equal(10_000n);
+
+    // l'acheteur qui répond garde la main jusqu'à la décision de l'arbitre
+    const second = await fundedOrder();
+    await second.escrow.connect(second.seller).open_dispute(second.id, "ipfs://delivered");
+    await second.escrow.connect(second.buyer).submit_evidence(second.id, "ipfs://corrupted-file");
+    await time.increase(30 * DAY);
+    await expect(second.escrow.release_to_seller(second.id)).to.be.revertedWith("Buyer responded");
+  });
+
+  it("open_dispute after delivery: freezes the payout until the ruling", async () => {
+    const { seller, buyer, arbitrator, token, escrow, id } = await fundedOrder();
+    await escrow.connect(seller).mark_delivered(id);
+    await escrow.connect(buyer).open_dispute(id, "ipfs://wrong-file");
+
+    await time.increase(await escrow.review_period());
+    await expect(escrow.connect(seller).fulfill_order(id)).to.be.revertedWith("Order is disputed");
+    await expect(escrow.connect(buyer).accept_delivery(id)).to.be.revertedWith("Order is disputed");
+    await escrow.connect(arbitrator).resolve_dispute(id, 0);
+    expect(await token.balanceOf(buyer.address)).to.equal(PRICE);
+  });
+
+  it("admin: only owner sets arbitrator and timeouts", async () => {
+    const { other, escrow } = await fundedOrder();
+    await expect(escrow.connect(other).set_arbitrator(other.address)).to.be.revertedWith("Only owner");
+    await expect(escrow.connect(other).set_response_period(1)).to.be.revertedWith("Only owner");
+    await expect(escrow.connect(other).set_review_period(1)).to.be.revertedWith("Only owner");
+    await expect(escrow.set_review_period(0)).to.be.revertedWith("Invalid timeout");
+    await expect(escrow.set_arbitrator(ethers.ZeroAddress)).to.be.revertedWith("Arbitrator is zero");
+  });
+});
@@ -1,5 +1,6 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 
 function computeOrderId(tokenId: bigint, orderCount: bigint, creator: string): string {
   // keccak256(abi.encodePacked(tokenId, orderCount, creator))
@@ -86,9 +87,9 @@ describe("IPNegotiationEscrow", () => {
       "Creator cannot buy own IP"
     );
 
-    // without approve -> fail
+    // without approve -> fail (le mock revert au lieu de renvoyer false)
     await expect(escrow.connect(buyer).deposit_funds(order.id)).to.be.revertedWith(
-      "ERC20 transfer failed"
+      "amount exceeds allowance"
     );
 
     // approve then deposit
@@ -107,7 +108,7 @@ describe("IPNegotiationEscrow", () => {
     );
   });
 
-  it("fulfill_order: only creator; requires deposit; pays seller; marks fulfilled; emits", async () => {
+  it("fulfill_order: only creator; requires deposit and an unchallenged delivery; pays seller; emits", async () => {
     const { seller, buyer, token, escrow } = await deployFixture();
     const tokenId = 99n;
     const price = 1_234n;
@@ -128,6 +129,15 @@ describe("IPNegotiationEscrow", () => {
       "Only creator can fulfill order"
     );
 
+    // the seller cannot take the escrow before delivery + review period
+    await expect(escrow.connect(seller).fulfill_order(order.id)).to.be.revertedWith("Order not delivered");
+    await expect(escrow.connect(buyer).mark_delivered(order.id)).to.be.revertedWith("Only creator can deliver");
+    const delivery = await escrow.connect(seller).mark_delivered(order.id);
+    await expect(delivery).to.emit(escrow, "OrderDelivered").withArgs(order.id, await time.latest());
+    await expect(escrow.connect(seller).mark_delivered(order.id)).to.be.revertedWith("Already delivered");
+    await expect(escrow.connect(seller).fulfill_order(order.id)).to.be.revertedWith("Review period not over");
+
+    await time.increase(await escrow.review_period());
     const sellerBefore = await token.balanceOf(seller.address);
 
     await expect(escrow.connect(seller).fulfill_order(order.id))
@@ -148,6 +158,32 @@ describe("IPNegotiationEscrow", () => {
     );
   });
 
+  it("accept_delivery: the buyer releases the price early; disputes close with the review period", async () => {
+    const { seller, buyer, token, escrow } = await deployFixture();
+    const price = 500n;
+    await token.mint(buyer.address, 2n * price);
+    await token.connect(buyer).approve(await escrow.getAddress(), 2n * price);
+
+    await escrow.connect(seller).create_order(seller.address, price, 1n);
+    const first = await escrow.get_order_by_token_id(1n);
+    await escrow.connect(buyer).deposit_funds(first.id);
+    await expect(escrow.connect(buyer).accept_delivery(first.id)).to.be.revertedWith("Order not delivered");
+    await escrow.connect(seller).mark_delivered(first.id);
+    await expect(escrow.connect(seller).accept_delivery(first.id)).to.be.revertedWith("Only buyer can accept");
+    await expect(escrow.connect(buyer).accept_delivery(first.id))
+      .to.emit(escrow, "OrderFulfilled")
+      .withArgs(first.id, seller.address, buyer.address, 1n, price);
+    expect(await token.balanceOf(seller.address)).to.equal(price);
+
+    // past the review period the buyer can no longer dispute
+    await escrow.connect(seller).create_order(seller.address, price, 2n);
+    const second = await escrow.get_order_by_token_id(2n);
+    await escrow.connect(buyer).deposit_funds(second.id);
+    await escrow.connect(seller).mark_delivered(second.id);
+    await time.increase(await escrow.review_period());
+    await expect(escrow.connect(buyer).open_dispute(second.id, "ipfs://late")).to.be.revertedWith("Review period over");
+  });
+
   it("cancel_order: only creator; marks fulfilled; blocks further deposit", async () => {
     const { seller, buyer, token, escrow } = await deployFixture();
     const tokenId = 123n;
@@ -1,64 +1,132 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import {ERC721Enumerable} from "@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol";
+
+/* ─────────────────────────── Gated content check ─────────────────────────── */
+// Minimal view for other contracts: does `user` hold an active tier >= min_tier for `creator`?
+interface ISubscriptionAccess {
+    function has_access(address creator, address user, uint256 min_tier) external view returns (bool);
+}
+
 /* ───────────────────────────── Interface (1:1) ───────────────────────────── */
-interface ISubscription {
-    function create_plan(uint256 price, uint64 duration, uint256 tier) external returns (uint256);
+interface ISubscription is ISubscriptionAccess {
+    function create_plan(
+        uint256 price,
+        uint64 duration,
+        uint256 tier,
+        address payment_token,
+        address payout,
+        bool transferable
+    ) external returns (uint256);
     function subscribe(uint256 plan_id) external;
     function unsubscribe(uint256 plan_id) external;
-    function renew_subscription() external;
+    function renew_subscription(address creator) external;
     function upgrade_subscription(uint256 new_plan_id) external;
     function get_subscription_status() external view returns (bool);
     function get_plan_details(uint256 plan_id) external view returns (uint256 price, uint64 duration, uint256 tier);
     function get_user_plan_ids() external view returns (uint256[] memory);
+
+    // Payments & auto-renewal
+    function set_auto_renew(address creator, bool enabled) external;
+    function process_renewal(uint256 pass_id) external returns (bool);
+    function set_grace_period(uint64 grace_period) external;
+    function get_plan_payment(uint256 plan_id) external view returns (address payment_token, address payout);
+    function renewal_due(uint256 pass_id) external view returns (bool);
+
+    // Creator catalogs & passes
+    function set_plan_available(uint256 plan_id, bool available) external;
+    function get_creator_plans(address creator) external view returns (uint256[] memory);
+    function pass_of(address creator, address holder) external view returns (uint256);
 }
 
 /* ────────────────────────────────── Contract ─────────────────────────────── */
-contract Subscription is ISubscription {
+// Each subscription is an ERC-721 pass (one per creator and holder). Passes of
+// `transferable` plans can change hands: the new holder gets the access and pays renewals.
+contract Subscription is ISubscription, ERC721Enumerable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
     /* ------------------------------- Storage -------------------------------- */
     struct SubscriptionPlan {
         uint256 price;
         uint64  duration; // seconds
-        uint256 tier;     // felt252 -> uint256
+        uint256 tier;     // felt252 -> uint256; higher tiers include lower ones
+        address payment_token; // ERC20 charged every period
+        address payout;        // creator address receiving payments
+        address creator;       // catalog owner
+        bool    transferable;  // passes can be transferred as ERC-721
+        bool    available;     // open to new subscriptions (existing ones keep running)
     }
 
     struct SubscriberInfo {
+        uint256 plan_id;
         uint64 subscription_start;
         uint64 subscription_end;
         bool   active;
+        bool   auto_renew; // keeper-triggered renewals (requires a prior allowance)
     }
 
     // plan_id => plan
     mapping(uint256 => SubscriptionPlan) private subscription_plans;
 
-    // user => info
-    mapping(address => SubscriberInfo) private subscribers;
+    // creator => plan ids of its catalog
+    mapping(address => uint256[]) private creator_plans;
+
+    // pass_id => subscription
+    mapping(uint256 => SubscriberInfo) private passes;
 
-    // contract owner (can create plans)
+    // creator => holder => pass_id (0 = none)
+    mapping(address => mapping(address => uint256)) private pass_ids;
+
+    uint256 public next_pass_id = 1;
+
+    // contract owner (platform settings)
     address public owner;
 
-    // user => list of subscribed plan ids (history / current)
-    mapping(address => uint256[]) private subscriber_plan_ids;
+    // time after subscription_end during which the subscription stays active and renewable
+    uint64 public grace_period = 3 days;
 
     /* -------------------------------- Events -------------------------------- */
-    event PlanCreated(uint256 plan_id, uint256 price, uint64 duration, uint256 tier);
+    event PlanCreated(uint256 plan_id, uint256 price, uint64 duration, uint256 tier, address indexed creator);
+    event PlanAvailabilityUpdated(uint256 indexed plan_id, bool available);
     event Subscribed(address indexed subscriber, uint256 plan_id);
     event Unsubscribed(address indexed subscriber, uint256 plan_id);
     event SubscriptionRenewed(address indexed subscriber);
     event SubscriptionUpgraded(address indexed subscriber, uint256 new_plan_id);
+    event PaymentCollected(address indexed subscriber, uint256 indexed plan_id, address payout, uint256 amount);
+    event AutoRenewSet(address indexed subscriber, address indexed creator, bool enabled);
+    event RenewalFailed(address indexed subscriber, uint256 plan_id);
+    event SubscriptionLapsed(address indexed subscriber, uint256 plan_id);
+    event GracePeriodUpdated(uint64 grace_period);
 
     /* ------------------------------- Init ----------------------------------- */
-    constructor(address _owner) {
+    constructor(address _owner) ERC721("Subscription Pass", "SUBPASS") {
         owner = _owner;
     }
 
     /* ---------------------------- Public API (1:1) -------------------------- */
 
-    // Only owner can create a plan. plan_id is pseudo-random from block data + inputs.
-    function create_plan(uint256 price, uint64 duration, uint256 tier) external returns (uint256) {
-        require(msg.sender == owner, "Only owner can create plans");
-
-        uint256 plan_id = _generate_plan_id(price, duration, tier);
+    // Any address can add a plan to its own catalog. plan_id is derived from the creator
+    // and the catalog size, so catalogs never collide.
+    function create_plan(
+        uint256 price,
+        uint64 duration,
+        uint256 tier,
+        address payment_token,
+        address payout,
+        bool transferable
+    ) external returns (uint256) {
+        require(price != 0, "Price is zero");
+        require(duration != 0, "Duration is zero");
+        require(payment_token != address(0), "Invalid payment token");
+        require(payout != address(0), "Invalid payout address");
+
+        address creator = msg.sender;
+        uint256 plan_id = _generate_plan_id(creator);
 
         // in Cairo: assert plan doesn't exist by checking stored price == 0
         require(subscription_plans[plan_id].price == 0, "Plan already exists");
@@ -66,112 +134,195 @@ contract Subscription is ISubscription {
         subscription_plans[plan_id] = SubscriptionPlan({
             price: price,
             duration: duration,
-            tier: tier
+            tier: tier,
+            payment_token: payment_token,
+            payout: payout,
+            creator: creator,
+            transferable: transferable,
+            available: true
         });
+        creator_plans[creator].push(plan_id);
 
-        emit PlanCreated(plan_id, price, duration, tier);
+        emit PlanCreated(plan_id, price, duration, tier, creator);
         return plan_id;
     }
 
-    // Subscribe caller to a plan
-    function subscribe(uint256 plan_id) external {
+    // Retire a plan from (or put it back in) the catalog
+    function set_plan_available(uint256 plan_id, bool available) external {
+        SubscriptionPlan storage plan = subscription_plans[plan_id];
+        require(plan.price != 0, "Plan does not exist");
+        require(plan.creator == msg.sender, "Not plan creator");
+
+        plan.available = available;
+        emit PlanAvailabilityUpdated(plan_id, available);
+    }
+
+    // Subscribe caller to a plan (pays the first period). Mints the caller's pass for the
+    // plan's creator, or reuses it once the previous subscription has lapsed.
+    function subscribe(uint256 plan_id) external nonReentrant {
         SubscriptionPlan memory plan = subscription_plans[plan_id];
         require(plan.price != 0, "Plan does not exist");
+        require(plan.available, "Plan not available");
 
         address caller = msg.sender;
         uint64 nowTs = uint64(block.timestamp);
 
-        SubscriberInfo memory info = subscribers[caller];
-        if (!info.active) {
-            info = SubscriberInfo({
-                subscription_start: nowTs,
-                subscription_end: 0,
-                active: true
-            });
+        uint256 pass_id = pass_ids[plan.creator][caller];
+        bool mint = pass_id == 0;
+        if (mint) {
+            pass_id = next_pass_id++;
+        } else {
+            require(!_is_live(passes[pass_id]), "Already subscribed to creator");
         }
 
-        // write current state
-        subscribers[caller] = info;
-
-        // append plan id to user's list
-        subscriber_plan_ids[caller].push(plan_id);
-
-        // update end with current plan duration (then persist)
-        info.subscription_end = nowTs + plan.duration;
-        subscribers[caller] = info;
+        // written before minting: _update reads the plan's creator from the pass
+        passes[pass_id] = SubscriberInfo({
+            plan_id: plan_id,
+            subscription_start: nowTs,
+            subscription_end: nowTs + plan.duration,
+            active: true,
+            auto_renew: false
+        });
+        if (mint) _safeMint(caller, pass_id);
 
+        _charge(caller, plan_id, plan, plan.price);
         emit Subscribed(caller, plan_id);
     }
 
-    // Unsubscribe caller from a specific plan (removes one occurrence)
+    // Unsubscribe caller from a specific plan: burns the pass (no refund)
     function unsubscribe(uint256 plan_id) external {
         address caller = msg.sender;
-        uint256[] storage ids = subscriber_plan_ids[caller];
-
-        // find index
-        uint256 idx = type(uint256).max;
-        for (uint256 i = 0; i < ids.length; i++) {
-            if (ids[i] == plan_id) {
-                idx = i;
-                break;
-            }
-        }
-        require(idx != type(uint256).max, "Not subscribed to this plan");
-
-        // remove by swap&pop
-        ids[idx] = ids[ids.length - 1];
-        ids.pop();
+        uint256 pass_id = pass_ids[subscription_plans[plan_id].creator][caller];
+        require(
+            pass_id != 0 && passes[pass_id].active && passes[pass_id].plan_id == plan_id,
+            "Not subscribed to this plan"
+        );
 
-        if (ids.length == 0) {
-            subscribers[caller].active = false;
-        }
+        _burn(pass_id);
+        delete passes[pass_id];
 
         emit Unsubscribed(caller, plan_id);
     }
 
-    // Renew current subscription (assumes the first plan is the one to renew in Cairo)
-    function renew_subscription() external {
+    // Renew the caller's subscription to `creator`, paid by the caller.
+    // Extends from subscription_end while within the grace period.
+    function renew_subscription(address creator) external nonReentrant {
         address caller = msg.sender;
-        SubscriberInfo memory info = subscribers[caller];
+        uint256 pass_id = pass_ids[creator][caller];
+        SubscriberInfo storage info = passes[pass_id];
+        require(pass_id != 0 && info.active, "Not currently subscribed");
+
+        uint256 plan_id = info.plan_id;
+        SubscriptionPlan memory plan = subscription_plans[plan_id];
+
+        info.subscription_end = _next_end(info.subscription_end, plan.duration);
+
+        _charge(caller, plan_id, plan, plan.price);
+        emit SubscriptionRenewed(caller);
+    }
+
+    // Opt in/out of keeper-triggered renewals (payment token allowance must cover them)
+    function set_auto_renew(address creator, bool enabled) external {
+        uint256 pass_id = pass_ids[creator][msg.sender];
+        require(pass_id != 0 && passes[pass_id].active, "Not currently subscribed");
+        passes[pass_id].auto_renew = enabled;
+        emit AutoRenewSet(msg.sender, creator, enabled);
+    }
+
+    // Keeper entry point: anyone may renew a lapsed auto-renew pass, charged to its holder.
+    // A failed payment does not revert (RenewalFailed) so it can be retried during the grace
+    // period; past it, the subscription is closed (SubscriptionLapsed).
+    function process_renewal(uint256 pass_id) external nonReentrant returns (bool) {
+        SubscriberInfo storage info = passes[pass_id];
         require(info.active, "Not currently subscribed");
+        require(info.auto_renew, "Auto-renew disabled");
+        require(block.timestamp >= info.subscription_end, "Renewal not due");
 
-        uint256[] storage ids = subscriber_plan_ids[caller];
-        require(ids.length > 0, "Not currently subscribed");
+        address holder = ownerOf(pass_id);
+        uint256 plan_id = info.plan_id;
+        SubscriptionPlan memory plan = subscription_plans[plan_id];
 
-        uint256 plan_id = ids[0];
-        uint64 duration = subscription_plans[plan_id].duration;
+        if (block.timestamp >= uint256(info.subscription_end) + grace_period) {
+            info.active = false;
+            info.auto_renew = false;
+            emit SubscriptionLapsed(holder, plan_id);
+            return false;
+        }
 
-        info.subscription_end = uint64(block.timestamp) + duration;
-        subscribers[caller] = info;
+        if (!_try_transfer_from(plan.payment_token, holder, plan.payout, plan.price)) {
+            emit RenewalFailed(holder, plan_id);
+            return false;
+        }
 
-        emit SubscriptionRenewed(caller);
+        info.subscription_end += plan.duration;
+        emit PaymentCollected(holder, plan_id, plan.payout, plan.price);
+        emit SubscriptionRenewed(holder);
+        return true;
     }
 
-    // Upgrade to a new plan: replace the list with only new_plan_id, reset start/end
-    function upgrade_subscription(uint256 new_plan_id) external {
+    // Switch to another plan of the same creator: reset start/end.
+    // The unused part of the current period is credited (same payment token only).
+    function upgrade_subscription(uint256 new_plan_id) external nonReentrant {
         address caller = msg.sender;
-        SubscriberInfo memory info = subscribers[caller];
-        require(info.active, "Not currently subscribed");
-        require(subscription_plans[new_plan_id].price != 0, "Plan does not exist");
+        SubscriptionPlan memory plan = subscription_plans[new_plan_id];
+        require(plan.price != 0, "Plan does not exist");
+        require(plan.available, "Plan not available");
 
-        uint64 nowTs = uint64(block.timestamp);
-        uint64 duration = subscription_plans[new_plan_id].duration;
+        uint256 pass_id = pass_ids[plan.creator][caller];
+        SubscriberInfo storage info = passes[pass_id];
+        require(pass_id != 0 && info.active, "Not currently subscribed");
 
-        // clear list
-        delete subscriber_plan_ids[caller];
-        // add the new plan
-        subscriber_plan_ids[caller].push(new_plan_id);
+        uint64 nowTs = uint64(block.timestamp);
+        uint256 credit = _prorated_credit(info, plan.payment_token);
+        uint256 due = plan.price > credit ? plan.price - credit : 0;
 
+        info.plan_id = new_plan_id;
         info.subscription_start = nowTs;
-        info.subscription_end   = nowTs + duration;
-        subscribers[caller] = info;
+        info.subscription_end   = nowTs + plan.duration;
 
+        _charge(caller, new_plan_id, plan, due);
         emit SubscriptionUpgraded(caller, new_plan_id);
     }
 
-    // View: current caller status
+    function set_grace_period(uint64 new_grace_period) external {
+        require(msg.sender == owner, "Only owner can set grace period");
+        grace_period = new_grace_period;
+        emit GracePeriodUpdated(new_grace_period);
+    }
+
+    // View: true if `user` holds a live pass for `creator` whose plan tier is >= min_tier
+    function has_access(address creator, address user, uint256 min_tier) external view returns (bool) {
+        uint256 pass_id = pass_ids[creator][user];
+        if (pass_id == 0) return false;
+        SubscriberInfo memory info = passes[pass_id];
+        return _is_live(info) && subscription_plans[info.plan_id].tier >= min_tier;
+    }
+
+    // View: caller holds at least one live pass (active until the end of the grace period)
     function get_subscription_status() external view returns (bool) {
-        return subscribers[msg.sender].active;
+        uint256 n = balanceOf(msg.sender);
+        for (uint256 i = 0; i < n; i++) {
+            if (_is_live(passes[tokenOfOwnerByIndex(msg.sender, i)])) return true;
+        }
+        return false;
+    }
+
+    // View: full pass record (keepers, dashboards)
+    function get_subscriber_info(uint256 pass_id) external view returns (SubscriberInfo memory) {
+        return passes[pass_id];
+    }
+
+    function pass_of(address creator, address holder) external view returns (uint256) {
+        return pass_ids[creator][holder];
+    }
+
+    // View: true when process_renewal would attempt a payment
+    function renewal_due(uint256 pass_id) external view returns (bool) {
+        SubscriberInfo memory info = passes[pass_id];
+        return info.active
+            && info.auto_renew
+            && block.timestamp >= info.subscription_end
+            && block.timestamp < uint256(info.subscription_end) + grace_period;
     }
 
     // View: plan details
@@ -180,18 +331,95 @@ contract Subscription is ISubscription {
         return (p.price, p.duration, p.tier);
     }
 
-    // View: caller's plan ids (copy of the dynamic array)
+    // View: plan payment token and payout address
+    function get_plan_payment(uint256 plan_id) external view returns (address, address) {
+        SubscriptionPlan memory p = subscription_plans[plan_id];
+        return (p.payment_token, p.payout);
+    }
+
+    // View: full plan record
+    function get_plan(uint256 plan_id) external view returns (SubscriptionPlan memory) {
+        return subscription_plans[plan_id];
+    }
+
+    // View: creator catalog (including unavailable plans)
+    function get_creator_plans(address creator) external view returns (uint256[] memory) {
+        return creator_plans[creator];
+    }
+
+    // View: plan ids of the caller's active passes (one per creator)
     function get_user_plan_ids() external view returns (uint256[] memory) {
-        uint256[] storage s = subscriber_plan_ids[msg.sender];
-        uint256[] memory out = new uint256[](s.length);
-        for (uint256 i = 0; i < s.length; i++) out[i] = s[i];
+        uint256 n = balanceOf(msg.sender);
+        uint256[] memory tmp = new uint256[](n);
+        uint256 count = 0;
+        for (uint256 i = 0; i < n; i++) {
+            SubscriberInfo memory info = passes[tokenOfOwnerByIndex(msg.sender, i)];
+            if (info.active) tmp[count++] = info.plan_id;
+        }
+        uint256[] memory out = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) out[i] = tmp[i];
         return out;
     }
 
+    /* --------------------------------- ERC-721 -------------------------------- */
+
+    // Keeps pass_ids in sync; transfers only for transferable plans and to addresses
+    // without a pass for the same creator. Auto-renew is reset for the new holder.
+    function _update(address to, uint256 token_id, address auth) internal override returns (address from) {
+        from = super._update(to, token_id, auth);
+        SubscriptionPlan memory plan = subscription_plans[passes[token_id].plan_id];
+
+        if (from != address(0) && to != address(0)) {
+            require(plan.transferable, "Pass not transferable");
+            passes[token_id].auto_renew = false;
+        }
+        if (from != address(0)) delete pass_ids[plan.creator][from];
+        if (to != address(0)) {
+            require(pass_ids[plan.creator][to] == 0, "Recipient already subscribed");
+            pass_ids[plan.creator][to] = token_id;
+        }
+    }
+
     /* -------------------------------- Helpers -------------------------------- */
 
-    // Mimic Cairo's "random felt" with keccak256 over the same entropy sources.
-    function _generate_plan_id(uint256 price, uint64 duration, uint256 tier) internal view returns (uint256) {
-        return uint256(keccak256(abi.encode(block.number, block.timestamp, price, duration, tier)));
+    // Active and not past the grace period (a lapsed pass may not have been closed by a keeper yet)
+    function _is_live(SubscriberInfo memory info) internal view returns (bool) {
+        return info.active && block.timestamp < uint256(info.subscription_end) + grace_period;
+    }
+
+    // Pulls `amount` of the plan token from the subscriber to the plan payout (reverts on failure).
+    function _charge(address subscriber, uint256 plan_id, SubscriptionPlan memory plan, uint256 amount) internal {
+        if (amount == 0) return;
+        IERC20(plan.payment_token).safeTransferFrom(subscriber, plan.payout, amount);
+        emit PaymentCollected(subscriber, plan_id, plan.payout, amount);
+    }
+
+    // Like safeTransferFrom, but returns false instead of reverting when the transfer fails.
+    function _try_transfer_from(address token, address from, address to, uint256 amount) internal returns (bool) {
+        (bool ok, bytes memory ret) = token.call(abi.encodeCall(IERC20.transferFrom, (from, to, amount)));
+        return ok && (ret.length == 0 ? token.code.length > 0 : abi.decode(ret, (bool)));
+    }
+
+    // Renewal stays contiguous while within the grace period, otherwise restarts now.
+    function _next_end(uint64 current_end, uint64 duration) internal view returns (uint64) {
+        uint64 nowTs = uint64(block.timestamp);
+        if (nowTs < current_end + grace_period) return current_end + duration;
+        return nowTs + duration;
+    }
+
+    // Value of the remaining time of the current plan, in the new plan's token.
+    function _prorated_credit(SubscriberInfo memory info, address payment_token) internal view returns (uint256) {
+        if (info.subscription_end <= block.timestamp) return 0;
+
+        SubscriptionPlan memory current = subscription_plans[info.plan_id];
+        if (current.payment_token != payment_token) return 0;
+
+        uint256 remaining = info.subscription_end - block.timestamp;
+        return (current.price * remaining) / current.duration;
+    }
+
+    // Deterministic per-creator id: keccak256(creator, catalog index).
+    function _generate_plan_id(address creator) internal view returns (uint256) {
+        return uint256(keccak256(abi.encode(creator, creator_plans[creator].length)));
     }
 }
@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ISubscriptionAccess} from "../Subscription.sol";
+
+// Test-only consumer of has_access: content reserved to tier >= min_tier subscribers of `creator`
+contract GatedContentMock {
+    ISubscriptionAccess public immutable subscription;
+    address public immutable creator;
+    uint256 public immutable min_tier;
+
+    constructor(ISubscriptionAccess subscription_, address creator_, uint256 min_tier_) {
+        subscription = subscription_;
+        creator = creator_;
+        min_tier = min_tier_;
+    }
+
+    function read() external view returns (string memory) {
+        require(subscription.has_access(creator, msg.sender, min_tier), "Subscription required");
+        return "premium content";
+    }
+}
@@ -1,7 +1,11 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 
 const FQN = "src/Subscription.sol:Subscription";
+const HOUR = 3600n;
+const GRACE = 3n * 24n * HOUR; // grace_period par défaut
+const BALANCE = 100_000n;
 
 /** Récupère le plan_id depuis l'événement PlanCreated du bloc de la tx */
 async function getPlanIdFromTx(contract: any, receipt: any): Promise<bigint> {
@@ -17,23 +21,39 @@ async function getPlanIdFromTx(contract: any, receipt: any): Promise<bigint> {
 }
 
 describe("Subscription (Cairo → Solidity port tests)", () => {
-  async function deployWithOwner(ownerAddr?: string) {
-    const [deployer, s1, s2, s3] = await ethers.getSigners();
-    const owner = ownerAddr ?? deployer.address;
+  // s1 = owner et créateur des plans, s2/s3 = abonnés approvisionnés, creator = payout des plans
+  async function deploy() {
+    const [deployer, s1, s2, s3, creator, keeper] = await ethers.getSigners();
     const C = await ethers.getContractFactory(FQN);
-    const c = await C.deploy(owner);
+    const c = await C.deploy(s1.address);
     await c.waitForDeployment();
-    return { c, deployer, owner, s1, s2, s3 };
+
+    const token = await (await ethers.getContractFactory("MockERC20")).deploy("USD", "USD");
+    for (const s of [s2, s3]) {
+      await token.mint(s.address, BALANCE);
+      await token.connect(s).approve(await c.getAddress(), ethers.MaxUint256);
+    }
+
+    const createPlan = async (price: bigint, duration: bigint, tier: bigint, transferable = false, by = s1) => {
+      const tx = await c
+        .connect(by)
+        .create_plan(price, duration, tier, await token.getAddress(), creator.address, transferable);
+      return getPlanIdFromTx(c, await tx.wait());
+    };
+    const passOf = (addr: string, planCreator = s1.address) => c.pass_of(planCreator, addr);
+    const endOf = async (addr: string) => (await c.get_subscriber_info(await passOf(addr))).subscription_end;
+
+    return { c, deployer, s1, s2, s3, creator, keeper, token, createPlan, passOf, endOf };
   }
 
   it("test_create_plan (emit + details)", async () => {
-    const { c, s1 } = await deployWithOwner(s1.address);
+    const { c, s1, token, creator } = await deploy();
 
     const price = 1000n;
     const duration = 3600; // 1h
     const tier = 1n;
 
-    const tx = await c.connect(s1).create_plan(price, duration, tier);
+    const tx = await c.connect(s1).create_plan(price, duration, tier, await token.getAddress(), creator.address, false);
     const receipt = await tx.wait();
 
     // Vérifie l'event (au moins une émission)
@@ -47,26 +67,34 @@ describe("Subscription (Cairo → Solidity port tests)", () => {
     expect(retPrice).to.equal(price);
     expect(retDuration).to.equal(duration);
     expect(retTier).to.equal(tier);
+    expect(await c.get_plan_payment(plan_id)).to.deep.equal([await token.getAddress(), creator.address]);
   });
 
-  it("test_subscribe (status + event)", async () => {
-    const { c, s1, s2 } = await deployWithOwner(s1.address);
-
-    const txCreate = await c.connect(s1).create_plan(1000n, 3600, 1n);
-    const planId = await getPlanIdFromTx(c, await txCreate.wait());
+  it("test_subscribe (status + event + paiement)", async () => {
+    const { c, s2, creator, token, createPlan } = await deploy();
+    const planId = await createPlan(1000n, HOUR, 1n);
 
     const tx = await c.connect(s2).subscribe(planId);
     await expect(tx).to.emit(c, "Subscribed").withArgs(s2.address, planId);
+    await expect(tx).to.emit(c, "PaymentCollected").withArgs(s2.address, planId, creator.address, 1000n);
+    await expect(tx).to.changeTokenBalances(token, [s2, creator], [-1000n, 1000n]);
 
     const isSub = await c.connect(s2).get_subscription_status();
     expect(isSub).to.equal(true);
   });
 
-  it("test_unsubscribe (status + event)", async () => {
-    const { c, s1, s2 } = await deployWithOwner(s1.address);
+  it("test_subscribe sans allowance (revert)", async () => {
+    const { c, s2, token, createPlan } = await deploy();
+    const planId = await createPlan(1000n, HOUR, 1n);
 
-    const txCreate = await c.connect(s1).create_plan(1000n, 3600, 1n);
-    const planId = await getPlanIdFromTx(c, await txCreate.wait());
+    await token.connect(s2).approve(await c.getAddress(), 0n);
+    await expect(c.connect(s2).subscribe(planId)).to.be.revertedWithCustomError(token, "ERC20InsufficientAllowance");
+    expect(await c.connect(s2).get_subscription_status()).to.equal(false);
+  });
+
+  it("test_unsubscribe (status + event)", async () => {
+    const { c, s2, createPlan } = await deploy();
+    const planId = await createPlan(1000n, HOUR, 1n);
 
     await c.connect(s2).subscribe(planId);
 
@@ -77,26 +105,37 @@ describe("Subscription (Cairo → Solidity port tests)", () => {
     expect(isSub).to.equal(false);
   });
 
-  it("test_renew_subscription (event)", async () => {
-    const { c, s1, s2 } = await deployWithOwner(s1.address);
-
-    const txCreate = await c.connect(s1).create_plan(1000n, 3600, 1n);
-    const planId = await getPlanIdFromTx(c, await txCreate.wait());
+  it("test_renew_subscription (event + paiement, période contiguë)", async () => {
+    const { c, s1, s2, creator, token, createPlan, endOf } = await deploy();
+    const planId = await createPlan(1000n, HOUR, 1n);
 
     await c.connect(s2).subscribe(planId);
+    const end = await endOf(s2.address);
 
-    const tx = await c.connect(s2).renew_subscription();
+    const tx = await c.connect(s2).renew_subscription(s1.address);
     await expect(tx).to.emit(c, "SubscriptionRenewed").withArgs(s2.address);
+    await expect(tx).to.changeTokenBalances(token, [s2, creator], [-1000n, 1000n]);
+    // renouvelé en avance: prolongé depuis la fin de la période en cours
+    expect(await endOf(s2.address)).to.equal(end + HOUR);
   });
 
-  it("test_upgrade_subscription (event)", async () => {
-    const { c, s1, s2 } = await deployWithOwner(s1.address);
+  it("test_renew_subscription après la période de grâce: repart de maintenant", async () => {
+    const { c, s1, s2, createPlan, endOf } = await deploy();
+    const planId = await createPlan(1000n, HOUR, 1n);
+    await c.connect(s2).subscribe(planId);
+
+    await time.increaseTo((await endOf(s2.address)) + GRACE);
+    expect(await c.connect(s2).get_subscription_status()).to.equal(false);
 
-    const tx1 = await c.connect(s1).create_plan(1000n, 3600, 1n);
-    const plan1 = await getPlanIdFromTx(c, await tx1.wait());
+    await c.connect(s2).renew_subscription(s1.address);
+    expect(await endOf(s2.address)).to.equal(BigInt(await time.latest()) + HOUR);
+    expect(await c.connect(s2).get_subscription_status()).to.equal(true);
+  });
 
-    const tx2 = await c.connect(s1).create_plan(2000n, 3600, 2n);
-    const plan2 = await getPlanIdFromTx(c, await tx2.wait());
+  it("test_upgrade_subscription (event)", async () => {
+    const { c, s2, createPlan } = await deploy();
+    const plan1 = await createPlan(1000n, HOUR, 1n);
+    const plan2 = await createPlan(2000n, HOUR, 2n);
 
     await c.connect(s2).subscribe(plan1);
 
@@ -109,16 +148,212 @@ describe("Subscription (Cairo → Solidity port tests)", () => {
     expect(ids[0]).to.equal(plan2);
   });
 
-  it("test_create_plan_not_owner (revert)", async () => {
-    const { c, s1, s2 } = await deployWithOwner(s1.address);
+  it("test_upgrade_subscription: crédit au prorata du temps restant", async () => {
+    const { c, s2, creator, token, createPlan, endOf } = await deploy();
+    const plan1 = await createPlan(1000n, 10n * HOUR, 1n);
+    const plan2 = await createPlan(3000n, 10n * HOUR, 2n);
+    await c.connect(s2).subscribe(plan1);
+
+    // 4h écoulées sur 10: 6/10 de 1000 crédités
+    await time.setNextBlockTimestamp((await endOf(s2.address)) - 6n * HOUR);
+    const tx = await c.connect(s2).upgrade_subscription(plan2);
+    await expect(tx).to.emit(c, "PaymentCollected").withArgs(s2.address, plan2, creator.address, 3000n - 600n);
+    await expect(tx).to.changeTokenBalance(token, s2, -2400n);
+
+    // rétrogradation: crédit supérieur au prix, rien à payer (pas de remboursement)
+    await expect(c.connect(s2).upgrade_subscription(plan1)).to.not.emit(c, "PaymentCollected");
+  });
+
+  it("test_upgrade_subscription vers le plan d'un autre créateur (revert)", async () => {
+    const { c, s2, s3, createPlan } = await deploy();
+    const plan1 = await createPlan(1000n, HOUR, 1n);
+    const other = await createPlan(1000n, HOUR, 2n, false, s3);
+    await c.connect(s2).subscribe(plan1);
+
+    await expect(c.connect(s2).upgrade_subscription(other)).to.be.revertedWith("Not currently subscribed");
+  });
+
+  it("auto-renew: un keeper renouvelle à l'échéance, pas avant", async () => {
+    const { c, s1, s2, keeper, creator, token, createPlan, passOf, endOf } = await deploy();
+    const planId = await createPlan(1000n, HOUR, 1n);
+    await c.connect(s2).subscribe(planId);
+    const pass = await passOf(s2.address);
+
+    await expect(c.connect(keeper).process_renewal(pass)).to.be.revertedWith("Auto-renew disabled");
+    await expect(c.connect(s2).set_auto_renew(s1.address, true))
+      .to.emit(c, "AutoRenewSet")
+      .withArgs(s2.address, s1.address, true);
+    await expect(c.connect(keeper).process_renewal(pass)).to.be.revertedWith("Renewal not due");
+    expect(await c.renewal_due(pass)).to.equal(false);
+
+    const end = await endOf(s2.address);
+    await time.increaseTo(end);
+    expect(await c.renewal_due(pass)).to.equal(true);
+
+    const tx = await c.connect(keeper).process_renewal(pass);
+    await expect(tx).to.emit(c, "SubscriptionRenewed").withArgs(s2.address);
+    await expect(tx).to.changeTokenBalances(token, [s2, creator, keeper], [-1000n, 1000n, 0n]);
+    expect(await endOf(s2.address)).to.equal(end + HOUR);
+    expect(await c.renewal_due(pass)).to.equal(false);
+  });
+
+  it("auto-renew: échec de paiement pendant la grâce, nouvel essai réussi", async () => {
+    const { c, s1, s2, keeper, token, createPlan, passOf, endOf } = await deploy();
+    const planId = await createPlan(1000n, HOUR, 1n);
+    await c.connect(s2).subscribe(planId);
+    await c.connect(s2).set_auto_renew(s1.address, true);
+    const pass = await passOf(s2.address);
+
+    const end = await endOf(s2.address);
+    await time.increaseTo(end + HOUR);
+    await token.connect(s2).approve(await c.getAddress(), 0n);
+
+    // pas de revert: l'échec est tracé et l'abonné reste actif pendant la grâce
+    await expect(c.connect(keeper).process_renewal(pass))
+      .to.emit(c, "RenewalFailed")
+      .withArgs(s2.address, planId);
+    expect(await endOf(s2.address)).to.equal(end);
+    expect(await c.connect(s2).get_subscription_status()).to.equal(true);
+    expect(await c.renewal_due(pass)).to.equal(true);
+
+    await token.connect(s2).approve(await c.getAddress(), 1000n);
+    await expect(c.connect(keeper).process_renewal(pass)).to.emit(c, "SubscriptionRenewed");
+    // période contiguë: la grâce consommée n'est pas offerte
+    expect(await endOf(s2.address)).to.equal(end + HOUR);
+  });
+
+  it("auto-renew: au-delà de la grâce l'abonnement expire", async () => {
+    const { c, s1, s2, keeper, token, createPlan, passOf, endOf } = await deploy();
+    const planId = await createPlan(1000n, HOUR, 1n);
+    await c.connect(s2).subscribe(planId);
+    await c.connect(s2).set_auto_renew(s1.address, true);
+    await token.connect(s2).approve(await c.getAddress(), 0n);
+    const pass = await passOf(s2.address);
+
+    // grâce raccourcie par l'owner
+    await expect(c.connect(s2).set_grace_period(HOUR)).to.be.revertedWith("Only owner can set grace period");
+    await c.connect(s1).set_grace_period(HOUR);
+
+    await time.increaseTo((await endOf(s2.address)) + HOUR);
+    expect(await c.connect(s2).get_subscription_status()).to.equal(false);
+    expect(await c.renewal_due(pass)).to.equal(false);
+
+    await expect(c.connect(keeper).process_renewal(pass))
+      .to.emit(c, "SubscriptionLapsed")
+      .withArgs(s2.address, planId);
+    const info = await c.get_subscriber_info(pass);
+    expect(info.active).to.equal(false);
+    expect(info.auto_renew).to.equal(false);
+    await expect(c.connect(keeper).process_renewal(pass)).to.be.revertedWith("Not currently subscribed");
+
+    // nouvel abonnement: le même pass est réutilisé
+    await token.connect(s2).approve(await c.getAddress(), 1000n);
+    await c.connect(s2).subscribe(planId);
+    expect(await passOf(s2.address)).to.equal(pass);
+    expect((await c.get_subscriber_info(pass)).active).to.equal(true);
+  });
+
+  it("catalogues par créateur: ids distincts, plans retirés", async () => {
+    const { c, s1, s2, s3, createPlan } = await deploy();
+    const a = await createPlan(1000n, HOUR, 1n);
+    const b = await createPlan(1000n, HOUR, 1n, false, s3);
+    expect(a).to.not.equal(b);
+    expect(await c.get_creator_plans(s1.address)).to.deep.equal([a]);
+    expect(await c.get_creator_plans(s3.address)).to.deep.equal([b]);
+    expect((await c.get_plan(b)).creator).to.equal(s3.address);
+
+    await expect(c.connect(s1).set_plan_available(a, false))
+      .to.emit(c, "PlanAvailabilityUpdated")
+      .withArgs(a, false);
+    await expect(c.connect(s2).subscribe(a)).to.be.revertedWith("Plan not available");
+
+    // un abonnement par créateur: un pass chez chacun
+    await c.connect(s2).subscribe(b);
+    await c.connect(s1).set_plan_available(a, true);
+    await c.connect(s2).subscribe(a);
+    expect(await c.balanceOf(s2.address)).to.equal(2n);
+    expect([...(await c.connect(s2).get_user_plan_ids())].sort()).to.deep.equal([a, b].sort());
+    await expect(c.connect(s2).subscribe(a)).to.be.revertedWith("Already subscribed to creator");
+  });
+
+  it("has_access: hiérarchie de tiers, par créateur, consultable par un autre contrat", async () => {
+    const { c, s1, s2, s3, createPlan, endOf } = await deploy();
+    const basic = await createPlan(1000n, HOUR, 1n);
+    const premium = await createPlan(3000n, HOUR, 3n);
+    const gated = await (await ethers.getContractFactory("GatedContentMock")).deploy(await c.getAddress(), s1.address, 2n);
+
+    await c.connect(s2).subscribe(basic);
+    expect(await c.has_access(s1.address, s2.address, 1n)).to.equal(true);
+    expect(await c.has_access(s1.address, s2.address, 2n)).to.equal(false);
+    expect(await c.has_access(s3.address, s2.address, 0n)).to.equal(false);
+    await expect(gated.connect(s2).read()).to.be.revertedWith("Subscription required");
+
+    await c.connect(s2).upgrade_subscription(premium);
+    expect(await c.has_access(s1.address, s2.address, 2n)).to.equal(true);
+    expect(await gated.connect(s2).read()).to.equal("premium content");
+
+    // accès conservé pendant la grâce, perdu ensuite
+    await time.increaseTo((await endOf(s2.address)) + GRACE - 10n);
+    expect(await c.has_access(s1.address, s2.address, 3n)).to.equal(true);
+    await time.increase(10);
+    expect(await c.has_access(s1.address, s2.address, 3n)).to.equal(false);
+  });
+
+  it("passes ERC-721: transférables selon le plan, l'accès suit le détenteur", async () => {
+    const { c, s1, s2, s3, createPlan, passOf } = await deploy();
+    const locked = await createPlan(1000n, HOUR, 1n);
+    const open = await createPlan(1000n, HOUR, 1n, true);
+
+    await c.connect(s2).subscribe(locked);
+    const pass = await passOf(s2.address);
+    await expect(c.connect(s2).transferFrom(s2.address, s3.address, pass)).to.be.revertedWith(
+      "Pass not transferable"
+    );
+
+    await c.connect(s2).upgrade_subscription(open);
+    await c.connect(s2).set_auto_renew(s1.address, true);
+
+    // destinataire déjà abonné au même créateur
+    await c.connect(s3).subscribe(locked);
+    await expect(c.connect(s2).transferFrom(s2.address, s3.address, pass)).to.be.revertedWith(
+      "Recipient already subscribed"
+    );
+    await c.connect(s3).unsubscribe(locked);
+
+    await c.connect(s2).transferFrom(s2.address, s3.address, pass);
+    expect(await passOf(s2.address)).to.equal(0n);
+    expect(await passOf(s3.address)).to.equal(pass);
+    expect(await c.has_access(s1.address, s2.address, 1n)).to.equal(false);
+    expect(await c.has_access(s1.address, s3.address, 1n)).to.equal(true);
+    // le nouveau détenteur doit réactiver le renouvellement automatique
+    expect((await c.get_subscriber_info(pass)).auto_renew).to.equal(false);
+  });
+
+  it("test_set_plan_available_not_creator (revert)", async () => {
+    const { c, s2, createPlan } = await deploy();
+    const planId = await createPlan(1000n, HOUR, 1n);
+
+    await expect(
+      c.connect(s2).set_plan_available(planId, false)
+    ).to.be.revertedWith("Not plan creator");
+  });
+
+  it("test_create_plan sans jeton ni payout (revert)", async () => {
+    const { c, s1, token, creator } = await deploy();
 
     await expect(
-      c.connect(s2).create_plan(1000n, 3600, 1n)
-    ).to.be.revertedWith("Only owner can create plans");
+      c.connect(s1).create_plan(1000n, 3600, 1n, ethers.ZeroAddress, creator.address, false)
+    ).to.be.revertedWith("Invalid payment token");
+    await expect(
+      c.connect(s1).create_plan(1000n, 3600, 1n, await token.getAddress(), ethers.ZeroAddress, false)
+    ).to.be.revertedWith("Invalid payout address");
+    await expect(
+      c.connect(s1).create_plan(1000n, 0, 1n, await token.getAddress(), creator.address, false)
+    ).to.be.revertedWith("Duration is zero");
   });
 
   it("test_subscribe_nonexistent_plan (revert)", async () => {
-    const { c, s1, s2 } = await deployWithOwner(s1.address);
+    const { c, s2 } = await deploy();
 
     const nonExistingPlan = 100n;
     await expect(
@@ -127,10 +362,8 @@ describe("Subscription (Cairo → Solidity port tests)", () => {
   });
 
   it("test_unsubscribe_not_subscribed (revert)", async () => {
-    const { c, s1, s2 } = await deployWithOwner(s1.address);
-
-    const txCreate = await c.connect(s1).create_plan(1000n, 3600, 1n);
-    const planId = await getPlanIdFromTx(c, await txCreate.wait());
+    const { c, s2, createPlan } = await deploy();
+    const planId = await createPlan(1000n, HOUR, 1n);
 
     await expect(
       c.connect(s2).unsubscribe(planId)
@@ -0,0 +1,57 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// Doublures de test pour l'indexer: mêmes signatures d'events/fonctions que
+// IP-Marketplace-Listing et IP-Marketplace-Bulk-Order (non compilables en l'état),
+// sans les dépendances (marketplace cible, tokenizer, ERC20).
+
+contract MIPListingMock {
+    event ListingCreated(uint256 indexed token_id, address lister, uint64 date);
+
+    function create_listing(
+        address assetContractAddress,
+        uint256 tokenId,
+        uint256 startTime,
+        uint256 secondsUntilEndTime,
+        uint256 quantityToList,
+        address currencyToAccept,
+        uint256 buyoutPricePerToken,
+        uint256 tokenTypeOfListing
+    ) external {
+        require(assetContractAddress != address(0), "invalid asset");
+        (startTime, secondsUntilEndTime, quantityToList, currencyToAccept, buyoutPricePerToken, tokenTypeOfListing);
+        emit ListingCreated(tokenId, msg.sender, uint64(block.timestamp));
+    }
+}
+
+contract BulkerMock {
+    uint256 public constant COMMISSION_FEE_PERCENTAGE = 5;
+
+    mapping(uint256 => address) public getTokenOwner;
+
+    event BulkPurchaseCompleted(address indexed buyer, uint256[] assetIds, uint256 totalAmount);
+    event PaymentProcessed(address indexed seller, uint256 amount, uint256 commissionShare);
+
+    function set_token_owner(uint256 asset_id, address owner) external {
+        getTokenOwner[asset_id] = owner;
+    }
+
+    // Même répartition que MarketplaceBulker.bulk_purchase, sans transferts.
+    function bulk_purchase(uint256[] calldata asset_ids, uint256 total_amount) external {
+        uint256 commission = (total_amount * COMMISSION_FEE_PERCENTAGE) / 100;
+        uint256 share = (total_amount - commission) / asset_ids.length;
+        for (uint256 i = 0; i < asset_ids.length; i++) {
+            emit PaymentProcessed(getTokenOwner[asset_ids[i]], share, commission / asset_ids.length);
+        }
+        emit BulkPurchaseCompleted(msg.sender, asset_ids, total_amount);
+    }
+}
+
+// Tokenizer sans nftContract(), pour MarketplaceBulker: achat sans royalties.
+contract TokenizerWithoutNftMock {
+    mapping(uint256 => address) public getTokenOwner;
+
+    function set_token_owner(uint256 asset_id, address owner) external {
+        getTokenOwner[asset_id] = owner;
+    }
+}
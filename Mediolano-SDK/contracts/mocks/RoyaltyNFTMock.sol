@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import {ERC2981} from "@openzeppelin/contracts/token/common/ERC2981.sol";
+
+// ERC721 + ERC-2981 pour les tests de royalties. mint(to) -> tokenId comme l'IPNFT
+// attendu par IPTokenizer (IP-Marketplace-Bulk-Order).
+contract RoyaltyNFTMock is ERC721, ERC2981 {
+    uint256 private _count;
+
+    constructor() ERC721("Royalty NFT", "RNFT") {}
+
+    function mint(address to) external returns (uint256 tokenId) {
+        tokenId = ++_count;
+        _mint(to, tokenId);
+    }
+
+    function setDefaultRoyalty(address receiver, uint96 bps) external {
+        _setDefaultRoyalty(receiver, bps);
+    }
+
+    function setTokenRoyalty(uint256 tokenId, address receiver, uint96 bps) external {
+        _setTokenRoyalty(tokenId, receiver, bps);
+    }
+
+    function supportsInterface(bytes4 interfaceId) public view override(ERC721, ERC2981) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
+}
@@ -0,0 +1,17 @@
+import { HardhatUserConfig } from "hardhat/config";
+import "@nomicfoundation/hardhat-ethers";
+import "@nomicfoundation/hardhat-chai-matchers";
+
+// Les contrats viennent des modules (voir scripts/typechain.ts); contracts/ ne contient
+// que des doublures de test.
+const config: HardhatUserConfig = {
+  solidity: "0.8.20",
+  paths: {
+    sources: "contracts",
+    tests: "test",
+    cache: "cache",
+    artifacts: "artifacts",
+  },
+};
+
+export default config;
@@ -0,0 +1,37 @@
+import hre from "hardhat";
+import { compileModule } from "../src/deploy/artifacts";
+import { manifestPath } from "../src/deploy/manifest";
+import { DEPLOY_PLAN } from "../src/deploy/plan";
+import { deployAll, resolveOrder } from "../src/deploy/pipeline";
+
+// npx hardhat run scripts/deploy.ts --network localhost
+//   DEPLOY_ONLY=MIPListing,IPDrop  sous-ensemble (+ dépendances)
+//   DEPLOY_SKIP_COMPILE=1          artefacts déjà compilés
+// Relancer la commande ne redéploie que ce qui a changé (voir deployments/<network>.json).
+async function main() {
+  const network = hre.network.name;
+  if (network === "hardhat") {
+    console.warn("Réseau hardhat en mémoire: rien ne persiste après le script (utiliser --network localhost)");
+  }
+
+  const only = process.env.DEPLOY_ONLY?.split(",").map((id) => id.trim()).filter((id) => id !== "");
+  const order = resolveOrder(DEPLOY_PLAN, only);
+
+  if (process.env.DEPLOY_SKIP_COMPILE !== "1") {
+    for (const dir of new Set(order.map((spec) => spec.module))) {
+      console.log(`hardhat compile (${dir})`);
+      compileModule(dir);
+    }
+  }
+
+  const [signer] = await hre.ethers.getSigners();
+  const reports = await deployAll({ signer, network, plan: DEPLOY_PLAN, only, log: console.log });
+
+  const deployed = reports.filter((r) => r.status === "deployed").length;
+  console.log(`${reports.length} contrats, ${deployed} déployés → ${manifestPath(network)}`);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exitCode = 1;
+});
@@ -0,0 +1,38 @@
+import path from "path";
+import { runTypeChain } from "typechain";
+import { REPO_ROOT, artifactPath, compileModule } from "../src/deploy/artifacts";
+import { MODULES, ModuleName } from "../src/modules";
+
+// npm run typechain [-- leasing drop …]
+// Compile chaque module dans son propre dossier (sa config, son solc), puis génère
+// les types ethers-v6 de tous les artefacts retenus dans ./typechain-types.
+const OUT_DIR = path.resolve(__dirname, "..", "typechain-types");
+
+async function main() {
+  const requested = process.argv.slice(2) as ModuleName[];
+  const names = requested.length > 0 ? requested : (Object.keys(MODULES) as ModuleName[]);
+
+  const files: string[] = [];
+  for (const name of names) {
+    const spec = MODULES[name];
+    if (spec === undefined) throw new Error(`Module inconnu: ${name}`);
+
+    console.log(`[${name}] hardhat compile (${spec.dir})`);
+    compileModule(spec.dir);
+    files.push(...spec.artifacts.map((a) => artifactPath(spec.dir, a)));
+  }
+
+  const result = await runTypeChain({
+    cwd: REPO_ROOT,
+    filesToProcess: files,
+    allFiles: files,
+    outDir: OUT_DIR,
+    target: "ethers-v6",
+  });
+  console.log(`typechain: ${result.filesGenerated} fichiers → ${path.relative(process.cwd(), OUT_DIR)}`);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exitCode = 1;
+});
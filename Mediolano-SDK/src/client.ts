@@ -0,0 +1,40 @@
+import { BaseContract, ContractRunner, ContractTransactionReceipt, ContractTransactionResponse } from "ethers";
+import { DecodedEvent, EventName, decodeEvents, findEvent } from "./events";
+
+export interface TxResult<C> {
+  hash: string;
+  receipt: ContractTransactionReceipt;
+  events: DecodedEvent<C>[];
+}
+
+// Base commune des clients: garde le contrat typechain et attend/décode chaque transaction.
+export abstract class ModuleClient<C extends BaseContract> {
+  constructor(readonly contract: C) {}
+
+  getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  connect(runner: ContractRunner): this {
+    const Client = this.constructor as new (contract: C) => this;
+    return new Client(this.contract.connect(runner) as C);
+  }
+
+  decodeEvents(receipt: ContractTransactionReceipt): Promise<DecodedEvent<C>[]> {
+    return decodeEvents(this.contract, receipt);
+  }
+
+  protected async send(pending: Promise<ContractTransactionResponse>): Promise<TxResult<C>> {
+    const tx = await pending;
+    const receipt = await tx.wait();
+    if (receipt === null) throw new Error(`Transaction ${tx.hash} dropped`);
+    return { hash: tx.hash, receipt, events: await this.decodeEvents(receipt) };
+  }
+
+  // Pour les fonctions dont la valeur de retour n'est lisible que via un event.
+  protected expectEvent<N extends EventName<C>>(result: TxResult<C>, name: N) {
+    const event = findEvent(result.events, name);
+    if (event === undefined) throw new Error(`Event ${name} not emitted by ${result.hash}`);
+    return event;
+  }
+}
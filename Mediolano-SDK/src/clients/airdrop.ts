@@ -0,0 +1,63 @@
+import { BigNumberish, BytesLike, ContractRunner, Signer } from "ethers";
+import { NFTAirdrop, NFTAirdrop__factory } from "../../typechain-types";
+import { ModuleClient } from "../client";
+
+export interface DeployAirdropParams {
+  name: string;
+  symbol: string;
+  baseUri: string;
+  merkleRoot: BytesLike;
+  owner?: string;
+}
+
+// IP-Airdrop: claim Merkle (preuves générées par airdrop:allowlist) + whitelist on-chain.
+export class AirdropClient extends ModuleClient<NFTAirdrop> {
+  static async deploy(signer: Signer, params: DeployAirdropParams): Promise<AirdropClient> {
+    const contract = await new NFTAirdrop__factory(signer).deploy(
+      params.name,
+      params.symbol,
+      params.baseUri,
+      params.merkleRoot,
+      params.owner ?? (await signer.getAddress())
+    );
+    await contract.waitForDeployment();
+    return new AirdropClient(contract);
+  }
+
+  static attach(address: string, runner?: ContractRunner | null): AirdropClient {
+    return new AirdropClient(NFTAirdrop__factory.connect(address, runner));
+  }
+
+  // Format d'une entrée de allowlist.json / proofs/<address>.json
+  claim({ amount, proof }: { amount: BigNumberish; proof: BytesLike[] }) {
+    return this.send(this.contract.claim(proof, amount));
+  }
+
+  setMerkleRoot(root: BytesLike) {
+    return this.send(this.contract.setMerkleRoot(root));
+  }
+
+  setClaimsLocked(locked: boolean) {
+    return this.send(this.contract.setClaimsLocked(locked));
+  }
+
+  whitelist({ to, amount }: { to: string; amount: BigNumberish }) {
+    return this.send(this.contract.whitelist(to, amount));
+  }
+
+  airdrop({ start, count }: { start: BigNumberish; count: BigNumberish }) {
+    return this.send(this.contract.airdrop(start, count));
+  }
+
+  merkleRoot(): Promise<string> {
+    return this.contract.merkleRoot();
+  }
+
+  hasClaimed(account: string): Promise<boolean> {
+    return this.contract.hasClaimed(account);
+  }
+
+  balanceOf(account: string): Promise<bigint> {
+    return this.contract.balanceOf(account);
+  }
+}
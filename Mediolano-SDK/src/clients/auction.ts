@@ -0,0 +1,110 @@
+import { AbiCoder, BigNumberish, BytesLike, ContractRunner, Signer, keccak256 } from "ethers";
+import { MarketPlace, MarketPlace__factory } from "../../typechain-types";
+import { ModuleClient } from "../client";
+import { normalize } from "../naming";
+
+export interface SealedBid {
+  auctionId: BigNumberish;
+  amount: BigNumberish;
+  salt: BytesLike;
+}
+
+// Même encodage que computeBidHash() dans MarketplaceAuction.sol
+export function computeBidHash(amount: BigNumberish, salt: BytesLike): string {
+  return keccak256(AbiCoder.defaultAbiCoder().encode(["uint256", "bytes32"], [amount, salt]));
+}
+
+export interface AuctionParams {
+  tokenAddress: string;
+  tokenId: BigNumberish;
+  startPrice: BigNumberish;
+  currency: string;
+}
+
+// Valeurs de IMarketPlace.AuctionKind
+export const AuctionKind = { Sealed: 0n, English: 1n, Dutch: 2n } as const;
+
+// IP-Marketplace-Auction: enchères ERC721 payées en ERC20 (commit/reveal, anglaises, hollandaises).
+export class AuctionClient extends ModuleClient<MarketPlace> {
+  static async deploy(
+    signer: Signer,
+    { auctionDurationDays, revealDurationDays }: { auctionDurationDays: BigNumberish; revealDurationDays: BigNumberish }
+  ): Promise<AuctionClient> {
+    const contract = await new MarketPlace__factory(signer).deploy(auctionDurationDays, revealDurationDays);
+    await contract.waitForDeployment();
+    return new AuctionClient(contract);
+  }
+
+  static attach(address: string, runner?: ContractRunner | null): AuctionClient {
+    return new AuctionClient(MarketPlace__factory.connect(address, runner));
+  }
+
+  // AuctionCreated ne porte pas l'id: on le lit par staticCall juste avant l'envoi
+  // (les ids sont séquentiels; une création concurrente dans le même bloc le décalerait).
+  async createAuction({ tokenAddress, tokenId, startPrice, currency }: AuctionParams) {
+    const auctionId = await this.contract.create_auction.staticCall(tokenAddress, tokenId, startPrice, currency);
+    const result = await this.send(this.contract.create_auction(tokenAddress, tokenId, startPrice, currency));
+    return { ...result, auctionId };
+  }
+
+  // English / Dutch: l'id est porté par AuctionConfigured
+  async createEnglishAuction({ minIncrement, ...p }: AuctionParams & { minIncrement: BigNumberish }) {
+    const result = await this.send(
+      this.contract.create_english_auction(p.tokenAddress, p.tokenId, p.startPrice, minIncrement, p.currency)
+    );
+    const { auctionId } = this.expectEvent(result, "AuctionConfigured").args;
+    return { ...result, auctionId };
+  }
+
+  async createDutchAuction({ endPrice, ...p }: AuctionParams & { endPrice: BigNumberish }) {
+    const result = await this.send(
+      this.contract.create_dutch_auction(p.tokenAddress, p.tokenId, p.startPrice, endPrice, p.currency)
+    );
+    const { auctionId } = this.expectEvent(result, "AuctionConfigured").args;
+    return { ...result, auctionId };
+  }
+
+  placeBid({ auctionId, amount }: { auctionId: BigNumberish; amount: BigNumberish }) {
+    return this.send(this.contract.place_bid(auctionId, amount));
+  }
+
+  buyNow(auctionId: BigNumberish) {
+    return this.send(this.contract.buy_now(auctionId));
+  }
+
+  currentPrice(auctionId: BigNumberish): Promise<bigint> {
+    return this.contract.get_current_price(auctionId);
+  }
+
+  commitBid({ auctionId, amount, salt }: SealedBid) {
+    return this.send(this.contract.commit_bid(auctionId, amount, salt));
+  }
+
+  revealBid({ auctionId, amount, salt }: SealedBid) {
+    return this.send(this.contract.reveal_bid(auctionId, amount, salt));
+  }
+
+  withdrawUnrevealedBid({ auctionId, amount, salt }: SealedBid) {
+    return this.send(this.contract.withdraw_unrevealed_bid(auctionId, amount, salt));
+  }
+
+  finalizeAuction(auctionId: BigNumberish) {
+    return this.send(this.contract.finalize_auction(auctionId));
+  }
+
+  async getAuction(auctionId: BigNumberish) {
+    return normalize(await this.contract.get_auction(auctionId));
+  }
+
+  bidCount(auctionId: BigNumberish): Promise<bigint> {
+    return this.contract.get_auction_bid_count(auctionId);
+  }
+
+  setMaxRoyaltyBps(bps: BigNumberish) {
+    return this.send(this.contract.set_max_royalty_bps(bps));
+  }
+
+  maxRoyaltyBps(): Promise<bigint> {
+    return this.contract.max_royalty_bps();
+  }
+}
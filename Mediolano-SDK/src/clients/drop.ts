@@ -0,0 +1,112 @@
+import { BigNumberish, ContractRunner, Signer, ZeroAddress } from "ethers";
+import { IPDrop, IPDrop__factory } from "../../typechain-types";
+import { ModuleClient } from "../client";
+import { normalize } from "../naming";
+
+export interface ClaimConditions {
+  startTime: BigNumberish;
+  endTime: BigNumberish;
+  price: BigNumberish;
+  maxQuantityPerWallet: BigNumberish;
+  paymentToken?: string; // défaut: aucun token (drop gratuit)
+}
+
+export interface DeployDropParams {
+  name: string;
+  symbol: string;
+  baseUri: string;
+  maxSupply: BigNumberish;
+  owner?: string;
+  conditions: ClaimConditions;
+  allowlistEnabled?: boolean;
+}
+
+function toConditions(c: ClaimConditions) {
+  return { ...c, paymentToken: c.paymentToken ?? ZeroAddress };
+}
+
+// IP-Drop: mint séquentiel avec conditions de claim et allowlist.
+export class DropClient extends ModuleClient<IPDrop> {
+  static async deploy(signer: Signer, params: DeployDropParams): Promise<DropClient> {
+    const contract = await new IPDrop__factory(signer).deploy(
+      params.name,
+      params.symbol,
+      params.baseUri,
+      params.maxSupply,
+      params.owner ?? (await signer.getAddress()),
+      toConditions(params.conditions),
+      params.allowlistEnabled ?? false
+    );
+    await contract.waitForDeployment();
+    return new DropClient(contract);
+  }
+
+  static attach(address: string, runner?: ContractRunner | null): DropClient {
+    return new DropClient(IPDrop__factory.connect(address, runner));
+  }
+
+  claim(quantity: BigNumberish) {
+    return this.send(this.contract.claim(quantity));
+  }
+
+  // Paiement ERC20 (approve préalable) si les conditions ont un paymentToken.
+  claimWithPayment(quantity: BigNumberish) {
+    return this.send(this.contract.claim_with_payment(quantity));
+  }
+
+  setClaimConditions(conditions: ClaimConditions) {
+    return this.send(this.contract.set_claim_conditions(toConditions(conditions)));
+  }
+
+  addToAllowlist(addresses: string | string[]) {
+    return this.send(
+      Array.isArray(addresses)
+        ? this.contract.add_batch_to_allowlist(addresses)
+        : this.contract.add_to_allowlist(addresses)
+    );
+  }
+
+  removeFromAllowlist(address: string) {
+    return this.send(this.contract.remove_from_allowlist(address));
+  }
+
+  setAllowlistEnabled(enabled: boolean) {
+    return this.send(this.contract.set_allowlist_enabled(enabled));
+  }
+
+  setBaseUri(baseUri: string) {
+    return this.send(this.contract.set_base_uri(baseUri));
+  }
+
+  withdrawPayments() {
+    return this.send(this.contract.withdraw_payments());
+  }
+
+  async getClaimConditions() {
+    return normalize(await this.contract.get_claim_conditions());
+  }
+
+  totalSupply(): Promise<bigint> {
+    return this.contract.total_supply();
+  }
+
+  maxSupply(): Promise<bigint> {
+    return this.contract.max_supply();
+  }
+
+  isAllowlisted(address: string): Promise<boolean> {
+    return this.contract.is_allowlisted(address);
+  }
+
+  claimedByWallet(wallet: string): Promise<bigint> {
+    return this.contract.claimed_by_wallet(wallet);
+  }
+
+  ownerOf(tokenId: BigNumberish): Promise<string> {
+    return this.contract.owner_of(tokenId);
+  }
+
+  balanceOf(account: string): Promise<bigint> {
+    return this.contract.balance_of(account);
+  }
+}
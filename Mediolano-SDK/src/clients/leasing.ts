@@ -0,0 +1,201 @@
+import { BigNumberish, ContractRunner, Signer, ZeroAddress } from "ethers";
+import { IPLeasing, IPLeasing__factory } from "../../typechain-types";
+import { ModuleClient } from "../client";
+import { normalize } from "../naming";
+
+// Valeurs de IIPLeasing.TokenModel / FeeTiming / Termination
+export const TokenModel = { Amount1155: 0n, Exclusive721: 1n } as const;
+export const FeeTiming = { OnStart: 0n, OnOffer: 1n } as const;
+export const Termination = { OwnerTerminable: 0n, Locked: 1n } as const;
+
+export interface LeasePolicyParams {
+  tokenModel?: bigint; // défaut: TokenModel.Amount1155
+  feeTiming?: bigint; // défaut: FeeTiming.OnStart
+  termination?: bigint; // défaut: Termination.OwnerTerminable
+  feeToken?: string; // ERC20 de leaseFee; défaut: aucun prélèvement
+}
+
+export interface CreateLeaseOfferParams {
+  tokenId: BigNumberish;
+  amount: BigNumberish;
+  leaseFee: BigNumberish;
+  duration: BigNumberish; // secondes
+  licenseTermsUri: string;
+}
+
+export interface CreateOpenLeaseOfferParams {
+  tokenId: BigNumberish;
+  leaseFee: BigNumberish;
+  duration: BigNumberish; // secondes
+  maxLeases: BigNumberish; // locataires simultanés
+  licenseTermsUri: string;
+}
+
+export interface RentTermsParams {
+  token: string; // ERC20 du loyer, approuvé par le payeur
+  amount: BigNumberish; // par période
+  interval: BigNumberish; // secondes
+  gracePeriod?: BigNumberish; // défaut: 0
+  lateFee?: BigNumberish; // par période payée après la grâce (défaut: 0)
+}
+
+// IP-Leasing: offres de location ERC1155 et cycle de vie des leases, selon la politique
+// choisie au déploiement (quantités ou tokens uniques, moment des frais, résiliation).
+// Chaque lease est un token de lease (id >= LEASE_ID_FLAG) détenu par le locataire:
+// transférable, il porte le rôle "user" (style ERC-4907) utilisable pour sous-louer.
+export class LeasingClient extends ModuleClient<IPLeasing> {
+  static async deploy(
+    signer: Signer,
+    { owner, uri, policy = {} }: { owner?: string; uri: string; policy?: LeasePolicyParams }
+  ): Promise<LeasingClient> {
+    const {
+      tokenModel = TokenModel.Amount1155,
+      feeTiming = FeeTiming.OnStart,
+      termination = Termination.OwnerTerminable,
+      feeToken = ZeroAddress,
+    } = policy;
+    const contract = await new IPLeasing__factory(signer).deploy(owner ?? (await signer.getAddress()), uri, {
+      token_model: tokenModel,
+      fee_timing: feeTiming,
+      termination,
+      fee_token: feeToken,
+    });
+    await contract.waitForDeployment();
+    return new LeasingClient(contract);
+  }
+
+  static attach(address: string, runner?: ContractRunner | null): LeasingClient {
+    return new LeasingClient(IPLeasing__factory.connect(address, runner));
+  }
+
+  mintIp({ to, tokenId, amount }: { to: string; tokenId: BigNumberish; amount: BigNumberish }) {
+    return this.send(this.contract.mint_ip(to, tokenId, amount));
+  }
+
+  createOffer({ tokenId, amount, leaseFee, duration, licenseTermsUri }: CreateLeaseOfferParams) {
+    return this.send(this.contract.create_lease_offer(tokenId, amount, leaseFee, duration, licenseTermsUri));
+  }
+
+  cancelOffer(tokenId: BigNumberish) {
+    return this.send(this.contract.cancel_lease_offer(tokenId));
+  }
+
+  // Loyer périodique d'une offre exclusive: à fixer avant startLease, qui prélève la première période.
+  setOfferRent(tokenId: BigNumberish, { token, amount, interval, gracePeriod = 0n, lateFee = 0n }: RentTermsParams) {
+    return this.send(
+      this.contract.set_lease_offer_rent(tokenId, {
+        token,
+        amount,
+        interval,
+        grace_period: gracePeriod,
+        late_fee: lateFee,
+      })
+    );
+  }
+
+  // N'importe quel payeur; les pénalités de retard sont incluses dans le prélèvement.
+  payRent({ leaseId, periods = 1n }: { leaseId: BigNumberish; periods?: BigNumberish }) {
+    return this.send(this.contract.pay_rent(leaseId, periods));
+  }
+
+  // leaseId = id du token de lease remis au locataire (event LeaseIssued)
+  async startLease(tokenId: BigNumberish) {
+    const result = await this.send(this.contract.start_lease(tokenId));
+    const { leaseId } = this.expectEvent(result, "LeaseIssued").args;
+    return { ...result, leaseId };
+  }
+
+  async createOpenOffer({ tokenId, leaseFee, duration, maxLeases, licenseTermsUri }: CreateOpenLeaseOfferParams) {
+    const result = await this.send(
+      this.contract.create_open_lease_offer(tokenId, leaseFee, duration, maxLeases, licenseTermsUri)
+    );
+    const { offerId } = this.expectEvent(result, "OpenLeaseOfferCreated").args;
+    return { ...result, offerId };
+  }
+
+  cancelOpenOffer(offerId: BigNumberish) {
+    return this.send(this.contract.cancel_open_lease_offer(offerId));
+  }
+
+  async startOpenLease(offerId: BigNumberish) {
+    const result = await this.send(this.contract.start_open_lease(offerId));
+    const { leaseId } = this.expectEvent(result, "LeaseIssued").args;
+    return { ...result, leaseId };
+  }
+
+  terminateOpenLease({ leaseId, reason }: { leaseId: BigNumberish; reason: string }) {
+    return this.send(this.contract.terminate_open_lease(leaseId, reason));
+  }
+
+  // Sous-location jusqu'à `expires` (<= fin du lease); user = ZeroAddress pour l'annuler.
+  sublease({ leaseId, user, expires }: { leaseId: BigNumberish; user: string; expires: BigNumberish }) {
+    return this.send(this.contract.setUser(leaseId, user, expires));
+  }
+
+  renewLease({ tokenId, additionalDuration }: { tokenId: BigNumberish; additionalDuration: BigNumberish }) {
+    return this.send(this.contract.renew_lease(tokenId, additionalDuration));
+  }
+
+  expireLease(tokenId: BigNumberish) {
+    return this.send(this.contract.expire_lease(tokenId));
+  }
+
+  // Ouvert à tous quand le loyer est en défaut (raison émise: "Rent in arrears").
+  terminateLease({ tokenId, reason }: { tokenId: BigNumberish; reason: string }) {
+    return this.send(this.contract.terminate_lease(tokenId, reason));
+  }
+
+  async policy() {
+    return normalize(await this.contract.get_policy());
+  }
+
+  async getLease(tokenId: BigNumberish) {
+    return normalize(await this.contract.get_lease(tokenId));
+  }
+
+  async getOffer(tokenId: BigNumberish) {
+    return normalize(await this.contract.get_lease_offer(tokenId));
+  }
+
+  async leaseInfo(leaseId: BigNumberish) {
+    return normalize(await this.contract.get_lease_info(leaseId));
+  }
+
+  async getOpenOffer(offerId: BigNumberish) {
+    return normalize(await this.contract.get_open_lease_offer(offerId));
+  }
+
+  async rentTerms(leaseId: BigNumberish) {
+    return normalize(await this.contract.get_rent_terms(leaseId));
+  }
+
+  // Arriérés à l'instant de la lecture: periodsDue, latePeriods, amountDue, inDefault.
+  async rentStatus(leaseId: BigNumberish) {
+    return normalize(await this.contract.get_rent_status(leaseId));
+  }
+
+  // Utilisateur effectif (sous-locataire ou détenteur), ZeroAddress une fois le lease expiré.
+  userOf(leaseId: BigNumberish): Promise<string> {
+    return this.contract.userOf(leaseId);
+  }
+
+  hasUsageRights(tokenId: BigNumberish, account: string): Promise<boolean> {
+    return this.contract.has_usage_rights(tokenId, account);
+  }
+
+  async tokenLeases(tokenId: BigNumberish): Promise<bigint[]> {
+    return normalize(await this.contract.get_token_leases(tokenId));
+  }
+
+  async leasesByHolder(holder: string): Promise<bigint[]> {
+    return normalize(await this.contract.get_leases_by_holder(holder));
+  }
+
+  async activeLeasesByOwner(owner: string): Promise<bigint[]> {
+    return normalize(await this.contract.get_active_leases_by_owner(owner));
+  }
+
+  async activeLeasesByLessee(lessee: string): Promise<bigint[]> {
+    return normalize(await this.contract.get_active_leases_by_lessee(lessee));
+  }
+}
@@ -0,0 +1,134 @@
+import { BigNumberish, BytesLike, ContractRunner, Signer, ZeroHash } from "ethers";
+import { IPMarketplace, IPMarketplace__factory } from "../../typechain-types";
+import { ModuleClient } from "../client";
+import { normalize } from "../naming";
+
+export interface UsageRights {
+  commercialUse: boolean;
+  modificationsAllowed: boolean;
+  attributionRequired: boolean;
+  geographicRestrictions?: BytesLike;
+  usageDuration: BigNumberish;
+  sublicensingAllowed: boolean;
+  industryRestrictions?: BytesLike;
+}
+
+export interface DerivativeRights {
+  allowed: boolean;
+  royaltyShare: BigNumberish; // bps
+  requiresApproval: boolean;
+  maxDerivatives: BigNumberish;
+}
+
+export interface ListItemParams {
+  nftContract: string;
+  tokenId: BigNumberish;
+  price: BigNumberish;
+  currency: string;
+  metadataHash: BytesLike;
+  licenseTermsHash: BytesLike;
+  usageRights: UsageRights;
+  derivativeRights: DerivativeRights;
+}
+
+export interface ListingRef {
+  nftContract: string;
+  tokenId: BigNumberish;
+}
+
+// IP-Marketplace: listings ERC721 payés en ERC20, métadonnées et dérivés.
+export class MarketplaceClient extends ModuleClient<IPMarketplace> {
+  static async deploy(signer: Signer, { feeBps }: { feeBps: BigNumberish }): Promise<MarketplaceClient> {
+    const contract = await new IPMarketplace__factory(signer).deploy(feeBps);
+    await contract.waitForDeployment();
+    return new MarketplaceClient(contract);
+  }
+
+  static attach(address: string, runner?: ContractRunner | null): MarketplaceClient {
+    return new MarketplaceClient(IPMarketplace__factory.connect(address, runner));
+  }
+
+  listItem(params: ListItemParams) {
+    const { usageRights: u, derivativeRights: d } = params;
+    return this.send(
+      this.contract.list_item(
+        params.nftContract,
+        params.tokenId,
+        params.price,
+        params.currency,
+        params.metadataHash,
+        params.licenseTermsHash,
+        {
+          commercial_use: u.commercialUse,
+          modifications_allowed: u.modificationsAllowed,
+          attribution_required: u.attributionRequired,
+          geographic_restrictions: u.geographicRestrictions ?? ZeroHash,
+          usage_duration: u.usageDuration,
+          sublicensing_allowed: u.sublicensingAllowed,
+          industry_restrictions: u.industryRestrictions ?? ZeroHash,
+        },
+        {
+          allowed: d.allowed,
+          royalty_share: d.royaltyShare,
+          requires_approval: d.requiresApproval,
+          max_derivatives: d.maxDerivatives,
+        }
+      )
+    );
+  }
+
+  unlistItem({ nftContract, tokenId }: ListingRef) {
+    return this.send(this.contract.unlist_item(nftContract, tokenId));
+  }
+
+  buyItem({ nftContract, tokenId }: ListingRef) {
+    return this.send(this.contract.buy_item(nftContract, tokenId));
+  }
+
+  updateListing({ nftContract, tokenId, price }: ListingRef & { price: BigNumberish }) {
+    return this.send(this.contract.update_listing(nftContract, tokenId, price));
+  }
+
+  updateMetadata({
+    nftContract,
+    tokenId,
+    metadataHash,
+    licenseTermsHash,
+  }: ListingRef & { metadataHash: BytesLike; licenseTermsHash: BytesLike }) {
+    return this.send(this.contract.update_metadata(nftContract, tokenId, metadataHash, licenseTermsHash));
+  }
+
+  registerDerivative({
+    nftContract,
+    parentTokenId,
+    metadataHash,
+    licenseTermsHash,
+  }: {
+    nftContract: string;
+    parentTokenId: BigNumberish;
+    metadataHash: BytesLike;
+    licenseTermsHash: BytesLike;
+  }) {
+    return this.send(this.contract.register_derivative(nftContract, parentTokenId, metadataHash, licenseTermsHash));
+  }
+
+  setFeeBps(bps: BigNumberish) {
+    return this.send(this.contract.setMarketplaceFeeBps(bps));
+  }
+
+  feeBps(): Promise<bigint> {
+    return this.contract.marketplaceFeeBps();
+  }
+
+  setMaxRoyaltyBps(bps: BigNumberish) {
+    return this.send(this.contract.setMaxRoyaltyBps(bps));
+  }
+
+  maxRoyaltyBps(): Promise<bigint> {
+    return this.contract.maxRoyaltyBps();
+  }
+
+  async getListing({ nftContract, tokenId }: ListingRef) {
+    return normalize(await this.contract.get_listing(nftContract, tokenId));
+  }
+}
@@ -0,0 +1,123 @@
+import { BigNumberish, ContractRunner, Signer } from "ethers";
+import { Subscription, Subscription__factory } from "../../typechain-types";
+import { ModuleClient } from "../client";
+import { normalize } from "../naming";
+
+export interface PlanDetails {
+  price: bigint;
+  duration: bigint;
+  tier: bigint;
+  paymentToken: string;
+  payout: string;
+  creator: string;
+  transferable: boolean;
+  available: boolean;
+}
+
+export interface CreatePlanParams {
+  price: BigNumberish;
+  duration: BigNumberish;
+  tier: BigNumberish; // un tier supérieur donne accès aux tiers inférieurs
+  paymentToken: string; // ERC20 prélevé à chaque période
+  payout: string; // adresse qui reçoit les paiements
+  transferable?: boolean; // pass ERC-721 transférable (défaut: non)
+}
+
+// IP-Subscription: catalogues de plans par créateur (le signer qui appelle createPlan)
+// et abonnements sous forme de pass ERC-721, un par créateur et détenteur.
+// Les paiements passent par transferFrom: approuver le jeton du plan au préalable.
+export class SubscriptionClient extends ModuleClient<Subscription> {
+  static async deploy(signer: Signer, { owner }: { owner?: string } = {}): Promise<SubscriptionClient> {
+    const contract = await new Subscription__factory(signer).deploy(owner ?? (await signer.getAddress()));
+    await contract.waitForDeployment();
+    return new SubscriptionClient(contract);
+  }
+
+  static attach(address: string, runner?: ContractRunner | null): SubscriptionClient {
+    return new SubscriptionClient(Subscription__factory.connect(address, runner));
+  }
+
+  // plan_id est dérivé du créateur et de la taille de son catalogue: on le récupère dans PlanCreated.
+  async createPlan({ price, duration, tier, paymentToken, payout, transferable = false }: CreatePlanParams) {
+    const result = await this.send(
+      this.contract.create_plan(price, duration, tier, paymentToken, payout, transferable)
+    );
+    const { planId } = this.expectEvent(result, "PlanCreated").args;
+    return { ...result, planId };
+  }
+
+  setPlanAvailable(planId: BigNumberish, available: boolean) {
+    return this.send(this.contract.set_plan_available(planId, available));
+  }
+
+  subscribe(planId: BigNumberish) {
+    return this.send(this.contract.subscribe(planId));
+  }
+
+  unsubscribe(planId: BigNumberish) {
+    return this.send(this.contract.unsubscribe(planId));
+  }
+
+  renew(creator: string) {
+    return this.send(this.contract.renew_subscription(creator));
+  }
+
+  // Changement de plan chez le même créateur; crédite au prorata le temps restant (même jeton).
+  upgrade(newPlanId: BigNumberish) {
+    return this.send(this.contract.upgrade_subscription(newPlanId));
+  }
+
+  setAutoRenew(creator: string, enabled: boolean) {
+    return this.send(this.contract.set_auto_renew(creator, enabled));
+  }
+
+  // Keeper: n'importe qui peut déclencher le renouvellement d'un pass arrivé à échéance.
+  // `renewed` vaut false si le paiement a échoué (RenewalFailed) ou si l'abonnement a expiré.
+  async processRenewal(passId: BigNumberish) {
+    const result = await this.send(this.contract.process_renewal(passId));
+    return { ...result, renewed: result.events.some((e) => e.name === "SubscriptionRenewed") };
+  }
+
+  setGracePeriod(seconds: BigNumberish) {
+    return this.send(this.contract.set_grace_period(seconds));
+  }
+
+  gracePeriod(): Promise<bigint> {
+    return this.contract.grace_period();
+  }
+
+  renewalDue(passId: BigNumberish): Promise<boolean> {
+    return this.contract.renewal_due(passId);
+  }
+
+  // Accès au contenu d'un créateur: pass actif (grâce comprise) de tier >= minTier.
+  hasAccess(creator: string, user: string, minTier: BigNumberish = 0n): Promise<boolean> {
+    return this.contract.has_access(creator, user, minTier);
+  }
+
+  // 0n si `holder` n'a pas de pass chez `creator`.
+  passOf(creator: string, holder: string): Promise<bigint> {
+    return this.contract.pass_of(creator, holder);
+  }
+
+  async passInfo(passId: BigNumberish) {
+    return normalize(await this.contract.get_subscriber_info(passId));
+  }
+
+  creatorPlans(creator: string): Promise<bigint[]> {
+    return this.contract.get_creator_plans(creator);
+  }
+
+  // Les vues suivantes portent sur msg.sender: connecter le client au bon signer.
+  isActive(): Promise<boolean> {
+    return this.contract.get_subscription_status();
+  }
+
+  planIds(): Promise<bigint[]> {
+    return this.contract.get_user_plan_ids();
+  }
+
+  async getPlan(planId: BigNumberish): Promise<PlanDetails> {
+    return normalize(await this.contract.get_plan(planId));
+  }
+}
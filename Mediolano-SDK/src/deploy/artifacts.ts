@@ -0,0 +1,34 @@
+import { execFileSync } from "child_process";
+import { promises as fs } from "fs";
+import path from "path";
+
+// Racine du dépôt: chaque module y est un projet Hardhat autonome.
+export const REPO_ROOT = path.resolve(__dirname, "..", "..", "..");
+
+export interface Artifact {
+  contractName: string;
+  abi: any[];
+  bytecode: string;
+  linkReferences?: Record<string, unknown>;
+}
+
+// Compile dans le dossier du module (sa config, sa version de solc, ses dépendances).
+export function compileModule(dir: string, root: string = REPO_ROOT): void {
+  execFileSync("npx", ["hardhat", "compile", "--quiet"], { cwd: path.join(root, dir), stdio: "inherit" });
+}
+
+export function artifactPath(dir: string, artifact: string, root: string = REPO_ROOT): string {
+  return path.join(root, dir, "artifacts", artifact);
+}
+
+export async function loadArtifact(dir: string, artifact: string, root: string = REPO_ROOT): Promise<Artifact> {
+  const file = artifactPath(dir, artifact, root);
+  let content: string;
+  try {
+    content = await fs.readFile(file, "utf8");
+  } catch (e: any) {
+    if (e.code === "ENOENT") throw new Error(`Artefact introuvable: ${file} (module ${dir} non compilé?)`);
+    throw e;
+  }
+  return JSON.parse(content);
+}
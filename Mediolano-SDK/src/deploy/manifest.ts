@@ -0,0 +1,48 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+export const DEFAULT_MANIFEST_DIR = path.resolve(__dirname, "..", "..", "deployments");
+
+export interface ManifestEntry {
+  address: string;
+  module?: string;
+  contract?: string;
+  args?: unknown[]; // bigint sérialisés en chaîne décimale
+  codeHash?: string; // keccak256 du bytecode de création (détecte une recompilation modifiée)
+  txHash?: string;
+  // Proxy / beacon: implémentation servie actuellement (args garde celle du déploiement)
+  implementation?: string;
+  // Adresse fournie à la main (token existant, multisig…): jamais redéployée
+  external?: boolean;
+}
+
+export interface Manifest {
+  network: string;
+  chainId: string;
+  contracts: Record<string, ManifestEntry>;
+}
+
+export function manifestPath(network: string, dir: string = DEFAULT_MANIFEST_DIR): string {
+  return path.join(dir, `${network}.json`);
+}
+
+export async function readManifest(network: string, dir: string = DEFAULT_MANIFEST_DIR): Promise<Manifest | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(manifestPath(network, dir), "utf8"));
+  } catch (e: any) {
+    if (e.code === "ENOENT") return undefined;
+    throw e;
+  }
+}
+
+// Clés triées: un re-run sans changement réécrit exactement le même fichier.
+export async function writeManifest(manifest: Manifest, dir: string = DEFAULT_MANIFEST_DIR): Promise<void> {
+  const contracts: Record<string, ManifestEntry> = {};
+  for (const id of Object.keys(manifest.contracts).sort()) contracts[id] = manifest.contracts[id];
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(manifestPath(manifest.network, dir), toJson({ ...manifest, contracts }) + "\n");
+}
+
+export function toJson(value: unknown): string {
+  return JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v), 2);
+}
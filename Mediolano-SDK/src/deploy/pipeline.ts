@@ -0,0 +1,251 @@
+import { Contract, ContractFactory, Interface, Signer, getAddress, isAddress, keccak256 } from "ethers";
+import { REPO_ROOT, loadArtifact } from "./artifacts";
+import { DEFAULT_MANIFEST_DIR, Manifest, readManifest, toJson, writeManifest } from "./manifest";
+
+export interface DeployContext {
+  network: string;
+  chainId: bigint;
+  deployer: string;
+  isLocal: boolean;
+  // Adresse d'un contrat du plan déjà traité (doit figurer dans `deps`)
+  address(id: string): string;
+}
+
+// Réglage post-déploiement idempotent: `set(value)` n'est envoyé que si `get()` diffère.
+// Par défaut sur le contrat de l'entrée; `target` vise un autre contrat du plan (dans `deps`).
+export interface Wiring {
+  target?: string;
+  get: string;
+  set: string;
+  value: (ctx: DeployContext) => unknown;
+}
+
+// Proxy ERC-1967 (UUPS) ou UpgradeableBeacon devant une implémentation du plan (dans `deps`).
+// `artifact` est celui du proxy/beacon; son adresse est conservée d'un run à l'autre et une
+// nouvelle implémentation est appliquée sur place (upgradeToAndCall / upgradeTo): l'état survit.
+export interface Upgradeable {
+  kind: "uups" | "beacon";
+  implementation: string;
+  // uups: arguments de initialize(), encodés avec l'ABI de l'implémentation
+  initialize?: (ctx: DeployContext) => unknown[];
+}
+
+export interface ContractSpec {
+  id: string; // clé dans le manifest
+  module: string; // dossier du module Hardhat
+  artifact: string; // relatif à <module>/artifacts
+  deps?: string[];
+  args?: (ctx: DeployContext) => unknown[];
+  wiring?: Wiring[];
+  // Arguments calculés par le pipeline (`args` ignoré); ABI exposée: celle de l'implémentation (uups)
+  upgradeable?: Upgradeable;
+  // Mocks (tokens de paiement…): déployés sur un réseau local seulement; ailleurs
+  // l'adresse doit être déclarée `external` dans le manifest.
+  localOnly?: boolean;
+}
+
+export type DeployStatus = "deployed" | "unchanged" | "upgraded" | "external";
+
+export interface DeployReport {
+  id: string;
+  address: string;
+  status: DeployStatus;
+  wired: string[]; // setters envoyés
+}
+
+export interface DeployOptions {
+  signer: Signer;
+  network: string;
+  plan: ContractSpec[];
+  only?: string[]; // sous-ensemble (+ dépendances transitives)
+  manifestDir?: string;
+  root?: string;
+  log?: (line: string) => void;
+}
+
+export const LOCAL_CHAIN_IDS = [31337n, 1337n];
+
+// Ordre topologique (dépendances d'abord), restreint à `only` et à ses dépendances.
+export function resolveOrder(plan: ContractSpec[], only?: string[]): ContractSpec[] {
+  const byId = new Map<string, ContractSpec>();
+  for (const spec of plan) {
+    if (byId.has(spec.id)) throw new Error(`Id en double dans le plan: ${spec.id}`);
+    byId.set(spec.id, spec);
+  }
+
+  const ordered: ContractSpec[] = [];
+  const state = new Map<string, "visiting" | "done">();
+  const visit = (id: string, from: string[]) => {
+    const spec = byId.get(id);
+    if (spec === undefined) {
+      throw new Error(from.length > 0 ? `${from[from.length - 1]}: dépendance inconnue ${id}` : `Contrat inconnu: ${id}`);
+    }
+    if (state.get(id) === "done") return;
+    if (state.get(id) === "visiting") throw new Error(`Cycle de dépendances: ${[...from, id].join(" → ")}`);
+    state.set(id, "visiting");
+    for (const dep of spec.deps ?? []) visit(dep, [...from, id]);
+    state.set(id, "done");
+    ordered.push(spec);
+  };
+
+  for (const id of only ?? plan.map((s) => s.id)) visit(id, []);
+  return ordered;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (typeof a === "string" && typeof b === "string" && isAddress(a) && isAddress(b)) {
+    return a.toLowerCase() === b.toLowerCase();
+  }
+  return toJson(a) === toJson(b);
+}
+
+async function hasCode(signer: Signer, address: string): Promise<boolean> {
+  return (await signer.provider!.getCode(address)) !== "0x";
+}
+
+// bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+function upgradeableArgs(spec: ContractSpec, ctx: DeployContext, implementationAbi: any[]): unknown[] {
+  const { kind, implementation, initialize } = spec.upgradeable!;
+  if (kind === "beacon") return [ctx.address(implementation), ctx.deployer];
+  const data = initialize ? new Interface(implementationAbi).encodeFunctionData("initialize", initialize(ctx)) : "0x";
+  return [ctx.address(implementation), data];
+}
+
+// Met le proxy/beacon déjà déployé à niveau si l'implémentation du plan a changé
+async function upgradeInPlace(spec: ContractSpec, address: string, abi: any[], ctx: DeployContext, signer: Signer) {
+  const { kind, implementation } = spec.upgradeable!;
+  const desired = ctx.address(implementation);
+  const contract = new Contract(address, abi, signer);
+  const current =
+    kind === "beacon"
+      ? await contract.getFunction("implementation")()
+      : getAddress("0x" + (await signer.provider!.getStorage(address, IMPLEMENTATION_SLOT)).slice(26));
+  if (sameValue(current, desired)) return false;
+
+  const tx =
+    kind === "beacon"
+      ? await contract.getFunction("upgradeTo")(desired)
+      : await contract.getFunction("upgradeToAndCall")(desired, "0x");
+  await tx.wait();
+  return true;
+}
+
+// Déploie le plan dans l'ordre des dépendances et tient à jour deployments/<network>.json.
+// Idempotent: un contrat déjà présent (même bytecode, mêmes arguments, code on-chain)
+// est réutilisé; un changement d'adresse d'une dépendance entraîne le redéploiement
+// des contrats qui la reçoivent au constructeur, ou un setter via `wiring`.
+export async function deployAll(options: DeployOptions): Promise<DeployReport[]> {
+  const { signer, network, plan } = options;
+  const manifestDir = options.manifestDir ?? DEFAULT_MANIFEST_DIR;
+  const log = options.log ?? (() => undefined);
+
+  const { chainId } = await signer.provider!.getNetwork();
+  const manifest: Manifest = (await readManifest(network, manifestDir)) ?? {
+    network,
+    chainId: chainId.toString(),
+    contracts: {},
+  };
+  if (manifest.chainId !== chainId.toString()) {
+    throw new Error(`Manifest ${network}: chainId ${manifest.chainId} ≠ ${chainId} du réseau connecté`);
+  }
+
+  const order = resolveOrder(plan, options.only);
+  const done = new Map<string, string>();
+  const abis = new Map<string, any[]>();
+  const ctx: DeployContext = {
+    network,
+    chainId,
+    deployer: await signer.getAddress(),
+    isLocal: LOCAL_CHAIN_IDS.includes(chainId),
+    address: (id) => {
+      const address = done.get(id);
+      if (address === undefined) throw new Error(`Adresse de ${id} demandée avant son déploiement (deps manquante?)`);
+      return address;
+    },
+  };
+
+  const reports: DeployReport[] = [];
+  for (const spec of order) {
+    const entry = manifest.contracts[spec.id];
+    const artifact = await loadArtifact(spec.module, spec.artifact, options.root ?? REPO_ROOT);
+    const up = spec.upgradeable;
+    if (up !== undefined && !(spec.deps ?? []).includes(up.implementation)) {
+      throw new Error(`${spec.id}: implémentation ${up.implementation} absente de deps`);
+    }
+    const abi = up?.kind === "uups" ? abis.get(up.implementation)! : artifact.abi;
+    abis.set(spec.id, abi);
+
+    if (entry?.external) {
+      if (!(await hasCode(signer, entry.address))) throw new Error(`${spec.id}: aucun code à l'adresse externe ${entry.address}`);
+      done.set(spec.id, entry.address);
+      reports.push({ id: spec.id, address: entry.address, status: "external", wired: [] });
+      log(`${spec.id}: externe ${entry.address}`);
+      continue;
+    }
+    if (spec.localOnly && !ctx.isLocal) {
+      throw new Error(`${spec.id}: adresse externe requise sur ${network} ({ "address": …, "external": true } dans le manifest)`);
+    }
+
+    if (artifact.linkReferences !== undefined && Object.keys(artifact.linkReferences).length > 0) {
+      throw new Error(`${spec.id}: bibliothèques externes à lier, non supporté`);
+    }
+    const args = JSON.parse(toJson(up ? upgradeableArgs(spec, ctx, abis.get(up.implementation)!) : spec.args?.(ctx) ?? []));
+    const codeHash = keccak256(artifact.bytecode);
+
+    let address: string;
+    let status: DeployStatus;
+    if (
+      entry !== undefined &&
+      entry.codeHash === codeHash &&
+      (up !== undefined || toJson(entry.args) === toJson(args)) &&
+      (await hasCode(signer, entry.address))
+    ) {
+      address = entry.address;
+      status = "unchanged";
+      if (up !== undefined && (await upgradeInPlace(spec, address, abi, ctx, signer))) {
+        status = "upgraded";
+        manifest.contracts[spec.id] = { ...entry, implementation: ctx.address(up.implementation) };
+        await writeManifest(manifest, manifestDir);
+      }
+    } else {
+      const contract = await new ContractFactory(artifact.abi, artifact.bytecode, signer).deploy(...args);
+      await contract.waitForDeployment();
+      address = await contract.getAddress();
+      status = "deployed";
+      manifest.contracts[spec.id] = {
+        address,
+        module: spec.module,
+        contract: artifact.contractName,
+        args,
+        codeHash,
+        txHash: contract.deploymentTransaction()?.hash,
+        ...(up ? { implementation: ctx.address(up.implementation) } : {}),
+      };
+      // Sauvegarde à chaque étape: un échec plus loin ne perd pas les adresses déjà déployées
+      await writeManifest(manifest, manifestDir);
+    }
+    done.set(spec.id, address);
+
+    const wired: string[] = [];
+    for (const wiring of spec.wiring ?? []) {
+      const target = wiring.target ?? spec.id;
+      if (target !== spec.id && !(spec.deps ?? []).includes(target)) {
+        throw new Error(`${spec.id}: wiring sur ${target} absent de deps`);
+      }
+      const contract = new Contract(ctx.address(target), abis.get(target)!, signer);
+      const desired = wiring.value(ctx);
+      if (sameValue(await contract.getFunction(wiring.get)(), desired)) continue;
+      const tx = await contract.getFunction(wiring.set)(desired);
+      await tx.wait();
+      wired.push(target === spec.id ? wiring.set : `${target}.${wiring.set}`);
+    }
+
+    reports.push({ id: spec.id, address, status, wired });
+    log(`${spec.id}: ${status} ${address}${wired.length > 0 ? ` (${wired.join(", ")})` : ""}`);
+  }
+
+  await writeManifest(manifest, manifestDir);
+  return reports;
+}
@@ -0,0 +1,416 @@
+import { ZeroHash } from "ethers";
+import type { ContractSpec } from "./pipeline";
+
+// Valeurs par défaut des constructeurs; à ajuster avant un déploiement public.
+const BASE_URI = "ipfs://mediolano/";
+const IPFS_GATEWAY = "https://ipfs.io/ipfs/";
+const MARKETPLACE_FEE_BPS = 250n;
+const AUCTION_DAYS = 3n;
+const REVEAL_DAYS = 1n;
+
+// Tous les contrats déployables du dépôt (hors mocks de test), un id unique par entrée.
+// Certains modules ne compilent pas encore (erreurs Solidity, ou hardhat.config.ts ESM refusé
+// par Hardhat 2): leur déploiement échoue tant qu'ils ne sont pas corrigés, voir la liste
+// UNBUILT_MODULES du test "plan réel" (test/deploy.test.ts), qui déploie tout le reste.
+// Les tokens ERC20 sont des mocks `localOnly`: sur un réseau public, déclarer l'adresse
+// réelle comme entrée `external` du manifest.
+export const DEPLOY_PLAN: ContractSpec[] = [
+  // --- Tokens (local uniquement) ---
+  {
+    id: "PaymentToken",
+    module: "IP-Marketplace-Auction",
+    artifact: "src/MarketplaceAuction.sol/MyToken.json",
+    args: (ctx) => [ctx.deployer],
+    localOnly: true,
+  },
+  {
+    id: "GovernanceToken",
+    module: "IP-Marketplace-Auction",
+    artifact: "src/MarketplaceAuction.sol/MyToken.json",
+    args: (ctx) => [ctx.deployer],
+    localOnly: true,
+  },
+
+  // --- Identité et registres IP ---
+  {
+    id: "MIP",
+    module: "MIP-IP-Factory-ERC721",
+    artifact: "src/MIP.sol/MIP.json",
+    args: (ctx) => [ctx.deployer],
+  },
+  {
+    id: "IPIdentity",
+    module: "IP-ID",
+    artifact: "src/IPIdentity.sol/IPIdentity.json",
+    args: (ctx) => [ctx.deployer, "Mediolano IP Identity", "MIPID", BASE_URI],
+  },
+  {
+    id: "IPAssignment",
+    module: "IP-Assignement",
+    artifact: "src/IPAssignement.sol/IPAssignment.json",
+    args: (ctx) => [ctx.deployer],
+  },
+  {
+    id: "VisibilityManagement",
+    module: "IP-Assets-Validity",
+    artifact: "src/lib.sol/VisibilityManagement.json",
+  },
+
+  // --- Tokenisation et collections ---
+  {
+    id: "IPNFT",
+    module: "IP-Bulk-Tokenization",
+    artifact: "src/IPTokenization.sol/IPNFT.json",
+    args: (ctx) => [ctx.deployer, "Mediolano IP", "MIPNFT", BASE_URI],
+  },
+  {
+    id: "IPFSManager",
+    module: "IP-Bulk-Tokenization",
+    artifact: "src/IPTokenization.sol/IPFSManager.json",
+    args: () => [IPFS_GATEWAY],
+  },
+  {
+    id: "IPTokenizer",
+    module: "IP-Bulk-Tokenization",
+    artifact: "src/IPTokenization.sol/IPTokenizer.json",
+    deps: ["IPNFT"],
+    args: (ctx) => [ctx.deployer, ctx.address("IPNFT"), IPFS_GATEWAY],
+    // seul le tokenizer mint: il doit être owner de la collection
+    wiring: [{ target: "IPNFT", get: "owner", set: "transferOwnership", value: (ctx) => ctx.address("IPTokenizer") }],
+  },
+  {
+    id: "ColabIPCollection",
+    module: "IP-Colab-Collections",
+    artifact: "src/IPCollection.sol/IPCollection.json",
+    args: (ctx) => [ctx.deployer],
+  },
+  {
+    id: "IPCollectionERC721",
+    module: "IP-Collection-ERC-721",
+    artifact: "src/IPCollection.sol/IPCollection.json",
+    args: (ctx) => ["Mediolano Collection", "MCOL", BASE_URI, ctx.deployer],
+  },
+  {
+    id: "MIPCollections",
+    module: "MIP-Collections-ERC721",
+    artifact: "src/IIPCollection.sol/IPCollection.json",
+  },
+  {
+    id: "MIPCollectionAlt",
+    module: "MIP-Collections-ERC721-Alt",
+    artifact: "src/IPCollection.sol/IPCollection.json",
+    args: (ctx) => ["Mediolano Collection", "MCOL", BASE_URI, ctx.deployer],
+  },
+  {
+    id: "OpenEditionERC721A",
+    module: "MIP-Openedition-ERC721a",
+    artifact: "src/Openedition.sol/OpenEditionERC721A.json",
+    args: (ctx) => ["Mediolano Open Edition", "MOE", BASE_URI, ctx.deployer],
+  },
+  {
+    id: "ERC1155CairoPort",
+    module: "IP-Programmable-ERC-1155",
+    artifact: "src/Counter1155.sol/ERC1155CairoPort.json",
+    args: (ctx) => [BASE_URI, ctx.deployer, [], []],
+  },
+  {
+    id: "Counter",
+    module: "IP-Programmable-ERC-721",
+    artifact: "src/Counter.sol/Counter.json",
+  },
+  {
+    id: "ERC721EnumerableMinimal",
+    module: "IP-Programmable-ERC-721",
+    artifact: "src/Counter.sol/ERC721EnumerableMinimal.json",
+    args: () => ["Mediolano Programmable", "MPRG"],
+  },
+  {
+    id: "ERC1155CollectionImpl",
+    module: "IP-Programmable-ERC1155-Collections",
+    artifact: "src/ERC1155Collection.sol/ERC1155Collection.json",
+  },
+  {
+    id: "ERC1155CollectionsFactory",
+    module: "IP-Programmable-ERC1155-Collections",
+    artifact: "src/ERC1155Collection.sol/ERC1155CollectionsFactory.json",
+    deps: ["ERC1155CollectionImpl"],
+    args: (ctx) => [ctx.deployer, ctx.address("ERC1155CollectionImpl")],
+  },
+  {
+    id: "NFTAirdrop",
+    module: "IP-Airdrop",
+    artifact: "src/NFTAirdrop.sol/NFTAirdrop.json",
+    // racine Merkle posée ensuite via `npx hardhat airdrop:allowlist --contract …`
+    args: (ctx) => ["Mediolano Airdrop", "MAIR", BASE_URI, ZeroHash, ctx.deployer],
+  },
+  {
+    id: "IPDrop",
+    module: "IP-Drop",
+    artifact: "src/IPDrop.sol/IPDrop.json",
+    deps: ["PaymentToken"],
+    args: (ctx) => [
+      "Mediolano Drop",
+      "MDROP",
+      BASE_URI,
+      10_000n,
+      ctx.deployer,
+      // fenêtre fermée (0 → 0) tant que l'owner n'appelle pas set_claim_conditions
+      { startTime: 0n, endTime: 0n, price: 0n, maxQuantityPerWallet: 0n, paymentToken: ctx.address("PaymentToken") },
+      false,
+    ],
+  },
+
+  // --- Marketplaces ---
+  {
+    id: "IPMarketplace",
+    module: "IP-Marketplace",
+    artifact: "src/IPMarketplace.sol/IPMarketplace.json",
+    args: () => [MARKETPLACE_FEE_BPS],
+  },
+  {
+    id: "MIPListing",
+    module: "IP-Marketplace-Listing",
+    artifact: "src/MarketplaceListing.sol/MIPListing.json",
+    deps: ["IPMarketplace"],
+    // marketplace branché par setter: un redéploiement d'IPMarketplace ne redéploie pas le listing
+    args: (ctx) => [ctx.deployer, ctx.address("IPMarketplace")],
+    wiring: [
+      { get: "ip_marketplace_address", set: "update_ip_marketplace_address", value: (ctx) => ctx.address("IPMarketplace") },
+    ],
+  },
+  {
+    id: "MarketplaceAuction",
+    module: "IP-Marketplace-Auction",
+    artifact: "src/MarketplaceAuction.sol/MarketPlace.json",
+    args: () => [AUCTION_DAYS, REVEAL_DAYS],
+  },
+  {
+    id: "BulkOrderIPNFT",
+    // ERC721 de démo d'IP-Marketplace-Auction: mint(to) onlyOwner, comme l'attend le tokenizer
+    module: "IP-Marketplace-Auction",
+    artifact: "src/MarketplaceAuction.sol/MyNFT.json",
+    args: (ctx) => [ctx.deployer],
+  },
+  {
+    id: "BulkOrderTokenizer",
+    module: "IP-Marketplace-Bulk-Order",
+    artifact: "src/MarketplaceBulker.sol/IPTokenizer.json",
+    deps: ["BulkOrderIPNFT"],
+    args: (ctx) => [ctx.deployer, ctx.address("BulkOrderIPNFT"), IPFS_GATEWAY],
+    wiring: [
+      { target: "BulkOrderIPNFT", get: "owner", set: "transferOwnership", value: (ctx) => ctx.address("BulkOrderTokenizer") },
+    ],
+  },
+  {
+    id: "BulkOrderMarketplace",
+    module: "IP-Marketplace-Bulk-Order",
+    artifact: "src/MarketplaceBulker.sol/IPMarketplace.json",
+    deps: ["BulkOrderTokenizer", "PaymentToken"],
+    args: (ctx) => [ctx.deployer, ctx.address("BulkOrderTokenizer"), ctx.address("PaymentToken"), ctx.deployer],
+  },
+  {
+    id: "PublicProfileMarketplace",
+    module: "IP-Marketplace-Public-Profile",
+    artifact: "src/ProfilMarketplace.sol/PublicProfileMarketplace.json",
+    args: (ctx) => [0n, ctx.deployer],
+  },
+
+  // --- Licences, leasing, escrow ---
+  {
+    id: "IPLicensingFactory",
+    module: "IP-License-Agreement",
+    artifact: "src/LicenseAgreement.sol/IPLicensingFactory.json",
+    args: (ctx) => [ctx.deployer, ZeroHash],
+  },
+  {
+    id: "IPOfferLicensing",
+    module: "IP-Offer-Licensing",
+    artifact: "src/IPOfferLicensing.sol/IPOfferLicensing.json",
+    deps: ["MIP"],
+    args: (ctx) => [ctx.address("MIP")],
+  },
+  {
+    // politique: ERC-1155 par quantité, frais au démarrage, résiliable par le bailleur
+    id: "IPLeasing",
+    module: "IP-Leasing",
+    artifact: "src/IPLeasing.sol/IPLeasing.json",
+    deps: ["PaymentToken"],
+    args: (ctx) => [
+      ctx.deployer,
+      BASE_URI,
+      { token_model: 0n, fee_timing: 0n, termination: 0n, fee_token: ctx.address("PaymentToken") },
+    ],
+  },
+  {
+    id: "CollectiveIPAgreement",
+    module: "IP-Collective-Agreement-Leasing",
+    artifact: "src/CollectiveAgreementLeasing.sol/CollectiveIPAgreement.json",
+    args: (ctx) => [ctx.deployer, BASE_URI, ctx.deployer],
+  },
+  {
+    id: "CollectiveIPCore",
+    module: "IP-Collective-Agreement",
+    artifact: "src/CollectiveIPCore.sol/CollectiveIPCore.json",
+    args: (ctx) => [ctx.deployer],
+  },
+  {
+    id: "IPCommissionEscrow",
+    module: "IP-Commission-Escrow",
+    artifact: "src/CommissionEscrow.sol/IPCommissionEscrow.json",
+    deps: ["PaymentToken"],
+    args: (ctx) => [ctx.address("PaymentToken")],
+  },
+  {
+    id: "IPNegotiationEscrow",
+    module: "IP-Negotiation-Escrow",
+    artifact: "src/IPEscrow.sol/IPNegotiationEscrow.json",
+    deps: ["PaymentToken"],
+    args: (ctx) => [ctx.address("PaymentToken")],
+  },
+  // Franchise: accords en BeaconProxy (un beacon pour tous), manager derrière un proxy UUPS
+  {
+    id: "FranchiseAgreementImpl",
+    module: "IP-Franchize-Monetization",
+    artifact: "src/IPFranchisingAgreement.sol/IPFranchisingAgreement.json",
+  },
+  {
+    id: "FranchiseAgreementBeacon",
+    module: "IP-Franchize-Monetization",
+    artifact: "@openzeppelin/contracts/proxy/beacon/UpgradeableBeacon.sol/UpgradeableBeacon.json",
+    deps: ["FranchiseAgreementImpl"],
+    upgradeable: { kind: "beacon", implementation: "FranchiseAgreementImpl" },
+  },
+  {
+    id: "IPFranchiseManagerImpl",
+    module: "IP-Franchize-Monetization",
+    artifact: "src/IPFranchiseManager.sol/IPFranchiseManager.json",
+  },
+  {
+    id: "IPFranchiseManager",
+    module: "IP-Franchize-Monetization",
+    artifact: "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol/ERC1967Proxy.json",
+    deps: ["IPFranchiseManagerImpl", "FranchiseAgreementBeacon", "MIP", "PaymentToken"],
+    // IP n°1 du registre MIP; link_ip_asset à faire par l'owner une fois le token minté
+    upgradeable: {
+      kind: "uups",
+      implementation: "IPFranchiseManagerImpl",
+      initialize: (ctx) => [
+        ctx.deployer,
+        1n,
+        ctx.address("MIP"),
+        0n,
+        {
+          kind: 0,
+          paymentToken: ctx.address("PaymentToken"),
+          franchiseFee: 0n,
+          licenseStart: 0n,
+          licenseEnd: 0n,
+          exclusivity: 1,
+          territoryId: 0n,
+          oneTimeFee: 0n,
+          royaltyFees: {
+            royaltyPercent: 0,
+            paymentSchedule: 0,
+            customInterval: 0n,
+            hasCustomInterval: false,
+            lastPaymentId: 0,
+            maxMissedPayments: 0,
+          },
+        },
+        ctx.address("FranchiseAgreementBeacon"),
+      ],
+    },
+  },
+
+  // --- Financement, revenus, abonnements ---
+  {
+    id: "IPCrowdfunding",
+    module: "IP-Crowfunding",
+    artifact: "src/IPCrowdfunding.sol/IPCrowdfunding.json",
+    deps: ["PaymentToken"],
+    args: (ctx) => [ctx.deployer, ctx.address("PaymentToken")],
+  },
+  {
+    id: "Launchpad",
+    module: "IP-Launchpad",
+    artifact: "src/IPLaunchpad.sol/Crowdfunding.json",
+    deps: ["PaymentToken"],
+    args: (ctx) => [ctx.deployer, ctx.address("PaymentToken")],
+  },
+  {
+    id: "IPRevenueSharing",
+    module: "IP-Revenue-Share",
+    artifact: "src/IPRevenueSharing.sol/IPRevenueSharing.json",
+    args: (ctx) => [ctx.deployer],
+  },
+  {
+    id: "MediolanoNFT",
+    module: "IP-Revenue-Share",
+    artifact: "src/IPRevenueSharing.sol/Mediolano.json",
+    args: () => [BASE_URI],
+  },
+  {
+    id: "IPSponsorship",
+    module: "IP-Sponsorship",
+    artifact: "src/IPSponsorship.sol/IPSponsorship.json",
+    args: (ctx) => [ctx.deployer],
+  },
+  {
+    id: "Subscription",
+    module: "IP-Subscription",
+    artifact: "src/Subscription.sol/Subscription.json",
+    args: (ctx) => [ctx.deployer],
+  },
+  {
+    id: "AssetNFT",
+    module: "IP-Syndication",
+    artifact: "src/IPSyndication.sol/AssetNFT.json",
+    args: () => [BASE_URI],
+  },
+  {
+    id: "IPSyndication",
+    module: "IP-Syndication",
+    artifact: "src/IPSyndication.sol/IPSyndication.json",
+    deps: ["AssetNFT"],
+    args: (ctx) => [ctx.address("AssetNFT")],
+  },
+  {
+    id: "IPTicketService",
+    module: "IP-Tickets",
+    artifact: "src/Ticket.sol/IPTicketService.json",
+    deps: ["PaymentToken"],
+    args: (ctx) => ["Mediolano Tickets", "MTIX", ctx.address("PaymentToken"), BASE_URI],
+  },
+  {
+    id: "IPClub",
+    module: "IP-Club",
+    artifact: "src/IPClubAll.sol/IPClub.json",
+  },
+
+  // --- Utilisateurs et partenaires ---
+  {
+    id: "UserAchievements",
+    module: "User-Achievements",
+    artifact: "src/Achievement.sol/UserAchievements.json",
+    args: (ctx) => [ctx.deployer],
+  },
+  {
+    id: "UserPublicProfile",
+    module: "User-Public-Profile",
+    artifact: "src/Public.sol/UserPublicProfile.json",
+  },
+  {
+    id: "EncryptedPreferencesRegistry",
+    module: "User-Settings",
+    artifact: "src/Settings.sol/EncryptedPreferencesRegistry.json",
+    // mediolano_app = deployer: remplacer par l'adresse du relayer de l'app
+    args: (ctx) => [ctx.deployer, ctx.deployer],
+  },
+  {
+    id: "PartnerCertification",
+    module: "Partner-Certification",
+    artifact: "src/Cert.sol/PartnerCertification.json",
+    deps: ["GovernanceToken", "MIP"],
+    args: (ctx) => [ctx.address("GovernanceToken"), ctx.deployer, ctx.address("MIP")],
+  },
+];
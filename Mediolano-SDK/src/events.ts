@@ -0,0 +1,46 @@
+import { BaseContract, Log, TransactionReceipt } from "ethers";
+import type { TypedContractEvent } from "../typechain-types/common";
+import { Camelize, normalize } from "./naming";
+
+type Filters<C> = C extends { filters: infer F } ? F : never;
+
+// Noms d'events du contrat; on ignore les clés de signature complète ("Foo(uint256)").
+export type EventName<C> = {
+  [K in keyof Filters<C>]: K extends `${string}(${string}`
+    ? never
+    : Filters<C>[K] extends TypedContractEvent
+      ? K
+      : never;
+}[keyof Filters<C>] &
+  string;
+
+type EventArgs<C, K extends keyof Filters<C>> =
+  Filters<C>[K] extends TypedContractEvent<any, any, infer O> ? Camelize<O> : never;
+
+// Union discriminée par `name`: `if (e.name === "LeaseStarted") e.args.endTime`
+export type DecodedEvent<C> = {
+  [K in EventName<C>]: { name: K; args: EventArgs<C, K>; log: Log };
+}[EventName<C>];
+
+// Décode les logs émis par `contract` dans un reçu; les logs d'autres contrats sont ignorés.
+export async function decodeEvents<C extends BaseContract>(
+  contract: C,
+  receipt: TransactionReceipt
+): Promise<DecodedEvent<C>[]> {
+  const address = (await contract.getAddress()).toLowerCase();
+  const events: DecodedEvent<C>[] = [];
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== address) continue;
+    const parsed = contract.interface.parseLog(log);
+    if (parsed === null) continue;
+    events.push({ name: parsed.name, args: normalize(parsed.args), log } as DecodedEvent<C>);
+  }
+  return events;
+}
+
+export function findEvent<E extends { name: string }, N extends E["name"]>(
+  events: E[],
+  name: N
+): Extract<E, { name: N }> | undefined {
+  return events.find((e) => e.name === name) as Extract<E, { name: N }> | undefined;
+}
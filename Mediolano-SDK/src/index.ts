@@ -0,0 +1,39 @@
+export { MODULES } from "./modules";
+export type { ModuleName, ModuleSpec } from "./modules";
+export { normalize, camelKey } from "./naming";
+export type { Camelize, CamelKey } from "./naming";
+export { decodeEvents, findEvent } from "./events";
+export type { DecodedEvent, EventName } from "./events";
+export { ModuleClient } from "./client";
+export type { TxResult } from "./client";
+
+export { FeeTiming, LeasingClient, Termination, TokenModel } from "./clients/leasing";
+export type { CreateLeaseOfferParams, CreateOpenLeaseOfferParams, LeasePolicyParams, RentTermsParams } from "./clients/leasing";
+export { DropClient } from "./clients/drop";
+export type { ClaimConditions, DeployDropParams } from "./clients/drop";
+export { MarketplaceClient } from "./clients/marketplace";
+export type { DerivativeRights, ListItemParams, ListingRef, UsageRights } from "./clients/marketplace";
+export { AuctionClient, AuctionKind, computeBidHash } from "./clients/auction";
+export type { AuctionParams, SealedBid } from "./clients/auction";
+export { SubscriptionClient } from "./clients/subscription";
+export type { CreatePlanParams, PlanDetails } from "./clients/subscription";
+export { AirdropClient } from "./clients/airdrop";
+export type { DeployAirdropParams } from "./clients/airdrop";
+
+// Pipeline de déploiement multi-modules (scripts/deploy.ts)
+export { DEPLOY_PLAN } from "./deploy/plan";
+export { deployAll, resolveOrder, LOCAL_CHAIN_IDS } from "./deploy/pipeline";
+export type { ContractSpec, DeployContext, DeployOptions, DeployReport, DeployStatus, Upgradeable, Wiring } from "./deploy/pipeline";
+export { readManifest, writeManifest, manifestPath } from "./deploy/manifest";
+export type { Manifest, ManifestEntry } from "./deploy/manifest";
+
+// Indexer d'events marketplace
+export { MarketplaceIndexer } from "./indexer/indexer";
+export type { IndexedContract, IndexerOptions, SyncResult } from "./indexer/indexer";
+export { MarketplaceStore } from "./indexer/store";
+export type { Auction, AuctionMode, Listing, ListingQuery, MarketEvent, Sale, SalesQuery } from "./indexer/store";
+export { MARKET_ABIS } from "./indexer/abi";
+export type { MarketKind } from "./indexer/abi";
+
+// Contrats et factories typechain (générés par `npm run typechain`)
+export * from "../typechain-types";
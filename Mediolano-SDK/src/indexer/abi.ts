@@ -0,0 +1,36 @@
+import { Interface } from "ethers";
+
+// Fragments des contrats marketplace indexés (mêmes signatures que les sources Solidity).
+// L'indexer ne dépend pas des artefacts: il suffit de l'adresse et du type de contrat.
+export const MARKET_ABIS = {
+  // IP-Marketplace/src/IPMarketplace.sol
+  "ip-marketplace": new Interface([
+    "event ItemListed(uint256 indexed token_id, address indexed nft_contract, address seller, uint256 price, address currency)",
+    "event ItemUnlisted(uint256 indexed token_id, address indexed nft_contract)",
+    "event ItemSold(uint256 indexed token_id, address indexed nft_contract, address seller, address buyer, uint256 price)",
+    "event ListingUpdated(uint256 indexed token_id, address indexed nft_contract, uint256 new_price)",
+  ]),
+  // IP-Marketplace-Listing/src/MarketplaceListing.sol — l'event ne porte ni collection ni prix:
+  // ils sont relus dans le calldata de create_listing.
+  "mip-listing": new Interface([
+    "event ListingCreated(uint256 indexed token_id, address lister, uint64 date)",
+    "function create_listing(address assetContractAddress, uint256 tokenId, uint256 startTime, uint256 secondsUntilEndTime, uint256 quantityToList, address currencyToAccept, uint256 buyoutPricePerToken, uint256 tokenTypeOfListing)",
+  ]),
+  // IP-Marketplace-Auction/src/MarketplaceAuction.sol
+  auction: new Interface([
+    "event AuctionCreated(address indexed owner, address indexed token_address, uint256 indexed token_id, uint256 start_price, address currency_address)",
+    "event BidCommitted(address indexed bidder, uint64 indexed auction_id)",
+    "event BidRevealed(address indexed bidder, uint64 indexed auction_id, uint256 amount)",
+    "event AuctionFinalized(uint64 indexed auction_id, address indexed highest_bidder)",
+    "event AuctionConfigured(uint64 indexed auction_id, uint8 kind, uint256 end_price, uint256 min_increment)",
+    "event BidPlaced(address indexed bidder, uint64 indexed auction_id, uint256 amount, uint64 end_time)",
+  ]),
+  // IP-Marketplace-Bulk-Order/src/MarketplaceBulker.sol
+  bulker: new Interface([
+    "event PaymentProcessed(address indexed seller, uint256 amount, uint256 commissionShare)",
+    "event RoyaltyPaid(uint256 indexed assetId, address indexed receiver, uint256 amount)",
+    "event BulkPurchaseCompleted(address indexed buyer, uint256[] assetIds, uint256 totalAmount)",
+  ]),
+};
+
+export type MarketKind = keyof typeof MARKET_ABIS;
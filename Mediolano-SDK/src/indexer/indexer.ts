@@ -0,0 +1,181 @@
+import { Log, Provider, getAddress } from "ethers";
+import { normalize } from "../naming";
+import { MARKET_ABIS, MarketKind } from "./abi";
+import { MarketEvent, MarketplaceStore } from "./store";
+
+export interface IndexedContract {
+  kind: MarketKind;
+  address: string;
+  collection?: string; // bulker: collection des assetIds
+}
+
+export interface IndexerOptions {
+  contracts: IndexedContract[];
+  fromBlock?: number; // bloc de déploiement (requis pour la numérotation des enchères)
+  confirmations?: number;
+  batchSize?: number;
+  maxReorgDepth?: number;
+}
+
+export interface SyncResult {
+  from: number;
+  to: number;
+  events: number;
+  reorgedFrom?: number; // premier bloc annulé
+}
+
+// Suit un nœud JSON-RPC, décode les events marketplace dans un MarketplaceStore
+// et annule les blocs orphelins lors d'une réorganisation.
+export class MarketplaceIndexer {
+  readonly store: MarketplaceStore;
+  private readonly contracts: Map<string, IndexedContract>;
+  private readonly fromBlock: number;
+  private readonly confirmations: number;
+  private readonly batchSize: number;
+  private readonly maxReorgDepth: number;
+
+  private head: number; // dernier bloc indexé
+  private hashes = new Map<number, string>(); // blocs indexés de la fenêtre maxReorgDepth => hash
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(readonly provider: Provider, options: IndexerOptions) {
+    this.contracts = new Map(options.contracts.map((c) => [getAddress(c.address), { ...c, address: getAddress(c.address) }]));
+    this.fromBlock = options.fromBlock ?? 0;
+    this.confirmations = options.confirmations ?? 0;
+    this.batchSize = options.batchSize ?? 2_000;
+    this.maxReorgDepth = options.maxReorgDepth ?? 128;
+    this.head = this.fromBlock - 1;
+    this.store = new MarketplaceStore(
+      new Map(options.contracts.filter((c) => c.kind === "bulker").map((c) => [c.address.toLowerCase(), c.collection ?? null]))
+    );
+  }
+
+  get syncedBlock(): number {
+    return this.head;
+  }
+
+  // Un passage jusqu'à la tête de chaîne (moins `confirmations`).
+  async sync(): Promise<SyncResult> {
+    let reorgedFrom: number | undefined;
+    const fork = await this.findForkPoint();
+    if (fork < this.head) {
+      this.store.rollback(fork);
+      for (const n of this.hashes.keys()) if (n > fork) this.hashes.delete(n);
+      this.head = fork;
+      reorgedFrom = fork + 1;
+    }
+
+    const from = this.head + 1;
+    const tip = (await this.provider.getBlockNumber()) - this.confirmations;
+    let events = 0;
+    for (let start = from; start <= tip; start += this.batchSize) {
+      const end = Math.min(start + this.batchSize - 1, tip);
+      events += await this.indexRange(start, end);
+    }
+    return { from, to: this.head, events, reorgedFrom };
+  }
+
+  start({ pollMs = 2_000, onError }: { pollMs?: number; onError?: (e: unknown) => void } = {}): void {
+    if (this.timer !== undefined) return;
+    const tick = async () => {
+      try {
+        await this.sync();
+      } catch (e) {
+        onError?.(e);
+      }
+      if (this.timer !== undefined) this.timer = setTimeout(tick, pollMs);
+    };
+    this.timer = setTimeout(tick, 0);
+  }
+
+  stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  private async indexRange(from: number, to: number): Promise<number> {
+    const logs = await this.provider.getLogs({ address: [...this.contracts.keys()], fromBlock: from, toBlock: to });
+    logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    // Chaque log doit appartenir à la chaîne canonique: une réorganisation survenue depuis
+    // getLogs laisse des logs orphelins, la plage est alors reprise au prochain sync.
+    const timestamps = new Map<number, number>();
+    for (const log of logs) {
+      if (timestamps.has(log.blockNumber)) continue;
+      const block = await this.provider.getBlock(log.blockNumber);
+      if (block === null || block.hash !== log.blockHash) {
+        throw new Error(`Réorganisation pendant l'indexation du bloc ${log.blockNumber}`);
+      }
+      timestamps.set(log.blockNumber, block.timestamp);
+    }
+
+    const events: MarketEvent[] = [];
+    for (const log of logs) {
+      const event = await this.decode(log, timestamps);
+      if (event !== undefined) events.push(event);
+    }
+
+    // un hash par bloc de la fenêtre: la bifurcation est toujours située entre deux blocs connus
+    const window = new Map<number, string>();
+    for (const log of logs) window.set(log.blockNumber, log.blockHash);
+    for (let n = Math.max(from, to - this.maxReorgDepth); n <= to; n++) {
+      if (window.has(n)) continue;
+      const block = await this.provider.getBlock(n);
+      if (block === null) throw new Error(`Bloc ${n} introuvable`);
+      window.set(n, block.hash!);
+    }
+    for (const [n, hash] of window) this.hashes.set(n, hash);
+
+    this.store.add(events);
+    this.head = to;
+    for (const n of this.hashes.keys()) if (n < to - this.maxReorgDepth) this.hashes.delete(n);
+    return events.length;
+  }
+
+  private async decode(log: Log, timestamps: Map<number, number>): Promise<MarketEvent | undefined> {
+    const contract = this.contracts.get(getAddress(log.address));
+    if (contract === undefined) return undefined;
+    const iface = MARKET_ABIS[contract.kind];
+    const parsed = iface.parseLog(log);
+    if (parsed === null) return undefined;
+
+    let call: Record<string, any> | undefined;
+    if (contract.kind === "mip-listing") {
+      const tx = await this.provider.getTransaction(log.transactionHash);
+      const decoded = tx !== null && tx.to !== null && getAddress(tx.to) === contract.address ? iface.parseTransaction(tx) : null;
+      if (decoded?.name === "create_listing") call = normalize(decoded.args) as Record<string, any>;
+    }
+
+    return {
+      kind: contract.kind,
+      market: contract.address,
+      name: parsed.name,
+      args: normalize(parsed.args) as Record<string, any>,
+      call,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      logIndex: log.index,
+      txHash: log.transactionHash,
+      timestamp: timestamps.get(log.blockNumber)!,
+    };
+  }
+
+  // Dernier bloc indexé tel que tous les hashes connus jusqu'à lui sont encore canoniques:
+  // chaque hash est vérifié, pas seulement le plus récent (celui de `to` peut avoir été lu
+  // sur une autre branche que les logs). Le plus ancien hash connu orphelin: soit c'est le
+  // premier bloc indexé et tout est repris depuis fromBlock, soit la fenêtre est dépassée.
+  private async findForkPoint(): Promise<number> {
+    const known = [...this.hashes.keys()].sort((a, b) => a - b);
+    let valid: number | undefined;
+    for (const n of known) {
+      const block = await this.provider.getBlock(n);
+      if (block === null || block.hash !== this.hashes.get(n)) {
+        if (valid !== undefined) return valid;
+        if (n <= this.fromBlock) return this.fromBlock - 1;
+        throw new Error(`Réorganisation plus profonde que maxReorgDepth (${this.maxReorgDepth} blocs)`);
+      }
+      valid = n;
+    }
+    return this.head;
+  }
+}
@@ -0,0 +1,323 @@
+import { ZeroAddress } from "ethers";
+import type { MarketKind } from "./abi";
+
+// Event décodé (args en camelCase) tel que stocké par l'indexer.
+export interface MarketEvent {
+  kind: MarketKind;
+  market: string;
+  name: string;
+  args: Record<string, any>;
+  call?: Record<string, any>; // calldata décodé (mip-listing)
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  txHash: string;
+  timestamp: number;
+}
+
+export interface Listing {
+  kind: MarketKind;
+  market: string;
+  collection: string | null; // null: calldata non décodable (appel via un autre contrat)
+  tokenId: bigint;
+  seller: string;
+  price: bigint;
+  currency: string | null;
+  quantity: bigint;
+  active: boolean;
+  listedAt: number; // timestamp
+  endsAt: number | null;
+}
+
+export interface Sale {
+  kind: MarketKind;
+  market: string;
+  collection: string | null;
+  tokenId: bigint;
+  seller: string;
+  buyer: string;
+  price: bigint;
+  currency: string | null;
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+}
+
+export type AuctionMode = "sealed" | "english" | "dutch";
+const AUCTION_MODES: AuctionMode[] = ["sealed", "english", "dutch"];
+
+export interface Auction {
+  market: string;
+  auctionId: bigint;
+  mode: AuctionMode;
+  collection: string;
+  tokenId: bigint;
+  seller: string;
+  startPrice: bigint;
+  currency: string;
+  commits: number;
+  reveals: Array<{ bidder: string; amount: bigint }>;
+  bids: Array<{ bidder: string; amount: bigint }>; // English / Dutch (achat)
+  endsAt: number | null; // English: repoussé par l'anti-sniping
+  finalized: boolean;
+  winner: string | null;
+  createdAt: number;
+}
+
+export interface ListingQuery {
+  collection?: string;
+  seller?: string;
+  market?: string;
+}
+
+export interface SalesQuery {
+  collection?: string;
+  tokenId?: bigint;
+  buyer?: string;
+  seller?: string;
+}
+
+const lower = (a: string | null | undefined) => (a ?? "").toLowerCase();
+
+function listingKey(market: string, collection: string | null, tokenId: bigint): string {
+  return `${lower(market)}:${lower(collection)}:${tokenId}`;
+}
+
+// État marketplace dérivé du journal d'events. Une réorganisation tronque le journal
+// puis rejoue ce qui reste: l'état reste une fonction pure des events conservés.
+export class MarketplaceStore {
+  private events: MarketEvent[] = [];
+  private listings = new Map<string, Listing>();
+  private sales: Sale[] = [];
+  private auctionsByKey = new Map<string, Auction>();
+  private auctionCounts = new Map<string, bigint>();
+  private pendingPayments = new Map<string, MarketEvent[]>(); // txHash => PaymentProcessed
+  private pendingRoyalties = new Map<string, bigint>(); // txHash => royalty de l'asset en cours
+
+  // bulker: collection des assetIds (non présente dans les events)
+  constructor(private readonly bulkerCollections: Map<string, string | null> = new Map()) {}
+
+  get eventCount(): number {
+    return this.events.length;
+  }
+
+  add(events: MarketEvent[]): void {
+    for (const event of events) {
+      this.events.push(event);
+      this.apply(event);
+    }
+  }
+
+  // Conserve les events des blocs <= `block`.
+  rollback(block: number): void {
+    const kept = this.events.filter((e) => e.blockNumber <= block);
+    this.events = [];
+    this.listings.clear();
+    this.sales = [];
+    this.auctionsByKey.clear();
+    this.auctionCounts.clear();
+    this.pendingPayments.clear();
+    this.pendingRoyalties.clear();
+    this.add(kept);
+  }
+
+  activeListings(query: ListingQuery = {}): Listing[] {
+    return [...this.listings.values()]
+      .filter((l) => l.active)
+      .filter((l) => query.collection === undefined || lower(l.collection) === lower(query.collection))
+      .filter((l) => query.seller === undefined || lower(l.seller) === lower(query.seller))
+      .filter((l) => query.market === undefined || lower(l.market) === lower(query.market))
+      .sort((a, b) => a.listedAt - b.listedAt || (a.tokenId < b.tokenId ? -1 : 1));
+  }
+
+  listing(market: string, collection: string, tokenId: bigint): Listing | undefined {
+    return this.listings.get(listingKey(market, collection, tokenId));
+  }
+
+  salesHistory(query: SalesQuery = {}): Sale[] {
+    return this.sales
+      .filter((s) => query.collection === undefined || lower(s.collection) === lower(query.collection))
+      .filter((s) => query.tokenId === undefined || s.tokenId === query.tokenId)
+      .filter((s) => query.buyer === undefined || lower(s.buyer) === lower(query.buyer))
+      .filter((s) => query.seller === undefined || lower(s.seller) === lower(query.seller));
+  }
+
+  auctions({ open }: { open?: boolean } = {}): Auction[] {
+    return [...this.auctionsByKey.values()].filter((a) => open === undefined || a.finalized !== open);
+  }
+
+  auction(market: string, auctionId: bigint): Auction | undefined {
+    return this.auctionsByKey.get(`${lower(market)}:${auctionId}`);
+  }
+
+  private apply(e: MarketEvent): void {
+    const a = e.args;
+    switch (`${e.kind}:${e.name}`) {
+      case "ip-marketplace:ItemListed":
+        this.listings.set(listingKey(e.market, a.nftContract, a.tokenId), {
+          kind: e.kind,
+          market: e.market,
+          collection: a.nftContract,
+          tokenId: a.tokenId,
+          seller: a.seller,
+          price: a.price,
+          currency: a.currency,
+          quantity: 1n,
+          active: true,
+          listedAt: e.timestamp,
+          endsAt: null,
+        });
+        break;
+
+      case "ip-marketplace:ListingUpdated": {
+        const listing = this.listings.get(listingKey(e.market, a.nftContract, a.tokenId));
+        if (listing !== undefined) listing.price = a.newPrice;
+        break;
+      }
+
+      case "ip-marketplace:ItemUnlisted": {
+        const listing = this.listings.get(listingKey(e.market, a.nftContract, a.tokenId));
+        if (listing !== undefined) listing.active = false;
+        break;
+      }
+
+      case "ip-marketplace:ItemSold": {
+        const listing = this.listings.get(listingKey(e.market, a.nftContract, a.tokenId));
+        if (listing !== undefined) listing.active = false;
+        this.recordSale(e, a.nftContract, a.tokenId, a.seller, a.buyer, a.price, listing?.currency ?? null);
+        break;
+      }
+
+      case "mip-listing:ListingCreated": {
+        const call = e.call;
+        this.listings.set(listingKey(e.market, call?.assetContractAddress ?? null, a.tokenId), {
+          kind: e.kind,
+          market: e.market,
+          collection: call?.assetContractAddress ?? null,
+          tokenId: a.tokenId,
+          seller: a.lister,
+          price: call?.buyoutPricePerToken ?? 0n,
+          currency: call?.currencyToAccept ?? null,
+          quantity: call?.quantityToList ?? 1n,
+          active: true,
+          listedAt: e.timestamp,
+          endsAt: call === undefined ? null : Number(call.startTime + call.secondsUntilEndTime),
+        });
+        break;
+      }
+
+      case "auction:AuctionCreated": {
+        // pas d'id dans l'event: ids séquentiels (++_auctionCount), d'où l'indexation depuis le déploiement
+        const auctionId = (this.auctionCounts.get(lower(e.market)) ?? 0n) + 1n;
+        this.auctionCounts.set(lower(e.market), auctionId);
+        this.auctionsByKey.set(`${lower(e.market)}:${auctionId}`, {
+          market: e.market,
+          auctionId,
+          mode: "sealed",
+          collection: a.tokenAddress,
+          tokenId: a.tokenId,
+          seller: a.owner,
+          startPrice: a.startPrice,
+          currency: a.currencyAddress,
+          commits: 0,
+          reveals: [],
+          bids: [],
+          endsAt: null,
+          finalized: false,
+          winner: null,
+          createdAt: e.timestamp,
+        });
+        break;
+      }
+
+      case "auction:AuctionConfigured": {
+        const auction = this.auction(e.market, a.auctionId);
+        if (auction !== undefined) auction.mode = AUCTION_MODES[Number(a.kind)];
+        break;
+      }
+
+      case "auction:BidPlaced": {
+        const auction = this.auction(e.market, a.auctionId);
+        if (auction === undefined) break;
+        auction.bids.push({ bidder: a.bidder, amount: a.amount });
+        auction.endsAt = Number(a.endTime);
+        break;
+      }
+
+      case "auction:BidCommitted": {
+        const auction = this.auction(e.market, a.auctionId);
+        if (auction !== undefined) auction.commits += 1;
+        break;
+      }
+
+      case "auction:BidRevealed":
+        this.auction(e.market, a.auctionId)?.reveals.push({ bidder: a.bidder, amount: a.amount });
+        break;
+
+      case "auction:AuctionFinalized": {
+        const auction = this.auction(e.market, a.auctionId);
+        if (auction === undefined) break;
+        auction.finalized = true;
+        if (a.highestBidder === ZeroAddress) break;
+        auction.winner = a.highestBidder;
+        // prix = meilleure enchère (révélée ou ouverte) du gagnant, absent de l'event
+        const price = [...auction.reveals, ...auction.bids]
+          .filter((r) => lower(r.bidder) === lower(a.highestBidder))
+          .reduce((max, r) => (r.amount > max ? r.amount : max), 0n);
+        this.recordSale(e, auction.collection, auction.tokenId, auction.seller, a.highestBidder, price, auction.currency);
+        break;
+      }
+
+      // RoyaltyPaid précède le PaymentProcessed du même asset; le prix inclut la royalty
+      case "bulker:RoyaltyPaid":
+        this.pendingRoyalties.set(e.txHash, a.amount);
+        break;
+
+      case "bulker:PaymentProcessed": {
+        const royalty = this.pendingRoyalties.get(e.txHash) ?? 0n;
+        this.pendingRoyalties.delete(e.txHash);
+        const payment = { ...e, args: { ...a, amount: a.amount + royalty } };
+        this.pendingPayments.set(e.txHash, [...(this.pendingPayments.get(e.txHash) ?? []), payment]);
+        break;
+      }
+
+      case "bulker:BulkPurchaseCompleted": {
+        // bulk_purchase émet un PaymentProcessed par asset, dans l'ordre de assetIds
+        const payments = this.pendingPayments.get(e.txHash) ?? [];
+        this.pendingPayments.delete(e.txHash);
+        const collection = this.bulkerCollections.get(lower(e.market)) ?? null;
+        (a.assetIds as bigint[]).forEach((tokenId, i) => {
+          const payment = payments[i]?.args;
+          if (payment === undefined) return;
+          const price = payment.amount + payment.commissionShare;
+          this.recordSale(e, collection, tokenId, payment.seller, a.buyer, price, null);
+        });
+        break;
+      }
+    }
+  }
+
+  private recordSale(
+    e: MarketEvent,
+    collection: string | null,
+    tokenId: bigint,
+    seller: string,
+    buyer: string,
+    price: bigint,
+    currency: string | null
+  ) {
+    this.sales.push({
+      kind: e.kind,
+      market: e.market,
+      collection,
+      tokenId,
+      seller,
+      buyer,
+      price,
+      currency,
+      blockNumber: e.blockNumber,
+      timestamp: e.timestamp,
+      txHash: e.txHash,
+    });
+  }
+}
@@ -0,0 +1,50 @@
+// Modules Hardhat du dépôt couverts par le SDK, et les artefacts à typer.
+// Chemins relatifs à la racine du dépôt; les artefacts sont produits par `hardhat compile`.
+export interface ModuleSpec {
+  dir: string;
+  artifacts: string[];
+}
+
+export const MODULES = {
+  leasing: {
+    dir: "IP-Leasing",
+    artifacts: ["src/IPLeasing.sol/IPLeasing.json"],
+  },
+  drop: {
+    dir: "IP-Drop",
+    artifacts: ["src/IPDrop.sol/IPDrop.json"],
+  },
+  marketplace: {
+    dir: "IP-Marketplace",
+    artifacts: ["src/IPMarketplace.sol/IPMarketplace.json"],
+  },
+  auction: {
+    dir: "IP-Marketplace-Auction",
+    // MyToken / MyNFT: ERC20 / ERC721 de démo livrés avec le module, utiles en test
+    artifacts: [
+      "src/MarketplaceAuction.sol/MarketPlace.json",
+      "src/MarketplaceAuction.sol/MyToken.json",
+      "src/MarketplaceAuction.sol/MyNFT.json",
+    ],
+  },
+  subscription: {
+    dir: "IP-Subscription",
+    artifacts: ["src/Subscription.sol/Subscription.json"],
+  },
+  airdrop: {
+    dir: "IP-Airdrop",
+    artifacts: ["src/NFTAirdrop.sol/NFTAirdrop.json"],
+  },
+  franchise: {
+    dir: "IP-Franchize-Monetization",
+    // proxies OpenZeppelin inclus: le manager est un ERC1967Proxy (UUPS), les accords des BeaconProxy
+    artifacts: [
+      "src/IPFranchiseManager.sol/IPFranchiseManager.json",
+      "src/IPFranchisingAgreement.sol/IPFranchisingAgreement.json",
+      "@openzeppelin/contracts/proxy/beacon/UpgradeableBeacon.sol/UpgradeableBeacon.json",
+      "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol/ERC1967Proxy.json",
+    ],
+  },
+} satisfies Record<string, ModuleSpec>;
+
+export type ModuleName = keyof typeof MODULES;
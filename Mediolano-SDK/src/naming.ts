@@ -0,0 +1,50 @@
+import { Result } from "ethers";
+
+// snake_case → camelCase au niveau des types (`license_terms_uri` → `licenseTermsUri`)
+export type CamelKey<S extends string> = S extends `${infer Head}_${infer Tail}`
+  ? `${Head}${Capitalize<CamelKey<Tail>>}`
+  : S;
+
+type CamelizeObject<T> = {
+  [K in keyof T as K extends string
+    ? K extends keyof unknown[] | `${number}`
+      ? never
+      : CamelKey<K>
+    : never]: Camelize<T[K]>;
+};
+
+// Sorties typechain: un struct est un tuple & objet nommé (longueur fixe), un tableau
+// dynamique a `length: number`. On garde la vue objet des structs, en camelCase.
+export type Camelize<T> = T extends bigint | string | number | boolean | null | undefined
+  ? T
+  : T extends readonly (infer E)[]
+    ? number extends T["length"]
+      ? Camelize<E>[]
+      : CamelizeObject<T>
+    : T extends object
+      ? CamelizeObject<T>
+      : T;
+
+export function camelKey(key: string): string {
+  return key.replace(/_([a-zA-Z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+// Équivalent runtime de Camelize: Result nommé → objet camelCase, Result anonyme → tableau.
+export function normalize<T>(value: T): Camelize<T> {
+  if (!(value instanceof Result)) return value as Camelize<T>;
+
+  // Selon la version d'ethers, toObject() lève ou renvoie un tableau si un champ n'est
+  // pas nommé; les éléments des tableaux dynamiques sont nommés "_" (AnonymousCoder).
+  let named: unknown;
+  try {
+    named = value.toObject();
+  } catch {
+    named = [];
+  }
+  if (Array.isArray(named) || value.length === 0 || "_" in (named as object)) {
+    return value.toArray().map((v) => normalize(v)) as Camelize<T>;
+  }
+  const out: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(named as Record<string, unknown>)) out[camelKey(key)] = normalize(v);
+  return out as Camelize<T>;
+}
@@ -0,0 +1,326 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { id } from "ethers";
+import { AuctionClient, MarketplaceClient, MarketplaceIndexer, MyNFT__factory, MyToken__factory } from "../src";
+
+const DAY = 24n * 60n * 60n;
+
+async function increaseTime(seconds: bigint) {
+  await ethers.provider.send("evm_increaseTime", [Number(seconds)]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+const rights = {
+  usageRights: {
+    commercialUse: true,
+    modificationsAllowed: false,
+    attributionRequired: true,
+    usageDuration: 0n,
+    sublicensingAllowed: false,
+  },
+  derivativeRights: { allowed: false, royaltyShare: 0n, requiresApproval: false, maxDerivatives: 0n },
+};
+
+async function deployMarket() {
+  const [owner, seller, buyer] = await ethers.getSigners();
+  const fromBlock = await ethers.provider.getBlockNumber();
+  const market = await MarketplaceClient.deploy(owner, { feeBps: 0n });
+  const nftA = await new MyNFT__factory(owner).deploy(owner.address);
+  const nftB = await new MyNFT__factory(owner).deploy(owner.address);
+  const token = await new MyToken__factory(owner).deploy(buyer.address);
+  for (const nft of [nftA, nftB]) {
+    await nft.mint(seller.address);
+    await nft.mint(seller.address);
+    await nft.connect(seller).setApprovalForAll(await market.getAddress(), true);
+  }
+  await token.connect(buyer).approve(await market.getAddress(), 10_000n);
+
+  const list = (nftContract: string, tokenId: bigint, price: bigint) =>
+    market.connect(seller).listItem({
+      nftContract,
+      tokenId,
+      price,
+      currency: token.target as string,
+      metadataHash: id("metadata"),
+      licenseTermsHash: id("terms"),
+      ...rights,
+    });
+
+  return { owner, seller, buyer, market, nftA, nftB, token, fromBlock, list };
+}
+
+describe("MarketplaceIndexer", () => {
+  it("IPMarketplace: listings actifs par collection, historique des ventes d'un token", async () => {
+    const { seller, buyer, market, nftA, nftB, fromBlock, list } = await deployMarket();
+    const [a, b] = [nftA.target as string, nftB.target as string];
+    await list(a, 1n, 100n);
+    await list(a, 2n, 200n);
+    await list(b, 1n, 300n);
+
+    const indexer = new MarketplaceIndexer(ethers.provider, {
+      contracts: [{ kind: "ip-marketplace", address: await market.getAddress() }],
+      fromBlock,
+    });
+    expect((await indexer.sync()).events).to.equal(3);
+    expect(indexer.store.activeListings({ collection: a }).map((l) => [l.tokenId, l.price])).to.deep.equal([
+      [1n, 100n],
+      [2n, 200n],
+    ]);
+
+    await market.connect(seller).updateListing({ nftContract: a, tokenId: 2n, price: 250n });
+    await market.connect(buyer).buyItem({ nftContract: a, tokenId: 1n });
+    await market.connect(seller).unlistItem({ nftContract: b, tokenId: 1n });
+    await indexer.sync();
+
+    expect(indexer.store.activeListings().map((l) => [l.collection, l.tokenId, l.price])).to.deep.equal([[a, 2n, 250n]]);
+    expect(indexer.store.activeListings({ collection: b })).to.deep.equal([]);
+    const [sale] = indexer.store.salesHistory({ collection: a, tokenId: 1n });
+    expect(sale).to.deep.include({ seller: seller.address, buyer: buyer.address, price: 100n });
+    expect(indexer.store.salesHistory({ collection: b, tokenId: 1n })).to.deep.equal([]);
+
+    // rien de nouveau: passage vide
+    expect((await indexer.sync()).events).to.equal(0);
+  });
+
+  it("MarketplaceAuction: enchère finalisée → vente au prix révélé", async () => {
+    const [owner, alice, bob] = await ethers.getSigners();
+    const fromBlock = await ethers.provider.getBlockNumber();
+    const auction = await AuctionClient.deploy(owner, { auctionDurationDays: 1n, revealDurationDays: 1n });
+    const nft = await new MyNFT__factory(owner).deploy(owner.address);
+    const token = await new MyToken__factory(owner).deploy(alice.address);
+    await token.connect(alice).transfer(bob.address, 1_000n);
+    await nft.mint(owner.address);
+    await nft.approve(await auction.getAddress(), 1n);
+
+    const { auctionId } = await auction.createAuction({
+      tokenAddress: nft.target as string,
+      tokenId: 1n,
+      startPrice: 100n,
+      currency: token.target as string,
+    });
+    const bids = [
+      { signer: alice, bid: { auctionId, amount: 500n, salt: id("a") } },
+      { signer: bob, bid: { auctionId, amount: 400n, salt: id("b") } },
+    ];
+    for (const { signer, bid } of bids) {
+      await token.connect(signer).approve(await auction.getAddress(), bid.amount);
+      await auction.connect(signer).commitBid(bid);
+    }
+
+    const indexer = new MarketplaceIndexer(ethers.provider, {
+      contracts: [{ kind: "auction", address: await auction.getAddress() }],
+      fromBlock,
+    });
+    await indexer.sync();
+    expect(indexer.store.auctions({ open: true })).to.have.length(1);
+    expect(indexer.store.auction(await auction.getAddress(), auctionId)).to.deep.include({ commits: 2, tokenId: 1n });
+
+    await increaseTime(DAY);
+    for (const { signer, bid } of bids) await auction.connect(signer).revealBid(bid);
+    await increaseTime(DAY);
+    await auction.finalizeAuction(auctionId);
+    await indexer.sync();
+
+    expect(indexer.store.auctions({ open: true })).to.deep.equal([]);
+    expect(indexer.store.salesHistory({ collection: nft.target as string, tokenId: 1n })).to.have.length(1);
+    expect(indexer.store.salesHistory()[0]).to.deep.include({
+      kind: "auction",
+      seller: owner.address,
+      buyer: alice.address,
+      price: 500n,
+      currency: token.target,
+    });
+  });
+
+  it("MarketplaceAuction anglaise: surenchères ouvertes, vente à la dernière enchère", async () => {
+    const [owner, alice, bob] = await ethers.getSigners();
+    const fromBlock = await ethers.provider.getBlockNumber();
+    const auction = await AuctionClient.deploy(owner, { auctionDurationDays: 1n, revealDurationDays: 1n });
+    const nft = await new MyNFT__factory(owner).deploy(owner.address);
+    const token = await new MyToken__factory(owner).deploy(alice.address);
+    await token.connect(alice).transfer(bob.address, 1_000n);
+    await nft.mint(owner.address);
+    await nft.approve(await auction.getAddress(), 1n);
+    for (const signer of [alice, bob]) await token.connect(signer).approve(await auction.getAddress(), 1_000n);
+
+    const { auctionId } = await auction.createEnglishAuction({
+      tokenAddress: nft.target as string,
+      tokenId: 1n,
+      startPrice: 100n,
+      minIncrement: 50n,
+      currency: token.target as string,
+    });
+    await auction.connect(alice).placeBid({ auctionId, amount: 100n });
+    await auction.connect(bob).placeBid({ auctionId, amount: 150n });
+    await auction.connect(alice).placeBid({ auctionId, amount: 300n });
+    await increaseTime(DAY);
+    await auction.finalizeAuction(auctionId);
+
+    const indexer = new MarketplaceIndexer(ethers.provider, {
+      contracts: [{ kind: "auction", address: await auction.getAddress() }],
+      fromBlock,
+    });
+    await indexer.sync();
+    const indexed = indexer.store.auction(await auction.getAddress(), auctionId)!;
+    expect(indexed).to.deep.include({ mode: "english", finalized: true, winner: alice.address });
+    expect(indexed.bids.map((b) => b.amount)).to.deep.equal([100n, 150n, 300n]);
+    expect(indexer.store.salesHistory()[0]).to.deep.include({ buyer: alice.address, price: 300n });
+  });
+
+  it("MIPListing (calldata) et MarketplaceBulker (paiements appariés)", async () => {
+    const [, seller, buyer, other] = await ethers.getSigners();
+    const fromBlock = await ethers.provider.getBlockNumber();
+    const listing = await ethers.deployContract("MIPListingMock");
+    const bulker = await ethers.deployContract("BulkerMock");
+    const collection = ethers.Wallet.createRandom().address;
+    const currency = ethers.Wallet.createRandom().address;
+
+    await listing.connect(seller).getFunction("create_listing")(collection, 7n, 1_000n, 3_600n, 2n, currency, 50n, 0n);
+    await bulker.getFunction("set_token_owner")(1n, seller.address);
+    await bulker.getFunction("set_token_owner")(2n, other.address);
+    await bulker.connect(buyer).getFunction("bulk_purchase")([1n, 2n], 1_000n);
+
+    const indexer = new MarketplaceIndexer(ethers.provider, {
+      contracts: [
+        { kind: "mip-listing", address: await listing.getAddress() },
+        { kind: "bulker", address: await bulker.getAddress(), collection },
+      ],
+      fromBlock,
+    });
+    await indexer.sync();
+
+    expect(indexer.store.activeListings({ collection })).to.have.length(1);
+    expect(indexer.store.activeListings({ collection })[0]).to.deep.include({
+      tokenId: 7n,
+      seller: seller.address,
+      price: 50n,
+      currency,
+      quantity: 2n,
+      endsAt: 4_600,
+    });
+    expect(indexer.store.salesHistory({ collection }).map((s) => [s.tokenId, s.seller, s.buyer, s.price])).to.deep.equal([
+      [1n, seller.address, buyer.address, 500n],
+      [2n, other.address, buyer.address, 500n],
+    ]);
+  });
+
+  it("réorganisation: annule les blocs orphelins puis réindexe la nouvelle branche", async () => {
+    const { seller, buyer, market, nftA, fromBlock, list } = await deployMarket();
+    const a = nftA.target as string;
+    await list(a, 1n, 100n);
+
+    const indexer = new MarketplaceIndexer(ethers.provider, {
+      contracts: [{ kind: "ip-marketplace", address: await market.getAddress() }],
+      fromBlock,
+      maxReorgDepth: 8,
+    });
+    await indexer.sync();
+
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    await market.connect(buyer).buyItem({ nftContract: a, tokenId: 1n });
+    await indexer.sync();
+    expect(indexer.store.salesHistory({ collection: a, tokenId: 1n })).to.have.length(1);
+    const orphan = indexer.syncedBlock;
+
+    // branche concurrente: même hauteur + 1, le token est délisté au lieu d'être vendu
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await market.connect(seller).updateListing({ nftContract: a, tokenId: 1n, price: 150n });
+    await market.connect(seller).unlistItem({ nftContract: a, tokenId: 1n });
+
+    const result = await indexer.sync();
+    expect(result.reorgedFrom).to.equal(orphan);
+    expect(indexer.store.salesHistory()).to.deep.equal([]);
+    expect(indexer.store.activeListings()).to.deep.equal([]);
+    expect(indexer.store.listing(await market.getAddress(), a, 1n)).to.deep.include({ price: 150n, active: false });
+    expect(indexer.store.eventCount).to.equal(3);
+  });
+
+  it("réorganisation entre getLogs et getBlock: logs orphelins rejetés, plage réindexée", async () => {
+    const { seller, buyer, market, nftA, fromBlock, list } = await deployMarket();
+    const a = nftA.target as string;
+    await list(a, 1n, 100n);
+    const indexer = new MarketplaceIndexer(ethers.provider, {
+      contracts: [{ kind: "ip-marketplace", address: await market.getAddress() }],
+      fromBlock,
+      maxReorgDepth: 8,
+    });
+    await indexer.sync();
+    const synced = indexer.syncedBlock;
+
+    // vente sous la tête de chaîne, puis le nœud bascule sur une branche de même hauteur
+    // juste après avoir répondu à getLogs
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    await market.connect(buyer).buyItem({ nftContract: a, tokenId: 1n });
+    await ethers.provider.send("hardhat_mine", ["0x2"]);
+    const provider = ethers.provider;
+    const getLogs = provider.getLogs.bind(provider);
+    provider.getLogs = async (filter) => {
+      const logs = await getLogs(filter);
+      provider.getLogs = getLogs;
+      await provider.send("evm_revert", [snapshot]);
+      await market.connect(seller).unlistItem({ nftContract: a, tokenId: 1n });
+      await provider.send("hardhat_mine", ["0x2"]);
+      return logs;
+    };
+
+    let error: Error | undefined;
+    await indexer.sync().catch((e) => (error = e));
+    expect(error?.message).to.match(/Réorganisation pendant l'indexation du bloc/);
+    expect(indexer.syncedBlock).to.equal(synced);
+    expect(indexer.store.salesHistory()).to.deep.equal([]);
+
+    await indexer.sync();
+    expect(indexer.store.salesHistory()).to.deep.equal([]);
+    expect(indexer.store.listing(await market.getAddress(), a, 1n)).to.deep.include({ active: false });
+  });
+
+  it("réorganisation du seul bloc indexé (chaîne calme): reprise depuis fromBlock", async () => {
+    const { market, nftA, list } = await deployMarket();
+    const a = nftA.target as string;
+
+    // l'indexeur démarre au bloc du listing: un seul hash connu
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    await list(a, 1n, 100n);
+    const fromBlock = await ethers.provider.getBlockNumber();
+    const indexer = new MarketplaceIndexer(ethers.provider, {
+      contracts: [{ kind: "ip-marketplace", address: await market.getAddress() }],
+      fromBlock,
+      maxReorgDepth: 8,
+    });
+    await indexer.sync();
+
+    // ce bloc est remplacé par un autre de même hauteur
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await list(a, 1n, 200n);
+
+    const result = await indexer.sync();
+    expect(result.reorgedFrom).to.equal(fromBlock);
+    expect(indexer.syncedBlock).to.equal(fromBlock);
+    expect(indexer.store.listing(await market.getAddress(), a, 1n)).to.deep.include({ price: 200n, active: true });
+    expect(indexer.store.eventCount).to.equal(1);
+    expect((await indexer.sync()).events).to.equal(0);
+  });
+
+  it("réorganisation plus profonde que maxReorgDepth: erreur", async () => {
+    const { buyer, market, nftA, fromBlock, list } = await deployMarket();
+    await list(nftA.target as string, 1n, 100n);
+    const indexer = new MarketplaceIndexer(ethers.provider, {
+      contracts: [{ kind: "ip-marketplace", address: await market.getAddress() }],
+      fromBlock,
+      maxReorgDepth: 1,
+    });
+
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    await ethers.provider.send("hardhat_mine", ["0x3"]);
+    await indexer.sync();
+
+    // les 3 blocs indexés sont remplacés, seuls les 2 derniers hashes sont conservés
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await market.connect(buyer).buyItem({ nftContract: nftA.target as string, tokenId: 1n });
+    await ethers.provider.send("hardhat_mine", ["0x3"]);
+
+    let error: Error | undefined;
+    await indexer.sync().catch((e) => (error = e));
+    expect(error?.message).to.match(/plus profonde que maxReorgDepth/);
+  });
+});
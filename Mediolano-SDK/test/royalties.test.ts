@@ -0,0 +1,204 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, ContractFactory, Signer, id } from "ethers";
+import { AuctionClient, MarketplaceClient, MarketplaceIndexer, MyNFT__factory, MyToken__factory } from "../src";
+import { compileModule, loadArtifact } from "../src/deploy/artifacts";
+
+const DAY = 24n * 60n * 60n;
+const BULK_ORDER = "IP-Marketplace-Bulk-Order";
+
+async function increaseTime(seconds: bigint) {
+  await ethers.provider.send("evm_increaseTime", [Number(seconds)]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+const rights = {
+  usageRights: {
+    commercialUse: true,
+    modificationsAllowed: false,
+    attributionRequired: true,
+    usageDuration: 0n,
+    sublicensingAllowed: false,
+  },
+  derivativeRights: { allowed: false, royaltyShare: 0n, requiresApproval: false, maxDerivatives: 0n },
+};
+
+// Variation de solde ERC20 de chaque compte pendant `action`.
+async function payouts(
+  token: { balanceOf(account: string): Promise<bigint> },
+  accounts: string[],
+  action: () => Promise<unknown>
+): Promise<bigint[]> {
+  const before: bigint[] = await Promise.all(accounts.map((a) => token.balanceOf(a)));
+  await action();
+  const after: bigint[] = await Promise.all(accounts.map((a) => token.balanceOf(a)));
+  return after.map((b, i) => b - before[i]);
+}
+
+async function deployBulker(owner: Signer, nft: string, token: string, commissionWallet: string, tokenizer?: string) {
+  const factory = async (name: string) => {
+    const artifact = await loadArtifact(BULK_ORDER, `src/MarketplaceBulker.sol/${name}.json`);
+    return new ContractFactory(artifact.abi, artifact.bytecode, owner);
+  };
+  if (tokenizer === undefined) {
+    const deployed = await (await factory("IPTokenizer")).deploy(await owner.getAddress(), nft, "ipfs://");
+    tokenizer = await deployed.getAddress();
+  }
+  const bulker = await (await factory("IPMarketplace")).deploy(await owner.getAddress(), tokenizer, token, commissionWallet);
+  return bulker as Contract;
+}
+
+describe("royalties ERC-2981 (tous les chemins de règlement)", () => {
+  before(() => {
+    compileModule(BULK_ORDER);
+  });
+
+  async function setup() {
+    const [owner, seller, buyer, creator, feeWallet] = await ethers.getSigners();
+    const nft = (await ethers.deployContract("RoyaltyNFTMock")) as Contract;
+    const token = await new MyToken__factory(owner).deploy(buyer.address);
+    await nft.mint(seller.address); // 1
+    await nft.mint(seller.address); // 2
+    await nft.setDefaultRoyalty(creator.address, 500n); // 5%
+    return { owner, seller, buyer, creator, feeWallet, nft, token };
+  }
+
+  it("IPMarketplace.buy_item: vendeur / royalty / frais, plafond configurable", async () => {
+    const { owner, seller, buyer, creator, nft, token } = await setup();
+    const market = await MarketplaceClient.deploy(owner, { feeBps: 250n });
+    expect(await market.maxRoyaltyBps()).to.equal(1_000n);
+    await (nft.connect(seller) as Contract).setApprovalForAll(await market.getAddress(), true);
+    await token.connect(buyer).approve(await market.getAddress(), ethers.MaxUint256);
+
+    const sell = async (tokenId: bigint, price: bigint) => {
+      const ref = { nftContract: await nft.getAddress(), tokenId };
+      await market.connect(seller).listItem({
+        ...ref,
+        price,
+        currency: await token.getAddress(),
+        metadataHash: id("metadata"),
+        licenseTermsHash: id("terms"),
+        ...rights,
+      });
+      return market.connect(buyer).buyItem(ref);
+    };
+    const accounts = [seller.address, creator.address, owner.address];
+
+    let result: Awaited<ReturnType<typeof sell>> | undefined;
+    expect(await payouts(token, accounts, async () => (result = await sell(1n, 10_000n)))).to.deep.equal([
+      9_250n,
+      500n,
+      250n,
+    ]);
+    const event = result!.events.find((e) => e.name === "RoyaltyPaid");
+    if (event?.name !== "RoyaltyPaid") throw new Error("RoyaltyPaid manquant");
+    expect(event.args).to.deep.include({ tokenId: 1n, receiver: creator.address, amount: 500n });
+
+    // 50% demandés par le NFT, plafonnés à 3%
+    await nft.setTokenRoyalty(2n, creator.address, 5_000n);
+    await market.setMaxRoyaltyBps(300n);
+    expect(await payouts(token, accounts, () => sell(2n, 10_000n))).to.deep.equal([9_450n, 300n, 250n]);
+    await expect(market.setMaxRoyaltyBps(10_001n)).to.be.revertedWith("BPS_OOB");
+  });
+
+  it("IPMarketplace.buy_item: NFT sans ERC-2981 → pas de royalty", async () => {
+    const { owner, seller, buyer, token } = await setup();
+    const market = await MarketplaceClient.deploy(owner, { feeBps: 250n });
+    const plain = await new MyNFT__factory(owner).deploy(owner.address);
+    await plain.mint(seller.address);
+    await plain.connect(seller).setApprovalForAll(await market.getAddress(), true);
+    await token.connect(buyer).approve(await market.getAddress(), 1_000n);
+
+    const ref = { nftContract: await plain.getAddress(), tokenId: 1n };
+    await market.connect(seller).listItem({
+      ...ref,
+      price: 1_000n,
+      currency: await token.getAddress(),
+      metadataHash: id("metadata"),
+      licenseTermsHash: id("terms"),
+      ...rights,
+    });
+    expect(await payouts(token, [seller.address, owner.address], () => market.connect(buyer).buyItem(ref))).to.deep.equal([
+      975n,
+      25n,
+    ]);
+  });
+
+  it("MarketplaceAuction.finalize_auction: royalty prélevée sur l'enchère gagnante", async () => {
+    const { owner, seller, buyer, creator, nft, token } = await setup();
+    const auction = await AuctionClient.deploy(owner, { auctionDurationDays: 1n, revealDurationDays: 1n });
+    await nft.setTokenRoyalty(1n, creator.address, 2_000n); // 20% → plafonné à 10%
+    await (nft.connect(seller) as Contract).approve(await auction.getAddress(), 1n);
+
+    const { auctionId } = await auction.connect(seller).createAuction({
+      tokenAddress: await nft.getAddress(),
+      tokenId: 1n,
+      startPrice: 100n,
+      currency: await token.getAddress(),
+    });
+    const bid = { auctionId, amount: 1_000n, salt: id("salt") };
+    await token.connect(buyer).approve(await auction.getAddress(), bid.amount);
+    await auction.connect(buyer).commitBid(bid);
+    await increaseTime(DAY);
+    await auction.connect(buyer).revealBid(bid);
+    await increaseTime(DAY);
+
+    const accounts = [seller.address, creator.address, owner.address];
+    expect(await payouts(token, accounts, () => auction.finalizeAuction(auctionId))).to.deep.equal([900n, 100n, 0n]);
+    expect(await nft.ownerOf(1n)).to.equal(buyer.address);
+    await expect(auction.connect(seller).setMaxRoyaltyBps(0n)).to.be.revertedWithCustomError(
+      auction.contract,
+      "OwnableUnauthorizedAccount"
+    );
+  });
+
+  it("MarketplaceBulker.bulk_purchase: royalty par asset, commission inchangée", async () => {
+    const { owner, seller, buyer, creator, feeWallet, nft, token } = await setup();
+    const fromBlock = await ethers.provider.getBlockNumber();
+    const bulker = await deployBulker(owner, await nft.getAddress(), await token.getAddress(), feeWallet.address);
+    await nft.setTokenRoyalty(2n, creator.address, 3_000n); // 30% → plafonné à 10%
+    await token.connect(buyer).approve(await bulker.getAddress(), 1_000n);
+
+    // 1000 → commission 5% = 50; 475 par asset; prix par asset 500 → royalties 25 et 50
+    const accounts = [seller.address, creator.address, feeWallet.address];
+    expect(
+      await payouts(token, accounts, () => bulker.connect(buyer).getFunction("bulk_purchase")([1n, 2n], 1_000n))
+    ).to.deep.equal([875n, 75n, 50n]);
+
+    // l'indexer réintègre la royalty dans le prix de vente
+    const indexer = new MarketplaceIndexer(ethers.provider, {
+      contracts: [{ kind: "bulker", address: await bulker.getAddress(), collection: await nft.getAddress() }],
+      fromBlock,
+    });
+    await indexer.sync();
+    expect(indexer.store.salesHistory().map((s) => [s.tokenId, s.price])).to.deep.equal([
+      [1n, 500n],
+      [2n, 500n],
+    ]);
+
+    await bulker.getFunction("set_max_royalty_bps")(0n);
+    await token.connect(buyer).approve(await bulker.getAddress(), 1_000n);
+    expect(
+      await payouts(token, accounts, () => bulker.connect(buyer).getFunction("bulk_purchase")([1n], 1_000n))
+    ).to.deep.equal([950n, 0n, 50n]);
+  });
+
+  it("MarketplaceBulker.bulk_purchase: tokenizer sans nftContract() → pas de royalty", async () => {
+    const { owner, seller, buyer, creator, feeWallet, nft, token } = await setup();
+    const tokenizer = (await ethers.deployContract("TokenizerWithoutNftMock")) as Contract;
+    await tokenizer.set_token_owner(1n, seller.address);
+    const bulker = await deployBulker(
+      owner,
+      await nft.getAddress(),
+      await token.getAddress(),
+      feeWallet.address,
+      await tokenizer.getAddress()
+    );
+    await token.connect(buyer).approve(await bulker.getAddress(), 1_000n);
+
+    const accounts = [seller.address, creator.address, feeWallet.address];
+    expect(
+      await payouts(token, accounts, () => bulker.connect(buyer).getFunction("bulk_purchase")([1n], 1_000n))
+    ).to.deep.equal([950n, 0n, 50n]);
+  });
+});
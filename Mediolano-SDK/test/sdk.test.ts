@@ -0,0 +1,261 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Result, ZeroHash, id } from "ethers";
+import {
+  AirdropClient,
+  AuctionClient,
+  DropClient,
+  LeasingClient,
+  MarketplaceClient,
+  MyNFT__factory,
+  MyToken__factory,
+  SubscriptionClient,
+  computeBidHash,
+  normalize,
+} from "../src";
+
+const DAY = 24n * 60n * 60n;
+
+async function chainNow(): Promise<bigint> {
+  return BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+}
+
+async function increaseTime(seconds: bigint) {
+  await ethers.provider.send("evm_increaseTime", [Number(seconds)]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+describe("@mediolano/sdk", () => {
+  it("normalize: Result nommé → objet camelCase, anonyme → tableau", () => {
+    const struct = Result.fromItems([1n, "0xabc", [2n, 3n]], ["token_id", "nft_contract", "parent_ids"]);
+    expect(normalize(struct)).to.deep.equal({ tokenId: 1n, nftContract: "0xabc", parentIds: [2n, 3n] });
+    expect(normalize(Result.fromItems([4n, 5n]))).to.deep.equal([4n, 5n]);
+    expect(normalize(Result.fromItems([]))).to.deep.equal([]);
+  });
+
+  it("LeasingClient: offre → lease → expiration, events décodés", async () => {
+    const [owner, lessee] = await ethers.getSigners();
+    const leasing = await LeasingClient.deploy(owner, { uri: "ipfs://leasing/{id}.json" });
+
+    await leasing.mintIp({ to: owner.address, tokenId: 1n, amount: 10n });
+    const offer = await leasing.createOffer({
+      tokenId: 1n,
+      amount: 4n,
+      leaseFee: 100n,
+      duration: 7n * DAY,
+      licenseTermsUri: "ipfs://terms",
+    });
+    expect(offer.events.map((e) => e.name)).to.include("LeaseOfferCreated");
+    expect(await leasing.getOffer(1n)).to.include({ owner: owner.address, leaseFee: 100n, isActive: true });
+
+    const started = await leasing.connect(lessee).startLease(1n);
+    const event = started.events.find((e) => e.name === "LeaseStarted");
+    if (event?.name !== "LeaseStarted") throw new Error("LeaseStarted manquant");
+    expect(event.args).to.deep.include({ tokenId: 1n, lessee: lessee.address, amount: 4n });
+    expect(event.args.endTime - event.args.startTime).to.equal(7n * DAY);
+
+    const lease = await leasing.getLease(1n);
+    expect(lease).to.deep.equal({
+      lessee: lessee.address,
+      amount: 4n,
+      startTime: event.args.startTime,
+      endTime: event.args.endTime,
+      isActive: true,
+    });
+    expect(await leasing.activeLeasesByLessee(lessee.address)).to.deep.equal([1n]);
+
+    await increaseTime(7n * DAY + 1n);
+    const expired = await leasing.expireLease(1n);
+    expect(expired.events.map((e) => e.name)).to.include("LeaseExpired");
+    expect((await leasing.getLease(1n)).isActive).to.equal(false);
+
+    const attached = LeasingClient.attach(await leasing.getAddress(), owner);
+    expect(await attached.activeLeasesByLessee(lessee.address)).to.deep.equal([]);
+    expect(await attached.leasesByHolder(lessee.address)).to.deep.equal([]);
+
+    // offre non exclusive: chaque locataire reçoit son token de lease
+    const open = await leasing.createOpenOffer({
+      tokenId: 1n,
+      leaseFee: 100n,
+      duration: DAY,
+      maxLeases: 5n,
+      licenseTermsUri: "ipfs://terms",
+    });
+    const { leaseId } = await leasing.connect(lessee).startOpenLease(open.offerId);
+    expect(await leasing.userOf(leaseId)).to.equal(lessee.address);
+    expect(await leasing.tokenLeases(1n)).to.deep.equal([leaseId]);
+    expect(await leasing.leaseInfo(leaseId)).to.include({ tokenId: 1n, exclusive: false, ended: false });
+    expect(await leasing.policy()).to.include({ tokenModel: 0n, termination: 0n, feeToken: ethers.ZeroAddress });
+    expect(await leasing.rentStatus(leaseId)).to.include({ periodsDue: 0n, amountDue: 0n, inDefault: false });
+  });
+
+  it("DropClient: claim gratuit puis claim payant en ERC20", async () => {
+    const [owner, buyer] = await ethers.getSigners();
+    const now = await chainNow();
+    const drop = await DropClient.deploy(owner, {
+      name: "Drop",
+      symbol: "DRP",
+      baseUri: "ipfs://drop/",
+      maxSupply: 100n,
+      conditions: { startTime: now, endTime: now + DAY, price: 0n, maxQuantityPerWallet: 5n },
+    });
+
+    const free = await drop.connect(buyer).claim(2n);
+    const claimed = free.events.find((e) => e.name === "TokensClaimed");
+    if (claimed?.name !== "TokensClaimed") throw new Error("TokensClaimed manquant");
+    expect(claimed.args).to.deep.equal({ claimer: buyer.address, quantity: 2n, startTokenId: 1n, totalPaid: 0n });
+    expect(await drop.ownerOf(2n)).to.equal(buyer.address);
+
+    const token = await new MyToken__factory(owner).deploy(buyer.address);
+    await drop.setClaimConditions({
+      startTime: now,
+      endTime: now + DAY,
+      price: 10n,
+      maxQuantityPerWallet: 5n,
+      paymentToken: await token.getAddress(),
+    });
+    expect(await drop.getClaimConditions()).to.deep.include({ price: 10n, paymentToken: await token.getAddress() });
+
+    await token.connect(buyer).approve(await drop.getAddress(), 30n);
+    const paid = await drop.connect(buyer).claimWithPayment(3n);
+    expect(paid.events.map((e) => e.name)).to.include.members(["PaymentReceived", "TokensClaimed"]);
+    expect(await drop.totalSupply()).to.equal(5n);
+    expect(await drop.claimedByWallet(buyer.address)).to.equal(5n);
+  });
+
+  it("MarketplaceClient: listing avec droits camelCase puis achat", async () => {
+    const [owner, seller, buyer] = await ethers.getSigners();
+    const market = await MarketplaceClient.deploy(owner, { feeBps: 250n });
+    const nft = await new MyNFT__factory(owner).deploy(owner.address);
+    const token = await new MyToken__factory(owner).deploy(buyer.address);
+    await nft.mint(seller.address);
+    await nft.connect(seller).setApprovalForAll(await market.getAddress(), true);
+
+    const ref = { nftContract: await nft.getAddress(), tokenId: 1n };
+    const listed = await market.connect(seller).listItem({
+      ...ref,
+      price: 1000n,
+      currency: await token.getAddress(),
+      metadataHash: id("metadata"),
+      licenseTermsHash: id("terms"),
+      usageRights: {
+        commercialUse: true,
+        modificationsAllowed: false,
+        attributionRequired: true,
+        usageDuration: 30n * DAY,
+        sublicensingAllowed: false,
+      },
+      derivativeRights: { allowed: true, royaltyShare: 500n, requiresApproval: false, maxDerivatives: 3n },
+    });
+    expect(listed.events.map((e) => e.name)).to.deep.equal(["ItemListed"]);
+
+    const listing = await market.getListing(ref);
+    expect(listing).to.deep.include({ seller: seller.address, price: 1000n, active: true });
+    expect(listing.metadata.ipfsHash).to.equal(id("metadata"));
+    expect(listing.usageRights).to.deep.include({ commercialUse: true, geographicRestrictions: ZeroHash });
+    expect(listing.derivativeRights.royaltyShare).to.equal(500n);
+
+    await token.connect(buyer).approve(await market.getAddress(), 1000n);
+    const sold = await market.connect(buyer).buyItem(ref);
+    const event = sold.events.find((e) => e.name === "ItemSold");
+    if (event?.name !== "ItemSold") throw new Error("ItemSold manquant");
+    expect(event.args).to.deep.include({ seller: seller.address, buyer: buyer.address, price: 1000n });
+    expect(await nft.ownerOf(1n)).to.equal(buyer.address);
+  });
+
+  it("AuctionClient: commit/reveal/finalize", async () => {
+    const [owner, alice] = await ethers.getSigners();
+    const auction = await AuctionClient.deploy(owner, { auctionDurationDays: 1n, revealDurationDays: 1n });
+    const nft = await new MyNFT__factory(owner).deploy(owner.address);
+    const token = await new MyToken__factory(owner).deploy(alice.address);
+    await nft.mint(owner.address);
+    await nft.approve(await auction.getAddress(), 1n);
+
+    const { auctionId } = await auction.createAuction({
+      tokenAddress: await nft.getAddress(),
+      tokenId: 1n,
+      startPrice: 100n,
+      currency: await token.getAddress(),
+    });
+    expect(auctionId).to.equal(1n);
+
+    const bid = { auctionId, amount: 500n, salt: id("salt") };
+    await token.connect(alice).approve(await auction.getAddress(), bid.amount);
+    await auction.connect(alice).commitBid(bid);
+    expect(await auction.bidCount(auctionId)).to.equal(1n);
+
+    await increaseTime(DAY);
+    const revealed = await auction.connect(alice).revealBid(bid);
+    expect(revealed.events[0]).to.deep.include({ name: "BidRevealed" });
+    expect(revealed.events[0].args).to.deep.equal({ bidder: alice.address, auctionId, amount: 500n });
+
+    await increaseTime(DAY);
+    await auction.finalizeAuction(auctionId);
+    expect(await auction.getAuction(auctionId)).to.deep.include({
+      highestBidder: alice.address,
+      highestBid: 500n,
+      isFinalized: true,
+    });
+    expect(computeBidHash(500n, id("salt"))).to.match(/^0x[0-9a-f]{64}$/);
+  });
+
+  it("SubscriptionClient: planId lu dans PlanCreated", async () => {
+    const [owner, user, creator, keeper] = await ethers.getSigners();
+    const subscription = await SubscriptionClient.deploy(owner);
+    const token = await new MyToken__factory(owner).deploy(user.address);
+    const paymentToken = await token.getAddress();
+
+    const { planId } = await subscription.createPlan({
+      price: 10n,
+      duration: 30n * DAY,
+      tier: 1n,
+      paymentToken,
+      payout: creator.address,
+    });
+    expect(await subscription.getPlan(planId)).to.deep.equal({
+      price: 10n,
+      duration: 30n * DAY,
+      tier: 1n,
+      paymentToken,
+      payout: creator.address,
+      creator: owner.address,
+      transferable: false,
+      available: true,
+    });
+    expect(await subscription.creatorPlans(owner.address)).to.deep.equal([planId]);
+
+    const asUser = subscription.connect(user);
+    await token.connect(user).approve(await subscription.getAddress(), 20n);
+    await asUser.subscribe(planId);
+    await asUser.setAutoRenew(owner.address, true);
+    expect(await asUser.isActive()).to.equal(true);
+    expect(await asUser.planIds()).to.deep.equal([planId]);
+    expect(await subscription.hasAccess(owner.address, user.address, 1n)).to.equal(true);
+    expect(await subscription.hasAccess(owner.address, user.address, 2n)).to.equal(false);
+
+    // keeper: renouvelle à l'échéance, puis échoue faute d'allowance
+    const passId = await subscription.passOf(owner.address, user.address);
+    await increaseTime(30n * DAY);
+    expect(await subscription.renewalDue(passId)).to.equal(true);
+    expect((await subscription.connect(keeper).processRenewal(passId)).renewed).to.equal(true);
+    await increaseTime(30n * DAY);
+    expect((await subscription.connect(keeper).processRenewal(passId)).renewed).to.equal(false);
+    expect(await token.balanceOf(creator.address)).to.equal(20n);
+    expect((await subscription.passInfo(passId)).autoRenew).to.equal(true);
+  });
+
+  it("AirdropClient: whitelist + airdrop", async () => {
+    const [owner, alice] = await ethers.getSigners();
+    const airdrop = await AirdropClient.deploy(owner, {
+      name: "Air",
+      symbol: "AIR",
+      baseUri: "ipfs://air/",
+      merkleRoot: ZeroHash,
+    });
+
+    await airdrop.whitelist({ to: alice.address, amount: 2n });
+    const result = await airdrop.airdrop({ start: 0n, count: 1n });
+    expect(result.events.filter((e) => e.name === "Transfer")).to.have.length(2);
+    expect(await airdrop.balanceOf(alice.address)).to.equal(2n);
+  });
+});
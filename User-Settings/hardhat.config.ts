@@ -9,8 +9,8 @@ const config: HardhatUserConfig = {
     },
   },
   paths: {
-    sources: "contracts",
-    tests: "tests",
+    sources: "src",
+    tests: "test",
     cache: "cache",
     artifacts: "artifacts",
   },
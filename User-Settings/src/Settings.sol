@@ -9,91 +9,130 @@ pragma solidity ^0.8.20;
 ///   * NONE_U8 pour uint8
 ///   * TriBool pour Option<bool> : 0=false, 1=true, 2=none
 /// - Hash Poseidon → keccak256 (même rôle utilitaire)
+/// - Signatures Starknet → EIP-712: chaque écriture est signée par le compte (EOA ou ERC-1271)
+///   ou par une session key enregistrée, avec nonce séquentiel + fenêtre de timestamp
+
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {SignatureChecker} from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import {Nonces} from "@openzeppelin/contracts/utils/Nonces.sol";
 
 interface IEncryptedPreferencesRegistry {
-    // write
+    // write (signature EIP-712 de `user` ou d'une session key, soumise par un relayer autorisé)
     function store_account_details(
+        address user,
         uint256 name,
         uint256 email,
         uint256 username,
-        uint64 timestamp
+        uint64 timestamp,
+        bytes calldata signature
     ) external;
 
     function update_account_details(
+        address user,
         uint256 nameOrNone,     // NONE_U256 => None
         uint256 emailOrNone,    // NONE_U256 => None
         uint256 usernameOrNone, // NONE_U256 => None
-        uint64 timestamp
+        uint64 timestamp,
+        bytes calldata signature
     ) external;
 
     function store_ip_management_settings(
+        address user,
         uint8 protection_level,         // 0 or 1
         bool automatic_ip_registration,
-        uint64 timestamp
+        uint64 timestamp,
+        bytes calldata signature
     ) external;
 
     function update_ip_management_settings(
+        address user,
         uint8 protection_levelOrNone,     // NONE_U8 => None
         uint8 automatic_ip_registration3, // TriBool: 0=false, 1=true, 2=none
-        uint64 timestamp
+        uint64 timestamp,
+        bytes calldata signature
     ) external;
 
     function store_notification_settings(
+        address user,
         bool enable_notifications,
         bool ip_updates,
         bool blockchain_events,
         bool account_activity,
-        uint64 timestamp
+        uint64 timestamp,
+        bytes calldata signature
     ) external;
 
     function update_notification_settings(
+        address user,
         uint8 enable_notifications3, // TriBool
         uint8 ip_updates3,           // TriBool
         uint8 blockchain_events3,    // TriBool
         uint8 account_activity3,     // TriBool
-        uint64 timestamp
+        uint64 timestamp,
+        bytes calldata signature
     ) external;
 
     function store_security_settings(
+        address user,
         uint256 password, // à hacher coté contrat
-        uint64 timestamp
+        uint64 timestamp,
+        bytes calldata signature
     ) external;
 
     function update_security_settings(
+        address user,
         uint256 password,
-        uint64 timestamp
+        uint64 timestamp,
+        bytes calldata signature
     ) external;
 
     function store_network_settings(
+        address user,
         uint8 network_type,         // 0 TESTNET, 1 MAINNET
         uint8 gas_price_preference, // 0 LOW, 1 MEDIUM, 2 HIGH
-        uint64 timestamp
+        uint64 timestamp,
+        bytes calldata signature
     ) external;
 
     function update_network_settings(
+        address user,
         uint8 network_typeOrNone,         // NONE_U8 => None
         uint8 gas_price_preferenceOrNone, // NONE_U8 => None
-        uint64 timestamp
+        uint64 timestamp,
+        bytes calldata signature
     ) external;
 
     function store_advanced_settings(
+        address user,
         uint256 api_key,
-        uint64 timestamp
+        uint64 timestamp,
+        bytes calldata signature
     ) external;
 
     function store_X_verification(
+        address user,
         bool x_verified,
         uint64 timestamp,
-        uint256 handler
+        uint256 handler,
+        bytes calldata signature
     ) external;
 
     function regenerate_api_key(
-        uint64 timestamp
+        address user,
+        uint64 timestamp,
+        bytes calldata signature
     ) external returns (uint256);
 
-    function delete_account(uint64 timestamp) external;
+    function delete_account(address user, uint64 timestamp, bytes calldata signature) external;
+
+    // session keys (appelées directement par le compte)
+    function register_session_key(address key, uint64 valid_until) external;
+    function revoke_session_key(address key) external;
 
     // read
+    function nonces(address user) external view returns (uint256);
+    function get_session_key(address user, address key) external view returns (uint64 valid_until);
     function get_account_settings(address user) external view returns (uint256 name, uint256 email, uint256 username);
     function get_network_settings(address user) external view returns (uint8 network_type, uint8 gas_price_preference);
     function get_ip_settings(address user) external view returns (uint8 ip_protection_level, bool automatic_ip_registration);
@@ -109,7 +148,7 @@ interface IEncryptedPreferencesRegistry {
     function upgrade(address newImplementation) external;
 }
 
-contract EncryptedPreferencesRegistry is IEncryptedPreferencesRegistry {
+contract EncryptedPreferencesRegistry is IEncryptedPreferencesRegistry, EIP712, Nonces {
     /*//////////////////////////////////////////////////////////////
                                 Types
     //////////////////////////////////////////////////////////////*/
@@ -127,6 +166,50 @@ contract EncryptedPreferencesRegistry is IEncryptedPreferencesRegistry {
     uint256 private constant SUPPORTED_VERSION = 1;
     uint64  private constant TIME_WINDOW = 300; // 5 minutes
 
+    // EIP-712 typehashes (un type par opération => pas de rejeu d'une signature sur une autre fonction)
+    bytes32 private constant STORE_ACCOUNT_DETAILS_TYPEHASH = keccak256(
+        "StoreAccountDetails(address user,uint256 name,uint256 email,uint256 username,uint64 timestamp,uint256 nonce)"
+    );
+    bytes32 private constant UPDATE_ACCOUNT_DETAILS_TYPEHASH = keccak256(
+        "UpdateAccountDetails(address user,uint256 name,uint256 email,uint256 username,uint64 timestamp,uint256 nonce)"
+    );
+    bytes32 private constant STORE_IP_SETTINGS_TYPEHASH = keccak256(
+        "StoreIPManagementSettings(address user,uint8 protection_level,bool automatic_ip_registration,uint64 timestamp,uint256 nonce)"
+    );
+    bytes32 private constant UPDATE_IP_SETTINGS_TYPEHASH = keccak256(
+        "UpdateIPManagementSettings(address user,uint8 protection_level,uint8 automatic_ip_registration,uint64 timestamp,uint256 nonce)"
+    );
+    bytes32 private constant STORE_NOTIFICATION_SETTINGS_TYPEHASH = keccak256(
+        "StoreNotificationSettings(address user,bool enable_notifications,bool ip_updates,bool blockchain_events,bool account_activity,uint64 timestamp,uint256 nonce)"
+    );
+    bytes32 private constant UPDATE_NOTIFICATION_SETTINGS_TYPEHASH = keccak256(
+        "UpdateNotificationSettings(address user,uint8 enable_notifications,uint8 ip_updates,uint8 blockchain_events,uint8 account_activity,uint64 timestamp,uint256 nonce)"
+    );
+    bytes32 private constant STORE_SECURITY_SETTINGS_TYPEHASH = keccak256(
+        "StoreSecuritySettings(address user,uint256 password,uint64 timestamp,uint256 nonce)"
+    );
+    bytes32 private constant UPDATE_SECURITY_SETTINGS_TYPEHASH = keccak256(
+        "UpdateSecuritySettings(address user,uint256 password,uint64 timestamp,uint256 nonce)"
+    );
+    bytes32 private constant STORE_NETWORK_SETTINGS_TYPEHASH = keccak256(
+        "StoreNetworkSettings(address user,uint8 network_type,uint8 gas_price_preference,uint64 timestamp,uint256 nonce)"
+    );
+    bytes32 private constant UPDATE_NETWORK_SETTINGS_TYPEHASH = keccak256(
+        "UpdateNetworkSettings(address user,uint8 network_type,uint8 gas_price_preference,uint64 timestamp,uint256 nonce)"
+    );
+    bytes32 private constant STORE_ADVANCED_SETTINGS_TYPEHASH = keccak256(
+        "StoreAdvancedSettings(address user,uint256 api_key,uint64 timestamp,uint256 nonce)"
+    );
+    bytes32 private constant STORE_X_VERIFICATION_TYPEHASH = keccak256(
+        "StoreXVerification(address user,bool x_verified,uint256 handler,uint64 timestamp,uint256 nonce)"
+    );
+    bytes32 private constant REGENERATE_API_KEY_TYPEHASH = keccak256(
+        "RegenerateApiKey(address user,uint64 timestamp,uint256 nonce)"
+    );
+    bytes32 private constant DELETE_ACCOUNT_TYPEHASH = keccak256(
+        "DeleteAccount(address user,uint64 timestamp,uint256 nonce)"
+    );
+
     // Enums
     enum IPProtectionLevel { STANDARD, ADVANCED }
     enum NetworkType { TESTNET, MAINNET }
@@ -192,6 +275,8 @@ contract EncryptedPreferencesRegistry is IEncryptedPreferencesRegistry {
     event WalletKeyUpdated(address indexed user, uint256 pub_key, uint256 version, uint64 timestamp);
     event SocialVerificationUpdated(address indexed user, bool x_verified, uint64 timestamp);
     event AccountDeleted(address indexed user, uint256 setting, uint64 timestamp);
+    event SessionKeyRegistered(address indexed user, address indexed key, uint64 valid_until);
+    event SessionKeyRevoked(address indexed user, address indexed key);
 
     // Mimique “Upgradeable”
     event Upgraded(address indexed newImplementation);
@@ -224,6 +309,9 @@ contract EncryptedPreferencesRegistry is IEncryptedPreferencesRegistry {
 
     mapping(address => uint64) private users_last_updated;
 
+    // user => session key => valid_until (0 = pas de session)
+    mapping(address => mapping(address => uint64)) private users_session_keys;
+
     // “Upgradeable” target (mimique)
     address public implementationTarget;
 
@@ -231,7 +319,7 @@ contract EncryptedPreferencesRegistry is IEncryptedPreferencesRegistry {
                                Constructor
     //////////////////////////////////////////////////////////////*/
 
-    constructor(address _owner, address _mediolano_app) {
+    constructor(address _owner, address _mediolano_app) EIP712("EncryptedPreferencesRegistry", "1") {
         owner = _owner;
         mediolano_app = _mediolano_app;
 
@@ -248,13 +336,35 @@ contract EncryptedPreferencesRegistry is IEncryptedPreferencesRegistry {
         require(authorized_apps[caller], "Unauthorized caller");
     }
 
-    function _verify_settings_update(address caller, uint64 timestamp) internal {
+    /// Vérifie la fenêtre de timestamp puis la signature EIP-712 de l'opération `typehash`.
+    /// `fields` = abi.encode des champs entre `user` et `timestamp` (tous statiques, donc
+    /// la concaténation équivaut à encodeData). Consomme le nonce de `user`.
+    function _verify_settings_update(
+        address user,
+        uint64 timestamp,
+        bytes32 typehash,
+        bytes memory fields,
+        bytes calldata signature
+    ) internal {
         uint64 nowTs = uint64(block.timestamp);
         require(
             timestamp <= nowTs + TIME_WINDOW && timestamp + TIME_WINDOW >= nowTs,
             "Invalid timestamp"
         );
-        users_last_updated[caller] = timestamp;
+
+        bytes32 structHash = keccak256(
+            bytes.concat(abi.encode(typehash, user), fields, abi.encode(timestamp, _useNonce(user)))
+        );
+        require(_isValidSigner(user, _hashTypedDataV4(structHash), signature), "Invalid signature");
+        users_last_updated[user] = timestamp;
+    }
+
+    function _isValidSigner(address user, bytes32 digest, bytes calldata signature) internal view returns (bool) {
+        if (SignatureChecker.isValidSignatureNow(user, digest, signature)) return true;
+
+        (address signer, ECDSA.RecoverError err, ) = ECDSA.tryRecover(digest, signature);
+        if (err != ECDSA.RecoverError.NoError) return false;
+        return users_session_keys[user][signer] >= block.timestamp;
     }
 
     // ---- Hash helpers (Poseidon → keccak256) ----
@@ -346,64 +456,94 @@ contract EncryptedPreferencesRegistry is IEncryptedPreferencesRegistry {
     //////////////////////////////////////////////////////////////*/
 
     function store_account_details(
+        address user,
         uint256 name,
         uint256 email,
         uint256 username,
-        uint64 timestamp
+        uint64 timestamp,
+        bytes calldata signature
     ) external override {
-        address caller = msg.sender;
-        _assertAuthorized(caller);
-        _verify_settings_update(caller, timestamp);
+        _assertAuthorized(msg.sender);
+        _verify_settings_update(
+            user,
+            timestamp,
+            STORE_ACCOUNT_DETAILS_TYPEHASH,
+            abi.encode(name, email, username),
+            signature
+        );
 
-        users_account_settings[caller] = AccountSetting(name, email, username);
-        emit SettingUpdated(caller, uint256(keccak256("account_details")), uint64(block.timestamp));
+        users_account_settings[user] = AccountSetting(name, email, username);
+        emit SettingUpdated(user, uint256(keccak256("account_details")), uint64(block.timestamp));
     }
 
     function update_account_details(
+        address user,
         uint256 nameOrNone,
         uint256 emailOrNone,
         uint256 usernameOrNone,
-        uint64 timestamp
+        uint64 timestamp,
+        bytes calldata signature
     ) external override {
-        address caller = msg.sender;
-        _assertAuthorized(caller);
+        _assertAuthorized(msg.sender);
+
+        _verify_settings_update(
+            user,
+            timestamp,
+            UPDATE_ACCOUNT_DETAILS_TYPEHASH,
+            abi.encode(nameOrNone, emailOrNone, usernameOrNone),
+            signature
+        );
 
-        AccountSetting memory cur = users_account_settings[caller];
+        AccountSetting memory cur = users_account_settings[user];
 
         uint256 newName = (nameOrNone == NONE_U256) ? cur.name : nameOrNone;
         uint256 newEmail = (emailOrNone == NONE_U256) ? cur.email : emailOrNone;
         uint256 newUser = (usernameOrNone == NONE_U256) ? cur.username : usernameOrNone;
 
-        _verify_settings_update(caller, timestamp);
-
-        users_account_settings[caller] = AccountSetting(newName, newEmail, newUser);
-        emit SettingUpdated(caller, uint256(keccak256("account_details")), uint64(block.timestamp));
+        users_account_settings[user] = AccountSetting(newName, newEmail, newUser);
+        emit SettingUpdated(user, uint256(keccak256("account_details")), uint64(block.timestamp));
     }
 
     function store_ip_management_settings(
+        address user,
         uint8 protection_level,
         bool automatic_ip_registration,
-        uint64 timestamp
+        uint64 timestamp,
+        bytes calldata signature
     ) external override {
-        address caller = msg.sender;
-        _assertAuthorized(caller);
+        _assertAuthorized(msg.sender);
         require(protection_level == 0 || protection_level == 1, "Invalid Protection Level");
 
-        _verify_settings_update(caller, timestamp);
+        _verify_settings_update(
+            user,
+            timestamp,
+            STORE_IP_SETTINGS_TYPEHASH,
+            abi.encode(protection_level, automatic_ip_registration),
+            signature
+        );
 
-        users_ip_settings[caller] = IPSettings(_fromU8_IP(protection_level), automatic_ip_registration);
-        emit SettingUpdated(caller, uint256(keccak256("ip_settings")), uint64(block.timestamp));
+        users_ip_settings[user] = IPSettings(_fromU8_IP(protection_level), automatic_ip_registration);
+        emit SettingUpdated(user, uint256(keccak256("ip_settings")), uint64(block.timestamp));
     }
 
     function update_ip_management_settings(
+        address user,
         uint8 protection_levelOrNone,
         uint8 automatic_ip_registration3,
-        uint64 timestamp
+        uint64 timestamp,
+        bytes calldata signature
     ) external override {
-        address caller = msg.sender;
-        _assertAuthorized(caller);
+        _assertAuthorized(msg.sender);
+
+        _verify_settings_update(
+            user,
+            timestamp,
+            UPDATE_IP_SETTINGS_TYPEHASH,
+            abi.encode(protection_levelOrNone, automatic_ip_registration3),
+            signature
+        );
 
-        IPSettings memory cur = users_ip_settings[caller];
+        IPSettings memory cur = users_ip_settings[user];
 
         IPProtectionLevel newLevel = cur.ip_protection_level;
         if (protection_levelOrNone != NONE_U8) {
@@ -413,111 +553,141 @@ contract EncryptedPreferencesRegistry is IEncryptedPreferencesRegistry {
 
         bool newAuto = _applyTriBool(cur.automatic_ip_registration, automatic_ip_registration3);
 
-        _verify_settings_update(caller, timestamp);
-
-        users_ip_settings[caller] = IPSettings(newLevel, newAuto);
-        emit SettingUpdated(caller, uint256(keccak256("ip_settings")), uint64(block.timestamp));
+        users_ip_settings[user] = IPSettings(newLevel, newAuto);
+        emit SettingUpdated(user, uint256(keccak256("ip_settings")), uint64(block.timestamp));
     }
 
     function store_notification_settings(
+        address user,
         bool enable_notifications,
         bool ip_updates,
         bool blockchain_events,
         bool account_activity,
-        uint64 timestamp
+        uint64 timestamp,
+        bytes calldata signature
     ) external override {
-        address caller = msg.sender;
-        _assertAuthorized(caller);
-        _verify_settings_update(caller, timestamp);
+        _assertAuthorized(msg.sender);
+        _verify_settings_update(
+            user,
+            timestamp,
+            STORE_NOTIFICATION_SETTINGS_TYPEHASH,
+            abi.encode(enable_notifications, ip_updates, blockchain_events, account_activity),
+            signature
+        );
 
-        users_notification_settings[caller] = NotificationSettings(
+        users_notification_settings[user] = NotificationSettings(
             enable_notifications, ip_updates, blockchain_events, account_activity
         );
-        emit SettingUpdated(caller, uint256(keccak256("notification_settings")), uint64(block.timestamp));
+        emit SettingUpdated(user, uint256(keccak256("notification_settings")), uint64(block.timestamp));
     }
 
     function update_notification_settings(
+        address user,
         uint8 enable_notifications3,
         uint8 ip_updates3,
         uint8 blockchain_events3,
         uint8 account_activity3,
-        uint64 timestamp
+        uint64 timestamp,
+        bytes calldata signature
     ) external override {
-        address caller = msg.sender;
-        _assertAuthorized(caller);
+        _assertAuthorized(msg.sender);
+
+        _verify_settings_update(
+            user,
+            timestamp,
+            UPDATE_NOTIFICATION_SETTINGS_TYPEHASH,
+            abi.encode(enable_notifications3, ip_updates3, blockchain_events3, account_activity3),
+            signature
+        );
 
-        NotificationSettings memory cur = users_notification_settings[caller];
+        NotificationSettings memory cur = users_notification_settings[user];
 
         bool newEnabled = _applyTriBool(cur.enabled, enable_notifications3);
         bool newIpUpd   = _applyTriBool(cur.ip_updates, ip_updates3);
         bool newChain   = _applyTriBool(cur.blockchain_events, blockchain_events3);
         bool newAct     = _applyTriBool(cur.account_activity, account_activity3);
 
-        _verify_settings_update(caller, timestamp);
-
-        users_notification_settings[caller] = NotificationSettings(newEnabled, newIpUpd, newChain, newAct);
-        emit SettingUpdated(caller, uint256(keccak256("notification_settings")), uint64(block.timestamp));
+        users_notification_settings[user] = NotificationSettings(newEnabled, newIpUpd, newChain, newAct);
+        emit SettingUpdated(user, uint256(keccak256("notification_settings")), uint64(block.timestamp));
     }
 
     function store_security_settings(
+        address user,
         uint256 password,
-        uint64 timestamp
+        uint64 timestamp,
+        bytes calldata signature
     ) external override {
-        address caller = msg.sender;
-        _assertAuthorized(caller);
+        _assertAuthorized(msg.sender);
 
         // Hash (Cairo Poseidon → keccak)
-        uint256 hashed = uint256(keccak256(abi.encodePacked(password, timestamp, caller)));
+        uint256 hashed = uint256(keccak256(abi.encodePacked(password, timestamp, user)));
 
-        _verify_settings_update(caller, timestamp);
+        _verify_settings_update(user, timestamp, STORE_SECURITY_SETTINGS_TYPEHASH, abi.encode(password), signature);
 
-        users_security_settings[caller] = Security(false, hashed);
-        emit SettingUpdated(caller, uint256(keccak256("security_settings")), uint64(block.timestamp));
+        users_security_settings[user] = Security(false, hashed);
+        emit SettingUpdated(user, uint256(keccak256("security_settings")), uint64(block.timestamp));
     }
 
     function update_security_settings(
+        address user,
         uint256 password,
-        uint64 timestamp
+        uint64 timestamp,
+        bytes calldata signature
     ) external override {
-        address caller = msg.sender;
-        _assertAuthorized(caller);
+        _assertAuthorized(msg.sender);
 
-        _verify_settings_update(caller, timestamp);
+        _verify_settings_update(user, timestamp, UPDATE_SECURITY_SETTINGS_TYPEHASH, abi.encode(password), signature);
 
-        Security memory cur = users_security_settings[caller];
-        uint256 hashed = uint256(keccak256(abi.encodePacked(password, caller)));
-        users_security_settings[caller] = Security(cur.two_factor_authentication, hashed);
+        Security memory cur = users_security_settings[user];
+        uint256 hashed = uint256(keccak256(abi.encodePacked(password, user)));
+        users_security_settings[user] = Security(cur.two_factor_authentication, hashed);
 
-        emit SettingUpdated(caller, uint256(keccak256("security_settings")), uint64(block.timestamp));
+        emit SettingUpdated(user, uint256(keccak256("security_settings")), uint64(block.timestamp));
     }
 
     function store_network_settings(
+        address user,
         uint8 network_type,
         uint8 gas_price_preference,
-        uint64 timestamp
+        uint64 timestamp,
+        bytes calldata signature
     ) external override {
-        address caller = msg.sender;
-        _assertAuthorized(caller);
+        _assertAuthorized(msg.sender);
         require(network_type <= 1, "Invalid Network Type");
         require(gas_price_preference <= 2, "Invalid Gas Price Preference");
 
-        _verify_settings_update(caller, timestamp);
+        _verify_settings_update(
+            user,
+            timestamp,
+            STORE_NETWORK_SETTINGS_TYPEHASH,
+            abi.encode(network_type, gas_price_preference),
+            signature
+        );
 
-        users_network_settings[caller] =
+        users_network_settings[user] =
             NetworkSettings(_fromU8_NetworkType(network_type), _fromU8_Gas(gas_price_preference));
 
-        emit SettingUpdated(caller, uint256(keccak256("network_settings")), uint64(block.timestamp));
+        emit SettingUpdated(user, uint256(keccak256("network_settings")), uint64(block.timestamp));
     }
 
     function update_network_settings(
+        address user,
         uint8 network_typeOrNone,
         uint8 gas_price_preferenceOrNone,
-        uint64 timestamp
+        uint64 timestamp,
+        bytes calldata signature
     ) external override {
-        address caller = msg.sender;
-        _assertAuthorized(caller);
+        _assertAuthorized(msg.sender);
+
+        _verify_settings_update(
+            user,
+            timestamp,
+            UPDATE_NETWORK_SETTINGS_TYPEHASH,
+            abi.encode(network_typeOrNone, gas_price_preferenceOrNone),
+            signature
+        );
 
-        NetworkSettings memory cur = users_network_settings[caller];
+        NetworkSettings memory cur = users_network_settings[user];
 
         NetworkType ntype = cur.network_type;
         if (network_typeOrNone != NONE_U8) {
@@ -531,93 +701,126 @@ contract EncryptedPreferencesRegistry is IEncryptedPreferencesRegistry {
             gpp = _fromU8_Gas(gas_price_preferenceOrNone);
         }
 
-        _verify_settings_update(caller, timestamp);
-
-        users_network_settings[caller] = NetworkSettings(ntype, gpp);
-        emit SettingUpdated(caller, uint256(keccak256("network_settings")), uint64(block.timestamp));
+        users_network_settings[user] = NetworkSettings(ntype, gpp);
+        emit SettingUpdated(user, uint256(keccak256("network_settings")), uint64(block.timestamp));
     }
 
     function store_advanced_settings(
+        address user,
         uint256 api_key,
-        uint64 timestamp
+        uint64 timestamp,
+        bytes calldata signature
     ) external override {
-        address caller = msg.sender;
-        _assertAuthorized(caller);
+        _assertAuthorized(msg.sender);
 
-        _verify_settings_update(caller, timestamp);
+        _verify_settings_update(user, timestamp, STORE_ADVANCED_SETTINGS_TYPEHASH, abi.encode(api_key), signature);
 
-        AdvancedSettings memory cur = users_advanced_settings[caller];
-        users_advanced_settings[caller] = AdvancedSettings(api_key, cur.data_retention);
+        AdvancedSettings memory cur = users_advanced_settings[user];
+        users_advanced_settings[user] = AdvancedSettings(api_key, cur.data_retention);
 
-        emit SettingUpdated(caller, uint256(keccak256("advanced_settings")), uint64(block.timestamp));
+        emit SettingUpdated(user, uint256(keccak256("advanced_settings")), uint64(block.timestamp));
     }
 
     function store_X_verification(
+        address user,
         bool x_verified,
         uint64 timestamp,
-        uint256 handler
+        uint256 handler,
+        bytes calldata signature
     ) external override {
-        address caller = msg.sender;
-        _assertAuthorized(caller);
-
-        _verify_settings_update(caller, timestamp);
+        _assertAuthorized(msg.sender);
+
+        _verify_settings_update(
+            user,
+            timestamp,
+            STORE_X_VERIFICATION_TYPEHASH,
+            abi.encode(x_verified, handler),
+            signature
+        );
 
-        SocialVerification memory cur = users_social_verification[caller];
+        SocialVerification memory cur = users_social_verification[user];
 
         // NB: Cairo set is_verified := true quoiqu'on passe; on reproduit le comportement.
-        XVerification memory xv = XVerification(true, handler, caller);
+        XVerification memory xv = XVerification(true, handler, user);
 
-        users_social_verification[caller] = SocialVerification(
+        users_social_verification[user] = SocialVerification(
             xv,
             cur.facebook_verification_status
         );
 
-        emit SocialVerificationUpdated(caller, x_verified, uint64(block.timestamp));
+        emit SocialVerificationUpdated(user, x_verified, uint64(block.timestamp));
     }
 
     function regenerate_api_key(
-        uint64 timestamp
+        address user,
+        uint64 timestamp,
+        bytes calldata signature
     ) external override returns (uint256) {
-        address caller = msg.sender;
-        _assertAuthorized(caller);
+        _assertAuthorized(msg.sender);
 
-        _verify_settings_update(caller, timestamp);
+        _verify_settings_update(user, timestamp, REGENERATE_API_KEY_TYPEHASH, "", signature);
 
-        AdvancedSettings memory cur = users_advanced_settings[caller];
-        // Nouveau API key = keccak(caller, timestamp, ancien api_key)
-        uint256 newKey = uint256(keccak256(abi.encodePacked(caller, timestamp, cur.api_key)));
+        AdvancedSettings memory cur = users_advanced_settings[user];
+        // Nouveau API key = keccak(user, timestamp, ancien api_key)
+        uint256 newKey = uint256(keccak256(abi.encodePacked(user, timestamp, cur.api_key)));
         cur.api_key = newKey;
-        users_advanced_settings[caller] = cur;
+        users_advanced_settings[user] = cur;
 
-        emit SettingUpdated(caller, uint256(keccak256("advanced_settings")), uint64(block.timestamp));
+        emit SettingUpdated(user, uint256(keccak256("advanced_settings")), uint64(block.timestamp));
         return newKey;
     }
 
-    function delete_account(uint64 timestamp) external override {
-        address caller = msg.sender;
-        _assertAuthorized(caller);
+    function delete_account(address user, uint64 timestamp, bytes calldata signature) external override {
+        _assertAuthorized(msg.sender);
 
-        _verify_settings_update(caller, timestamp);
+        _verify_settings_update(user, timestamp, DELETE_ACCOUNT_TYPEHASH, "", signature);
 
         // reset “par défaut” (zéros)
-        delete users_account_settings[caller];
-        delete users_notification_settings[caller];
-        delete users_ip_settings[caller];
-        delete users_security_settings[caller];
-        delete users_advanced_settings[caller];
-        delete users_network_settings[caller];
+        delete users_account_settings[user];
+        delete users_notification_settings[user];
+        delete users_ip_settings[user];
+        delete users_security_settings[user];
+        delete users_advanced_settings[user];
+        delete users_network_settings[user];
 
         XVerification memory xv = XVerification(false, 0, address(0));
         FacebookVerification memory fbv = FacebookVerification(false, 0, address(0));
-        users_social_verification[caller] = SocialVerification(xv, fbv);
+        users_social_verification[user] = SocialVerification(xv, fbv);
+
+        emit AccountDeleted(user, uint256(keccak256("account_deleted")), uint64(block.timestamp));
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                        Session keys — appelées par le compte
+    //////////////////////////////////////////////////////////////*/
+
+    function register_session_key(address key, uint64 valid_until) external override {
+        require(key != address(0), "Invalid session key");
+        require(valid_until > block.timestamp, "Invalid expiry");
+
+        users_session_keys[msg.sender][key] = valid_until;
+        emit SessionKeyRegistered(msg.sender, key, valid_until);
+    }
+
+    function revoke_session_key(address key) external override {
+        require(users_session_keys[msg.sender][key] != 0, "Unknown session key");
 
-        emit AccountDeleted(caller, uint256(keccak256("account_deleted")), uint64(block.timestamp));
+        delete users_session_keys[msg.sender][key];
+        emit SessionKeyRevoked(msg.sender, key);
     }
 
     /*//////////////////////////////////////////////////////////////
                                External (read)
     //////////////////////////////////////////////////////////////*/
 
+    function nonces(address user) public view override(IEncryptedPreferencesRegistry, Nonces) returns (uint256) {
+        return super.nonces(user);
+    }
+
+    function get_session_key(address user, address key) external view override returns (uint64) {
+        return users_session_keys[user][key];
+    }
+
     function get_account_settings(address user) external view override returns (uint256, uint256, uint256) {
         AccountSetting memory s = users_account_settings[user];
         return (s.name, s.email, s.username);
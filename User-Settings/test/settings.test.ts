@@ -1,6 +1,7 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { keccak256, toUtf8Bytes } from "ethers";
+import { keccak256, toUtf8Bytes, Signer } from "ethers";
+import { signSettingsUpdate, SettingsPrimaryType, SettingsValues } from "../utils/settingsSigner";
 
 const NONE_U256 = (1n << 256n) - 1n; // sentinelle "None" pour uint256
 const NONE_U8 = 255;
@@ -14,27 +15,46 @@ async function setNextTimestamp(ts: number) {
   await ethers.provider.send("evm_mine", []);
 }
 
+// "maintenant" côté chaîne: toujours > dernier bloc, même si un test a avancé le temps
+async function chainNow() {
+  const block = await ethers.provider.getBlock("latest");
+  return Math.max(Math.floor(Date.now() / 1000), block!.timestamp + 1);
+}
+
 describe("EncryptedPreferencesRegistry", () => {
   async function deploy() {
-    const [owner, mediolano, stranger] = await ethers.getSigners();
+    const [owner, mediolano, stranger, alice] = await ethers.getSigners();
     const F = await ethers.getContractFactory("EncryptedPreferencesRegistry");
     const c = await F.deploy(owner.address, mediolano.address);
     await c.waitForDeployment();
-    return { c, owner, mediolano, stranger };
+    return { c, owner, mediolano, stranger, alice };
+  }
+
+  // signature EIP-712 de `signer` pour le compte `user` (par défaut: lui-même)
+  async function sign(
+    c: any,
+    signer: Signer,
+    primaryType: SettingsPrimaryType,
+    values: SettingsValues,
+    user?: string
+  ) {
+    return signSettingsUpdate(signer, c, primaryType, user ?? (await signer.getAddress()), values);
   }
 
   it("store + update account details", async () => {
     const { c, owner } = await deploy();
 
-    const now = Math.floor(Date.now() / 1000);
+    const now = await chainNow();
     await setNextTimestamp(now);
 
     await expect(
       c.connect(owner).store_account_details(
+        owner.address,
         123n, // name
         456n, // email
         789n, // username
-        now
+        now,
+        await sign(c, owner, "StoreAccountDetails", { name: 123n, email: 456n, username: 789n, timestamp: now })
       )
     ).to.emit(c, "SettingUpdated");
 
@@ -45,7 +65,10 @@ describe("EncryptedPreferencesRegistry", () => {
 
     // update: ne change que name, le reste "None"
     await expect(
-      c.connect(owner).update_account_details(999n, NONE_U256, NONE_U256, now)
+      c.connect(owner).update_account_details(
+        owner.address, 999n, NONE_U256, NONE_U256, now,
+        await sign(c, owner, "UpdateAccountDetails", { name: 999n, email: NONE_U256, username: NONE_U256, timestamp: now })
+      )
     ).to.emit(c, "SettingUpdated");
 
     [name, email, username] = await c.get_account_settings(owner.address);
@@ -57,13 +80,16 @@ describe("EncryptedPreferencesRegistry", () => {
   it("store + update IP management settings", async () => {
     const { c, owner } = await deploy();
 
-    const now = Math.floor(Date.now() / 1000);
+    const now = await chainNow();
     await setNextTimestamp(now);
 
     // protection_level: 0 (STANDARD), auto: true
     await c
       .connect(owner)
-      .store_ip_management_settings(0, true, now);
+      .store_ip_management_settings(
+        owner.address, 0, true, now,
+        await sign(c, owner, "StoreIPManagementSettings", { protection_level: 0, automatic_ip_registration: true, timestamp: now })
+      );
 
     let [ipl, autoReg] = await c.get_ip_settings(owner.address);
     expect(ipl).to.equal(0); // STANDARD
@@ -72,7 +98,10 @@ describe("EncryptedPreferencesRegistry", () => {
     // update: set ADVANCED (1) et auto: false via tri-bool=0
     await c
       .connect(owner)
-      .update_ip_management_settings(1, TRIBOOL_FALSE, now);
+      .update_ip_management_settings(
+        owner.address, 1, TRIBOOL_FALSE, now,
+        await sign(c, owner, "UpdateIPManagementSettings", { protection_level: 1, automatic_ip_registration: TRIBOOL_FALSE, timestamp: now })
+      );
 
     [ipl, autoReg] = await c.get_ip_settings(owner.address);
     expect(ipl).to.equal(1); // ADVANCED
@@ -81,7 +110,10 @@ describe("EncryptedPreferencesRegistry", () => {
     // update partiel: ne change rien (NONE_U8 + TRIBOOL_NONE)
     await c
       .connect(owner)
-      .update_ip_management_settings(NONE_U8, TRIBOOL_NONE, now);
+      .update_ip_management_settings(
+        owner.address, NONE_U8, TRIBOOL_NONE, now,
+        await sign(c, owner, "UpdateIPManagementSettings", { protection_level: NONE_U8, automatic_ip_registration: TRIBOOL_NONE, timestamp: now })
+      );
 
     [ipl, autoReg] = await c.get_ip_settings(owner.address);
     expect(ipl).to.equal(1);
@@ -90,12 +122,17 @@ describe("EncryptedPreferencesRegistry", () => {
 
   it("store + update notification settings", async () => {
     const { c, owner } = await deploy();
-    const now = Math.floor(Date.now() / 1000);
+    const now = await chainNow();
     await setNextTimestamp(now);
 
     await c
       .connect(owner)
-      .store_notification_settings(true, true, true, true, now);
+      .store_notification_settings(
+        owner.address, true, true, true, true, now,
+        await sign(c, owner, "StoreNotificationSettings", {
+          enable_notifications: true, ip_updates: true, blockchain_events: true, account_activity: true, timestamp: now,
+        })
+      );
 
     let [enabled, ipu, chain, act] = await c.get_notification_settings(owner.address);
     expect(enabled).to.equal(true);
@@ -104,7 +141,12 @@ describe("EncryptedPreferencesRegistry", () => {
     // update: flip blockchain_events -> false, autres inchangés via tri-bool
     await c
       .connect(owner)
-      .update_notification_settings(TRIBOOL_TRUE, TRIBOOL_TRUE, TRIBOOL_FALSE, TRIBOOL_TRUE, now);
+      .update_notification_settings(
+        owner.address, TRIBOOL_TRUE, TRIBOOL_TRUE, TRIBOOL_FALSE, TRIBOOL_TRUE, now,
+        await sign(c, owner, "UpdateNotificationSettings", {
+          enable_notifications: TRIBOOL_TRUE, ip_updates: TRIBOOL_TRUE, blockchain_events: TRIBOOL_FALSE, account_activity: TRIBOOL_TRUE, timestamp: now,
+        })
+      );
 
     [enabled, ipu, chain, act] = await c.get_notification_settings(owner.address);
     expect(chain).to.equal(false);
@@ -112,11 +154,14 @@ describe("EncryptedPreferencesRegistry", () => {
 
   it("store + update security (hash en keccak)", async () => {
     const { c, owner } = await deploy();
-    const now = Math.floor(Date.now() / 1000);
+    const now = await chainNow();
     await setNextTimestamp(now);
 
     // store_security_settings: hash(password, timestamp, caller)
-    await c.connect(owner).store_security_settings(111n, now);
+    await c.connect(owner).store_security_settings(
+      owner.address, 111n, now,
+      await sign(c, owner, "StoreSecuritySettings", { password: 111n, timestamp: now })
+    );
     let [twofa, pwd] = await c.get_security_settings(owner.address);
     expect(twofa).to.equal(false);
     // pas trivial à recalculer côté test sans reproduire l'encodage exact;
@@ -124,7 +169,10 @@ describe("EncryptedPreferencesRegistry", () => {
     expect(pwd).to.not.equal(0n);
 
     // update_security_settings: hash(password, caller)
-    await c.connect(owner).update_security_settings(222n, now);
+    await c.connect(owner).update_security_settings(
+      owner.address, 222n, now,
+      await sign(c, owner, "UpdateSecuritySettings", { password: 222n, timestamp: now })
+    );
     const [, pwd2] = await c.get_security_settings(owner.address);
     expect(pwd2).to.not.equal(0n);
     expect(pwd2).to.not.equal(pwd);
@@ -132,11 +180,14 @@ describe("EncryptedPreferencesRegistry", () => {
 
   it("store + update network settings", async () => {
     const { c, owner } = await deploy();
-    const now = Math.floor(Date.now() / 1000);
+    const now = await chainNow();
     await setNextTimestamp(now);
 
     // 1 = MAINNET, 1 = MEDIUM
-    await c.connect(owner).store_network_settings(1, 1, now);
+    await c.connect(owner).store_network_settings(
+      owner.address, 1, 1, now,
+      await sign(c, owner, "StoreNetworkSettings", { network_type: 1, gas_price_preference: 1, timestamp: now })
+    );
     let [ntype, gas] = await c.get_network_settings(owner.address);
     expect(ntype).to.equal(1);
     expect(gas).to.equal(1);
@@ -144,7 +195,10 @@ describe("EncryptedPreferencesRegistry", () => {
     // update -> TESTNET/LOW
     await c
       .connect(owner)
-      .update_network_settings(0, 0, now);
+      .update_network_settings(
+        owner.address, 0, 0, now,
+        await sign(c, owner, "UpdateNetworkSettings", { network_type: 0, gas_price_preference: 0, timestamp: now })
+      );
     [ntype, gas] = await c.get_network_settings(owner.address);
     expect(ntype).to.equal(0);
     expect(gas).to.equal(0);
@@ -152,7 +206,10 @@ describe("EncryptedPreferencesRegistry", () => {
     // update partiel: rien ne change
     await c
       .connect(owner)
-      .update_network_settings(NONE_U8, NONE_U8, now);
+      .update_network_settings(
+        owner.address, NONE_U8, NONE_U8, now,
+        await sign(c, owner, "UpdateNetworkSettings", { network_type: NONE_U8, gas_price_preference: NONE_U8, timestamp: now })
+      );
     [ntype, gas] = await c.get_network_settings(owner.address);
     expect(ntype).to.equal(0);
     expect(gas).to.equal(0);
@@ -160,17 +217,22 @@ describe("EncryptedPreferencesRegistry", () => {
 
   it("store advanced settings + regenerate api key", async () => {
     const { c, owner } = await deploy();
-    const now = Math.floor(Date.now() / 1000);
+    const now = await chainNow();
     await setNextTimestamp(now);
 
-    await c.connect(owner).store_advanced_settings(555n, now);
+    await c.connect(owner).store_advanced_settings(
+      owner.address, 555n, now,
+      await sign(c, owner, "StoreAdvancedSettings", { api_key: 555n, timestamp: now })
+    );
     let [apiKey, dataRetention] = await c.get_advanced_settings(owner.address);
     expect(apiKey).to.equal(555n);
     expect(dataRetention).to.equal(0);
 
-    const newKey = await c.connect(owner).regenerate_api_key(now);
-    const receipt = await newKey.wait();
-    const returned = receipt!.logs[0]?.args?.[0] ?? undefined; // ignore; on relira via getter
+    const newKey = await c.connect(owner).regenerate_api_key(
+      owner.address, now,
+      await sign(c, owner, "RegenerateApiKey", { timestamp: now })
+    );
+    await newKey.wait(); // la nouvelle clé est relue via le getter
 
     [apiKey] = await c.get_advanced_settings(owner.address);
     expect(apiKey).to.not.equal(555n);
@@ -178,11 +240,14 @@ describe("EncryptedPreferencesRegistry", () => {
 
   it("store x verification", async () => {
     const { c, owner } = await deploy();
-    const now = Math.floor(Date.now() / 1000);
+    const now = await chainNow();
     await setNextTimestamp(now);
 
     await expect(
-      c.connect(owner).store_X_verification(true, now, 777n)
+      c.connect(owner).store_X_verification(
+        owner.address, true, now, 777n,
+        await sign(c, owner, "StoreXVerification", { x_verified: true, handler: 777n, timestamp: now })
+      )
     ).to.emit(c, "SocialVerificationUpdated");
 
     const [xVerified, xHandler, xAddr] = (await c.get_social_verification(owner.address)).slice(0, 3);
@@ -193,11 +258,17 @@ describe("EncryptedPreferencesRegistry", () => {
 
   it("delete account resets data", async () => {
     const { c, owner } = await deploy();
-    const now = Math.floor(Date.now() / 1000);
+    const now = await chainNow();
     await setNextTimestamp(now);
 
-    await c.connect(owner).store_account_details(1n, 2n, 3n, now);
-    await c.connect(owner).delete_account(now);
+    await c.connect(owner).store_account_details(
+      owner.address, 1n, 2n, 3n, now,
+      await sign(c, owner, "StoreAccountDetails", { name: 1n, email: 2n, username: 3n, timestamp: now })
+    );
+    await c.connect(owner).delete_account(
+      owner.address, now,
+      await sign(c, owner, "DeleteAccount", { timestamp: now })
+    );
 
     const [name, email, username] = await c.get_account_settings(owner.address);
     expect(name).to.equal(0n);
@@ -207,53 +278,71 @@ describe("EncryptedPreferencesRegistry", () => {
 
   it("reverts for unauthorized sender", async () => {
     const { c, stranger } = await deploy();
-    const now = Math.floor(Date.now() / 1000);
+    const now = await chainNow();
     await setNextTimestamp(now);
 
     await expect(
-      c.connect(stranger).store_account_details(1n, 2n, 3n, now)
+      c.connect(stranger).store_account_details(
+        stranger.address, 1n, 2n, 3n, now,
+        await sign(c, stranger, "StoreAccountDetails", { name: 1n, email: 2n, username: 3n, timestamp: now })
+      )
     ).to.be.revertedWith("Unauthorized caller");
   });
 
   it("timestamp validation window (+/- 300s)", async () => {
     const { c, owner } = await deploy();
-    const now = Math.floor(Date.now() / 1000);
+    const now = await chainNow();
 
     // future > +300
     await setNextTimestamp(now);
     await expect(
-      c.connect(owner).store_account_details(1n, 2n, 3n, now + 600)
+      c.connect(owner).store_account_details(
+        owner.address, 1n, 2n, 3n, now + 600,
+        await sign(c, owner, "StoreAccountDetails", { name: 1n, email: 2n, username: 3n, timestamp: now + 600 })
+      )
     ).to.be.revertedWith("Invalid timestamp");
 
     // past < -300
     await expect(
-      c.connect(owner).store_account_details(1n, 2n, 3n, now - 600)
+      c.connect(owner).store_account_details(
+        owner.address, 1n, 2n, 3n, now - 600,
+        await sign(c, owner, "StoreAccountDetails", { name: 1n, email: 2n, username: 3n, timestamp: now - 600 })
+      )
     ).to.be.revertedWith("Invalid timestamp");
 
     // inside window OK
     await expect(
-      c.connect(owner).store_account_details(1n, 2n, 3n, now)
+      c.connect(owner).store_account_details(
+        owner.address, 1n, 2n, 3n, now,
+        await sign(c, owner, "StoreAccountDetails", { name: 1n, email: 2n, username: 3n, timestamp: now })
+      )
     ).to.emit(c, "SettingUpdated");
   });
 
   it("invalid protection level reverts", async () => {
     const { c, owner } = await deploy();
-    const now = Math.floor(Date.now() / 1000);
+    const now = await chainNow();
     await setNextTimestamp(now);
 
     await expect(
-      c.connect(owner).store_ip_management_settings(2, true, now)
+      c.connect(owner).store_ip_management_settings(
+        owner.address, 2, true, now,
+        await sign(c, owner, "StoreIPManagementSettings", { protection_level: 2, automatic_ip_registration: true, timestamp: now })
+      )
     ).to.be.revertedWith("Invalid Protection Level");
   });
 
   it("emits SettingUpdated with correct topic for account_details", async () => {
     const { c, owner } = await deploy();
-    const now = Math.floor(Date.now() / 1000);
+    const now = await chainNow();
     await setNextTimestamp(now);
 
     const settingType = keccak256(toUtf8Bytes("account_details"));
     await expect(
-      c.connect(owner).store_account_details(10n, 20n, 30n, now)
+      c.connect(owner).store_account_details(
+        owner.address, 10n, 20n, 30n, now,
+        await sign(c, owner, "StoreAccountDetails", { name: 10n, email: 20n, username: 30n, timestamp: now })
+      )
     )
       .to.emit(c, "SettingUpdated")
       .withArgs(owner.address, settingType, await timestampNearNow());
@@ -261,20 +350,151 @@ describe("EncryptedPreferencesRegistry", () => {
 
   it("storage consistency (read back)", async () => {
     const { c, owner } = await deploy();
-    const now = Math.floor(Date.now() / 1000);
+    const now = await chainNow();
     await setNextTimestamp(now);
 
-    await c.connect(owner).store_account_details(111n, 222n, 333n, now);
+    await c.connect(owner).store_account_details(
+      owner.address, 111n, 222n, 333n, now,
+      await sign(c, owner, "StoreAccountDetails", { name: 111n, email: 222n, username: 333n, timestamp: now })
+    );
     const [n, e, u] = await c.get_account_settings(owner.address);
     expect(n).to.equal(111n);
     expect(e).to.equal(222n);
     expect(u).to.equal(333n);
   });
+
+  it("relayer autorisé soumet pour un utilisateur (signature EIP-712)", async () => {
+    const { c, mediolano, alice } = await deploy();
+    const now = await chainNow();
+    await setNextTimestamp(now);
+
+    const sig = await sign(c, alice, "StoreAccountDetails", { name: 1n, email: 2n, username: 3n, timestamp: now });
+    await expect(c.connect(mediolano).store_account_details(alice.address, 1n, 2n, 3n, now, sig))
+      .to.emit(c, "SettingUpdated");
+
+    const [n, e, u] = await c.get_account_settings(alice.address);
+    expect([n, e, u]).to.deep.equal([1n, 2n, 3n]);
+    expect(await c.nonces(alice.address)).to.equal(1n);
+
+    // le relayer lui-même n'est pas touché
+    const [rn] = await c.get_account_settings(mediolano.address);
+    expect(rn).to.equal(0n);
+  });
+
+  it("replay: une signature déjà consommée est rejetée", async () => {
+    const { c, mediolano, alice } = await deploy();
+    const now = await chainNow();
+    await setNextTimestamp(now);
+
+    const sig = await sign(c, alice, "StoreAdvancedSettings", { api_key: 42n, timestamp: now });
+    await c.connect(mediolano).store_advanced_settings(alice.address, 42n, now, sig);
+
+    await expect(
+      c.connect(mediolano).store_advanced_settings(alice.address, 42n, now, sig)
+    ).to.be.revertedWith("Invalid signature");
+  });
+
+  it("replay: une signature ne vaut que pour son opération", async () => {
+    const { c, mediolano, alice } = await deploy();
+    const now = await chainNow();
+    await setNextTimestamp(now);
+
+    // mêmes champs, type différent (Store vs Update)
+    const sig = await sign(c, alice, "StoreSecuritySettings", { password: 7n, timestamp: now });
+    await expect(
+      c.connect(mediolano).update_security_settings(alice.address, 7n, now, sig)
+    ).to.be.revertedWith("Invalid signature");
+  });
+
+  it("expiry: signature hors fenêtre de 300s", async () => {
+    const { c, mediolano, alice } = await deploy();
+    const now = await chainNow();
+    await setNextTimestamp(now);
+
+    const sig = await sign(c, alice, "DeleteAccount", { timestamp: now });
+
+    // soumise trop tard
+    await setNextTimestamp(now + 301);
+    await expect(
+      c.connect(mediolano).delete_account(alice.address, now, sig)
+    ).to.be.revertedWith("Invalid timestamp");
+  });
+
+  it("wrong signer: signature d'un autre compte rejetée", async () => {
+    const { c, mediolano, stranger, alice } = await deploy();
+    const now = await chainNow();
+    await setNextTimestamp(now);
+
+    const sig = await sign(c, stranger, "StoreNetworkSettings", { network_type: 1, gas_price_preference: 2, timestamp: now }, alice.address);
+    await expect(
+      c.connect(mediolano).store_network_settings(alice.address, 1, 2, now, sig)
+    ).to.be.revertedWith("Invalid signature");
+
+    // valeurs modifiées après signature
+    const good = await sign(c, alice, "StoreNetworkSettings", { network_type: 1, gas_price_preference: 2, timestamp: now });
+    await expect(
+      c.connect(mediolano).store_network_settings(alice.address, 1, 1, now, good)
+    ).to.be.revertedWith("Invalid signature");
+  });
+
+  it("session key: valide jusqu'à expiry puis révocable", async () => {
+    const { c, mediolano, alice } = await deploy();
+    const now = await chainNow();
+    await setNextTimestamp(now);
+
+    const session = ethers.Wallet.createRandom().connect(ethers.provider);
+    await expect(c.connect(alice).register_session_key(session.address, now + 3600))
+      .to.emit(c, "SessionKeyRegistered")
+      .withArgs(alice.address, session.address, now + 3600);
+    expect(await c.get_session_key(alice.address, session.address)).to.equal(now + 3600);
+
+    const sig = await sign(c, session, "StoreXVerification", { x_verified: true, handler: 9n, timestamp: now }, alice.address);
+    await c.connect(mediolano).store_X_verification(alice.address, true, now, 9n, sig);
+    const [xVerified, xHandler, xAddr] = (await c.get_social_verification(alice.address)).slice(0, 3);
+    expect(xVerified).to.equal(true);
+    expect(xHandler).to.equal(9n);
+    expect(xAddr).to.equal(alice.address);
+
+    // session expirée
+    await setNextTimestamp(now + 3601);
+    const late = now + 3601;
+    const sigLate = await sign(c, session, "RegenerateApiKey", { timestamp: late }, alice.address);
+    await expect(
+      c.connect(mediolano).regenerate_api_key(alice.address, late, sigLate)
+    ).to.be.revertedWith("Invalid signature");
+
+    // session révoquée
+    await c.connect(alice).register_session_key(session.address, late + 3600);
+    await expect(c.connect(alice).revoke_session_key(session.address))
+      .to.emit(c, "SessionKeyRevoked")
+      .withArgs(alice.address, session.address);
+    const sigRevoked = await sign(c, session, "RegenerateApiKey", { timestamp: late }, alice.address);
+    await expect(
+      c.connect(mediolano).regenerate_api_key(alice.address, late, sigRevoked)
+    ).to.be.revertedWith("Invalid signature");
+  });
+
+  it("session key: enregistrement invalide", async () => {
+    const { c, alice } = await deploy();
+    const now = await chainNow();
+    await setNextTimestamp(now);
+
+    await expect(
+      c.connect(alice).register_session_key(ethers.ZeroAddress, now + 60)
+    ).to.be.revertedWith("Invalid session key");
+    await expect(
+      c.connect(alice).register_session_key(alice.address, now - 1)
+    ).to.be.revertedWith("Invalid expiry");
+    await expect(
+      c.connect(alice).revoke_session_key(alice.address)
+    ).to.be.revertedWith("Unknown session key");
+  });
 });
 
 // helper qui vérifie que le timestamp event est “proche de maintenant” (±10 min)
 // on renvoie un matcher "anyValue" pragmatique en lisant le block courant
 async function timestampNearNow() {
   const block = await ethers.provider.getBlock("latest");
-  return block!.timestamp;
+  const ref = BigInt(block!.timestamp);
+  return (ts: bigint) => ts >= ref - 600n && ts <= ref + 600n;
 }
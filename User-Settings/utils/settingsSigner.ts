@@ -0,0 +1,150 @@
+import type { TypedDataDomain, TypedDataField, Signer } from "ethers";
+
+// Doit rester aligné avec EIP712("EncryptedPreferencesRegistry", "1") dans Settings.sol
+export const SETTINGS_DOMAIN_NAME = "EncryptedPreferencesRegistry";
+export const SETTINGS_DOMAIN_VERSION = "1";
+
+// Un type EIP-712 par opération (mêmes chaînes que les *_TYPEHASH du contrat)
+export const SETTINGS_TYPES = {
+  StoreAccountDetails: [
+    { name: "user", type: "address" },
+    { name: "name", type: "uint256" },
+    { name: "email", type: "uint256" },
+    { name: "username", type: "uint256" },
+    { name: "timestamp", type: "uint64" },
+    { name: "nonce", type: "uint256" },
+  ],
+  UpdateAccountDetails: [
+    { name: "user", type: "address" },
+    { name: "name", type: "uint256" },
+    { name: "email", type: "uint256" },
+    { name: "username", type: "uint256" },
+    { name: "timestamp", type: "uint64" },
+    { name: "nonce", type: "uint256" },
+  ],
+  StoreIPManagementSettings: [
+    { name: "user", type: "address" },
+    { name: "protection_level", type: "uint8" },
+    { name: "automatic_ip_registration", type: "bool" },
+    { name: "timestamp", type: "uint64" },
+    { name: "nonce", type: "uint256" },
+  ],
+  UpdateIPManagementSettings: [
+    { name: "user", type: "address" },
+    { name: "protection_level", type: "uint8" },
+    { name: "automatic_ip_registration", type: "uint8" },
+    { name: "timestamp", type: "uint64" },
+    { name: "nonce", type: "uint256" },
+  ],
+  StoreNotificationSettings: [
+    { name: "user", type: "address" },
+    { name: "enable_notifications", type: "bool" },
+    { name: "ip_updates", type: "bool" },
+    { name: "blockchain_events", type: "bool" },
+    { name: "account_activity", type: "bool" },
+    { name: "timestamp", type: "uint64" },
+    { name: "nonce", type: "uint256" },
+  ],
+  UpdateNotificationSettings: [
+    { name: "user", type: "address" },
+    { name: "enable_notifications", type: "uint8" },
+    { name: "ip_updates", type: "uint8" },
+    { name: "blockchain_events", type: "uint8" },
+    { name: "account_activity", type: "uint8" },
+    { name: "timestamp", type: "uint64" },
+    { name: "nonce", type: "uint256" },
+  ],
+  StoreSecuritySettings: [
+    { name: "user", type: "address" },
+    { name: "password", type: "uint256" },
+    { name: "timestamp", type: "uint64" },
+    { name: "nonce", type: "uint256" },
+  ],
+  UpdateSecuritySettings: [
+    { name: "user", type: "address" },
+    { name: "password", type: "uint256" },
+    { name: "timestamp", type: "uint64" },
+    { name: "nonce", type: "uint256" },
+  ],
+  StoreNetworkSettings: [
+    { name: "user", type: "address" },
+    { name: "network_type", type: "uint8" },
+    { name: "gas_price_preference", type: "uint8" },
+    { name: "timestamp", type: "uint64" },
+    { name: "nonce", type: "uint256" },
+  ],
+  UpdateNetworkSettings: [
+    { name: "user", type: "address" },
+    { name: "network_type", type: "uint8" },
+    { name: "gas_price_preference", type: "uint8" },
+    { name: "timestamp", type: "uint64" },
+    { name: "nonce", type: "uint256" },
+  ],
+  StoreAdvancedSettings: [
+    { name: "user", type: "address" },
+    { name: "api_key", type: "uint256" },
+    { name: "timestamp", type: "uint64" },
+    { name: "nonce", type: "uint256" },
+  ],
+  StoreXVerification: [
+    { name: "user", type: "address" },
+    { name: "x_verified", type: "bool" },
+    { name: "handler", type: "uint256" },
+    { name: "timestamp", type: "uint64" },
+    { name: "nonce", type: "uint256" },
+  ],
+  RegenerateApiKey: [
+    { name: "user", type: "address" },
+    { name: "timestamp", type: "uint64" },
+    { name: "nonce", type: "uint256" },
+  ],
+  DeleteAccount: [
+    { name: "user", type: "address" },
+    { name: "timestamp", type: "uint64" },
+    { name: "nonce", type: "uint256" },
+  ],
+} as const satisfies Record<string, readonly TypedDataField[]>;
+
+export type SettingsPrimaryType = keyof typeof SETTINGS_TYPES;
+
+// Valeurs du message sans `user` / `nonce` (ajoutés par signSettingsUpdate)
+export type SettingsValues = Record<string, bigint | number | boolean>;
+
+// Sous-ensemble du contrat utilisé ici (évite la dépendance aux typechain-types)
+export interface SettingsRegistryLike {
+  getAddress(): Promise<string>;
+  nonces(user: string): Promise<bigint>;
+}
+
+export async function settingsDomain(
+  registry: SettingsRegistryLike,
+  chainId: bigint | number
+): Promise<TypedDataDomain> {
+  return {
+    name: SETTINGS_DOMAIN_NAME,
+    version: SETTINGS_DOMAIN_VERSION,
+    chainId,
+    verifyingContract: await registry.getAddress(),
+  };
+}
+
+// Signe une opération pour `user`. `signer` est le compte lui-même ou une session key
+// enregistrée via register_session_key. Le nonce est lu on-chain sauf s'il est fourni.
+export async function signSettingsUpdate(
+  signer: Signer,
+  registry: SettingsRegistryLike,
+  primaryType: SettingsPrimaryType,
+  user: string,
+  values: SettingsValues,
+  nonce?: bigint
+): Promise<string> {
+  const chainId = (await signer.provider!.getNetwork()).chainId;
+  const domain = await settingsDomain(registry, chainId);
+  const message = {
+    ...values,
+    user,
+    nonce: nonce ?? (await registry.nonces(user)),
+  };
+  const types = { [primaryType]: [...SETTINGS_TYPES[primaryType]] };
+  return signer.signTypedData(domain, types, message);
+}